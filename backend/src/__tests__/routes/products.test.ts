@@ -5,11 +5,13 @@ import adminRoutes from '../../routes/admin';
 import agencyRoutes from '../../routes/agency';
 import * as productService from '../../services/productService';
 import * as storageService from '../../services/storageService';
+import * as productImageService from '../../services/productImageService';
 import { generateToken } from '../../utils/jwt';
 
 // Mock the services
 jest.mock('../../services/productService');
 jest.mock('../../services/storageService');
+jest.mock('../../services/productImageService');
 
 const app = express();
 app.use(express.json());
@@ -55,6 +57,21 @@ describe('Product API Routes', () => {
     supplierName: 'Test Supplier',
   };
 
+  const pageOf = <T>(items: T[]) => ({
+    items,
+    pageInfo: { totalCount: items.length, limit: 20, sort: 'createdAt', order: 'desc', hasMore: false, nextCursor: null },
+  });
+
+  const uploadResult = (name: string) => ({
+    publicUrl: `https://storage.googleapis.com/bucket/${name}-hero.webp`,
+    filename: `${name}-hero.webp`,
+    variants: {
+      thumbnail: `https://storage.googleapis.com/bucket/${name}-thumbnail.webp`,
+      card: `https://storage.googleapis.com/bucket/${name}-card.webp`,
+      hero: `https://storage.googleapis.com/bucket/${name}-hero.webp`,
+    },
+  });
+
   beforeEach(() => {
     jest.clearAllMocks();
   });
@@ -119,16 +136,50 @@ describe('Product API Routes', () => {
 
     describe('GET /api/supplier/tours', () => {
       it('should get all products for authenticated supplier', async () => {
-        (productService.getProductsBySupplier as jest.Mock).mockResolvedValue([mockProduct]);
+        (productService.getProductsBySupplier as jest.Mock).mockResolvedValue(pageOf([mockProduct]));
 
         const response = await request(app)
           .get('/api/supplier/tours')
           .set('Authorization', `Bearer ${mockSupplierToken}`)
           .expect(200);
 
-        expect(response.body).toHaveLength(1);
-        expect(response.body[0].title).toBe('Tokyo Adventure');
-        expect(productService.getProductsBySupplier).toHaveBeenCalledWith('supplier-123');
+        expect(response.body.items).toHaveLength(1);
+        expect(response.body.items[0].title).toBe('Tokyo Adventure');
+        expect(response.body.pageInfo.totalCount).toBe(1);
+        expect(productService.getProductsBySupplier).toHaveBeenCalledWith(
+          'supplier-123',
+          {},
+          { limit: 20, sort: 'createdAt', order: 'desc', cursor: undefined }
+        );
+      });
+
+      it('should pass filters, sort and cursor through', async () => {
+        (productService.getProductsBySupplier as jest.Mock).mockResolvedValue(pageOf([]));
+
+        await request(app)
+          .get('/api/supplier/tours?status=已發佈&sort=title&limit=50&cursor=abc')
+          .set('Authorization', `Bearer ${mockSupplierToken}`)
+          .expect(200);
+
+        expect(productService.getProductsBySupplier).toHaveBeenCalledWith(
+          'supplier-123',
+          { status: '已發佈' },
+          { limit: 50, sort: 'title', order: 'asc', cursor: 'abc' }
+        );
+      });
+
+      it('should return 400 for an unknown sort key or oversized page', async () => {
+        await request(app)
+          .get('/api/supplier/tours?sort=password')
+          .set('Authorization', `Bearer ${mockSupplierToken}`)
+          .expect(400);
+
+        await request(app)
+          .get('/api/supplier/tours?limit=1000')
+          .set('Authorization', `Bearer ${mockSupplierToken}`)
+          .expect(400);
+
+        expect(productService.getProductsBySupplier).not.toHaveBeenCalled();
       });
     });
 
@@ -163,21 +214,80 @@ describe('Product API Routes', () => {
           .expect(404);
       });
     });
+
+    describe('POST /api/supplier/tours/:id/images', () => {
+      it('should upload images with captions in order', async () => {
+        (productService.getProductById as jest.Mock).mockResolvedValue(mockProduct);
+        (productImageService.countProductImages as jest.Mock).mockResolvedValue(0);
+        (storageService.uploadCoverImage as jest.Mock)
+          .mockResolvedValueOnce(uploadResult('a'))
+          .mockResolvedValueOnce(uploadResult('b'));
+        (productImageService.addProductImages as jest.Mock).mockResolvedValue([]);
+
+        await request(app)
+          .post('/api/supplier/tours/product-123/images')
+          .set('Authorization', `Bearer ${mockSupplierToken}`)
+          .attach('images', Buffer.from('a'), 'a.jpg')
+          .attach('images', Buffer.from('b'), 'b.jpg')
+          .field('captions', '大廳')
+          .field('captions', '客房')
+          .expect(201);
+
+        expect(productImageService.addProductImages).toHaveBeenCalledWith('product-123', 'supplier-123', [
+          { imageUrl: uploadResult('a').publicUrl, variants: uploadResult('a').variants, caption: '大廳' },
+          { imageUrl: uploadResult('b').publicUrl, variants: uploadResult('b').variants, caption: '客房' },
+        ]);
+      });
+
+      it('should reject uploads over the gallery limit before storing them', async () => {
+        (productService.getProductById as jest.Mock).mockResolvedValue(mockProduct);
+        (productImageService.countProductImages as jest.Mock).mockResolvedValue(productImageService.MAX_PRODUCT_IMAGES);
+
+        await request(app)
+          .post('/api/supplier/tours/product-123/images')
+          .set('Authorization', `Bearer ${mockSupplierToken}`)
+          .attach('images', Buffer.from('a'), 'a.jpg')
+          .expect(400);
+
+        expect(storageService.uploadCoverImage).not.toHaveBeenCalled();
+      });
+
+      it('should delete already uploaded files when a later file is invalid', async () => {
+        (productService.getProductById as jest.Mock).mockResolvedValue(mockProduct);
+        (productImageService.countProductImages as jest.Mock).mockResolvedValue(0);
+        (storageService.uploadCoverImage as jest.Mock)
+          .mockResolvedValueOnce(uploadResult('a'))
+          .mockRejectedValueOnce(new Error('Only JPEG, PNG, and WebP images are allowed'));
+
+        await request(app)
+          .post('/api/supplier/tours/product-123/images')
+          .set('Authorization', `Bearer ${mockSupplierToken}`)
+          .attach('images', Buffer.from('a'), 'a.jpg')
+          .attach('images', Buffer.from('b'), 'b.gif')
+          .expect(400);
+
+        expect(storageService.deleteImageWithVariants).toHaveBeenCalledWith(uploadResult('a').publicUrl, uploadResult('a').variants);
+        expect(productImageService.addProductImages).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('Admin Routes', () => {
     describe('GET /api/admin/tours', () => {
       it('should get all products for admin', async () => {
-        (productService.getAllProducts as jest.Mock).mockResolvedValue([mockProductWithSupplier]);
+        (productService.getAllProducts as jest.Mock).mockResolvedValue(pageOf([mockProductWithSupplier]));
 
         const response = await request(app)
           .get('/api/admin/tours')
           .set('Authorization', `Bearer ${mockAdminToken}`)
           .expect(200);
 
-        expect(response.body).toHaveLength(1);
-        expect(response.body[0]).toHaveProperty('supplierName');
-        expect(productService.getAllProducts).toHaveBeenCalled();
+        expect(response.body.items).toHaveLength(1);
+        expect(response.body.items[0]).toHaveProperty('supplierName');
+        expect(productService.getAllProducts).toHaveBeenCalledWith(
+          {},
+          expect.objectContaining({ sort: 'createdAt', order: 'desc' })
+        );
       });
 
       it('should return 403 for non-admin users', async () => {
@@ -244,20 +354,23 @@ describe('Product API Routes', () => {
     describe('GET /api/agency/tours', () => {
       it('should get published products', async () => {
         const publishedProduct = { ...mockProductWithSupplier, status: 'published' as const };
-        (productService.getPublishedProducts as jest.Mock).mockResolvedValue([publishedProduct]);
+        (productService.getPublishedProducts as jest.Mock).mockResolvedValue(pageOf([publishedProduct]));
 
         const response = await request(app)
           .get('/api/agency/tours')
           .set('Authorization', `Bearer ${mockAgencyToken}`)
           .expect(200);
 
-        expect(response.body).toHaveLength(1);
-        expect(response.body[0].status).toBe('published');
-        expect(productService.getPublishedProducts).toHaveBeenCalledWith({});
+        expect(response.body.items).toHaveLength(1);
+        expect(response.body.items[0].status).toBe('published');
+        expect(productService.getPublishedProducts).toHaveBeenCalledWith(
+          {},
+          expect.objectContaining({ sort: 'createdAt', order: 'desc' })
+        );
       });
 
       it('should filter by destination', async () => {
-        (productService.getPublishedProducts as jest.Mock).mockResolvedValue([]);
+        (productService.getPublishedProducts as jest.Mock).mockResolvedValue(pageOf([]));
 
         await request(app)
           .get('/api/agency/tours?destination=Tokyo')
@@ -266,11 +379,11 @@ describe('Product API Routes', () => {
 
         expect(productService.getPublishedProducts).toHaveBeenCalledWith({
           destination: 'Tokyo',
-        });
+        }, expect.anything());
       });
 
       it('should filter by duration', async () => {
-        (productService.getPublishedProducts as jest.Mock).mockResolvedValue([]);
+        (productService.getPublishedProducts as jest.Mock).mockResolvedValue(pageOf([]));
 
         await request(app)
           .get('/api/agency/tours?durationDays=5')
@@ -279,11 +392,11 @@ describe('Product API Routes', () => {
 
         expect(productService.getPublishedProducts).toHaveBeenCalledWith({
           durationDays: 5,
-        });
+        }, expect.anything());
       });
 
       it('should filter by both destination and duration', async () => {
-        (productService.getPublishedProducts as jest.Mock).mockResolvedValue([]);
+        (productService.getPublishedProducts as jest.Mock).mockResolvedValue(pageOf([]));
 
         await request(app)
           .get('/api/agency/tours?destination=Tokyo&durationDays=5')
@@ -293,7 +406,53 @@ describe('Product API Routes', () => {
         expect(productService.getPublishedProducts).toHaveBeenCalledWith({
           destination: 'Tokyo',
           durationDays: 5,
-        });
+        }, expect.anything());
+      });
+
+      it('should filter by distance from a point', async () => {
+        (productService.getPublishedProducts as jest.Mock).mockResolvedValue(pageOf([]));
+
+        await request(app)
+          .get('/api/agency/tours?near=25.033,121.5654&radiusKm=3')
+          .set('Authorization', `Bearer ${mockAgencyToken}`)
+          .expect(200);
+
+        expect(productService.getPublishedProducts).toHaveBeenCalledWith({
+          near: { lat: 25.033, lng: 121.5654 },
+          radiusKm: 3,
+        }, expect.objectContaining({ sort: 'distance', order: 'asc' }));
+      });
+
+      it('should filter by bounding box', async () => {
+        (productService.getPublishedProducts as jest.Mock).mockResolvedValue(pageOf([]));
+
+        await request(app)
+          .get('/api/agency/tours?bbox=25,121.5,25.1,121.6')
+          .set('Authorization', `Bearer ${mockAgencyToken}`)
+          .expect(200);
+
+        expect(productService.getPublishedProducts).toHaveBeenCalledWith({
+          bbox: { minLat: 25, minLng: 121.5, maxLat: 25.1, maxLng: 121.6 },
+        }, expect.anything());
+      });
+
+      it('should return 400 for invalid location parameters', async () => {
+        await request(app)
+          .get('/api/agency/tours?near=abc')
+          .set('Authorization', `Bearer ${mockAgencyToken}`)
+          .expect(400);
+
+        await request(app)
+          .get('/api/agency/tours?radiusKm=3')
+          .set('Authorization', `Bearer ${mockAgencyToken}`)
+          .expect(400);
+
+        await request(app)
+          .get('/api/agency/tours?near=25,121&radiusKm=1000')
+          .set('Authorization', `Bearer ${mockAgencyToken}`)
+          .expect(400);
+
+        expect(productService.getPublishedProducts).not.toHaveBeenCalled();
       });
 
       it('should return 403 for non-agency users', async () => {
@@ -308,6 +467,9 @@ describe('Product API Routes', () => {
       it('should get published product details', async () => {
         const publishedProduct = { ...mockProductWithSupplier, status: 'published' as const };
         (productService.getProductById as jest.Mock).mockResolvedValue(publishedProduct);
+        (productImageService.getProductImages as jest.Mock).mockResolvedValue([
+          { id: 'image-1', productId: 'product-123', imageUrl: 'https://storage.googleapis.com/bucket/a.jpg', caption: null, sortOrder: 0 },
+        ]);
 
         const response = await request(app)
           .get('/api/agency/tours/product-123')
@@ -315,6 +477,7 @@ describe('Product API Routes', () => {
           .expect(200);
 
         expect(response.body.id).toBe('product-123');
+        expect(response.body.images).toHaveLength(1);
       });
 
       it('should return 404 for pending products', async () => {
@@ -0,0 +1,77 @@
+import sharp from 'sharp';
+import { processImage, convertToJpeg, toCoverImage } from '../../services/imageProcessingService';
+
+const createImage = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, background: '#cc3333' } });
+
+describe('Image Processing Service', () => {
+  describe('processImage', () => {
+    it('should render every variant as WebP at its target size', async () => {
+      const input = await createImage(3000, 2000).jpeg().toBuffer();
+
+      const variants = await processImage(input);
+
+      expect(variants.map(({ name, width, height }) => ({ name, width, height }))).toEqual([
+        { name: 'thumbnail', width: 160, height: 120 },
+        { name: 'card', width: 640, height: 480 },
+        { name: 'hero', width: 1620, height: 1080 },
+      ]);
+      const metadata = await sharp(variants[0].data).metadata();
+      expect(metadata.format).toBe('webp');
+    });
+
+    it('should apply EXIF orientation and strip metadata', async () => {
+      const input = await createImage(800, 400).jpeg().withMetadata({ orientation: 6 }).toBuffer();
+
+      const hero = (await processImage(input)).find(variant => variant.name === 'hero')!;
+
+      expect(hero).toMatchObject({ width: 400, height: 800 });
+      const metadata = await sharp(hero.data).metadata();
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.orientation).toBeUndefined();
+    });
+
+    it('should not enlarge small images', async () => {
+      const input = await createImage(100, 80).png().toBuffer();
+
+      const hero = (await processImage(input)).find(variant => variant.name === 'hero')!;
+
+      expect(hero).toMatchObject({ width: 100, height: 80 });
+    });
+
+    it('should reject data that is not an image', async () => {
+      await expect(processImage(Buffer.from('not an image'))).rejects.toThrow('File is not a valid image');
+    });
+  });
+
+  describe('convertToJpeg', () => {
+    it('should re-encode WebP as JPEG', async () => {
+      const input = await createImage(50, 50).webp().toBuffer();
+
+      const metadata = await sharp(await convertToJpeg(input)).metadata();
+
+      expect(metadata.format).toBe('jpeg');
+    });
+  });
+
+  describe('toCoverImage', () => {
+    it('should return null without a URL', () => {
+      expect(toCoverImage(null, null)).toBeNull();
+    });
+
+    it('should fall back to the original URL for unprocessed images', () => {
+      expect(toCoverImage('https://cdn.test/old.jpg', null)).toEqual({
+        original: 'https://cdn.test/old.jpg',
+        thumbnail: 'https://cdn.test/old.jpg',
+        card: 'https://cdn.test/old.jpg',
+        hero: 'https://cdn.test/old.jpg',
+      });
+    });
+
+    it('should expose stored variant URLs', () => {
+      const variants = { thumbnail: 't.webp', card: 'c.webp', hero: 'h.webp' };
+
+      expect(toCoverImage('h.webp', variants)).toEqual({ original: 'h.webp', ...variants });
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { buildItineraryCalendar, foldLine, escapeText } from '../../services/itineraryCalendarService';
+
+jest.mock('../../config/database');
+
+describe('ItineraryCalendarService', () => {
+  const itinerary = {
+    id: 'itinerary-123',
+    name: 'Tokyo, 3 days',
+    startDate: new Date(2026, 3, 30),
+    updatedAt: new Date(Date.UTC(2026, 3, 1, 8, 0, 0)),
+    timelineData: [
+      {
+        dayNumber: 1,
+        items: [
+          { id: 'tower', timelineId: 't1', title: 'Tokyo Tower', startTime: '09:00', duration: 90 },
+          { id: 'temple', title: 'Senso-ji', location: { lat: 35.7148, lng: 139.7967 } },
+        ],
+        lunchTitle: 'Ramen Shop',
+        dinnerCustom: '自理',
+        hotelTitle: 'Park Hotel',
+      },
+      { dayNumber: 2, items: [], notes: 'Free day' },
+    ],
+  };
+
+  describe('escapeText', () => {
+    it('should escape separators and newlines', () => {
+      expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+    });
+  });
+
+  describe('foldLine', () => {
+    it('should fold long lines at 75 octets without splitting characters', () => {
+      const folded = foldLine(`SUMMARY:${'行'.repeat(40)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+      expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+      expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'行'.repeat(40)}`);
+    });
+  });
+
+  describe('buildItineraryCalendar', () => {
+    const calendar = buildItineraryCalendar(
+      itinerary,
+      new Map([['tower', { address: '4-2-8 Shibakoen, Minato City', latitude: 35.6586, longitude: 139.7454 }]])
+    );
+
+    it('should produce a CRLF-delimited VCALENDAR', () => {
+      expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(calendar).toContain('X-WR-CALNAME:Tokyo\\, 3 days');
+      expect(calendar).toContain('DTSTAMP:20260401T080000Z');
+    });
+
+    it('should turn timed items into timed events with location', () => {
+      expect(calendar).toContain('UID:itinerary-123-d1-t1@delux-plus');
+      expect(calendar).toContain('DTSTART:20260430T090000\r\nDTEND:20260430T103000');
+      expect(calendar).toContain('LOCATION:4-2-8 Shibakoen\\, Minato City');
+      expect(calendar).toContain('GEO:35.658600;139.745400');
+    });
+
+    it('should fall back to an all-day event for untimed items', () => {
+      expect(calendar).toContain('SUMMARY:Senso-ji\r\nDTSTART;VALUE=DATE:20260430\r\nGEO:35.714800;139.796700');
+    });
+
+    it('should add meals, hotels and day notes', () => {
+      expect(calendar).toContain('SUMMARY:午餐：Ramen Shop\r\nDTSTART:20260430T120000');
+      expect(calendar).toContain('SUMMARY:晚餐：自理');
+      expect(calendar).toContain('DTSTART;VALUE=DATE:20260430\r\nDTEND;VALUE=DATE:20260501');
+      expect(calendar).toContain('DESCRIPTION:Free day');
+    });
+
+    it('should produce no events without a start date', () => {
+      const empty = buildItineraryCalendar({ ...itinerary, startDate: undefined }, new Map());
+      expect(empty).not.toContain('BEGIN:VEVENT');
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import pool from '../../config/database';
+import { checkTimelineFeasibility, checkTimeline } from '../../services/itineraryFeasibilityService';
+import { ProductAvailability } from '../../services/productAvailabilityService';
+import { TimelineDay, TimelineItem } from '../../utils/timelineSchema';
+
+jest.mock('../../config/database');
+
+const mockedQuery = pool.query as jest.Mock;
+
+const item = (id: string, overrides: Partial<TimelineItem> = {}): TimelineItem => ({
+  id,
+  title: id,
+  productType: 'landmark',
+  timelineId: `${id}-t`,
+  ...overrides,
+});
+
+const day = (dayNumber: number, items: TimelineItem[], overrides: Partial<TimelineDay> = {}): TimelineDay => ({
+  dayNumber,
+  items,
+  breakfastId: null,
+  breakfastCustom: '酒店享用',
+  breakfastTitle: null,
+  lunchId: null,
+  lunchCustom: '自理',
+  lunchTitle: null,
+  dinnerId: null,
+  dinnerCustom: '自理',
+  dinnerTitle: null,
+  hotelId: null,
+  hotelCustom: '四星或同級',
+  hotelTitle: null,
+  notes: null,
+  ...overrides,
+});
+
+const leg = (durationValue: number) => ({
+  distanceText: '',
+  distanceValue: 0,
+  durationText: '',
+  durationValue,
+  startLocation: { lat: 0, lng: 0 },
+  endLocation: { lat: 0, lng: 0 },
+});
+
+describe('ItineraryFeasibilityService', () => {
+  beforeEach(() => {
+    mockedQuery.mockReset();
+  });
+
+  describe('checkTimelineFeasibility', () => {
+    it('should accept a well-spaced day', () => {
+      const report = checkTimelineFeasibility([
+        day(1, [
+          item('a', { startTime: '09:00', duration: 60 }),
+          item('b', { startTime: '10:30', duration: 60 }),
+        ], { routeInfo: { polyline: '', legs: [leg(20 * 60)] } }),
+      ]);
+
+      expect(report).toEqual({ valid: true, issues: [] });
+    });
+
+    it('should flag overlapping items', () => {
+      const report = checkTimelineFeasibility([
+        day(1, [item('a', { startTime: '09:00', duration: 120 }), item('b', { startTime: '10:00', duration: 60 })]),
+      ]);
+
+      expect(report.valid).toBe(false);
+      expect(report.issues).toEqual([
+        expect.objectContaining({ dayNumber: 1, type: 'overlap', severity: 'error', timelineIds: ['a-t', 'b-t'] }),
+      ]);
+      expect(report.issues[0].message).toContain('重疊 1 小時');
+    });
+
+    it('should flag transfers shorter than the route leg', () => {
+      const report = checkTimelineFeasibility([
+        day(1, [item('a', { startTime: '09:00', duration: 60 }), item('b', { startTime: '10:15', duration: 60 })], {
+          routeInfo: { polyline: '', legs: [leg(45 * 60)] },
+        }),
+      ]);
+
+      expect(report.issues).toEqual([expect.objectContaining({ type: 'transfer', severity: 'error' })]);
+    });
+
+    it('should estimate transfers from coordinates when there is no route', () => {
+      const report = checkTimelineFeasibility([
+        day(1, [
+          item('taipei', { startTime: '09:00', duration: 60, location: { lat: 25.033, lng: 121.565 } }),
+          item('taichung', { startTime: '10:00', duration: 60, location: { lat: 24.147, lng: 120.674 } }),
+        ]),
+      ]);
+
+      expect(report.issues.map(issue => issue.type)).toEqual(['transfer']);
+    });
+
+    it('should flag days longer than the limit, counting travel and product durations', () => {
+      const timeline = [
+        day(1, [item('a', { startTime: '08:00' }), item('b'), item('c')], {
+          routeInfo: { polyline: '', legs: [leg(4 * 3600), leg(4 * 3600)] },
+        }),
+      ];
+      const productDurations = new Map([['a', 180], ['b', 60], ['c', 60]]);
+
+      expect(checkTimelineFeasibility(timeline, productDurations).issues).toEqual([
+        expect.objectContaining({ type: 'day_too_long', severity: 'warning' }),
+      ]);
+      expect(checkTimelineFeasibility(timeline, productDurations, { maxDayHours: 14 }).issues).toEqual([]);
+    });
+
+    it('should place unscheduled items before the first start time backwards from it', () => {
+      const timeline = [
+        day(1, [item('a'), item('b', { startTime: '18:00' }), item('c')], {
+          routeInfo: { polyline: '', legs: [leg(30 * 60), leg(30 * 60)] },
+        }),
+      ];
+      const productDurations = new Map([['a', 120], ['b', 120], ['c', 60]]);
+
+      expect(checkTimelineFeasibility(timeline, productDurations).issues).toEqual([]);
+      expect(checkTimelineFeasibility(timeline, productDurations, { maxDayHours: 5 }).issues).toEqual([
+        expect.objectContaining({ type: 'day_too_long' }),
+      ]);
+    });
+
+    it('should flag missing hotels except on the last day, and missing meals', () => {
+      const report = checkTimelineFeasibility([
+        day(1, [], { hotelCustom: null, breakfastCustom: null }),
+        day(2, [], { hotelCustom: null, dinnerCustom: null }),
+      ]);
+
+      expect(report.valid).toBe(true);
+      expect(report.issues).toEqual([
+        expect.objectContaining({ dayNumber: 1, type: 'missing_hotel' }),
+        expect.objectContaining({ dayNumber: 2, type: 'missing_meal', field: 'dinner' }),
+      ]);
+    });
+
+    it('should flag items and bookings on closed dates when a start date is given', () => {
+      const open = (productId: string, overrides: Partial<ProductAvailability> = {}): ProductAvailability => ({
+        productId,
+        operatingDays: [0, 1, 2, 3, 4, 5, 6],
+        openingTime: null,
+        closingTime: null,
+        blackoutDates: [],
+        ...overrides,
+      });
+      const availability = new Map([
+        ['museum', open('museum', { operatingDays: [0, 2, 3, 4, 5, 6], openingTime: '09:00', closingTime: '17:00' })],
+        ['hotel', open('hotel', { blackoutDates: [{ startDate: '2026-03-03', endDate: '2026-03-03', reason: '整修' }] })],
+      ]);
+      const timeline = [
+        // 2026-03-02 is a Monday
+        day(1, [item('museum', { startTime: '10:00', duration: 60 })], { hotelId: 'hotel', hotelTitle: 'Kyoto Hotel' }),
+        day(2, [item('museum', { timelineId: 'museum-2', startTime: '16:30', duration: 60 })], { hotelId: 'hotel' }),
+      ];
+
+      expect(checkTimelineFeasibility(timeline, new Map(), {}, availability).issues).toEqual([]);
+
+      const report = checkTimelineFeasibility(timeline, new Map(), { startDate: '2026-03-02' }, availability);
+      expect(report.valid).toBe(false);
+      expect(report.issues).toEqual([
+        expect.objectContaining({ dayNumber: 1, type: 'closed', timelineIds: ['museum-t'], message: expect.stringContaining('星期一公休') }),
+        expect.objectContaining({ dayNumber: 2, type: 'closed', timelineIds: ['museum-2'], message: expect.stringContaining('09:00–17:00') }),
+        expect.objectContaining({ dayNumber: 2, type: 'closed', field: 'hotel', message: expect.stringContaining('整修') }),
+      ]);
+    });
+  });
+
+  describe('checkTimeline', () => {
+    it('should look up product durations in hours for items without one', async () => {
+      mockedQuery.mockResolvedValueOnce({ rows: [{ id: 'a', duration: '13.0' }] });
+
+      const report = await checkTimeline([day(1, [item('a', { startTime: '09:00' }), item('b', { duration: 30 })])]);
+
+      expect(mockedQuery.mock.calls[0][1]).toEqual([['a']]);
+      expect(report.issues.map(issue => issue.type)).toEqual(['day_too_long']);
+    });
+  });
+});
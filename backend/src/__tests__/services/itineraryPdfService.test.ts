@@ -0,0 +1,72 @@
+import {
+  renderItineraryPdf,
+  formatDayDate,
+  formatRouteSummary,
+} from '../../services/itineraryPdfService';
+import { stripHtml } from '../../utils/html';
+
+jest.mock('../../config/database');
+jest.mock('../../services/storageService');
+
+describe('ItineraryPdfService', () => {
+  describe('formatDayDate', () => {
+    it('should offset the start date by the day number', () => {
+      expect(formatDayDate(new Date(2026, 2, 31), 2)).toBe('2026/04/01（三）');
+      expect(formatDayDate(undefined, 1)).toBeNull();
+    });
+  });
+
+  describe('formatRouteSummary', () => {
+    it('should sum legs when no totals were cached', () => {
+      const summary = formatRouteSummary({
+        legs: [
+          { distanceValue: 12000, durationValue: 1800 },
+          { distanceValue: 3500, durationValue: 2400 },
+        ],
+      });
+
+      expect(summary).toBe('15.5 公里・1 小時 10 分鐘');
+    });
+
+    it('should return null without legs', () => {
+      expect(formatRouteSummary(undefined)).toBeNull();
+      expect(formatRouteSummary({ legs: [] })).toBeNull();
+    });
+  });
+
+  describe('stripHtml', () => {
+    it('should turn rich text into plain paragraphs', () => {
+      expect(stripHtml('<p>Great&nbsp;view</p><p>Open &amp; free</p>')).toBe('Great view\nOpen & free');
+    });
+  });
+
+  describe('renderItineraryPdf', () => {
+    it('should render a PDF document', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const pdf = await renderItineraryPdf({
+        name: 'Tokyo Trip',
+        agencyName: 'Sunny Travel',
+        destination: 'Tokyo',
+        startDate: new Date(2026, 3, 1),
+        endDate: new Date(2026, 3, 2),
+        timeline: [
+          {
+            dayNumber: 1,
+            items: [{ id: 'tower', title: 'Tokyo Tower', startTime: '09:00' }],
+            breakfastCustom: 'Hotel',
+            hotelTitle: 'Park Hotel',
+            notes: 'Meet in the lobby',
+            routeInfo: { legs: [{ distanceValue: 1000, durationValue: 600 }] },
+          },
+          { dayNumber: 2, items: [] },
+        ],
+        products: new Map([['tower', { title: 'Tokyo Tower', description: '<p>View</p>' }]]),
+        images: new Map(),
+      });
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+      warn.mockRestore();
+    });
+  });
+});
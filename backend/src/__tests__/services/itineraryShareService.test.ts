@@ -0,0 +1,90 @@
+import { toPublicItinerary } from '../../services/itineraryShareService';
+
+jest.mock('../../config/database');
+
+describe('ItineraryShareService', () => {
+  describe('toPublicItinerary', () => {
+    const itinerary = {
+      id: 'itinerary-123',
+      name: 'Tokyo Trip',
+      agencyUserId: 'agency-123',
+      destination: 'Tokyo',
+      restrictedSupplierName: 'Sakura Tours',
+      timelineData: [
+        {
+          dayNumber: 1,
+          items: [
+            {
+              id: 'product-1',
+              title: 'Tokyo Tower (old title)',
+              netPrice: 1200,
+              ticketPrice: 800,
+              supplierName: 'Sakura Tours',
+              startTime: '09:00',
+              duration: 90,
+              location: { lat: 35.1, lng: 139.1 },
+            },
+          ],
+          breakfastId: 'product-2',
+          breakfastTitle: 'Hotel breakfast',
+          dinnerCustom: '自理',
+          hotelTitle: 'Park Hotel',
+          routeInfo: { polyline: 'abc', legs: [] },
+        },
+      ],
+    };
+
+    const products = new Map([
+      ['product-1', { title: 'Tokyo Tower', address: 'Minato City', latitude: 35.6586, longitude: 139.7454 }],
+    ]);
+
+    it('should only expose traveller-facing fields', () => {
+      const result = toPublicItinerary(itinerary, products, 'Sunny Travel', new Date('2026-12-31'));
+      const serialized = JSON.stringify(result);
+
+      expect(serialized).not.toContain('netPrice');
+      expect(serialized).not.toContain('ticketPrice');
+      expect(serialized).not.toContain('Sakura Tours');
+      expect(serialized).not.toContain('product-');
+      expect(serialized).not.toContain('agency-123');
+    });
+
+    it('should prefer current product details and flatten meals and hotel', () => {
+      const result = toPublicItinerary(itinerary, products, 'Sunny Travel', new Date('2026-12-31'));
+
+      expect(result.agencyName).toBe('Sunny Travel');
+      expect(result.days[0].items[0]).toEqual({
+        id: '1-0',
+        title: 'Tokyo Tower',
+        category: undefined,
+        description: undefined,
+        coverImageUrl: undefined,
+        address: 'Minato City',
+        location: { lat: 35.6586, lng: 139.7454 },
+        startTime: '09:00',
+        duration: 90,
+      });
+      expect(result.days[0]).toMatchObject({
+        breakfast: 'Hotel breakfast',
+        lunch: null,
+        dinner: '自理',
+        hotel: 'Park Hotel',
+        routeInfo: { polyline: 'abc', legs: [] },
+      });
+    });
+
+    it('should reduce descriptions to plain text', () => {
+      const withHtml = {
+        ...itinerary,
+        timelineData: [{
+          dayNumber: 1,
+          items: [{ id: 'custom-1', title: 'Free time', description: '<p>Shopping</p><img src=x onerror="alert(1)"><script>alert(2)</script>' }],
+        }],
+      };
+
+      const result = toPublicItinerary(withHtml, new Map(), 'Sunny Travel', new Date('2026-12-31'));
+
+      expect(result.days[0].items[0].description).toBe('Shopping');
+    });
+  });
+});
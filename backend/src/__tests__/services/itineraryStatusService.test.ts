@@ -0,0 +1,163 @@
+import pool from '../../config/database';
+import * as itineraryService from '../../services/itineraryService';
+import * as itineraryFeasibilityService from '../../services/itineraryFeasibilityService';
+import { checkStatusChange, changeItineraryStatus } from '../../services/itineraryStatusService';
+
+jest.mock('../../config/database');
+jest.mock('../../services/itineraryService');
+jest.mock('../../services/itineraryFeasibilityService');
+
+const mockedConnect = pool.connect as jest.Mock;
+const mockedGetItineraryById = itineraryService.getItineraryById as jest.Mock;
+const mockedValidateItinerary = itineraryFeasibilityService.validateItinerary as jest.Mock;
+
+const itinerary = (overrides: Partial<itineraryService.Itinerary> = {}): itineraryService.Itinerary => ({
+  id: 'itinerary-123',
+  name: '東京五日遊',
+  agencyUserId: 'agency-123',
+  timelineData: [{ dayNumber: 1, items: [{ id: 'product-1', title: 'Tokyo Tower' }] }],
+  startDate: new Date('2026-05-01'),
+  endDate: new Date('2026-05-05'),
+  status: 'quoted',
+  statusChangedAt: null,
+  version: 3,
+  createdAt: new Date('2026-03-01'),
+  updatedAt: new Date('2026-03-01'),
+  ...overrides,
+});
+
+describe('ItineraryStatusService', () => {
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeEach(() => {
+    client.query.mockReset();
+    client.release.mockReset();
+    mockedConnect.mockReset();
+    mockedConnect.mockResolvedValue(client);
+    mockedGetItineraryById.mockReset();
+    mockedValidateItinerary.mockReset();
+    mockedValidateItinerary.mockResolvedValue({ issues: [] });
+  });
+
+  describe('checkStatusChange', () => {
+    it('should refuse transitions outside the workflow', async () => {
+      const check = await checkStatusChange(itinerary({ status: 'draft' }), 'agency-123', 'confirmed');
+
+      expect(check.allowed).toBe(false);
+      expect(check.errors).toEqual(['無法從「草稿」變更為「已確認」']);
+    });
+
+    it('should not quote an empty itinerary', async () => {
+      const check = await checkStatusChange(
+        itinerary({ status: 'draft', timelineData: [{ dayNumber: 1, items: [] }] }),
+        'agency-123',
+        'quoted'
+      );
+
+      expect(check.allowed).toBe(false);
+    });
+
+    it('should require dates before confirming', async () => {
+      const check = await checkStatusChange(itinerary({ endDate: undefined }), 'agency-123', 'confirmed');
+
+      expect(check.allowed).toBe(false);
+      expect(mockedValidateItinerary).not.toHaveBeenCalled();
+    });
+
+    it('should refuse confirmation while feasibility errors remain, ignoring warnings', async () => {
+      const error = { dayNumber: 1, type: 'closed', severity: 'error', message: '景點休館' };
+      const warning = { dayNumber: 2, type: 'missing_meal', severity: 'warning', message: '未安排午餐' };
+      mockedValidateItinerary.mockResolvedValueOnce({ issues: [error, warning] });
+
+      const check = await checkStatusChange(itinerary(), 'agency-123', 'confirmed');
+
+      expect(check.allowed).toBe(false);
+      expect(check.issues).toEqual([error]);
+    });
+
+    it('should allow confirming a dated itinerary with only warnings', async () => {
+      mockedValidateItinerary.mockResolvedValueOnce({
+        issues: [{ dayNumber: 2, type: 'missing_meal', severity: 'warning', message: '未安排午餐' }],
+      });
+
+      const check = await checkStatusChange(itinerary(), 'agency-123', 'confirmed');
+
+      expect(check).toEqual({ allowed: true, errors: [], issues: [] });
+    });
+
+    it('should not start travelling before the departure date', async () => {
+      const departure = new Date();
+      departure.setDate(departure.getDate() + 7);
+
+      const check = await checkStatusChange(
+        itinerary({ status: 'confirmed', startDate: departure }),
+        'agency-123',
+        'travelling'
+      );
+
+      expect(check.allowed).toBe(false);
+    });
+  });
+
+  describe('changeItineraryStatus', () => {
+    it('should return null when the itinerary is not owned by the agency', async () => {
+      mockedGetItineraryById.mockResolvedValueOnce(null);
+
+      await expect(changeItineraryStatus('itinerary-123', 'agency-999', 'confirmed')).resolves.toBeNull();
+      expect(mockedConnect).not.toHaveBeenCalled();
+    });
+
+    it('should throw on a stale If-Match version', async () => {
+      mockedGetItineraryById.mockResolvedValueOnce(itinerary());
+
+      await expect(changeItineraryStatus('itinerary-123', 'agency-123', 'confirmed', 2))
+        .rejects.toThrow('Version conflict');
+    });
+
+    it('should update the status and record the change in one transaction', async () => {
+      const confirmed = itinerary({ status: 'confirmed', version: 4 });
+      mockedGetItineraryById
+        .mockResolvedValueOnce(itinerary())
+        .mockResolvedValueOnce(confirmed);
+      client.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ id: 'itinerary-123' }] })
+        .mockResolvedValue({});
+
+      const result = await changeItineraryStatus('itinerary-123', 'agency-123', 'confirmed', 3);
+
+      expect(result?.itinerary).toBe(confirmed);
+      expect(client.query.mock.calls[1][1]).toEqual(['confirmed', 'itinerary-123', 'agency-123', 3]);
+      expect(client.query.mock.calls[2][0]).toContain('INSERT INTO itinerary_status_changes');
+      expect(client.query.mock.calls[2][1]).toEqual(['itinerary-123', 'quoted', 'confirmed', 'agency-123']);
+      expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should roll back when the itinerary changed during the checks', async () => {
+      mockedGetItineraryById.mockResolvedValueOnce(itinerary());
+      client.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValue({});
+
+      await expect(changeItineraryStatus('itinerary-123', 'agency-123', 'confirmed'))
+        .rejects.toThrow('Version conflict');
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+
+    it('should not touch the database when the change is refused', async () => {
+      mockedGetItineraryById.mockResolvedValueOnce(itinerary({ status: 'completed' }));
+
+      const result = await changeItineraryStatus('itinerary-123', 'agency-123', 'draft');
+
+      expect(result).toEqual({
+        allowed: false,
+        errors: ['無法從「已完成」變更為「草稿」'],
+        issues: [],
+        itinerary: null,
+      });
+      expect(mockedConnect).not.toHaveBeenCalled();
+    });
+  });
+});
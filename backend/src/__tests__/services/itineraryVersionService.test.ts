@@ -0,0 +1,166 @@
+import pool from '../../config/database';
+import {
+  recordItineraryVersion,
+  autosaveItinerary,
+  getItineraryVersion,
+  restoreItineraryVersion,
+  saveItineraryDraft,
+  getItineraryDraft,
+  MAX_ITINERARY_VERSIONS,
+} from '../../services/itineraryVersionService';
+
+jest.mock('../../config/database');
+
+const mockedQuery = pool.query as jest.Mock;
+const mockedConnect = pool.connect as jest.Mock;
+
+describe('ItineraryVersionService', () => {
+  const timeline: any[] = [{ dayNumber: 1, items: [{ id: 'product-1', title: 'Tokyo Tower' }] }];
+
+  const versionRow = {
+    id: 'version-1',
+    itinerary_id: 'itinerary-123',
+    source: 'autosave',
+    day_count: 1,
+    item_count: '1',
+    created_at: new Date('2026-03-01T10:00:00Z'),
+  };
+
+  beforeEach(() => {
+    mockedQuery.mockReset();
+  });
+
+  describe('recordItineraryVersion', () => {
+    it('should insert the version and prune autosaves beyond the limit', async () => {
+      const query = jest.fn()
+        .mockResolvedValueOnce({ rows: [versionRow] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const version = await recordItineraryVersion({ query } as any, 'itinerary-123', timeline, 'autosave', 'agency-123');
+
+      expect(query.mock.calls[0][1]).toEqual(['itinerary-123', 'autosave', JSON.stringify(timeline), 2, 'agency-123']);
+      expect(query.mock.calls[1][0]).toContain('DELETE FROM itinerary_versions');
+      expect(query.mock.calls[1][0]).toMatch(/AND source = 'autosave'[\s\S]*WHERE itinerary_id = \$1 AND source = 'autosave'/);
+      expect(query.mock.calls[1][1]).toEqual(['itinerary-123', MAX_ITINERARY_VERSIONS]);
+      expect(version).toEqual({
+        id: 'version-1',
+        itineraryId: 'itinerary-123',
+        source: 'autosave',
+        dayCount: 1,
+        itemCount: 1,
+        createdAt: versionRow.created_at,
+      });
+    });
+  });
+
+  describe('autosaveItinerary', () => {
+    it('should return null when the itinerary is not owned by the agency', async () => {
+      mockedQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(autosaveItinerary('itinerary-123', 'agency-999', timeline)).resolves.toBeNull();
+      expect(mockedQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not store a draft identical to the latest version', async () => {
+      mockedQuery
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] })
+        .mockResolvedValueOnce({ rows: [{ ...versionRow, source: 'save', unchanged: true }] });
+
+      const version = await autosaveItinerary('itinerary-123', 'agency-123', timeline);
+
+      expect(version?.source).toBe('save');
+      expect(mockedQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should store a draft when the timeline changed', async () => {
+      mockedQuery
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] })
+        .mockResolvedValueOnce({ rows: [{ ...versionRow, unchanged: false }] })
+        .mockResolvedValueOnce({ rows: [{ ...versionRow, id: 'version-2' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const version = await autosaveItinerary('itinerary-123', 'agency-123', timeline);
+
+      expect(version?.id).toBe('version-2');
+      expect(mockedQuery.mock.calls[2][0]).toContain('INSERT INTO itinerary_versions');
+    });
+  });
+
+  describe('getItineraryVersion', () => {
+    it('should upgrade the stored timeline to the current schema', async () => {
+      mockedQuery
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] })
+        .mockResolvedValueOnce({
+          rows: [{ ...versionRow, timeline_data: [{ dayNumber: 1, items: [{ id: 7, title: 'A' }] }], timeline_version: 1 }],
+        });
+
+      const version = await getItineraryVersion('itinerary-123', 'version-1', 'agency-123');
+
+      expect(version?.timelineData[0].items[0]).toMatchObject({ id: '7', productType: 'landmark' });
+      expect(version?.timelineData[0].lunchId).toBeNull();
+    });
+  });
+
+  describe('restoreItineraryVersion', () => {
+    const client = { query: jest.fn(), release: jest.fn() };
+
+    beforeEach(() => {
+      client.query.mockReset();
+      client.release.mockReset();
+      mockedConnect.mockResolvedValue(client);
+      mockedQuery
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] })
+        .mockResolvedValueOnce({ rows: [{ ...versionRow, timeline_data: timeline, timeline_version: 2 }] });
+    });
+
+    it('should refuse in the UPDATE once the itinerary is confirmed', async () => {
+      client.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rowCount: 0 })
+        .mockResolvedValueOnce({ rows: [{ status: 'confirmed' }] })
+        .mockResolvedValue({});
+
+      await expect(restoreItineraryVersion('itinerary-123', 'version-1', 'agency-123', 3))
+        .rejects.toThrow('Itinerary is locked');
+      expect(client.query.mock.calls[1][0]).toContain('status <> ALL($5)');
+      expect(client.query.mock.calls[1][1][4]).toEqual(['confirmed', 'travelling', 'completed']);
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should report a version conflict when the itinerary was saved since If-Match', async () => {
+      client.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rowCount: 0 })
+        .mockResolvedValueOnce({ rows: [{ status: 'draft' }] })
+        .mockResolvedValue({});
+
+      await expect(restoreItineraryVersion('itinerary-123', 'version-1', 'agency-123', 3))
+        .rejects.toThrow('Version conflict');
+      expect(client.query.mock.calls[1][0]).toContain('AND version = $6');
+      expect(client.query.mock.calls[1][1][5]).toBe(3);
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('itinerary drafts', () => {
+    it('should replace the agency\'s unsaved plan', async () => {
+      const updatedAt = new Date('2026-03-01T10:00:00Z');
+      mockedQuery.mockResolvedValueOnce({ rows: [{ updated_at: updatedAt }] });
+
+      await expect(saveItineraryDraft('agency-123', { timeline, destination: '東京', startDate: '2026-05-01T00:00:00.000Z' }))
+        .resolves.toBe(updatedAt);
+
+      expect(mockedQuery.mock.calls[0][0]).toContain('ON CONFLICT (agency_user_id) DO UPDATE');
+      expect(mockedQuery.mock.calls[0][1]).toEqual([
+        'agency-123', JSON.stringify(timeline), 2, '東京', '2026-05-01T00:00:00.000Z', null, null,
+      ]);
+    });
+
+    it('should return null when the agency has no unsaved plan', async () => {
+      mockedQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(getItineraryDraft('agency-123')).resolves.toBeNull();
+    });
+  });
+});
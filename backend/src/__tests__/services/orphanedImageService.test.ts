@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import pool from '../../config/database';
+import { collectOrphanedImages } from '../../services/orphanedImageService';
+import { getStorageDriver, resetStorageDriver } from '../../services/storage';
+
+jest.mock('../../config/database');
+
+const mockedQuery = pool.query as jest.Mock;
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+const url = (key: string) => `http://api.test/uploads/${key}`;
+
+describe('Orphaned Image Service', () => {
+  const originalEnv = { ...process.env };
+  let rootDir: string;
+
+  const store = async (key: string, ageMs: number) => {
+    await getStorageDriver().put(key, Buffer.from(key), { contentType: 'image/webp' });
+    const time = new Date(NOW.getTime() - ageMs);
+    await fs.utimes(path.join(rootDir, key), time, time);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'orphan-test-'));
+    process.env.STORAGE_DRIVER = 'local';
+    process.env.LOCAL_STORAGE_DIR = rootDir;
+    process.env.PUBLIC_API_URL = 'http://api.test';
+    resetStorageDriver();
+
+    await store('cover-hero.webp', 10 * DAY);
+    await store('cover-card.webp', 10 * DAY);
+    await store('gallery.jpg', 10 * DAY);
+    await store('replaced.jpg', 10 * DAY);
+    await store('uploading-hero.webp', 60 * 60 * 1000);
+
+    mockedQuery.mockResolvedValue({
+      rows: [
+        { url: url('cover-hero.webp'), variants: { thumbnail: url('missing.webp'), card: url('cover-card.webp'), hero: url('cover-hero.webp') } },
+        { url: url('gallery.jpg'), variants: null },
+        { url: 'https://example.com/external.jpg', variants: null },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    resetStorageDriver();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should report unreferenced files older than the grace period without deleting them', async () => {
+    const report = await collectOrphanedImages({ dryRun: true, now: NOW });
+
+    expect(report).toMatchObject({ dryRun: true, gracePeriodHours: 24, scanned: 5, referenced: 3, recent: 1, deleted: 0 });
+    expect(report.orphaned.map(object => object.key)).toEqual(['replaced.jpg']);
+    expect(await fs.readdir(rootDir)).toContain('replaced.jpg');
+    expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('FROM product_images'), [24]);
+  });
+
+  it('should delete orphaned files and keep everything else', async () => {
+    const report = await collectOrphanedImages({ dryRun: false, now: NOW });
+
+    expect(report).toMatchObject({ deleted: 1, failed: 0 });
+    expect((await fs.readdir(rootDir)).sort()).toEqual(['cover-card.webp', 'cover-hero.webp', 'gallery.jpg', 'uploading-hero.webp']);
+  });
+
+  it('should spare files within a longer grace period', async () => {
+    const report = await collectOrphanedImages({ dryRun: false, gracePeriodHours: 24 * 30, now: NOW });
+
+    expect(report).toMatchObject({ recent: 2, deleted: 0 });
+    expect(report.orphaned).toEqual([]);
+    expect(mockedQuery).toHaveBeenCalledWith(expect.any(String), [720]);
+  });
+
+  it('should skip hidden files in storage', async () => {
+    await fs.writeFile(path.join(rootDir, '.gitkeep'), '');
+
+    const report = await collectOrphanedImages({ dryRun: false, now: NOW });
+
+    expect(report.scanned).toBe(5);
+    expect(await fs.readdir(rootDir)).toContain('.gitkeep');
+  });
+
+  it('should reject grace periods shorter than an hour', async () => {
+    await expect(collectOrphanedImages({ dryRun: false, gracePeriodHours: 0 }))
+      .rejects.toThrow('Grace period must be at least 1 hour');
+    expect(await fs.readdir(rootDir)).toHaveLength(5);
+  });
+});
@@ -0,0 +1,120 @@
+import pool from '../../config/database';
+import {
+  checkAvailability,
+  validateAvailabilityInput,
+  getAvailabilityByProductIds,
+  ProductAvailability,
+} from '../../services/productAvailabilityService';
+
+jest.mock('../../config/database');
+
+const mockedQuery = pool.query as jest.Mock;
+
+const availability = (overrides: Partial<ProductAvailability> = {}): ProductAvailability => ({
+  productId: 'p1',
+  operatingDays: [0, 1, 2, 3, 4, 5, 6],
+  openingTime: null,
+  closingTime: null,
+  blackoutDates: [],
+  ...overrides,
+});
+
+describe('ProductAvailabilityService', () => {
+  beforeEach(() => {
+    mockedQuery.mockReset();
+  });
+
+  describe('checkAvailability', () => {
+    it('should treat an unrestricted product as open', () => {
+      expect(checkAvailability(availability(), '2026-03-02', { start: 0, end: 24 * 60 })).toBeNull();
+    });
+
+    it('should close on blackout dates, inclusive of both ends', () => {
+      const product = availability({ blackoutDates: [{ startDate: '2026-03-01', endDate: '2026-03-03', reason: '設備維修' }] });
+
+      expect(checkAvailability(product, '2026-03-01')).toEqual({ reason: 'blackout', message: '暫停營業（設備維修）' });
+      expect(checkAvailability(product, '2026-03-03')?.reason).toBe('blackout');
+      expect(checkAvailability(product, '2026-03-04')).toBeNull();
+    });
+
+    it('should close on non-operating weekdays', () => {
+      // 2026-03-02 is a Monday
+      expect(checkAvailability(availability({ operatingDays: [0, 2, 3, 4, 5, 6] }), '2026-03-02'))
+        .toEqual({ reason: 'weekday', message: '星期一公休' });
+    });
+
+    it('should check the visit window against opening hours', () => {
+      const product = availability({ openingTime: '09:00', closingTime: '17:00' });
+
+      expect(checkAvailability(product, '2026-03-02', { start: 9 * 60, end: 17 * 60 })).toBeNull();
+      expect(checkAvailability(product, '2026-03-02', { start: 16 * 60, end: 18 * 60 })?.reason).toBe('hours');
+      expect(checkAvailability(product, '2026-03-02')).toBeNull();
+    });
+  });
+
+  describe('validateAvailabilityInput', () => {
+    it('should accept a valid payload', () => {
+      expect(validateAvailabilityInput({
+        operatingDays: [1, 2, 3],
+        openingTime: '09:00',
+        closingTime: '17:30',
+        blackoutDates: [{ startDate: '2026-01-01', endDate: '2026-01-03', reason: '新年' }],
+      })).toEqual([]);
+    });
+
+    it('should report field-level errors', () => {
+      const fields = validateAvailabilityInput({
+        operatingDays: [7],
+        openingTime: '18:00',
+        closingTime: '09:00',
+        blackoutDates: [{ startDate: '2026-01-05', endDate: '2026-01-01' }, { startDate: 'soon' }],
+      }).map(error => error.field);
+
+      expect(fields).toEqual([
+        'operatingDays',
+        'closingTime',
+        'blackoutDates[0].endDate',
+        'blackoutDates[1].startDate',
+        'blackoutDates[1].endDate',
+      ]);
+    });
+
+    it('should require opening and closing time together', () => {
+      expect(validateAvailabilityInput({ operatingDays: [], openingTime: '09:00', closingTime: null, blackoutDates: [] }))
+        .toEqual([{ field: 'closingTime', message: 'opening and closing time must be set together' }]);
+    });
+  });
+
+  describe('getAvailabilityByProductIds', () => {
+    it('should not query without product IDs', async () => {
+      expect((await getAvailabilityByProductIds([])).size).toBe(0);
+      expect(mockedQuery).not.toHaveBeenCalled();
+    });
+
+    it('should combine product hours with blackout ranges', async () => {
+      mockedQuery
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 'p1', operating_days: [1, 2], opening_time: '09:00', closing_time: '17:00' },
+            { id: 'p2', operating_days: null, opening_time: null, closing_time: null },
+          ],
+        })
+        .mockResolvedValueOnce({
+          rows: [{ product_id: 'p1', start_date: '2026-02-01', end_date: '2026-02-02', reason: null }],
+        });
+
+      const result = await getAvailabilityByProductIds(['p1', 'p2', 'missing']);
+
+      expect(result.get('p1')).toEqual({
+        productId: 'p1',
+        operatingDays: [1, 2],
+        openingTime: '09:00',
+        closingTime: '17:00',
+        blackoutDates: [{ startDate: '2026-02-01', endDate: '2026-02-02', reason: null }],
+      });
+      expect(result.get('p2')?.operatingDays).toEqual([0, 1, 2, 3, 4, 5, 6]);
+      expect(result.has('missing')).toBe(false);
+      expect(mockedQuery.mock.calls[1][1]).toEqual([['p1', 'p2']]);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import pool from '../../config/database';
+import {
+  normalizeAddress,
+  titleSimilarity,
+  scoreDuplicate,
+  detectProductDuplicates,
+  linkDuplicate,
+  DUPLICATE_SCORE_THRESHOLD,
+} from '../../services/productDuplicateService';
+
+jest.mock('../../config/database');
+
+const mockedConnect = pool.connect as jest.Mock;
+
+const product = {
+  id: 'p1',
+  supplier_id: 's1',
+  title: '清水寺',
+  destination: '京都',
+  category: 'landmark',
+  address: '〒605-0862 京都府京都市東山区清水1丁目294',
+  latitude: '34.9948',
+  longitude: '135.7850',
+};
+
+describe('Product Duplicate Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('titleSimilarity', () => {
+    it('should ignore width, case, punctuation and spacing', () => {
+      expect(titleSimilarity('一蘭拉麵 天神西通店', '一蘭拉麵（天神西通店）')).toBe(1);
+      expect(titleSimilarity('ＡＢＣ Tower!', 'abc tower')).toBe(1);
+    });
+
+    it('should score slightly different titles high and unrelated titles low', () => {
+      expect(titleSimilarity('Kiyomizu-dera Temple', 'Kiyomizudera Temple Tour')).toBeGreaterThan(0.8);
+      expect(titleSimilarity('清水寺', '金閣寺')).toBeLessThan(0.5);
+      expect(titleSimilarity('', '')).toBe(0);
+    });
+  });
+
+  describe('normalizeAddress', () => {
+    it('should drop postal codes and write block numbers consistently', () => {
+      expect(normalizeAddress('〒810-0041 福岡市中央区大名２丁目1番57号'))
+        .toBe(normalizeAddress('福岡市中央区大名2-1-57'));
+    });
+  });
+
+  describe('scoreDuplicate', () => {
+    it('should flag a nearby product with a similar title', () => {
+      const { score, signals } = scoreDuplicate(
+        { title: '清水寺', address: product.address, latitude: 34.9948, longitude: 135.785 },
+        { title: '清水寺 (Kiyomizu-dera)', address: '京都市東山区清水1-294', latitude: 34.9950, longitude: 135.7852 }
+      );
+
+      expect(signals.sameAddress).toBe(true);
+      expect(signals.distanceMeters).toBeLessThan(50);
+      expect(score).toBeGreaterThanOrEqual(DUPLICATE_SCORE_THRESHOLD);
+    });
+
+    it('should not flag different places at the same address', () => {
+      const { score } = scoreDuplicate(
+        { title: '一蘭拉麵', address: '福岡市博多区博多駅中央街1-1', latitude: 33.5897, longitude: 130.4207 },
+        { title: '博多阪急百貨店', address: '福岡市博多区博多駅中央街1-1', latitude: 33.5897, longitude: 130.4207 }
+      );
+
+      expect(score).toBeLessThan(DUPLICATE_SCORE_THRESHOLD);
+    });
+
+    it('should score on the title alone when location data is missing', () => {
+      expect(scoreDuplicate({ title: '清水寺' }, { title: '清水寺', latitude: 1, longitude: 1 })).toEqual({
+        score: 1,
+        signals: { titleSimilarity: 1, sameAddress: null, distanceMeters: null },
+      });
+    });
+  });
+
+  describe('detectProductDuplicates', () => {
+    it('should record likely duplicates from other suppliers and drop stale suspicions', async () => {
+      const db = { query: jest.fn() };
+      db.query
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 'p2', title: '清水寺', address: '京都市東山区清水1-294', latitude: '34.9949', longitude: '135.7851' },
+            { id: 'p3', title: '八坂神社', address: '京都市東山区祇園町北側625', latitude: '35.0036', longitude: '135.7785' },
+          ],
+        })
+        .mockResolvedValue({ rows: [], rowCount: 0 });
+
+      const count = await detectProductDuplicates(db, product);
+
+      expect(count).toBe(1);
+      const [candidateSql, candidateValues] = db.query.mock.calls[0];
+      expect(candidateSql).toContain('p.supplier_id != $2');
+      expect(candidateSql).toContain('p.destination = $4 OR (p.latitude BETWEEN $5 AND $6');
+      expect(candidateValues.slice(0, 4)).toEqual(['p1', 's1', 'landmark', '京都']);
+
+      expect(db.query.mock.calls[1][0]).toContain('DELETE FROM product_duplicates');
+      expect(db.query.mock.calls[1][1]).toEqual(['p1', ['p2']]);
+
+      expect(db.query).toHaveBeenCalledTimes(3);
+      expect(db.query.mock.calls[2][0]).toContain('INSERT INTO product_duplicates');
+      expect(db.query.mock.calls[2][1]).toEqual(['p1', 'p2', 1, expect.stringContaining('"sameAddress":true')]);
+    });
+
+    it('should only match by destination when the product has no coordinates', async () => {
+      const db = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+
+      await detectProductDuplicates(db, { ...product, latitude: null, longitude: null });
+
+      expect(db.query.mock.calls[0][0]).not.toContain('p.latitude BETWEEN');
+      expect(db.query.mock.calls[0][1]).toHaveLength(4);
+    });
+  });
+
+  describe('linkDuplicate', () => {
+    let client: { query: jest.Mock; release: jest.Mock };
+
+    beforeEach(() => {
+      client = { query: jest.fn().mockResolvedValue({ rows: [] }), release: jest.fn() };
+      mockedConnect.mockResolvedValue(client);
+    });
+
+    it('should point the duplicate and its own duplicates at the kept product', async () => {
+      client.query.mockImplementation(async (sql: string) =>
+        sql.includes('FOR UPDATE')
+          ? { rows: [{ id: 'p1', duplicate_of_id: null }, { id: 'p2', duplicate_of_id: null }] }
+          : { rows: [] }
+      );
+
+      await linkDuplicate('p1', 'p2', 'admin-1');
+
+      const statements = client.query.mock.calls.map(call => [call[0].trim().split(/\s+/).slice(0, 2).join(' '), call[1]]);
+      expect(statements).toEqual([
+        ['BEGIN', undefined],
+        ['SELECT id,', [['p1', 'p2']]],
+        ['UPDATE products', ['p2', 'p1']],
+        ['UPDATE products', ['p2', 'p1']],
+        ['INSERT INTO', ['p1', 'p2', 'admin-1']],
+        ['COMMIT', undefined],
+      ]);
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should refuse to link to a product that is itself a duplicate', async () => {
+      client.query.mockImplementation(async (sql: string) =>
+        sql.includes('FOR UPDATE')
+          ? { rows: [{ id: 'p1', duplicate_of_id: null }, { id: 'p2', duplicate_of_id: 'p9' }] }
+          : { rows: [] }
+      );
+
+      await expect(linkDuplicate('p1', 'p2', 'admin-1')).rejects.toThrow('Cannot link to a product that is itself a duplicate');
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should refuse to link a product to itself', async () => {
+      await expect(linkDuplicate('p1', 'p1', 'admin-1')).rejects.toThrow('A product cannot be a duplicate of itself');
+      expect(mockedConnect).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { PassThrough } from 'stream';
+import ExcelJS from 'exceljs';
+import pool from '../../config/database';
+import { iterateProductsForExport, writeProductExport, ExportFormat, ProductExportFilters } from '../../services/productExportService';
+
+jest.mock('../../config/database');
+
+const mockedQuery = pool.query as jest.Mock;
+
+const productRow = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  title: `Product ${id}`,
+  destination: '福岡',
+  category: 'food',
+  description: 'Ramen, "tonkotsu"\nstyle',
+  cover_image_url: `https://cdn.test/${id}-hero.webp`,
+  net_price: '980.00',
+  has_shopping: false,
+  has_ticket: true,
+  ticket_price: '200.00',
+  duration: '1.5',
+  status: '需要修改',
+  rejection_reason: 'Missing opening hours',
+  created_at: new Date('2026-01-02T03:04:05.000Z'),
+  updated_at: new Date('2026-01-03T03:04:05.000Z'),
+  address: null,
+  latitude: '33.5903',
+  longitude: '130.3946',
+  cursor_created_at: `2026-01-02 03:04:05.12345${id.length}`,
+  supplier_name: 'Fukuoka Tours',
+  ...overrides,
+});
+
+const exportToBuffer = async (format: ExportFormat, filters: ProductExportFilters): Promise<Buffer> => {
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on('data', chunk => chunks.push(Buffer.from(chunk)));
+  const finished = new Promise(resolve => out.on('end', resolve));
+  await writeProductExport(format, filters, out);
+  await finished;
+  return Buffer.concat(chunks);
+};
+
+describe('Product Export Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should page through products with a keyset cursor', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [productRow('a'), productRow('b')] })
+      .mockResolvedValueOnce({ rows: [productRow('c')] });
+
+    const ids: string[] = [];
+    for await (const product of iterateProductsForExport({ supplierId: 's1', category: 'food' }, 2)) {
+      ids.push(product.id);
+    }
+
+    expect(ids).toEqual(['a', 'b', 'c']);
+    expect(mockedQuery).toHaveBeenCalledTimes(2);
+    expect(mockedQuery.mock.calls[0][1]).toEqual(['s1', 'food']);
+    expect(mockedQuery.mock.calls[1][0]).toContain('(p.created_at, p.id) < ($3, $4)');
+    expect(mockedQuery.mock.calls[1][1]).toEqual(['s1', 'food', productRow('b').cursor_created_at, 'b']);
+  });
+
+  it('should hide drafts and match admin search terms partially', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [] });
+
+    await exportToBuffer('json', { supplierQuery: '100%', destinationQuery: '福', status: '已發佈' });
+
+    const [sql, values] = mockedQuery.mock.calls[0];
+    expect(sql).toContain(`p.status != '草稿'`);
+    expect(sql).toContain('p.destination ILIKE $1');
+    expect(sql).toContain('u.name ILIKE $2');
+    expect(values).toEqual(['%福%', '%100\\%%', '已發佈']);
+  });
+
+  it('should write CSV with a BOM, quoting and formula-safe cells', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [productRow('a', { title: '=HYPERLINK("x")' })] });
+
+    const csv = (await exportToBuffer('csv', { supplierId: 's1' })).toString('utf8');
+    const lines = csv.split('\r\n');
+
+    expect(csv.startsWith('\uFEFFid,title,destination,category,description,netPrice,')).toBe(true);
+    expect(lines[0]).not.toContain('supplierName');
+    expect(lines[1]).toBe(
+      'a,"\'=HYPERLINK(""x"")",福岡,food,"Ramen, ""tonkotsu""\nstyle",980,false,true,200,1.5,,33.5903,130.3946,' +
+      'https://cdn.test/a-hero.webp,需要修改,Missing opening hours,2026-01-02T03:04:05.000Z,2026-01-03T03:04:05.000Z'
+    );
+  });
+
+  it('should write a JSON array with supplier names for admins', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [productRow('a'), productRow('b')] });
+
+    const products = JSON.parse((await exportToBuffer('json', {})).toString('utf8'));
+
+    expect(products).toHaveLength(2);
+    expect(products[0]).toMatchObject({
+      id: 'a',
+      supplierName: 'Fukuoka Tours',
+      netPrice: 980,
+      ticketPrice: 200,
+      address: null,
+      latitude: 33.5903,
+      rejectionReason: 'Missing opening hours',
+    });
+  });
+
+  it('should write an XLSX workbook', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: [productRow('a')] });
+
+    const buffer = await exportToBuffer('xlsx', {});
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+    const worksheet = workbook.worksheets[0];
+
+    expect(worksheet.getRow(1).getCell(2).text).toBe('supplierName');
+    expect(worksheet.getRow(2).getCell(1).text).toBe('a');
+    expect(worksheet.getRow(2).getCell(7).value).toBe(980);
+  });
+
+  it('should propagate query errors', async () => {
+    mockedQuery.mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(writeProductExport('csv', { supplierId: 's1' }, new PassThrough())).rejects.toThrow('connection lost');
+  });
+});
@@ -0,0 +1,114 @@
+import pool from '../../config/database';
+import {
+  addProductImages,
+  reorderProductImages,
+  deleteProductImage,
+  MAX_PRODUCT_IMAGES,
+} from '../../services/productImageService';
+
+jest.mock('../../config/database');
+
+const mockedQuery = pool.query as jest.Mock;
+const mockedConnect = pool.connect as jest.Mock;
+
+const imageRow = (id: string, sortOrder: number) => ({
+  id,
+  product_id: 'p1',
+  image_url: `https://storage.googleapis.com/bucket/${id}.jpg`,
+  caption: null,
+  sort_order: sortOrder,
+  created_at: new Date('2026-01-01'),
+});
+
+describe('ProductImageService', () => {
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeEach(() => {
+    mockedQuery.mockReset();
+    client.query.mockReset();
+    client.release.mockReset();
+    mockedConnect.mockResolvedValue(client);
+  });
+
+  describe('addProductImages', () => {
+    it('should append images after the current last position', async () => {
+      client.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ id: 'p1' }] })
+        .mockResolvedValueOnce({ rows: [{ count: '2', max_order: '4' }] })
+        .mockResolvedValue({});
+      mockedQuery.mockResolvedValueOnce({ rows: [imageRow('a', 0)] });
+
+      await addProductImages('p1', 's1', [
+        { imageUrl: 'https://storage.googleapis.com/bucket/x.jpg', caption: '大廳' },
+        { imageUrl: 'https://storage.googleapis.com/bucket/y.jpg' },
+      ]);
+
+      const inserts = client.query.mock.calls.filter(([sql]) => sql.startsWith('INSERT'));
+      expect(inserts.map(([, params]) => params)).toEqual([
+        ['p1', 'https://storage.googleapis.com/bucket/x.jpg', null, '大廳', 5],
+        ['p1', 'https://storage.googleapis.com/bucket/y.jpg', null, null, 6],
+      ]);
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should roll back when the gallery would exceed the limit', async () => {
+      client.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ id: 'p1' }] })
+        .mockResolvedValueOnce({ rows: [{ count: String(MAX_PRODUCT_IMAGES), max_order: '14' }] })
+        .mockResolvedValue({});
+
+      await expect(addProductImages('p1', 's1', [{ imageUrl: 'x' }])).rejects.toThrow('at most');
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should reject products the supplier does not own', async () => {
+      client.query.mockResolvedValueOnce({}).mockResolvedValueOnce({ rows: [] }).mockResolvedValue({});
+
+      await expect(addProductImages('p1', 'other', [{ imageUrl: 'x' }]))
+        .rejects.toThrow('Product not found or access denied');
+    });
+  });
+
+  describe('reorderProductImages', () => {
+    const setup = () => {
+      client.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ id: 'p1' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'a' }, { id: 'b' }, { id: 'c' }] })
+        .mockResolvedValue({});
+    };
+
+    it('should store the new positions', async () => {
+      setup();
+      mockedQuery.mockResolvedValueOnce({ rows: [imageRow('c', 0), imageRow('a', 1), imageRow('b', 2)] });
+
+      const images = await reorderProductImages('p1', 's1', ['c', 'a', 'b']);
+
+      const updates = client.query.mock.calls.filter(([sql]) => sql.startsWith('UPDATE'));
+      expect(updates.map(([, params]) => params)).toEqual([[0, 'c'], [1, 'a'], [2, 'b']]);
+      expect(images.map(image => image.id)).toEqual(['c', 'a', 'b']);
+    });
+
+    it.each([
+      [['a', 'b']],
+      [['a', 'b', 'b']],
+      [['a', 'b', 'x']],
+    ])('should reject %j as an incomplete ordering', async (imageIds) => {
+      setup();
+
+      await expect(reorderProductImages('p1', 's1', imageIds)).rejects.toThrow('exactly once');
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('deleteProductImage', () => {
+    it('should return null when nothing was deleted', async () => {
+      mockedQuery.mockResolvedValueOnce({ rows: [] });
+
+      expect(await deleteProductImage('p1', 's1', 'missing')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import ExcelJS from 'exceljs';
+import { zipSync } from 'fflate';
+import sharp from 'sharp';
+import pool from '../../config/database';
+import * as productService from '../../services/productService';
+import * as storageService from '../../services/storageService';
+import { importProducts, MAX_IMPORT_ROWS } from '../../services/productImportService';
+
+jest.mock('../../config/database');
+jest.mock('../../services/productService');
+jest.mock('../../services/storageService');
+
+const mockedQuery = pool.query as jest.Mock;
+const mockedCreateProducts = productService.createProducts as jest.Mock;
+const mockedStoreImageVariants = storageService.storeImageVariants as jest.Mock;
+const mockedDeleteImageWithVariants = storageService.deleteImageWithVariants as jest.Mock;
+
+const HEADER = 'title,destination,category,description,netPrice,hasTicket,ticketPrice,coverImage';
+
+const file = (originalname: string, buffer: Buffer): Express.Multer.File => ({
+  fieldname: 'file',
+  originalname,
+  encoding: '7bit',
+  mimetype: 'application/octet-stream',
+  size: buffer.length,
+  buffer,
+} as Express.Multer.File);
+
+const csv = (...lines: string[]) => file('products.csv', Buffer.from([HEADER, ...lines].join('\n')));
+
+const uploadResult = (name: string) => ({
+  publicUrl: `https://cdn.test/${name}-hero.webp`,
+  filename: `${name}-hero.webp`,
+  variants: {
+    thumbnail: `https://cdn.test/${name}-thumbnail.webp`,
+    card: `https://cdn.test/${name}-card.webp`,
+    hero: `https://cdn.test/${name}-hero.webp`,
+  },
+});
+
+describe('Product Import Service', () => {
+  let jpeg: Buffer;
+  let images: Express.Multer.File;
+
+  beforeAll(async () => {
+    jpeg = await sharp({ create: { width: 20, height: 20, channels: 3, background: '#ffffff' } }).jpeg().toBuffer();
+    images = file('images.zip', Buffer.from(zipSync({
+      'photos/ramen.jpg': jpeg,
+      'sushi.png': jpeg,
+      'notes.txt': Buffer.from('not an image'),
+      'broken.jpg': Buffer.from('not an image'),
+    })));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedQuery.mockResolvedValue({ rows: [] });
+    mockedStoreImageVariants.mockImplementation(async () => uploadResult(`img${mockedStoreImageVariants.mock.calls.length}`));
+    mockedCreateProducts.mockImplementation(async (products: any[]) =>
+      products.map((product, index) => ({ ...product, id: `p${index + 1}` }))
+    );
+  });
+
+  it('should create draft products with cover images from the ZIP', async () => {
+    const report = await importProducts('s1', csv(
+      '一蘭拉麵,福岡,餐飲,<p>Ramen</p>,800,是,200,ramen.jpg',
+      '',
+      'Sushi Dai,Tokyo,food,Sushi,1200,,,sushi.png'
+    ), images, { dryRun: false });
+
+    expect(report).toMatchObject({ dryRun: false, total: 2, valid: 2, invalid: 0, created: 2 });
+    expect(report.rows.map(row => [row.row, row.productId])).toEqual([[2, 'p1'], [4, 'p2']]);
+    expect(mockedStoreImageVariants).toHaveBeenCalledTimes(2);
+    expect(mockedCreateProducts).toHaveBeenCalledWith([
+      expect.objectContaining({
+        supplierId: 's1',
+        title: '一蘭拉麵',
+        category: 'food',
+        netPrice: 800,
+        hasTicket: true,
+        ticketPrice: 200,
+        coverImageUrl: 'https://cdn.test/img1-hero.webp',
+        coverImageVariants: uploadResult('img1').variants,
+      }),
+      expect.objectContaining({ title: 'Sushi Dai', hasTicket: false, ticketPrice: undefined }),
+    ], '草稿');
+  });
+
+  it('should report row errors and create nothing', async () => {
+    const report = await importProducts('s1', csv(
+      'Ramen,Fukuoka,food,Ramen,800,,,ramen.jpg',
+      ',Tokyo,food,Sushi,abc,,,missing.jpg',
+      'Notes,Tokyo,food,Notes,100,,,notes.txt'
+    ), images, { dryRun: false });
+
+    expect(report).toMatchObject({ total: 3, valid: 1, invalid: 2, created: 0 });
+    expect(report.rows[1].errors).toEqual([
+      { field: 'title', message: 'title is required' },
+      { field: 'netPrice', message: 'netPrice must be a number' },
+      { field: 'coverImage', message: 'coverImage missing.jpg is not in the images ZIP' },
+    ]);
+    expect(report.rows[2].errors).toEqual([{ field: 'coverImage', message: 'Only JPEG, PNG, and WebP images are allowed' }]);
+    expect(mockedStoreImageVariants).not.toHaveBeenCalled();
+    expect(mockedCreateProducts).not.toHaveBeenCalled();
+  });
+
+  it('should remove stored images when an image cannot be decoded', async () => {
+    mockedStoreImageVariants
+      .mockResolvedValueOnce(uploadResult('ramen'))
+      .mockRejectedValueOnce(new Error('File is not a valid image'));
+
+    const report = await importProducts('s1', csv(
+      'Ramen,Fukuoka,food,Ramen,800,,,ramen.jpg',
+      'Broken,Tokyo,food,Broken,100,,,broken.jpg'
+    ), images, { dryRun: false });
+
+    expect(report.rows[1].errors).toEqual([{ field: 'coverImage', message: 'File is not a valid image' }]);
+    expect(mockedDeleteImageWithVariants).toHaveBeenCalledWith(uploadResult('ramen').publicUrl, uploadResult('ramen').variants);
+    expect(mockedCreateProducts).not.toHaveBeenCalled();
+  });
+
+  it('should validate images on a dry run without storing anything', async () => {
+    const report = await importProducts('s1', csv(
+      'Ramen,Fukuoka,food,Ramen,800,,,photos/ramen.jpg',
+      'Broken,Tokyo,food,Broken,100,,,broken.jpg'
+    ), images, { dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, valid: 1, invalid: 1, created: 0 });
+    expect(report.rows[1].errors).toEqual([{ field: 'coverImage', message: 'File is not a valid image' }]);
+    expect(mockedStoreImageVariants).not.toHaveBeenCalled();
+    expect(mockedCreateProducts).not.toHaveBeenCalled();
+  });
+
+  it('should reuse cover images of the supplier\'s products without a ZIP', async () => {
+    const variants = uploadResult('old').variants;
+    mockedQuery.mockResolvedValue({ rows: [{ cover_image_url: variants.hero, cover_image_variants: variants }] });
+
+    const report = await importProducts('s1', csv(
+      `Ramen,Fukuoka,food,Ramen,800,,,${variants.hero}`,
+      'Sushi,Tokyo,food,Sushi,900,,,https://example.com/sushi.jpg',
+      'Udon,Osaka,food,Udon,700,,,udon.jpg'
+    ), undefined, { dryRun: true });
+
+    expect(mockedQuery).toHaveBeenCalledWith(expect.any(String), ['s1', [variants.hero, 'https://example.com/sushi.jpg']]);
+    expect(report.rows.map(row => row.errors)).toEqual([
+      [],
+      [{ field: 'coverImage', message: 'coverImage URL must be the cover image of one of your products' }],
+      [{ field: 'coverImage', message: 'coverImage udon.jpg needs an images ZIP' }],
+    ]);
+  });
+
+  it('should read XLSX files with the create form labels as headers', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('產品');
+    sheet.addRow(['產品標題', '目的地', '類別 *', '產品描述', '淨價', '購物行程', '封面圖']);
+    sheet.addRow(['清水寺', '京都', '地標', '古寺', 400, true, 'sushi.png']);
+    const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const report = await importProducts('s1', file('products.xlsx', buffer), images, { dryRun: false });
+
+    expect(report).toMatchObject({ valid: 1, created: 1 });
+    expect(mockedCreateProducts).toHaveBeenCalledWith([
+      expect.objectContaining({ title: '清水寺', category: 'landmark', netPrice: 400, hasShopping: true }),
+    ], '草稿');
+  });
+
+  it('should reject unreadable or incomplete files', async () => {
+    await expect(importProducts('s1', file('products.txt', Buffer.from(HEADER)), undefined, { dryRun: true }))
+      .rejects.toThrow('Only CSV and XLSX files can be imported');
+    await expect(importProducts('s1', file('products.csv', Buffer.from('title,destination\nA,B')), undefined, { dryRun: true }))
+      .rejects.toThrow('Missing columns: category, description, netPrice, coverImage');
+    await expect(importProducts('s1', csv(), undefined, { dryRun: true }))
+      .rejects.toThrow('The import file has no product rows');
+    await expect(importProducts('s1', csv('A,B,food,D,1,,,a.jpg'), file('images.zip', Buffer.from('junk')), { dryRun: true }))
+      .rejects.toThrow('Invalid ZIP file');
+
+    const tooMany = Array.from({ length: MAX_IMPORT_ROWS + 1 }, (_, i) => `P${i},T,food,D,1,,,a.jpg`);
+    await expect(importProducts('s1', csv(...tooMany), undefined, { dryRun: true }))
+      .rejects.toThrow(`At most ${MAX_IMPORT_ROWS} products`);
+  });
+});
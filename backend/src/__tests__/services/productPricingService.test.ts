@@ -0,0 +1,156 @@
+import pool from '../../config/database';
+import {
+  selectPriceRule,
+  validatePriceRules,
+  resolvePrice,
+  getPriceCalendar,
+  PriceRule,
+} from '../../services/productPricingService';
+
+jest.mock('../../config/database');
+
+const mockedQuery = pool.query as jest.Mock;
+
+const rule = (id: string, price: number, overrides: Partial<PriceRule> = {}): PriceRule => ({
+  id,
+  label: id,
+  startDate: null,
+  endDate: null,
+  daysOfWeek: null,
+  paxType: null,
+  minGroupSize: null,
+  maxGroupSize: null,
+  price,
+  ...overrides,
+});
+
+const ruleRow = (id: string, price: string, overrides: Record<string, any> = {}) => ({
+  id,
+  label: id,
+  start_date: null,
+  end_date: null,
+  days_of_week: null,
+  pax_type: null,
+  min_group_size: null,
+  max_group_size: null,
+  price,
+  ...overrides,
+});
+
+describe('ProductPricingService', () => {
+  beforeEach(() => {
+    mockedQuery.mockReset();
+  });
+
+  describe('selectPriceRule', () => {
+    const rules = [
+      rule('peak', 1500, { startDate: '2026-07-01', endDate: '2026-08-31' }),
+      rule('weekend', 1200, { daysOfWeek: [0, 6] }),
+      rule('peak-child', 900, { startDate: '2026-07-01', endDate: '2026-08-31', paxType: 'child' }),
+      rule('group', 800, { minGroupSize: 10 }),
+    ];
+
+    it('should return null when no rule matches', () => {
+      // 2026-03-04 is a Wednesday
+      expect(selectPriceRule(rules, '2026-03-04', 'adult', 2)).toBeNull();
+    });
+
+    it('should match inclusive date ranges and weekdays', () => {
+      expect(selectPriceRule(rules, '2026-08-31', 'adult', 2)?.id).toBe('peak');
+      expect(selectPriceRule(rules, '2026-03-07', 'adult', 2)?.id).toBe('weekend');
+    });
+
+    it('should prefer the rule with more conditions', () => {
+      expect(selectPriceRule(rules, '2026-07-15', 'child', 2)?.id).toBe('peak-child');
+    });
+
+    it('should break ties by rule order', () => {
+      // 2026-07-04 is a Saturday in peak season
+      expect(selectPriceRule(rules, '2026-07-04', 'adult', 2)?.id).toBe('peak');
+    });
+
+    it('should apply group-size tiers', () => {
+      expect(selectPriceRule(rules, '2026-03-04', 'adult', 10)?.id).toBe('group');
+      expect(selectPriceRule(rules, '2026-03-04', 'adult', 9)).toBeNull();
+    });
+  });
+
+  describe('validatePriceRules', () => {
+    it('should accept valid rules', () => {
+      expect(validatePriceRules([
+        { label: '旺季', startDate: '2026-07-01', endDate: '2026-08-31', price: 1500 },
+        { daysOfWeek: [0, 6], paxType: 'child', minGroupSize: 1, maxGroupSize: 5, price: 0 },
+      ])).toEqual([]);
+    });
+
+    it('should reject a non-array', () => {
+      expect(validatePriceRules({})).toEqual([{ field: 'rules', message: expect.any(String) }]);
+    });
+
+    it('should report field-level errors', () => {
+      const fields = validatePriceRules([
+        { price: -1, startDate: '2026-08-01', endDate: '2026-07-01' },
+        { price: 100, daysOfWeek: [], paxType: 'senior', minGroupSize: 5, maxGroupSize: 2 },
+      ]).map(error => error.field);
+
+      expect(fields).toEqual([
+        'rules[0].price',
+        'rules[0].endDate',
+        'rules[1].daysOfWeek',
+        'rules[1].paxType',
+        'rules[1].maxGroupSize',
+      ]);
+    });
+  });
+
+  describe('resolvePrice', () => {
+    it('should fall back to the net price when no rule matches', async () => {
+      mockedQuery
+        .mockResolvedValueOnce({ rows: [{ net_price: '1000.00' }] })
+        .mockResolvedValueOnce({ rows: [ruleRow('weekend', '1200.00', { days_of_week: [0, 6] })] });
+
+      const result = await resolvePrice('p1', '2026-03-04', 'adult', 2);
+
+      expect(result).toEqual({
+        productId: 'p1',
+        date: '2026-03-04',
+        paxType: 'adult',
+        groupSize: 2,
+        price: 1000,
+        ruleId: null,
+        label: null,
+      });
+    });
+
+    it('should use the matching rule price', async () => {
+      mockedQuery
+        .mockResolvedValueOnce({ rows: [{ net_price: '1000.00' }] })
+        .mockResolvedValueOnce({ rows: [ruleRow('child', '600.00', { pax_type: 'child' })] });
+
+      const result = await resolvePrice('p1', '2026-03-04', 'child', 2);
+
+      expect(result).toMatchObject({ price: 600, ruleId: 'child', label: 'child' });
+    });
+
+    it('should throw when the product does not exist', async () => {
+      mockedQuery.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [] });
+
+      await expect(resolvePrice('missing', '2026-03-04', 'adult', 1)).rejects.toThrow('Product not found');
+    });
+  });
+
+  describe('getPriceCalendar', () => {
+    it('should resolve adult and child prices for each date', async () => {
+      mockedQuery
+        .mockResolvedValueOnce({ rows: [{ net_price: '1000.00' }] })
+        .mockResolvedValueOnce({ rows: [ruleRow('weekend', '1200.00', { days_of_week: [0, 6] })] });
+
+      // 2026-03-06 is a Friday
+      const calendar = await getPriceCalendar('p1', '2026-03-06', '2026-03-08', 1);
+
+      expect(calendar.map(day => day.date)).toEqual(['2026-03-06', '2026-03-07', '2026-03-08']);
+      expect(calendar.map(day => day.prices.adult.price)).toEqual([1000, 1200, 1200]);
+      expect(calendar[1].prices.child).toMatchObject({ paxType: 'child', price: 1200, ruleId: 'weekend' });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  diffProductSnapshots,
+  snapshotFromRow,
+  recordProductRevision,
+} from '../../services/productRevisionService';
+
+jest.mock('../../config/database');
+
+describe('ProductRevisionService', () => {
+  const productRow = {
+    id: 'product-123',
+    title: 'Tokyo Tower',
+    destination: 'Tokyo',
+    category: 'landmark',
+    description: '<p>View</p>',
+    cover_image_url: 'https://storage.googleapis.com/bucket/a.jpg',
+    net_price: '1200.00',
+    has_shopping: false,
+    has_ticket: true,
+    ticket_price: '800.00',
+    duration: '1.5',
+    address: 'Minato City',
+    latitude: '35.65858000',
+    longitude: '139.74543000',
+    status: '需要修改',
+    rejection_reason: 'Missing photos',
+  };
+
+  describe('snapshotFromRow', () => {
+    it('should convert numeric columns and keep nullable fields as null', () => {
+      const snapshot = snapshotFromRow({ ...productRow, ticket_price: null, address: undefined });
+
+      expect(snapshot.netPrice).toBe(1200);
+      expect(snapshot.duration).toBe(1.5);
+      expect(snapshot.latitude).toBeCloseTo(35.65858);
+      expect(snapshot.ticketPrice).toBeNull();
+      expect(snapshot.address).toBeNull();
+    });
+  });
+
+  describe('diffProductSnapshots', () => {
+    it('should list only changed content fields', () => {
+      const before = snapshotFromRow(productRow);
+      const after = snapshotFromRow({
+        ...productRow,
+        title: 'Tokyo Tower Observatory',
+        net_price: '1300.00',
+        status: '待審核',
+        rejection_reason: null,
+      });
+
+      expect(diffProductSnapshots(before, after)).toEqual([
+        { field: 'title', before: 'Tokyo Tower', after: 'Tokyo Tower Observatory' },
+        { field: 'netPrice', before: 1200, after: 1300 },
+      ]);
+    });
+
+    it('should treat every populated field as changed when there is no previous snapshot', () => {
+      const changes = diffProductSnapshots(null, snapshotFromRow(productRow));
+
+      expect(changes.map(c => c.field)).toContain('title');
+      expect(changes.every(c => c.before === null)).toBe(true);
+    });
+  });
+
+  describe('recordProductRevision', () => {
+    it('should number the revision after the latest one and store changed fields', async () => {
+      const query = jest.fn()
+        .mockResolvedValueOnce({
+          rows: [{ revision_number: 3, snapshot: snapshotFromRow(productRow) }],
+        })
+        .mockResolvedValueOnce({
+          rows: [{
+            id: 'rev-4',
+            product_id: 'product-123',
+            revision_number: 4,
+            change_type: 'update',
+            snapshot: {},
+            changed_fields: ['title'],
+            changed_by: 'supplier-123',
+            created_at: new Date(),
+          }],
+        });
+
+      const revision = await recordProductRevision(
+        { query } as any,
+        { ...productRow, title: 'New title' },
+        'update',
+        'supplier-123'
+      );
+
+      const insertParams = query.mock.calls[1][1];
+      expect(insertParams[1]).toBe(4);
+      expect(insertParams[4]).toEqual(['title']);
+      expect(revision.revisionNumber).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import pool from '../../config/database';
+import { recordProductRevision } from '../../services/productRevisionService';
+import { detectProductDuplicates } from '../../services/productDuplicateService';
+import { getPublishedProducts, updateProductStatus } from '../../services/productService';
+
+jest.mock('../../config/database');
+jest.mock('../../services/productRevisionService');
+jest.mock('../../services/productDuplicateService');
+
+const mockedQuery = pool.query as jest.Mock;
+const mockedConnect = pool.connect as jest.Mock;
+const mockedRecordProductRevision = recordProductRevision as jest.Mock;
+const mockedDetectProductDuplicates = detectProductDuplicates as jest.Mock;
+
+const productRow = {
+  id: 'product-1',
+  supplier_id: 'supplier-1',
+  title: '箱根溫泉',
+  net_price: '1000.00',
+  duration: '2',
+  status: '待審核',
+  created_at: new Date('2026-01-01'),
+  updated_at: new Date('2026-01-02'),
+};
+
+describe('ProductService', () => {
+  const client = { query: jest.fn(), release: jest.fn() };
+
+  beforeEach(() => {
+    mockedQuery.mockReset();
+    client.query.mockReset();
+    client.release.mockReset();
+    mockedConnect.mockResolvedValue(client);
+    mockedRecordProductRevision.mockReset();
+    mockedDetectProductDuplicates.mockReset();
+  });
+
+  describe('getPublishedProducts', () => {
+    const page = { limit: 20, sort: 'relevance', order: 'desc' as const };
+
+    it('should match two-character CJK terms through the indexed grams, not an OR across the supplier join', async () => {
+      mockedQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] });
+
+      await getPublishedProducts({ q: '溫泉 親子' }, page);
+
+      const [countSql, countValues] = mockedQuery.mock.calls[1];
+      expect(countValues).toEqual(['溫泉', '%溫泉%', '親子', '%親子%', '溫泉 親子']);
+      expect(countSql).toContain('sp.search_grams @> search_grams($1)');
+      expect(countSql).toContain('su.name_search_grams @> search_grams($1) AND su.name ILIKE $2');
+      expect(countSql).toContain('sp.search_grams @> search_grams($3)');
+      expect(countSql).toContain('UNION');
+      expect(countSql).not.toMatch(/OR u\.name ILIKE/);
+      expect(countSql).toContain('search_gram_similarity(p.title, $5)');
+    });
+
+    it('should filter by destination, category and supplier in SQL', async () => {
+      mockedQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] });
+
+      await getPublishedProducts(
+        { destination: '箱根', category: 'food', supplierId: 'supplier-1' },
+        { limit: 20, sort: 'createdAt', order: 'desc' }
+      );
+
+      const [countSql, countValues] = mockedQuery.mock.calls[1];
+      expect(countValues).toEqual(['箱根', 'food', 'supplier-1']);
+      expect(countSql).toContain('p.supplier_id = $3');
+    });
+
+    it('should require q to sort by relevance', async () => {
+      await expect(getPublishedProducts({}, page)).rejects.toThrow('sort=relevance requires q');
+      expect(mockedQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateProductStatus', () => {
+    it('should lock the product and record the revision in the status change transaction', async () => {
+      client.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ id: 'product-1' }] })
+        .mockResolvedValueOnce({ rows: [productRow] })
+        .mockResolvedValue({});
+
+      const product = await updateProductStatus('product-1', '待審核', 'supplier-1');
+
+      expect(product.status).toBe('待審核');
+      expect(client.query.mock.calls[1][0]).toContain('FOR UPDATE');
+      expect(client.query.mock.calls[1][1]).toEqual(['product-1', 'supplier-1']);
+      expect(mockedRecordProductRevision).toHaveBeenCalledWith(client, productRow, 'status', 'supplier-1');
+      expect(mockedDetectProductDuplicates).toHaveBeenCalledWith(client, productRow);
+      expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should roll back the status change when the revision cannot be recorded', async () => {
+      client.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ id: 'product-1' }] })
+        .mockResolvedValueOnce({ rows: [productRow] })
+        .mockResolvedValue({});
+      mockedRecordProductRevision.mockRejectedValueOnce(new Error('duplicate key value'));
+
+      await expect(updateProductStatus('product-1', '待審核', 'supplier-1')).rejects.toThrow('duplicate key value');
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+
+    it('should roll back the status change when the duplicate check fails', async () => {
+      client.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ id: 'product-1' }] })
+        .mockResolvedValueOnce({ rows: [productRow] })
+        .mockResolvedValue({});
+      mockedDetectProductDuplicates.mockRejectedValueOnce(new Error('connection reset'));
+
+      await expect(updateProductStatus('product-1', '已發佈', undefined, undefined, 'admin-1')).rejects.toThrow('connection reset');
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+
+    it('should refuse products the supplier does not own', async () => {
+      client.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValue({});
+
+      await expect(updateProductStatus('product-1', '待審核', 'supplier-2'))
+        .rejects.toThrow('Product not found or access denied');
+      expect(client.query).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  buildQuote,
+  roundPrice,
+  DEFAULT_QUOTE_SETTINGS,
+  QuoteProduct,
+} from '../../services/quotationService';
+
+jest.mock('../../config/database');
+
+describe('QuotationService', () => {
+  const products = new Map<string, QuoteProduct>([
+    ['tower', { id: 'tower', title: 'Tokyo Tower', netPrice: 500, hasTicket: true, ticketPrice: 1200 }],
+    ['temple', { id: 'temple', title: 'Senso-ji', netPrice: 300, hasTicket: false, ticketPrice: null }],
+    ['ramen', { id: 'ramen', title: 'Ramen Shop', netPrice: 400, hasTicket: false, ticketPrice: null }],
+    ['hotel', { id: 'hotel', title: 'Park Hotel', netPrice: 5000, hasTicket: false, ticketPrice: null }],
+  ]);
+
+  const timeline = [
+    {
+      dayNumber: 1,
+      items: [{ id: 'tower' }, { id: 'temple' }],
+      lunchId: 'ramen',
+      dinnerId: 'ramen',
+      dinnerCustom: '自理',
+      hotelId: 'hotel',
+    },
+    {
+      dayNumber: 2,
+      items: [{ id: 'missing' }],
+      hotelCustom: '四星或同級',
+    },
+  ];
+
+  describe('roundPrice', () => {
+    it('should round to the configured unit in the configured direction', () => {
+      expect(roundPrice(1234, 100, 'up')).toBe(1300);
+      expect(roundPrice(1234, 100, 'down')).toBe(1200);
+      expect(roundPrice(1250, 100, 'nearest')).toBe(1300);
+      expect(roundPrice(1200.0000001, 100, 'up')).toBe(1200);
+    });
+  });
+
+  describe('buildQuote', () => {
+    it('should price items, tickets and meals per person and hotels per room', () => {
+      const quote = buildQuote(timeline, products, DEFAULT_QUOTE_SETTINGS, 3);
+
+      expect(quote.rooms).toBe(2);
+      expect(quote.days[0].lines.map(l => [l.kind, l.amount])).toEqual([
+        ['item', 1500],
+        ['ticket', 3600],
+        ['item', 900],
+        ['lunch', 1200],
+        ['hotel', 10000],
+      ]);
+      expect(quote.days[0].netTotal).toBe(17200);
+      expect(quote.days[1].netTotal).toBe(0);
+      expect(quote.unpricedProductIds).toEqual(['missing']);
+    });
+
+    it('should apply markup, currency conversion and rounding to the per-person price', () => {
+      const quote = buildQuote(timeline, products, {
+        ...DEFAULT_QUOTE_SETTINGS,
+        markupPercent: 20,
+        currency: 'USD',
+        exchangeRate: 32,
+        roundingUnit: 10,
+        roundingMode: 'up',
+      }, 2);
+
+      // (1000 + 2400 + 600 + 800 + 5000) * 1.2 = 11760 TWD, 5880 per person = 183.75 USD
+      expect(quote.netTotal).toBe(9800);
+      expect(quote.sellTotal).toBe(11760);
+      expect(quote.pricePerPerson).toBe(190);
+      expect(quote.priceTotal).toBe(380);
+      expect(quote.currency).toBe('USD');
+    });
+  });
+});
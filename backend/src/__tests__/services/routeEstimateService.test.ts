@@ -0,0 +1,96 @@
+import pool from '../../config/database';
+import { estimateRoute, estimateRouteForStops, getSpeedProfile } from '../../services/routeEstimateService';
+
+jest.mock('../../config/database');
+
+const mockedQuery = pool.query as jest.Mock;
+
+describe('RouteEstimateService', () => {
+  const taipei101 = { lat: 25.0340, lng: 121.5645 };
+  const mainStation = { lat: 25.0478, lng: 121.5170 };
+
+  beforeEach(() => {
+    mockedQuery.mockReset();
+    delete process.env.ROUTE_WALKING_SPEED_KMH;
+  });
+
+  describe('estimateRoute', () => {
+    it('should return one leg per consecutive pair of points', () => {
+      const route = estimateRoute([taipei101, mainStation, taipei101], 'driving');
+
+      expect(route.legs).toHaveLength(2);
+      expect(route.legs[0].startLocation).toEqual(taipei101);
+      expect(route.legs[0].endLocation).toEqual(mainStation);
+      expect(route.legs[0].distanceValue).toBe(route.legs[1].distanceValue);
+      expect(route.totalDistance).toMatch(/ km$/);
+      expect(route.polyline.length).toBeGreaterThan(0);
+    });
+
+    it('should apply the detour factor, speed and per-leg overhead of the mode', () => {
+      const [leg] = estimateRoute([taipei101, mainStation], 'driving').legs;
+      const profile = getSpeedProfile('driving');
+      const expectedSeconds = (leg.distanceValue / 1000 / profile.speedKmh) * 3600 + profile.overheadMinutes * 60;
+
+      expect(leg.distanceValue).toBeGreaterThan(5000 * profile.detourFactor);
+      expect(leg.durationValue).toBeCloseTo(expectedSeconds, -1);
+    });
+
+    it('should take walking slower than driving', () => {
+      const walking = estimateRoute([taipei101, mainStation], 'walking').legs[0];
+      const driving = estimateRoute([taipei101, mainStation], 'driving').legs[0];
+
+      expect(walking.durationValue).toBeGreaterThan(driving.durationValue);
+      expect(walking.durationText).toMatch(/小時/);
+    });
+
+    it('should read speed overrides from the environment', () => {
+      process.env.ROUTE_WALKING_SPEED_KMH = '6';
+      expect(getSpeedProfile('walking').speedKmh).toBe(6);
+
+      process.env.ROUTE_WALKING_SPEED_KMH = 'fast';
+      expect(getSpeedProfile('walking').speedKmh).toBe(4.5);
+    });
+
+    it('should encode the polyline in the Google format', () => {
+      // Example from the Google encoded polyline algorithm documentation
+      const route = estimateRoute([
+        { lat: 38.5, lng: -120.2 },
+        { lat: 40.7, lng: -120.95 },
+        { lat: 43.252, lng: -126.453 },
+      ]);
+
+      expect(route.polyline).toBe('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+    });
+  });
+
+  describe('estimateRouteForStops', () => {
+    it('should look up product coordinates and skip stops without them', async () => {
+      mockedQuery.mockResolvedValueOnce({
+        rows: [{ id: 'product-1', latitude: '25.03400000', longitude: '121.56450000' }],
+      });
+
+      const route = await estimateRouteForStops([
+        { productId: 'product-1' },
+        { productId: 'product-without-coordinates' },
+        mainStation,
+      ]);
+
+      expect(mockedQuery.mock.calls[0][1]).toEqual([['product-1', 'product-without-coordinates']]);
+      expect(route.legs).toHaveLength(1);
+      expect(route.legs[0].startLocation).toEqual(taipei101);
+      expect(route.skippedStops).toEqual([1]);
+    });
+
+    it('should not query when all stops have coordinates', async () => {
+      await estimateRouteForStops([taipei101, mainStation], 'coach');
+      expect(mockedQuery).not.toHaveBeenCalled();
+    });
+
+    it('should throw when fewer than two stops are located', async () => {
+      mockedQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(estimateRouteForStops([{ productId: 'product-1' }, mainStation]))
+        .rejects.toThrow('Not enough located stops');
+    });
+  });
+});
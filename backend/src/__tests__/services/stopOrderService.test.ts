@@ -0,0 +1,101 @@
+import pool from '../../config/database';
+import { optimizeStopOrder, proposeDayOrder } from '../../services/stopOrderService';
+import { TimelineDay, TimelineItem } from '../../utils/timelineSchema';
+
+jest.mock('../../config/database');
+
+const mockedQuery = pool.query as jest.Mock;
+
+// Points along a line of longitude, ~11 km apart
+const at = (step: number) => ({ lat: 25 + step * 0.1, lng: 121.5 });
+
+const item = (id: string, step: number, overrides: Partial<TimelineItem> = {}): TimelineItem => ({
+  id,
+  title: id,
+  productType: 'landmark',
+  timelineId: id,
+  location: at(step),
+  ...overrides,
+});
+
+const day = (dayNumber: number, items: TimelineItem[], hotelId: string | null = null): TimelineDay => ({
+  dayNumber,
+  items,
+  breakfastId: null, breakfastCustom: null, breakfastTitle: null,
+  lunchId: null, lunchCustom: null, lunchTitle: null,
+  dinnerId: null, dinnerCustom: null, dinnerTitle: null,
+  hotelId, hotelCustom: null, hotelTitle: null,
+  notes: null,
+});
+
+describe('StopOrderService', () => {
+  beforeEach(() => {
+    mockedQuery.mockReset();
+  });
+
+  describe('optimizeStopOrder', () => {
+    it('should order free stops to minimise travel from the start to the end', () => {
+      const stops = [3, 1, 4, 2].map(step => ({ key: `s${step}`, location: at(step), fixed: false }));
+
+      expect(optimizeStopOrder(stops, at(0), at(5))).toEqual(['s1', 's2', 's3', 's4']);
+      expect(optimizeStopOrder(stops, at(5), at(0))).toEqual(['s4', 's3', 's2', 's1']);
+    });
+
+    it('should keep fixed stops and stops without coordinates in place', () => {
+      const stops = [
+        { key: 'b', location: at(2), fixed: false },
+        { key: 'a', location: at(1), fixed: false },
+        { key: 'pinned', location: at(10), fixed: true },
+        { key: 'unknown', fixed: false },
+        { key: 'd', location: at(12), fixed: false },
+        { key: 'c', location: at(11), fixed: false },
+      ];
+
+      expect(optimizeStopOrder(stops, at(0))).toEqual(['a', 'b', 'pinned', 'unknown', 'c', 'd']);
+    });
+
+    it('should handle segments too large to solve exactly', () => {
+      const steps = [9, 2, 14, 0, 7, 11, 4, 13, 1, 6, 10, 3, 12, 5, 8];
+      const stops = steps.map(step => ({ key: `s${step}`, location: at(step), fixed: false }));
+
+      expect(optimizeStopOrder(stops, at(-1))).toEqual([...steps].sort((a, b) => a - b).map(step => `s${step}`));
+    });
+  });
+
+  describe('proposeDayOrder', () => {
+    it('should route between the previous and current night hotels and report the saving', async () => {
+      mockedQuery.mockResolvedValueOnce({
+        rows: [
+          { id: 'hotel-north', latitude: '26.00000000', longitude: '121.50000000' },
+          { id: 'hotel-south', latitude: '24.90000000', longitude: '121.50000000' },
+        ],
+      });
+
+      const timeline = [
+        day(1, [], 'hotel-north'),
+        day(2, [item('a', 1), item('b', 5), item('c', 3)], 'hotel-south'),
+      ];
+
+      const proposal = await proposeDayOrder(timeline, 2);
+
+      expect(mockedQuery.mock.calls[0][1]).toEqual([['hotel-north', 'hotel-south']]);
+      expect(proposal?.order).toEqual(['b', 'c', 'a']);
+      expect(proposal?.changed).toBe(true);
+      expect(proposal!.after.distanceValue).toBeLessThan(proposal!.before.distanceValue);
+    });
+
+    it('should not move items with a pinned start time', async () => {
+      const timeline = [day(1, [item('a', 3, { timePinned: true, startTime: '09:00' }), item('b', 2), item('c', 1)])];
+
+      const proposal = await proposeDayOrder(timeline, 1);
+
+      expect(mockedQuery).not.toHaveBeenCalled();
+      expect(proposal?.order).toEqual(['a', 'b', 'c']);
+      expect(proposal?.changed).toBe(false);
+    });
+
+    it('should return null for an unknown day', async () => {
+      await expect(proposeDayOrder([day(1, [])], 3)).resolves.toBeNull();
+    });
+  });
+});
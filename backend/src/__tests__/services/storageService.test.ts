@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { uploadCoverImage, downloadImage, deleteImageByUrl, deleteImageWithVariants } from '../../services/storageService';
+import { getStorageDriver, resetStorageDriver } from '../../services/storage';
+
+// Landscape pixels with EXIF orientation 6, i.e. a portrait phone photo
+let photo: Buffer;
+
+const image = (overrides: Partial<Express.Multer.File> = {}): Express.Multer.File => ({
+  fieldname: 'coverImage',
+  originalname: '清水寺.JPG',
+  encoding: '7bit',
+  mimetype: 'image/jpeg',
+  size: photo.length,
+  buffer: photo,
+  ...overrides,
+} as Express.Multer.File);
+
+describe('StorageService with the local driver', () => {
+  const originalEnv = { ...process.env };
+  let rootDir: string;
+
+  beforeAll(async () => {
+    photo = await sharp({ create: { width: 2400, height: 1200, channels: 3, background: '#3366cc' } })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+  });
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+    process.env.STORAGE_DRIVER = 'local';
+    process.env.LOCAL_STORAGE_DIR = rootDir;
+    process.env.PUBLIC_API_URL = 'http://api.test/';
+    resetStorageDriver();
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    resetStorageDriver();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should store WebP variants on disk and serve them under /uploads', async () => {
+    const result = await uploadCoverImage(image());
+
+    expect(result.filename).toMatch(/^[0-9a-f]{32}-\d+-hero\.webp$/);
+    expect(result.publicUrl).toBe(`http://api.test/uploads/${result.filename}`);
+    expect(result.variants.hero).toBe(result.publicUrl);
+    expect((await fs.readdir(rootDir)).sort()).toEqual(
+      ['card', 'hero', 'thumbnail'].map(name => result.filename.replace('-hero.webp', `-${name}.webp`))
+    );
+
+    const hero = await sharp(await downloadImage(result.publicUrl) as Buffer).metadata();
+    expect(hero).toMatchObject({ format: 'webp', width: 540, height: 1080 });
+    expect(hero.exif).toBeUndefined();
+    expect(hero.orientation).toBeUndefined();
+
+    const thumbnail = await sharp(await downloadImage(result.variants.thumbnail) as Buffer).metadata();
+    expect(thumbnail).toMatchObject({ width: 160, height: 120 });
+  });
+
+  it('should delete uploads by URL and ignore foreign URLs', async () => {
+    const result = await uploadCoverImage(image({ mimetype: 'image/png' }));
+
+    await deleteImageByUrl('https://example.com/uploads/other.png');
+    expect(await getStorageDriver().exists(result.filename)).toBe(true);
+
+    await deleteImageWithVariants(result.publicUrl, result.variants);
+    expect(await fs.readdir(rootDir)).toEqual([]);
+    expect(await downloadImage(result.publicUrl)).toBeNull();
+  });
+
+  it('should reject files that are not decodable images', async () => {
+    await expect(uploadCoverImage(image({ buffer: Buffer.from('not an image'), size: 12 })))
+      .rejects.toThrow('File is not a valid image');
+
+    expect(await fs.readdir(rootDir)).toEqual([]);
+  });
+
+  it('should reject invalid files before storing anything', async () => {
+    await expect(uploadCoverImage(image({ mimetype: 'image/gif' }))).rejects.toThrow('Only JPEG, PNG, and WebP');
+    await expect(uploadCoverImage(image({ size: 6 * 1024 * 1024 }))).rejects.toThrow('less than 5MB');
+
+    expect(await fs.readdir(rootDir)).toEqual([]);
+  });
+
+  it('should refuse keys outside the storage directory', async () => {
+    await expect(getStorageDriver().get('../secrets.json')).rejects.toThrow('Invalid storage key');
+    expect(await downloadImage('http://api.test/uploads/..%2Fsecrets.json')).toBeNull();
+  });
+
+  it('should reject unknown drivers', () => {
+    process.env.STORAGE_DRIVER = 's3';
+    resetStorageDriver();
+
+    expect(() => getStorageDriver()).toThrow('Unknown STORAGE_DRIVER');
+  });
+});
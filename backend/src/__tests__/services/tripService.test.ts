@@ -0,0 +1,67 @@
+import pool from '../../config/database';
+import { updateTripStatus } from '../../services/tripService';
+
+jest.mock('../../config/database');
+
+const mockedConnect = pool.connect as jest.Mock;
+
+describe('TripService', () => {
+  describe('updateTripStatus', () => {
+    const client = { query: jest.fn(), release: jest.fn() };
+
+    const tripRow = (status: string) => ({
+      id: 'trip-1',
+      supplier_id: 'supplier-1',
+      name: '箱根兩日遊',
+      destination: '箱根',
+      days_count: 2,
+      status,
+      version: 3,
+    });
+
+    // Answers the trip lookups; every other statement succeeds without rows
+    const respondWithTrip = (currentStatus: string) => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return { rows: [{ status: currentStatus, supplier_id: 'supplier-1' }] };
+        if (sql.includes('SELECT * FROM supplier_trips')) return { rows: [tripRow('審核中')] };
+        if (sql.includes('INSERT INTO supplier_trip_snapshots')) return { rows: [{ id: 'snapshot-1', trip_id: 'trip-1', version: 1 }] };
+        return { rows: [] };
+      });
+    };
+
+    beforeEach(() => {
+      client.query.mockReset();
+      client.release.mockReset();
+      mockedConnect.mockResolvedValue(client);
+    });
+
+    it('should snapshot a submission in the same transaction as the status change', async () => {
+      respondWithTrip('草稿');
+
+      await updateTripStatus('trip-1', '審核中', 'supplier-1');
+
+      const statements = client.query.mock.calls.map(([sql]) => sql);
+      const snapshotIndex = statements.findIndex(sql => sql.includes('INSERT INTO supplier_trip_snapshots'));
+      expect(statements.findIndex(sql => sql.includes('UPDATE supplier_trips'))).toBeLessThan(snapshotIndex);
+      expect(snapshotIndex).toBeLessThan(statements.indexOf('COMMIT'));
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should not snapshot a trip that is already under review again', async () => {
+      respondWithTrip('審核中');
+
+      await updateTripStatus('trip-1', '審核中', 'supplier-1');
+
+      const statements = client.query.mock.calls.map(([sql]) => sql);
+      expect(statements.some(sql => sql.includes('INSERT INTO supplier_trip_snapshots'))).toBe(false);
+      expect(statements).toContain('COMMIT');
+    });
+
+    it('should roll back when the trip belongs to another supplier', async () => {
+      client.query.mockResolvedValue({ rows: [] });
+
+      await expect(updateTripStatus('trip-1', '審核中', 'supplier-2')).rejects.toThrow('Trip not found or access denied');
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+  });
+});
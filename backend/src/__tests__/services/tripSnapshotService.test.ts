@@ -0,0 +1,103 @@
+import { diffTripSnapshots, TripSnapshotContent, TripSnapshotDay } from '../../services/tripSnapshotService';
+
+jest.mock('../../config/database');
+
+describe('TripSnapshotService', () => {
+  const day = (dayIndex: number, overrides: Partial<TripSnapshotDay> = {}): TripSnapshotDay => ({
+    dayIndex,
+    breakfastId: null,
+    breakfastCustom: null,
+    breakfastTitle: null,
+    lunchId: 'product-lunch',
+    lunchCustom: null,
+    lunchTitle: 'Ramen Shop',
+    dinnerId: null,
+    dinnerCustom: 'Hotel buffet',
+    dinnerTitle: null,
+    hotelId: 'product-hotel',
+    hotelCustom: null,
+    hotelTitle: 'Park Hotel',
+    notes: null,
+    items: [
+      { productId: 'product-a', productTitle: 'Tokyo Tower', sortOrder: 0 },
+      { productId: 'product-b', productTitle: 'Senso-ji', sortOrder: 1 },
+    ],
+    ...overrides,
+  });
+
+  const snapshot = (days: TripSnapshotDay[], overrides: Partial<TripSnapshotContent> = {}): TripSnapshotContent => ({
+    name: 'Tokyo 3 days',
+    destination: 'Tokyo',
+    category: 'city',
+    daysCount: days.length,
+    days,
+    ...overrides,
+  });
+
+  describe('diffTripSnapshots', () => {
+    it('should report no changes for identical snapshots', () => {
+      const result = diffTripSnapshots(snapshot([day(1)]), snapshot([day(1)]));
+
+      expect(result.tripFields).toEqual([]);
+      expect(result.days).toEqual([
+        { dayIndex: 1, change: 'unchanged', fields: [], addedItems: [], removedItems: [], reordered: false },
+      ]);
+    });
+
+    it('should compare meals and hotel by their displayed label', () => {
+      const result = diffTripSnapshots(
+        snapshot([day(1)]),
+        snapshot([day(1, { lunchCustom: 'Sushi bar', hotelId: 'product-other', hotelTitle: 'Bay Hotel' })])
+      );
+
+      expect(result.days[0].change).toBe('modified');
+      expect(result.days[0].fields).toEqual([
+        { field: 'lunch', before: 'Ramen Shop', after: 'Sushi bar' },
+        { field: 'hotel', before: 'Park Hotel', after: 'Bay Hotel' },
+      ]);
+    });
+
+    it('should detect added, removed and reordered items', () => {
+      const result = diffTripSnapshots(
+        snapshot([day(1)]),
+        snapshot([day(1, {
+          items: [
+            { productId: 'product-c', productTitle: 'Skytree', sortOrder: 0 },
+            { productId: 'product-b', productTitle: 'Senso-ji', sortOrder: 1 },
+          ],
+        })])
+      );
+
+      expect(result.days[0].addedItems).toEqual(['Skytree']);
+      expect(result.days[0].removedItems).toEqual(['Tokyo Tower']);
+      expect(result.days[0].reordered).toBe(false);
+
+      const reordered = diffTripSnapshots(
+        snapshot([day(1)]),
+        snapshot([day(1, {
+          items: [
+            { productId: 'product-b', productTitle: 'Senso-ji', sortOrder: 0 },
+            { productId: 'product-a', productTitle: 'Tokyo Tower', sortOrder: 1 },
+          ],
+        })])
+      );
+
+      expect(reordered.days[0].reordered).toBe(true);
+      expect(reordered.days[0].change).toBe('modified');
+    });
+
+    it('should mark days that only exist on one side as added or removed', () => {
+      const result = diffTripSnapshots(
+        snapshot([day(1), day(2)]),
+        snapshot([day(1), day(3)], { daysCount: 3 })
+      );
+
+      expect(result.tripFields).toEqual([{ field: 'daysCount', before: 2, after: 3 }]);
+      expect(result.days.map(d => [d.dayIndex, d.change])).toEqual([
+        [1, 'unchanged'],
+        [2, 'removed'],
+        [3, 'added'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { formatETag, parseIfMatch } from '../../utils/etag';
+
+describe('ETag Utilities', () => {
+  describe('formatETag', () => {
+    it('should quote the version', () => {
+      expect(formatETag(3)).toBe('"3"');
+    });
+  });
+
+  describe('parseIfMatch', () => {
+    it('should return undefined when the header is absent', () => {
+      expect(parseIfMatch(undefined)).toBeUndefined();
+    });
+
+    it('should return undefined for a wildcard', () => {
+      expect(parseIfMatch('*')).toBeUndefined();
+    });
+
+    it('should parse strong and weak ETags', () => {
+      expect(parseIfMatch('"7"')).toBe(7);
+      expect(parseIfMatch('W/"7"')).toBe(7);
+    });
+
+    it('should return null for malformed values', () => {
+      expect(parseIfMatch('7')).toBeNull();
+      expect(parseIfMatch('"abc"')).toBeNull();
+      expect(parseIfMatch('"1", "2"')).toBeNull();
+    });
+
+    it('should round-trip formatETag', () => {
+      expect(parseIfMatch(formatETag(42))).toBe(42);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  parseLatLng,
+  parseBoundingBox,
+  haversineKm,
+  boundingBoxAround,
+  boundingBoxCenter,
+} from '../../utils/geo';
+
+describe('Geo Utilities', () => {
+  describe('parseLatLng', () => {
+    it('should parse a lat,lng pair', () => {
+      expect(parseLatLng('25.0330, 121.5654')).toEqual({ lat: 25.033, lng: 121.5654 });
+    });
+
+    it('should reject malformed or out-of-range values', () => {
+      expect(parseLatLng('25.0330')).toBeNull();
+      expect(parseLatLng('abc,121')).toBeNull();
+      expect(parseLatLng(',121')).toBeNull();
+      expect(parseLatLng('91,121')).toBeNull();
+      expect(parseLatLng('25,181')).toBeNull();
+    });
+  });
+
+  describe('parseBoundingBox', () => {
+    it('should parse minLat,minLng,maxLat,maxLng', () => {
+      expect(parseBoundingBox('25,121,25.1,121.6')).toEqual({ minLat: 25, minLng: 121, maxLat: 25.1, maxLng: 121.6 });
+    });
+
+    it('should allow boxes crossing the antimeridian', () => {
+      expect(parseBoundingBox('-20,170,-10,-170')).toEqual({ minLat: -20, minLng: 170, maxLat: -10, maxLng: -170 });
+    });
+
+    it('should reject inverted latitudes and wrong arity', () => {
+      expect(parseBoundingBox('25.1,121,25,121.6')).toBeNull();
+      expect(parseBoundingBox('25,121,25.1')).toBeNull();
+    });
+  });
+
+  describe('haversineKm', () => {
+    it('should measure great-circle distance', () => {
+      // Taipei 101 to Taipei Main Station is roughly 5.5 km
+      const distance = haversineKm({ lat: 25.0340, lng: 121.5645 }, { lat: 25.0478, lng: 121.5170 });
+      expect(distance).toBeGreaterThan(5);
+      expect(distance).toBeLessThan(6);
+    });
+
+    it('should be zero for the same point', () => {
+      expect(haversineKm({ lat: 35.6, lng: 139.7 }, { lat: 35.6, lng: 139.7 })).toBe(0);
+    });
+  });
+
+  describe('boundingBoxAround', () => {
+    it('should contain every point within the radius', () => {
+      const center = { lat: 25.033, lng: 121.5654 };
+      const box = boundingBoxAround(center, 5);
+
+      expect(haversineKm(center, { lat: box.maxLat, lng: center.lng })).toBeCloseTo(5, 1);
+      expect(haversineKm(center, { lat: center.lat, lng: box.maxLng })).toBeGreaterThanOrEqual(5);
+    });
+
+    it('should wrap across the antimeridian', () => {
+      const box = boundingBoxAround({ lat: 0, lng: 179.99 }, 5);
+      expect(box.minLng).toBeGreaterThan(box.maxLng);
+    });
+
+    it('should cover all longitudes near the poles', () => {
+      expect(boundingBoxAround({ lat: 89.99, lng: 0 }, 5)).toMatchObject({ minLng: -180, maxLng: 180, maxLat: 90 });
+    });
+  });
+
+  describe('boundingBoxCenter', () => {
+    it('should centre boxes crossing the antimeridian on the date line side', () => {
+      expect(boundingBoxCenter({ minLat: -20, minLng: 170, maxLat: -10, maxLng: -170 })).toEqual({ lat: -15, lng: 180 });
+    });
+  });
+});
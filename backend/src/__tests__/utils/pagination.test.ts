@@ -0,0 +1,99 @@
+import { parsePageRequest, paginate, PageRequest } from '../../utils/pagination';
+
+const sorts = ['createdAt', 'title'];
+const defaults = { sort: 'createdAt', order: 'desc' as const };
+
+describe('Pagination Utilities', () => {
+  describe('parsePageRequest', () => {
+    it('should fall back to the default page size, sort and order', () => {
+      expect(parsePageRequest({}, sorts, defaults)).toEqual({
+        limit: 20,
+        sort: 'createdAt',
+        order: 'desc',
+        cursor: undefined,
+      });
+    });
+
+    it('should sort other keys ascending unless an order is given', () => {
+      expect(parsePageRequest({ sort: 'title' }, sorts, defaults).order).toBe('asc');
+      expect(parsePageRequest({ sort: 'title', order: 'desc' }, sorts, defaults).order).toBe('desc');
+    });
+
+    it('should reject invalid limits, sort keys and orders', () => {
+      expect(() => parsePageRequest({ limit: '0' }, sorts, defaults)).toThrow('limit must be');
+      expect(() => parsePageRequest({ limit: '101' }, sorts, defaults)).toThrow('limit must be');
+      expect(() => parsePageRequest({ limit: '2.5' }, sorts, defaults)).toThrow('limit must be');
+      expect(() => parsePageRequest({ sort: 'id; DROP TABLE' }, sorts, defaults)).toThrow('Invalid sort');
+      expect(() => parsePageRequest({ order: 'up' }, sorts, defaults)).toThrow('Invalid order');
+    });
+  });
+
+  describe('paginate', () => {
+    const page: PageRequest = { limit: 2, sort: 'createdAt', order: 'desc' };
+    const options = {
+      query: 'SELECT id, name, created_at FROM things WHERE owner_id = $1',
+      values: ['owner-1'],
+      sortColumns: { createdAt: 'created_at', title: ['name', 'created_at'] },
+      mapRow: (row: any) => ({ id: row.id, name: row.name }),
+    };
+
+    const mockDb = (rows: any[], count: number) => ({
+      query: jest.fn().mockImplementation(async (sql: string) =>
+        sql.includes('COUNT(*)') ? { rows: [{ count: String(count) }] } : { rows }
+      ),
+    });
+
+    it('should return one page, the total count and a cursor when more rows follow', async () => {
+      const db = mockDb([
+        { id: 'a', name: 'A', cursor_0: '2026-01-03 00:00:00.123456+00', cursor_1: 'a' },
+        { id: 'b', name: 'B', cursor_0: '2026-01-02 00:00:00+00', cursor_1: 'b' },
+        { id: 'c', name: 'C', cursor_0: '2026-01-01 00:00:00+00', cursor_1: 'c' },
+      ], 5);
+
+      const result = await paginate(db, { ...options, page });
+
+      expect(result.items).toEqual([{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }]);
+      expect(result.pageInfo).toMatchObject({ totalCount: 5, limit: 2, sort: 'createdAt', order: 'desc', hasMore: true });
+
+      const [sql, values] = db.query.mock.calls[0];
+      expect(sql).toContain('ORDER BY created_at DESC, id DESC');
+      expect(sql).not.toContain('WHERE (');
+      expect(values).toEqual(['owner-1', 3]);
+    });
+
+    it('should continue after the cursor row', async () => {
+      const first = await paginate(
+        mockDb([{ id: 'a', cursor_0: 'x', cursor_1: 'a' }, { id: 'b', cursor_0: 'y', cursor_1: 'b' }, { id: 'c' }], 3),
+        { ...options, page }
+      );
+
+      const db = mockDb([{ id: 'c', name: 'C', cursor_0: 'z', cursor_1: 'c' }], 3);
+      const second = await paginate(db, { ...options, page: { ...page, cursor: first.pageInfo.nextCursor! } });
+
+      const [sql, values] = db.query.mock.calls[0];
+      expect(sql).toContain('WHERE (created_at, id) < ($2, $3)');
+      expect(values).toEqual(['owner-1', 'y', 'b', 3]);
+      expect(second.pageInfo).toMatchObject({ hasMore: false, nextCursor: null });
+    });
+
+    it('should break ties on every column of a multi-column sort key', async () => {
+      const db = mockDb([], 0);
+
+      await paginate(db, { ...options, page: { ...page, sort: 'title', order: 'asc' } });
+
+      expect(db.query.mock.calls[0][0]).toContain('ORDER BY name ASC, created_at ASC, id ASC');
+    });
+
+    it('should reject malformed cursors and cursors from another sort', async () => {
+      const first = await paginate(
+        mockDb([{ id: 'a', cursor_0: 'x', cursor_1: 'a' }, { id: 'b', cursor_0: 'y', cursor_1: 'b' }, { id: 'c' }], 3),
+        { ...options, page }
+      );
+
+      await expect(paginate(mockDb([], 0), { ...options, page: { ...page, cursor: 'not-a-cursor' } }))
+        .rejects.toThrow('Invalid cursor');
+      await expect(paginate(mockDb([], 0), { ...options, page: { ...page, order: 'asc', cursor: first.pageInfo.nextCursor! } }))
+        .rejects.toThrow('Invalid cursor');
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  parseSearchQuery,
+  toLikePattern,
+  highlightTerms,
+  buildSnippet,
+  MAX_SEARCH_TERMS,
+} from '../../utils/search';
+
+describe('Search Utilities', () => {
+  describe('parseSearchQuery', () => {
+    it('should split on ASCII and full-width whitespace and punctuation', () => {
+      expect(parseSearchQuery('溫泉  親子　箱根，Hotel')).toEqual(['溫泉', '親子', '箱根', 'hotel']);
+    });
+
+    it('should drop duplicates and empty input', () => {
+      expect(parseSearchQuery('溫泉 溫泉')).toEqual(['溫泉']);
+      expect(parseSearchQuery('   ')).toEqual([]);
+      expect(parseSearchQuery(undefined)).toEqual([]);
+    });
+
+    it('should cap the number of terms', () => {
+      expect(parseSearchQuery('a b c d e f g')).toHaveLength(MAX_SEARCH_TERMS);
+    });
+  });
+
+  describe('toLikePattern', () => {
+    it('should escape LIKE wildcards', () => {
+      expect(toLikePattern('100%_off\\')).toBe('%100\\%\\_off\\\\%');
+    });
+  });
+
+  describe('highlightTerms', () => {
+    it('should wrap matches case-insensitively', () => {
+      expect(highlightTerms('Hakone 溫泉 hotel', ['溫泉', 'hakone'])).toBe('<mark>Hakone</mark> <mark>溫泉</mark> hotel');
+    });
+
+    it('should escape HTML in the text', () => {
+      expect(highlightTerms('<b>溫泉</b>', ['溫泉'])).toBe('&lt;b&gt;<mark>溫泉</mark>&lt;/b&gt;');
+    });
+
+    it('should treat regex characters in terms literally', () => {
+      expect(highlightTerms('a.b axb', ['a.b'])).toBe('<mark>a.b</mark> axb');
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('should return undefined when no term occurs', () => {
+      expect(buildSnippet('箱根登山鐵道', ['溫泉'])).toBeUndefined();
+    });
+
+    it('should excerpt around the first match with ellipses', () => {
+      const text = `${'前'.repeat(60)}親子溫泉${'後'.repeat(100)}`;
+      const snippet = buildSnippet(text, ['溫泉', '親子'])!;
+
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+      expect(snippet).toContain('<mark>親子</mark><mark>溫泉</mark>');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  validateTimeline,
+  upgradeTimeline,
+  TIMELINE_SCHEMA_VERSION,
+  MAX_TIMELINE_DAYS,
+} from '../../utils/timelineSchema';
+
+const item = (overrides: Record<string, any> = {}) => ({
+  id: 'p1',
+  title: '清水寺',
+  productType: 'landmark',
+  timelineId: 'p1-1',
+  startTime: '09:00',
+  duration: 90,
+  location: { lat: 34.99, lng: 135.78 },
+  ...overrides,
+});
+
+const day = (overrides: Record<string, any> = {}) => ({
+  dayNumber: 1,
+  items: [item()],
+  breakfastId: null,
+  lunchCustom: '拉麵',
+  hotelTitle: 'Kyoto Hotel',
+  ...overrides,
+});
+
+describe('Timeline Schema', () => {
+  describe('validateTimeline', () => {
+    it('should accept a valid timeline and normalize it', () => {
+      const result = validateTimeline([day({ extra: 'dropped' })]);
+
+      expect(result.valid).toBe(true);
+      if (!result.valid) return;
+      expect(result.timeline[0]).not.toHaveProperty('extra');
+      expect(result.timeline[0].lunchCustom).toBe('拉麵');
+      expect(result.timeline[0].dinnerTitle).toBeNull();
+      expect(result.timeline[0].items[0].startTime).toBe('09:00');
+    });
+
+    it('should default productType and timelineId', () => {
+      const result = validateTimeline([day({ items: [{ id: 'p2', title: '金閣寺' }] })]);
+
+      expect(result.valid).toBe(true);
+      if (!result.valid) return;
+      expect(result.timeline[0].items[0].productType).toBe('landmark');
+      expect(result.timeline[0].items[0].timelineId).toBe('p2-d1-0');
+    });
+
+    it('should keep pinned start times and reject non-boolean pins', () => {
+      const result = validateTimeline([day({ items: [item({ timePinned: true }), item({ timelineId: 'p1-2' })] })]);
+
+      expect(result.valid).toBe(true);
+      if (!result.valid) return;
+      expect(result.timeline[0].items[0].timePinned).toBe(true);
+      expect(result.timeline[0].items[1]).not.toHaveProperty('timePinned', true);
+
+      expect(validateTimeline([day({ items: [item({ timePinned: 'yes' })] })]).valid).toBe(false);
+    });
+
+    it('should reject a non-array timeline', () => {
+      const result = validateTimeline({ days: [] });
+
+      expect(result).toEqual({ valid: false, errors: [{ field: 'timeline', message: 'must be an array' }] });
+    });
+
+    it('should reject too many days', () => {
+      const days = Array.from({ length: MAX_TIMELINE_DAYS + 1 }, (_, i) => day({ dayNumber: i + 1 }));
+
+      expect(validateTimeline(days).valid).toBe(false);
+    });
+
+    it('should report field-level errors with paths', () => {
+      const result = validateTimeline([
+        day({ items: [item({ startTime: '25:00', netPrice: -1, productType: 'cruise' })] }),
+        day({ dayNumber: 0, hotelTitle: 3 }),
+      ]);
+
+      expect(result.valid).toBe(false);
+      if (result.valid) return;
+      const fields = result.errors.map(error => error.field);
+      expect(fields).toEqual(expect.arrayContaining([
+        'timeline[0].items[0].startTime',
+        'timeline[0].items[0].netPrice',
+        'timeline[0].items[0].productType',
+        'timeline[1].dayNumber',
+        'timeline[1].hotelTitle',
+      ]));
+    });
+
+    it('should reject duplicate day numbers', () => {
+      const result = validateTimeline([day(), day()]);
+
+      expect(result.valid).toBe(false);
+      if (result.valid) return;
+      expect(result.errors).toEqual([{ field: 'timeline[1].dayNumber', message: 'must be unique' }]);
+    });
+
+    it('should validate route legs', () => {
+      const result = validateTimeline([day({ routeInfo: { polyline: 'abc', legs: [{ distanceText: '1 km' }] } })]);
+
+      expect(result.valid).toBe(false);
+      if (result.valid) return;
+      expect(result.errors.map(error => error.field)).toContain('timeline[0].routeInfo.legs[0].startLocation');
+    });
+  });
+
+  describe('upgradeTimeline', () => {
+    it('should return current-version timelines unchanged', () => {
+      const timeline = [day()];
+
+      expect(upgradeTimeline(timeline, TIMELINE_SCHEMA_VERSION)).toBe(timeline);
+    });
+
+    it('should repair version 1 timelines', () => {
+      const upgraded = upgradeTimeline([
+        {
+          dayNumber: 1,
+          items: [
+            { id: 42, title: '嵐山', netPrice: '1200', location: { lat: '35.01', lng: '135.67' }, startTime: '9am' },
+            { title: 'no id' },
+            null,
+          ],
+          routeInfo: { polyline: 'stale' },
+        },
+        { dayNumber: 1 },
+        'garbage',
+      ], 1);
+
+      expect(upgraded).toHaveLength(2);
+      expect(upgraded.map(d => d.dayNumber)).toEqual([1, 2]);
+      expect(upgraded[0].items).toHaveLength(1);
+      expect(upgraded[0].items[0]).toMatchObject({
+        id: '42',
+        netPrice: 1200,
+        location: { lat: 35.01, lng: 135.67 },
+        productType: 'landmark',
+      });
+      expect(upgraded[0].items[0].startTime).toBeUndefined();
+      expect(upgraded[0].routeInfo).toBeUndefined();
+      expect(upgraded[1].items).toEqual([]);
+    });
+
+    it('should treat a missing version as version 1', () => {
+      expect(upgradeTimeline(null, null)).toEqual([]);
+    });
+
+    it('should produce the same timeline IDs on repeated reads', () => {
+      const stored = [{ dayNumber: 1, items: [{ id: 'p1', title: 'A' }] }];
+
+      expect(upgradeTimeline(stored, 1)).toEqual(upgradeTimeline(stored, 1));
+    });
+  });
+});
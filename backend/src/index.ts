@@ -6,7 +6,10 @@ import adminRoutes from './routes/admin';
 import supplierRoutes from './routes/supplier';
 import agencyRoutes from './routes/agency';
 import itineraryRoutes from './routes/itinerary';
+import calendarRoutes from './routes/calendar';
+import publicRoutes from './routes/public';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { getStorageDriver, getLocalStorageDir, LOCAL_UPLOADS_PATH } from './services/storage';
 
 dotenv.config();
 
@@ -24,7 +27,8 @@ app.use(cors({
       callback(new Error('Not allowed by CORS'));
     }
   },
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['ETag']
 }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
@@ -34,12 +38,23 @@ app.get('/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Uploaded files, when stored on local disk instead of Cloud Storage
+if (getStorageDriver().name === 'local') {
+  app.use(LOCAL_UPLOADS_PATH, express.static(getLocalStorageDir(), {
+    maxAge: '1y',
+    immutable: true, // Upload file names are unique, so a name never changes content
+    index: false,
+  }));
+}
+
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/supplier', supplierRoutes);
 app.use('/api/agency', agencyRoutes);
 app.use('/api/itinerary', itineraryRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/public', publicRoutes);
 
 // 404 handler - must be after all routes
 app.use(notFoundHandler);
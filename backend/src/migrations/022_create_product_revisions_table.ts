@@ -0,0 +1,26 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS product_revisions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      revision_number INTEGER NOT NULL,
+      change_type VARCHAR(20) NOT NULL CHECK (change_type IN ('create', 'update', 'status')),
+      snapshot JSONB NOT NULL,
+      changed_fields TEXT[] NOT NULL DEFAULT '{}',
+      changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(product_id, revision_number)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_product_revisions_product ON product_revisions(product_id);
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP INDEX IF EXISTS idx_product_revisions_product;
+    DROP TABLE IF EXISTS product_revisions;
+  `);
+};
@@ -0,0 +1,27 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS supplier_trip_snapshots (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      trip_id UUID NOT NULL REFERENCES supplier_trips(id) ON DELETE CASCADE,
+      version INTEGER NOT NULL,
+      snapshot JSONB NOT NULL,
+      submitted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      review_status VARCHAR(50),
+      rejection_reason TEXT,
+      reviewed_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(trip_id, version)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_supplier_trip_snapshots_trip ON supplier_trip_snapshots(trip_id);
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP INDEX IF EXISTS idx_supplier_trip_snapshots_trip;
+    DROP TABLE IF EXISTS supplier_trip_snapshots;
+  `);
+};
@@ -0,0 +1,23 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS agency_quote_settings (
+      agency_user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      markup_percent DECIMAL(6, 2) NOT NULL DEFAULT 0,
+      rounding_unit INTEGER NOT NULL DEFAULT 1 CHECK (rounding_unit > 0),
+      rounding_mode VARCHAR(10) NOT NULL DEFAULT 'up' CHECK (rounding_mode IN ('up', 'down', 'nearest')),
+      currency VARCHAR(3) NOT NULL DEFAULT 'TWD',
+      exchange_rate DECIMAL(12, 6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+      default_pax INTEGER NOT NULL DEFAULT 2 CHECK (default_pax > 0),
+      room_occupancy INTEGER NOT NULL DEFAULT 2 CHECK (room_occupancy > 0),
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP TABLE IF EXISTS agency_quote_settings;
+  `);
+};
@@ -0,0 +1,18 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    ALTER TABLE itineraries
+    ADD COLUMN IF NOT EXISTS calendar_token VARCHAR(64);
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_itineraries_calendar_token ON itineraries(calendar_token);
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP INDEX IF EXISTS idx_itineraries_calendar_token;
+    ALTER TABLE itineraries
+    DROP COLUMN IF EXISTS calendar_token;
+  `);
+};
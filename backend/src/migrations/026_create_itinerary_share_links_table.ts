@@ -0,0 +1,24 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS itinerary_share_links (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      itinerary_id UUID NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+      token VARCHAR(64) NOT NULL UNIQUE,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      revoked_at TIMESTAMP WITH TIME ZONE,
+      created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_itinerary_share_links_itinerary ON itinerary_share_links(itinerary_id);
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP INDEX IF EXISTS idx_itinerary_share_links_itinerary;
+    DROP TABLE IF EXISTS itinerary_share_links;
+  `);
+};
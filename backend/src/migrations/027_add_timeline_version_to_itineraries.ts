@@ -0,0 +1,16 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  // Existing rows predate timeline validation and are upgraded from version 1 on read
+  await pool.query(`
+    ALTER TABLE itineraries
+    ADD COLUMN IF NOT EXISTS timeline_version INTEGER NOT NULL DEFAULT 1;
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    ALTER TABLE itineraries
+    DROP COLUMN IF EXISTS timeline_version;
+  `);
+};
@@ -0,0 +1,22 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  // Row versions for optimistic concurrency (exposed as ETag / checked via If-Match)
+  await pool.query(`
+    ALTER TABLE itineraries
+    ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+    ALTER TABLE supplier_trips
+    ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    ALTER TABLE supplier_trips
+    DROP COLUMN IF EXISTS version;
+
+    ALTER TABLE itineraries
+    DROP COLUMN IF EXISTS version;
+  `);
+};
@@ -0,0 +1,24 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS itinerary_versions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      itinerary_id UUID NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+      source VARCHAR(20) NOT NULL CHECK (source IN ('autosave', 'save', 'restore')),
+      timeline_data JSONB NOT NULL,
+      timeline_version INTEGER NOT NULL,
+      created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_itinerary_versions_itinerary ON itinerary_versions(itinerary_id, created_at DESC);
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP INDEX IF EXISTS idx_itinerary_versions_itinerary;
+    DROP TABLE IF EXISTS itinerary_versions;
+  `);
+};
@@ -0,0 +1,24 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  // Trigram indexes match substrings, which suits Chinese text without word boundaries.
+  // The expression must stay identical to productSearchDocument() in productService.
+  await pool.query(`
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+    CREATE INDEX IF NOT EXISTS idx_products_search_trgm ON products
+    USING GIN ((COALESCE(title, '') || ' ' || COALESCE(description, '') || ' ' || COALESCE(address, '')) gin_trgm_ops);
+
+    CREATE INDEX IF NOT EXISTS idx_products_title_trgm ON products USING GIN (title gin_trgm_ops);
+
+    CREATE INDEX IF NOT EXISTS idx_users_name_trgm ON users USING GIN (name gin_trgm_ops);
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP INDEX IF EXISTS idx_users_name_trgm;
+    DROP INDEX IF EXISTS idx_products_title_trgm;
+    DROP INDEX IF EXISTS idx_products_search_trgm;
+  `);
+};
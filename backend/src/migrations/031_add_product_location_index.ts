@@ -0,0 +1,15 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  // Supports the lat/lng box prefilter of "near" and viewport product searches
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_products_location ON products (latitude, longitude)
+    WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP INDEX IF EXISTS idx_products_location;
+  `);
+};
@@ -0,0 +1,35 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  // operating_days holds weekdays as 0 (Sunday) to 6 (Saturday); opening hours are local times
+  await pool.query(`
+    ALTER TABLE products
+    ADD COLUMN IF NOT EXISTS operating_days SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+    ADD COLUMN IF NOT EXISTS opening_time TIME,
+    ADD COLUMN IF NOT EXISTS closing_time TIME;
+
+    CREATE TABLE IF NOT EXISTS product_blackout_dates (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      start_date DATE NOT NULL,
+      end_date DATE NOT NULL,
+      reason VARCHAR(255),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      CHECK (end_date >= start_date)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_product_blackout_dates_product ON product_blackout_dates(product_id, start_date);
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP INDEX IF EXISTS idx_product_blackout_dates_product;
+    DROP TABLE IF EXISTS product_blackout_dates;
+
+    ALTER TABLE products
+    DROP COLUMN IF EXISTS closing_time,
+    DROP COLUMN IF EXISTS opening_time,
+    DROP COLUMN IF EXISTS operating_days;
+  `);
+};
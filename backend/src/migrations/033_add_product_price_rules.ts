@@ -0,0 +1,33 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  // Each condition column is optional; NULL means the rule applies regardless of it.
+  // products.net_price stays the base price used when no rule matches.
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS product_price_rules (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      label VARCHAR(100),
+      start_date DATE,
+      end_date DATE,
+      days_of_week SMALLINT[],
+      pax_type VARCHAR(10) CHECK (pax_type IN ('adult', 'child')),
+      min_group_size INTEGER CHECK (min_group_size >= 1),
+      max_group_size INTEGER CHECK (max_group_size >= 1),
+      price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      CHECK (end_date >= start_date),
+      CHECK (max_group_size >= min_group_size)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_product_price_rules_product ON product_price_rules(product_id, sort_order);
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP INDEX IF EXISTS idx_product_price_rules_product;
+    DROP TABLE IF EXISTS product_price_rules;
+  `);
+};
@@ -0,0 +1,24 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  // Gallery photos shown alongside products.cover_image_url, in supplier-chosen order
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS product_images (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      image_url TEXT NOT NULL,
+      caption VARCHAR(255),
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_product_images_product ON product_images(product_id, sort_order);
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP INDEX IF EXISTS idx_product_images_product;
+    DROP TABLE IF EXISTS product_images;
+  `);
+};
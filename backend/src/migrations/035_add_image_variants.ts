@@ -0,0 +1,22 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  // Resized WebP variant URLs ({ thumbnail, card, hero }); NULL until an image has been processed
+  await pool.query(`
+    ALTER TABLE products
+    ADD COLUMN IF NOT EXISTS cover_image_variants JSONB;
+
+    ALTER TABLE product_images
+    ADD COLUMN IF NOT EXISTS variants JSONB;
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    ALTER TABLE product_images
+    DROP COLUMN IF EXISTS variants;
+
+    ALTER TABLE products
+    DROP COLUMN IF EXISTS cover_image_variants;
+  `);
+};
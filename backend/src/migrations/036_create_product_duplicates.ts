@@ -0,0 +1,40 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  // Set when an admin links a product as a duplicate of another; linked products are hidden from agencies
+  await pool.query(`
+    ALTER TABLE products
+    ADD COLUMN IF NOT EXISTS duplicate_of_id UUID REFERENCES products(id) ON DELETE SET NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_products_duplicate_of ON products(duplicate_of_id) WHERE duplicate_of_id IS NOT NULL;
+  `);
+
+  // Likely duplicate pairs found when products are created or updated, one row per unordered pair
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS product_duplicates (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      matched_product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+      score NUMERIC(4, 3) NOT NULL,
+      signals JSONB NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'suspected' CHECK (status IN ('suspected', 'linked', 'dismissed')),
+      resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      resolved_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      CHECK (product_id <> matched_product_id)
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_product_duplicates_pair
+      ON product_duplicates ((LEAST(product_id, matched_product_id)), (GREATEST(product_id, matched_product_id)));
+    CREATE INDEX IF NOT EXISTS idx_product_duplicates_matched ON product_duplicates(matched_product_id);
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP TABLE IF EXISTS product_duplicates;
+    DROP INDEX IF EXISTS idx_products_duplicate_of;
+    ALTER TABLE products DROP COLUMN IF EXISTS duplicate_of_id;
+  `);
+};
@@ -0,0 +1,45 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  // Status used to be free text; anything outside the workflow starts over as a draft
+  await pool.query(`
+    UPDATE itineraries
+    SET status = 'draft'
+    WHERE status IS NULL OR status NOT IN ('draft', 'quoted', 'confirmed', 'travelling', 'completed');
+
+    ALTER TABLE itineraries DROP CONSTRAINT IF EXISTS itineraries_status_check;
+
+    ALTER TABLE itineraries
+    ALTER COLUMN status SET NOT NULL,
+    ADD CONSTRAINT itineraries_status_check
+      CHECK (status IN ('draft', 'quoted', 'confirmed', 'travelling', 'completed')),
+    ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE;
+  `);
+
+  // One row per status change, so each stage keeps when and by whom it was entered
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS itinerary_status_changes (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      itinerary_id UUID NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+      from_status VARCHAR(50) NOT NULL,
+      to_status VARCHAR(50) NOT NULL,
+      changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_itinerary_status_changes_itinerary
+      ON itinerary_status_changes(itinerary_id, changed_at);
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP INDEX IF EXISTS idx_itinerary_status_changes_itinerary;
+    DROP TABLE IF EXISTS itinerary_status_changes;
+
+    ALTER TABLE itineraries
+    DROP COLUMN IF EXISTS status_changed_at,
+    DROP CONSTRAINT IF EXISTS itineraries_status_check,
+    ALTER COLUMN status DROP NOT NULL;
+  `);
+};
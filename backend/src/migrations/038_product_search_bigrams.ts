@@ -0,0 +1,62 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  // pg_trgm takes no trigrams from 1–2 character terms such as 溫泉 and drops CJK characters
+  // entirely under a C locale, so searches index single characters and character bigrams instead.
+  // search_grams('溫泉 親子') = {溫, 泉, 溫泉, 親, 子, 親子}: a term can only occur in a text
+  // whose grams contain the term's grams, which a GIN index answers with @>.
+  await pool.query(`
+    CREATE OR REPLACE FUNCTION search_grams(doc TEXT) RETURNS TEXT[]
+    LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+      SELECT COALESCE(array_agg(DISTINCT gram), '{}')
+      FROM generate_series(1, char_length(doc)) AS i,
+           LATERAL (VALUES (substr(lower(doc), i, 1)), (substr(lower(doc), i, 2))) AS grams(gram)
+      WHERE gram !~ '[[:space:]]'
+    $$;
+
+    -- Share of grams two texts have in common (Jaccard), for ranking
+    CREATE OR REPLACE FUNCTION search_gram_similarity(TEXT, TEXT) RETURNS REAL
+    LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+      SELECT CASE WHEN shared.count = 0 THEN 0
+                  ELSE shared.count::real / (cardinality(grams.a) + cardinality(grams.b) - shared.count) END
+      FROM (SELECT search_grams($1) AS a, search_grams($2) AS b) AS grams,
+           LATERAL (SELECT COUNT(*) AS count FROM unnest(grams.a) AS gram WHERE gram = ANY(grams.b)) AS shared
+    $$;
+  `);
+
+  // The document expression must stay identical to productSearchDocument() in productService
+  await pool.query(`
+    ALTER TABLE products
+    ADD COLUMN IF NOT EXISTS search_grams TEXT[] GENERATED ALWAYS AS (
+      search_grams(COALESCE(title, '') || ' ' || COALESCE(description, '') || ' ' || COALESCE(address, ''))
+    ) STORED;
+
+    ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS name_search_grams TEXT[] GENERATED ALWAYS AS (search_grams(COALESCE(name, ''))) STORED;
+
+    CREATE INDEX IF NOT EXISTS idx_products_search_grams ON products USING GIN (search_grams);
+    CREATE INDEX IF NOT EXISTS idx_users_name_search_grams ON users USING GIN (name_search_grams);
+
+    DROP INDEX IF EXISTS idx_products_search_trgm;
+    DROP INDEX IF EXISTS idx_products_title_trgm;
+    DROP INDEX IF EXISTS idx_users_name_trgm;
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_products_search_trgm ON products
+    USING GIN ((COALESCE(title, '') || ' ' || COALESCE(description, '') || ' ' || COALESCE(address, '')) gin_trgm_ops);
+    CREATE INDEX IF NOT EXISTS idx_products_title_trgm ON products USING GIN (title gin_trgm_ops);
+    CREATE INDEX IF NOT EXISTS idx_users_name_trgm ON users USING GIN (name gin_trgm_ops);
+
+    DROP INDEX IF EXISTS idx_users_name_search_grams;
+    DROP INDEX IF EXISTS idx_products_search_grams;
+
+    ALTER TABLE users DROP COLUMN IF EXISTS name_search_grams;
+    ALTER TABLE products DROP COLUMN IF EXISTS search_grams;
+
+    DROP FUNCTION IF EXISTS search_gram_similarity(TEXT, TEXT);
+    DROP FUNCTION IF EXISTS search_grams(TEXT);
+  `);
+};
@@ -0,0 +1,23 @@
+import { Pool } from 'pg';
+
+export const up = async (pool: Pool): Promise<void> => {
+  // Autosaved working copy of a plan not yet saved as an itinerary; one per agency
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS itinerary_drafts (
+      agency_user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      timeline_data JSONB NOT NULL,
+      timeline_version INTEGER NOT NULL,
+      destination VARCHAR(255),
+      start_date TIMESTAMP WITH TIME ZONE,
+      end_date TIMESTAMP WITH TIME ZONE,
+      restricted_supplier_name VARCHAR(255),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+};
+
+export const down = async (pool: Pool): Promise<void> => {
+  await pool.query(`
+    DROP TABLE IF EXISTS itinerary_drafts;
+  `);
+};
@@ -1,9 +1,33 @@
 import { Router, Request, Response } from 'express';
 import { requireAuth, requireRole } from '../middleware/auth';
 import { createUser, getAllUsers, updateUser, deleteUser } from '../services/userService';
+import type { ProductStatus, ProductListFilters } from '../services/productService';
+import type { ExportFormat } from '../services/productExportService';
+import { AppError } from '../middleware/errorHandler';
+import { parsePageRequest } from '../utils/pagination';
 
 const router = Router();
 
+/**
+ * Tours page filters from the query string: ?supplier= and ?destination= match partially,
+ * ?category= and ?status= exactly
+ * @throws AppError (400) for an unknown status; drafts are never listed to admins
+ */
+const productListFilters = (query: Request['query']): ProductListFilters => {
+  const status = (query.status as ProductStatus) || undefined;
+  const validStatuses: ProductStatus[] = ['待審核', '已發佈', '需要修改'];
+  if (status && !validStatuses.includes(status)) {
+    throw new AppError(`Invalid status. Must be one of: ${validStatuses.join(', ')}`, 400);
+  }
+
+  return {
+    supplierQuery: (query.supplier as string) || undefined,
+    destinationQuery: (query.destination as string) || undefined,
+    category: (query.category as string) || undefined,
+    status,
+  };
+};
+
 // Apply authentication and admin role requirement to all routes
 router.use(requireAuth);
 // Base requirement is admin, but specific routes might require super_admin
@@ -237,6 +261,52 @@ router.get('/trips/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/admin/trips/:id/snapshots
+ * Get the snapshots taken each time the trip was submitted for review (admin only)
+ */
+router.get('/trips/:id/snapshots', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { getTripSnapshots } = await import('../services/tripSnapshotService');
+    const snapshots = await getTripSnapshots(id);
+    res.json(snapshots);
+  } catch (error) {
+    console.error('Get trip snapshots error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/trips/:id/snapshots/diff
+ * Get a day-by-day diff between two submitted versions (admin only).
+ * Defaults to the latest submission against the last rejected one; ?from= and ?to= override.
+ */
+router.get('/trips/:id/snapshots/diff', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const from = typeof req.query.from === 'string' ? parseInt(req.query.from, 10) : undefined;
+    const to = typeof req.query.to === 'string' ? parseInt(req.query.to, 10) : undefined;
+
+    if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+      return res.status(400).json({ error: 'Invalid version' });
+    }
+
+    const { getTripSnapshotDiff } = await import('../services/tripSnapshotService');
+    const diff = await getTripSnapshotDiff(id, to, from);
+    res.json(diff);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get snapshot diff';
+
+    if (message === 'Snapshot not found') {
+      return res.status(404).json({ error: message });
+    }
+
+    console.error('Get trip snapshot diff error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * PUT /api/admin/trips/:id/status
  * Update trip status (admin approval/rejection)
@@ -263,20 +333,69 @@ router.put('/trips/:id/status', async (req: Request, res: Response) => {
 
 /**
  * GET /api/admin/tours
- * Get all tour products (admin only)
+ * Get a page of submitted tour products (admin only), filtered by ?supplier=&destination=&category=&status=
+ * and sorted by ?sort=createdAt|updatedAt|title|supplierName|destination|category|status|netPrice&order=asc|desc
+ * (newest first by default). Pass pageInfo.nextCursor as ?cursor= for the next page.
  */
 router.get('/tours', async (req: Request, res: Response) => {
   try {
-    const { getAllProducts } = await import('../services/productService');
-    const products = await getAllProducts();
-    const filteredProducts = products.filter(p => p.status !== '草稿');
-    res.json(filteredProducts);
+    const { getAllProducts, ADMIN_PRODUCT_SORT_COLUMNS } = await import('../services/productService');
+    const filters = productListFilters(req.query);
+    const page = parsePageRequest(req.query, Object.keys(ADMIN_PRODUCT_SORT_COLUMNS), { sort: 'createdAt', order: 'desc' });
+
+    const products = await getAllProducts(filters, page);
+    res.json(products);
   } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
     console.error('Get all products error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+/**
+ * GET /api/admin/tours/export
+ * Download all non-draft products with supplier names as CSV, XLSX or JSON (?format=csv|xlsx|json),
+ * filtered like GET /tours
+ * IMPORTANT: This must come BEFORE /tours/:id
+ */
+router.get('/tours/export', async (req: Request, res: Response) => {
+  const { writeProductExport, exportFilename, EXPORT_FORMATS, EXPORT_CONTENT_TYPES } = await import('../services/productExportService');
+
+  const format = (req.query.format || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    res.status(400).json({ error: `Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    return;
+  }
+
+  let filters: ProductListFilters;
+  try {
+    filters = productListFilters(req.query);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+    return;
+  }
+
+  res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${exportFilename(format)}"`);
+
+  try {
+    await writeProductExport(format, filters, res);
+  } catch (error) {
+    console.error('Export products error:', error);
+    // Once rows are on the wire the only way to signal failure is to cut the download short
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.removeHeader('Content-Disposition');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/admin/tours/pending/count
  * Get count of products pending review (admin only)
@@ -339,6 +458,150 @@ router.get('/tours/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/admin/tours/:id/revisions
+ * Get the revision history of a tour product (admin only)
+ */
+router.get('/tours/:id/revisions', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { getProductRevisions } = await import('../services/productRevisionService');
+    const revisions = await getProductRevisions(id);
+    res.json(revisions);
+  } catch (error) {
+    console.error('Get product revisions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/tours/:id/revisions/:rev/diff
+ * Get the field-level diff of a revision against the previous one,
+ * or against the revision given in ?against= (admin only)
+ */
+router.get('/tours/:id/revisions/:rev/diff', async (req: Request, res: Response) => {
+  try {
+    const { id, rev } = req.params;
+    const revisionNumber = parseInt(rev, 10);
+    const against = typeof req.query.against === 'string' ? parseInt(req.query.against, 10) : undefined;
+
+    if (isNaN(revisionNumber) || (against !== undefined && isNaN(against))) {
+      res.status(400).json({ error: 'Invalid revision number' });
+      return;
+    }
+
+    const { getProductRevisionDiff } = await import('../services/productRevisionService');
+    const diff = await getProductRevisionDiff(id, revisionNumber, against);
+    res.json(diff);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get revision diff';
+
+    if (message === 'Revision not found') {
+      res.status(404).json({ error: message });
+      return;
+    }
+
+    console.error('Get product revision diff error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/tours/:id/duplicates
+ * Get likely duplicates of a tour product from other suppliers, for side-by-side review (admin only)
+ */
+router.get('/tours/:id/duplicates', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { getProductDuplicates } = await import('../services/productDuplicateService');
+    const duplicates = await getProductDuplicates(id);
+    res.json(duplicates);
+  } catch (error) {
+    console.error('Get product duplicates error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/tours/:id/duplicate-of
+ * Link a tour product as a duplicate of another; it is then hidden from agencies (admin only)
+ */
+router.put('/tours/:id/duplicate-of', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { duplicateOfId } = req.body;
+
+    if (!duplicateOfId || typeof duplicateOfId !== 'string') {
+      res.status(400).json({ error: 'duplicateOfId is required' });
+      return;
+    }
+
+    const { linkDuplicate } = await import('../services/productDuplicateService');
+    await linkDuplicate(id, duplicateOfId, req.user!.userId);
+    res.status(204).send();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to link duplicate';
+
+    if (message === 'Product not found') {
+      res.status(404).json({ error: message });
+      return;
+    }
+    if (message === 'A product cannot be a duplicate of itself' || message === 'Cannot link to a product that is itself a duplicate') {
+      res.status(400).json({ error: message });
+      return;
+    }
+
+    console.error('Link duplicate error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/admin/tours/:id/duplicate-of
+ * Unlink a tour product from the product it duplicates (admin only)
+ */
+router.delete('/tours/:id/duplicate-of', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { unlinkDuplicate } = await import('../services/productDuplicateService');
+    await unlinkDuplicate(id, req.user!.userId);
+    res.status(204).send();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to unlink duplicate';
+
+    if (message === 'Product is not linked as a duplicate') {
+      res.status(404).json({ error: message });
+      return;
+    }
+
+    console.error('Unlink duplicate error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/admin/tours/:id/duplicates/:duplicateId/dismiss
+ * Mark a suspected duplicate as a different product so it is no longer flagged (admin only)
+ */
+router.post('/tours/:id/duplicates/:duplicateId/dismiss', async (req: Request, res: Response) => {
+  try {
+    const { id, duplicateId } = req.params;
+    const { dismissDuplicate } = await import('../services/productDuplicateService');
+    await dismissDuplicate(id, duplicateId, req.user!.userId);
+    res.status(204).send();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to dismiss duplicate';
+
+    if (message === 'Duplicate not found') {
+      res.status(404).json({ error: message });
+      return;
+    }
+
+    console.error('Dismiss duplicate error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * PUT /api/admin/tours/:id/status
  * Update tour product status (admin only)
@@ -362,7 +625,7 @@ router.put('/tours/:id/status', async (req: Request, res: Response) => {
     }
 
     const { updateProductStatus } = await import('../services/productService');
-    const product = await updateProductStatus(id, status, undefined, feedback);
+    const product = await updateProductStatus(id, status, undefined, feedback, req.user!.userId);
 
     // TODO: In task 17.5, send email notification with feedback if status is '需要修改'
 
@@ -1,8 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { requireAuth, requireRole } from '../middleware/auth';
-import { getPublishedProducts, getProductById } from '../services/productService';
-import { getApprovedTrips, getApprovedTripById } from '../services/tripService';
+import { getPublishedProducts, getProductById, ProductFilters, PUBLISHED_PRODUCT_SORT_COLUMNS } from '../services/productService';
+import { getApprovedTrips, getApprovedTripById, APPROVED_TRIP_SORT_COLUMNS } from '../services/tripService';
 import pool from '../config/database';
+import { parseLatLng, parseBoundingBox, MAX_SEARCH_RADIUS_KM } from '../utils/geo';
+import { getProductImages } from '../services/productImageService';
+import { resolvePrice, getPriceCalendar, PAX_TYPES, PaxType, MAX_PRICE_CALENDAR_DAYS } from '../services/productPricingService';
+import { isValidDateString } from '../utils/validation';
+import { AppError } from '../middleware/errorHandler';
+import { parsePageRequest } from '../utils/pagination';
 
 const router = Router();
 
@@ -72,14 +78,20 @@ router.get('/suppliers', async (req: Request, res: Response) => {
 
 /**
  * GET /api/agency/tours
- * Get all published tour products with optional filtering
+ * Get all published tour products, optionally filtered by destination, category and supplierId.
+ * `q` searches title, description, address and supplier name; results are ranked and highlighted.
+ * `near=lat,lng` (with optional `radiusKm`) or `bbox=minLat,minLng,maxLat,maxLng` limit results
+ * to products with coordinates in that area, each with `distanceKm`.
+ * Sorted by ?sort=createdAt|title|netPrice|duration|relevance|distance&order=asc|desc: best match first
+ * for `q`, otherwise nearest first for a location, otherwise newest first.
+ * Pass pageInfo.nextCursor as ?cursor= for the next page.
  */
 router.get('/tours', async (req: Request, res: Response) => {
   try {
-    const { destination, category } = req.query;
+    const { destination, category, supplierId, q, near, radiusKm, bbox } = req.query;
 
     // Build filters
-    const filters: any = {};
+    const filters: ProductFilters = {};
 
     if (destination && typeof destination === 'string') {
       filters.destination = destination;
@@ -89,9 +101,55 @@ router.get('/tours', async (req: Request, res: Response) => {
       filters.category = category;
     }
 
-    const products = await getPublishedProducts(filters);
+    if (supplierId && typeof supplierId === 'string') {
+      filters.supplierId = supplierId;
+    }
+
+    if (q && typeof q === 'string') {
+      filters.q = q;
+    }
+
+    if (near !== undefined) {
+      const point = typeof near === 'string' ? parseLatLng(near) : null;
+      if (!point) {
+        res.status(400).json({ error: 'near must be "lat,lng"' });
+        return;
+      }
+      filters.near = point;
+    }
+
+    if (radiusKm !== undefined) {
+      const radius = Number(radiusKm);
+      if (!filters.near || !Number.isFinite(radius) || radius <= 0 || radius > MAX_SEARCH_RADIUS_KM) {
+        res.status(400).json({ error: `radiusKm must be between 0 and ${MAX_SEARCH_RADIUS_KM} and used with near` });
+        return;
+      }
+      filters.radiusKm = radius;
+    }
+
+    if (bbox !== undefined) {
+      const box = typeof bbox === 'string' ? parseBoundingBox(bbox) : null;
+      if (!box) {
+        res.status(400).json({ error: 'bbox must be "minLat,minLng,maxLat,maxLng"' });
+        return;
+      }
+      filters.bbox = box;
+    }
+
+    const defaultSort = filters.q ? 'relevance' : filters.near || filters.bbox ? 'distance' : 'createdAt';
+    const page = parsePageRequest(req.query, Object.keys(PUBLISHED_PRODUCT_SORT_COLUMNS), {
+      sort: defaultSort,
+      order: defaultSort === 'distance' ? 'asc' : 'desc',
+    });
+
+    const products = await getPublishedProducts(filters, page);
     res.json(products);
   } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
     console.error('Get published products error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -112,7 +170,8 @@ router.get('/tours/:id', async (req: Request, res: Response) => {
       return;
     }
 
-    res.json(product);
+    const images = await getProductImages(id);
+    res.json({ ...product, images });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to get product';
 
@@ -126,9 +185,106 @@ router.get('/tours/:id', async (req: Request, res: Response) => {
   }
 });
 
+const parseGroupSize = (value: unknown): number | null => {
+  if (value === undefined) return 1;
+  const groupSize = Number(value);
+  return Number.isInteger(groupSize) && groupSize >= 1 ? groupSize : null;
+};
+
+// Only published products are priced for agencies
+const ensurePublished = async (id: string, res: Response): Promise<boolean> => {
+  const product = await getProductById(id);
+  if (product.status !== '已發佈') {
+    res.status(404).json({ error: 'Product not found' });
+    return false;
+  }
+  return true;
+};
+
+/**
+ * GET /api/agency/tours/:id/price?date=YYYY-MM-DD&paxType=adult&groupSize=1
+ * Resolve the per-person price of a published product for one date, pax type and group size
+ */
+router.get('/tours/:id/price', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { date, paxType = 'adult' } = req.query;
+    const groupSize = parseGroupSize(req.query.groupSize);
+
+    if (!isValidDateString(date)) {
+      res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+      return;
+    }
+    if (!PAX_TYPES.includes(paxType as PaxType)) {
+      res.status(400).json({ error: `paxType must be one of ${PAX_TYPES.join(', ')}` });
+      return;
+    }
+    if (groupSize === null) {
+      res.status(400).json({ error: 'groupSize must be a positive integer' });
+      return;
+    }
+
+    if (!(await ensurePublished(id, res))) return;
+
+    res.json(await resolvePrice(id, date, paxType as PaxType, groupSize));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to resolve price';
+
+    if (message === 'Product not found') {
+      res.status(404).json({ error: message });
+      return;
+    }
+
+    console.error('Resolve price error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/agency/tours/:id/prices?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD&groupSize=1
+ * Adult and child prices of a published product for each date in a range
+ */
+router.get('/tours/:id/prices', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { startDate } = req.query;
+    const endDate = req.query.endDate ?? startDate;
+    const groupSize = parseGroupSize(req.query.groupSize);
+
+    if (!isValidDateString(startDate) || !isValidDateString(endDate) || endDate < startDate) {
+      res.status(400).json({ error: 'startDate and endDate must be YYYY-MM-DD with endDate not before startDate' });
+      return;
+    }
+    const days = (Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000) + 1;
+    if (days > MAX_PRICE_CALENDAR_DAYS) {
+      res.status(400).json({ error: `Date range must not exceed ${MAX_PRICE_CALENDAR_DAYS} days` });
+      return;
+    }
+    if (groupSize === null) {
+      res.status(400).json({ error: 'groupSize must be a positive integer' });
+      return;
+    }
+
+    if (!(await ensurePublished(id, res))) return;
+
+    res.json(await getPriceCalendar(id, startDate, endDate, groupSize));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get prices';
+
+    if (message === 'Product not found') {
+      res.status(404).json({ error: message });
+      return;
+    }
+
+    console.error('Get price calendar error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/agency/trips
- * Get approved supplier trips with optional search and filtering
+ * Get a page of approved supplier trips with optional search and filtering,
+ * sorted by ?sort=createdAt|name|daysCount&order=asc|desc (newest first by default)
  */
 router.get('/trips', async (req: Request, res: Response) => {
   try {
@@ -155,9 +311,16 @@ router.get('/trips', async (req: Request, res: Response) => {
       filters.destination = destination;
     }
 
-    const trips = await getApprovedTrips(filters);
+    const page = parsePageRequest(req.query, Object.keys(APPROVED_TRIP_SORT_COLUMNS), { sort: 'createdAt', order: 'desc' });
+
+    const trips = await getApprovedTrips(filters, page);
     res.json(trips);
   } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
     console.error('Get approved trips error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -0,0 +1,31 @@
+import express, { Request, Response } from 'express';
+import * as itineraryCalendarService from '../services/itineraryCalendarService';
+
+const router = express.Router();
+
+// Public calendar subscription feed; the unguessable token takes the place of a login
+// so calendar apps can refresh it on their own
+router.get('/:token.ics', async (req: Request, res: Response) => {
+  try {
+    const { token } = req.params;
+
+    if (!/^[a-f0-9]{48}$/.test(token)) {
+      return res.status(404).json({ error: '找不到該行事曆' });
+    }
+
+    const calendar = await itineraryCalendarService.getCalendarByToken(token);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(calendar);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Calendar not found') {
+      return res.status(404).json({ error: '找不到該行事曆' });
+    }
+
+    console.error('Error fetching calendar feed:', error);
+    res.status(500).json({ error: '取得行事曆失敗' });
+  }
+});
+
+export default router;
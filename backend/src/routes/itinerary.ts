@@ -1,9 +1,48 @@
 import express, { Request, Response } from 'express';
 import * as itineraryService from '../services/itineraryService';
+import * as quotationService from '../services/quotationService';
+import * as itineraryPdfService from '../services/itineraryPdfService';
+import * as itineraryCalendarService from '../services/itineraryCalendarService';
+import * as itineraryShareService from '../services/itineraryShareService';
+import * as itineraryVersionService from '../services/itineraryVersionService';
+import * as itineraryStatusService from '../services/itineraryStatusService';
+import * as routeEstimateService from '../services/routeEstimateService';
+import * as itineraryFeasibilityService from '../services/itineraryFeasibilityService';
+import * as stopOrderService from '../services/stopOrderService';
 import { requireAuth, requireRole } from '../middleware/auth';
+import { validateTimeline } from '../utils/timelineSchema';
+import { isValidDateString } from '../utils/validation';
+import { formatETag, parseIfMatch } from '../utils/etag';
+import { parsePageRequest } from '../utils/pagination';
+import { AppError } from '../middleware/errorHandler';
 
 const router = express.Router();
 
+const MAX_ROUTE_STOPS = 50;
+
+const calendarSubscriptionUrl = (req: Request, token: string): string => {
+  const baseUrl = process.env.PUBLIC_API_URL || `${req.protocol}://${req.get('host')}`;
+  return `${baseUrl}/api/calendar/${token}.ics`;
+};
+
+const parseMaxDayHours = (value: unknown): number | undefined | null => {
+  if (value === undefined) return undefined;
+  const hours = Number(value);
+  return Number.isFinite(hours) && hours > 0 && hours <= itineraryFeasibilityService.MAX_DAY_HOURS_LIMIT ? hours : null;
+};
+
+// Answer an If-Match conflict with the itinerary as it is now, so the planner can reload or merge.
+// The conflict still stands if that lookup fails, it just comes without `current`.
+const sendVersionConflict = async (res: Response, id: string, agencyUserId: string): Promise<void> => {
+  try {
+    const current = await itineraryService.getItineraryById(id, agencyUserId);
+    res.status(409).json({ error: '行程已被其他人更新', current });
+  } catch (error) {
+    console.error('Error fetching itinerary after version conflict:', error);
+    res.status(409).json({ error: '行程已被其他人更新' });
+  }
+};
+
 // All routes require agency role
 router.use(requireAuth, requireRole(['agency']));
 
@@ -17,10 +56,15 @@ router.post('/', async (req: Request, res: Response) => {
       return res.status(400).json({ error: '名稱和行程資料為必填' });
     }
 
+    const validation = validateTimeline(timeline);
+    if (!validation.valid) {
+      return res.status(400).json({ error: '行程資料格式錯誤', details: validation.errors });
+    }
+
     const itinerary = await itineraryService.createItinerary({
       name,
       agencyUserId,
-      timeline,
+      timeline: validation.timeline,
       destination,
       daysCount,
       startDate,
@@ -28,6 +72,9 @@ router.post('/', async (req: Request, res: Response) => {
       restrictedSupplierName
     });
 
+    // The unsaved plan autosaved so far now lives on as this itinerary
+    await itineraryVersionService.discardItineraryDraft(agencyUserId);
+
     res.status(201).json(itinerary);
   } catch (error) {
     console.error('Error creating itinerary:', error);
@@ -35,18 +82,556 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
-// Get all itineraries for the current agency
+// Get a page of the current agency's itineraries, optionally in one ?status= stage,
+// sorted by ?sort=createdAt|updatedAt|name&order=asc|desc (newest first by default);
+// pass pageInfo.nextCursor as ?cursor= for the next page
 router.get('/', async (req: Request, res: Response) => {
   try {
     const agencyUserId = req.user!.userId;
-    const itineraries = await itineraryService.getItinerariesByAgency(agencyUserId);
+
+    const status = req.query.status as itineraryService.ItineraryStatus | undefined;
+    if (status !== undefined && !itineraryService.ITINERARY_STATUSES.includes(status)) {
+      return res.status(400).json({ error: '行程狀態無效' });
+    }
+
+    const page = parsePageRequest(req.query, Object.keys(itineraryService.ITINERARY_SORT_COLUMNS), { sort: 'createdAt', order: 'desc' });
+
+    const itineraries = await itineraryService.getItinerariesByAgency(agencyUserId, { status }, page);
     res.json(itineraries);
   } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
     console.error('Error fetching itineraries:', error);
     res.status(500).json({ error: '取得行程列表失敗' });
   }
 });
 
+// Count the current agency's itineraries in each stage
+router.get('/status-summary', async (req: Request, res: Response) => {
+  try {
+    const counts = await itineraryService.getItineraryStatusCounts(req.user!.userId);
+    res.json(counts);
+  } catch (error) {
+    console.error('Error counting itineraries by status:', error);
+    res.status(500).json({ error: '取得行程統計失敗' });
+  }
+});
+
+// Get the agency's autosaved plan that was never saved as an itinerary
+router.get('/draft', async (req: Request, res: Response) => {
+  try {
+    const draft = await itineraryVersionService.getItineraryDraft(req.user!.userId);
+
+    if (!draft) {
+      return res.status(404).json({ error: '沒有未儲存的行程草稿' });
+    }
+
+    res.json(draft);
+  } catch (error) {
+    console.error('Error fetching itinerary draft:', error);
+    res.status(500).json({ error: '取得行程草稿失敗' });
+  }
+});
+
+// Autosave the planner's working copy of a plan not yet saved as an itinerary
+router.put('/draft', async (req: Request, res: Response) => {
+  try {
+    const { destination, startDate, endDate, restrictedSupplierName } = req.body;
+
+    const validation = validateTimeline(req.body.timeline);
+    if (!validation.valid) {
+      return res.status(400).json({ error: '行程資料格式錯誤', details: validation.errors });
+    }
+
+    if ([startDate, endDate].some(date => date !== undefined && date !== null && Number.isNaN(Date.parse(date)))) {
+      return res.status(400).json({ error: '日期格式錯誤' });
+    }
+
+    const updatedAt = await itineraryVersionService.saveItineraryDraft(req.user!.userId, {
+      timeline: validation.timeline,
+      destination,
+      startDate,
+      endDate,
+      restrictedSupplierName
+    });
+
+    res.json({ updatedAt });
+  } catch (error) {
+    console.error('Error autosaving itinerary draft:', error);
+    res.status(500).json({ error: '自動儲存失敗' });
+  }
+});
+
+// Discard the agency's unsaved plan
+router.delete('/draft', async (req: Request, res: Response) => {
+  try {
+    await itineraryVersionService.discardItineraryDraft(req.user!.userId);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error discarding itinerary draft:', error);
+    res.status(500).json({ error: '捨棄行程草稿失敗' });
+  }
+});
+
+// Get the agency's quotation settings
+router.get('/quote-settings', async (req: Request, res: Response) => {
+  try {
+    const settings = await quotationService.getQuoteSettings(req.user!.userId);
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching quote settings:', error);
+    res.status(500).json({ error: '取得報價設定失敗' });
+  }
+});
+
+// Update the agency's quotation settings (markup, rounding, currency)
+router.put('/quote-settings', async (req: Request, res: Response) => {
+  try {
+    const { markupPercent, roundingUnit, roundingMode, currency, exchangeRate, defaultPax, roomOccupancy } = req.body;
+
+    const isPositiveInteger = (value: any) => Number.isInteger(value) && value > 0;
+
+    if (markupPercent !== undefined && (typeof markupPercent !== 'number' || markupPercent < 0 || markupPercent > 1000)) {
+      return res.status(400).json({ error: '加價比例必須介於 0 到 1000 之間' });
+    }
+    if (roundingUnit !== undefined && !isPositiveInteger(roundingUnit)) {
+      return res.status(400).json({ error: '進位單位必須為正整數' });
+    }
+    if (roundingMode !== undefined && !['up', 'down', 'nearest'].includes(roundingMode)) {
+      return res.status(400).json({ error: '進位方式無效' });
+    }
+    if (currency !== undefined && (typeof currency !== 'string' || !/^[A-Za-z]{3}$/.test(currency))) {
+      return res.status(400).json({ error: '幣別必須為三碼貨幣代碼' });
+    }
+    if (exchangeRate !== undefined && (typeof exchangeRate !== 'number' || exchangeRate <= 0)) {
+      return res.status(400).json({ error: '匯率必須大於 0' });
+    }
+    if (defaultPax !== undefined && !isPositiveInteger(defaultPax)) {
+      return res.status(400).json({ error: '預設人數必須為正整數' });
+    }
+    if (roomOccupancy !== undefined && !isPositiveInteger(roomOccupancy)) {
+      return res.status(400).json({ error: '每房人數必須為正整數' });
+    }
+
+    const settings = await quotationService.updateQuoteSettings(req.user!.userId, {
+      markupPercent,
+      roundingUnit,
+      roundingMode,
+      currency,
+      exchangeRate,
+      defaultPax,
+      roomOccupancy
+    });
+
+    res.json(settings);
+  } catch (error) {
+    console.error('Error updating quote settings:', error);
+    res.status(500).json({ error: '更新報價設定失敗' });
+  }
+});
+
+// Estimate travel distance and time between stops without Google Directions
+router.post('/route-estimate', async (req: Request, res: Response) => {
+  try {
+    const { stops, mode = 'driving' } = req.body;
+
+    if (!routeEstimateService.TRAVEL_MODES.includes(mode)) {
+      return res.status(400).json({ error: '交通方式無效' });
+    }
+
+    const isCoordinate = (value: any, limit: number) => typeof value === 'number' && Math.abs(value) <= limit;
+    const validStops = Array.isArray(stops) && stops.length <= MAX_ROUTE_STOPS && stops.every((stop: any) =>
+      stop && typeof stop === 'object' && (
+        (isCoordinate(stop.lat, 90) && isCoordinate(stop.lng, 180))
+        || (stop.lat === undefined && stop.lng === undefined && typeof stop.productId === 'string')
+      )
+    );
+    if (!validStops) {
+      return res.status(400).json({ error: `停靠點必須為最多 ${MAX_ROUTE_STOPS} 個的座標或產品 ID 清單` });
+    }
+
+    const route = await routeEstimateService.estimateRouteForStops(stops, mode);
+    res.json(route);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Not enough located stops') {
+      return res.status(400).json({ error: '有效的地理位置不足（需要至少 2 個景點）' });
+    }
+    console.error('Error estimating route:', error);
+    res.status(500).json({ error: '路線估算失敗' });
+  }
+});
+
+// Check an unsaved timeline for overlapping times, impossible transfers, overlong days, missing hotels or meals
+// and (given startDate) products booked on days they are closed
+router.post('/validate', async (req: Request, res: Response) => {
+  try {
+    const maxDayHours = parseMaxDayHours(req.body.maxDayHours);
+    if (maxDayHours === null) {
+      return res.status(400).json({ error: `每日行程上限必須介於 0 到 ${itineraryFeasibilityService.MAX_DAY_HOURS_LIMIT} 小時之間` });
+    }
+
+    const { startDate } = req.body;
+    if (startDate !== undefined && startDate !== null && !isValidDateString(startDate)) {
+      return res.status(400).json({ error: '出發日期格式必須為 YYYY-MM-DD' });
+    }
+
+    const validation = validateTimeline(req.body.timeline);
+    if (!validation.valid) {
+      return res.status(400).json({ error: '行程資料格式錯誤', details: validation.errors });
+    }
+
+    const report = await itineraryFeasibilityService.checkTimeline(validation.timeline, {
+      maxDayHours,
+      startDate: startDate || undefined,
+    });
+    res.json(report);
+  } catch (error) {
+    console.error('Error checking timeline feasibility:', error);
+    res.status(500).json({ error: '檢查行程失敗' });
+  }
+});
+
+// Propose a travel-minimising order for one day's stops (the timeline itself is not changed)
+router.post('/optimize-day', async (req: Request, res: Response) => {
+  try {
+    const { dayNumber } = req.body;
+
+    if (!Number.isInteger(dayNumber)) {
+      return res.status(400).json({ error: '請指定要最佳化的天數' });
+    }
+
+    const validation = validateTimeline(req.body.timeline);
+    if (!validation.valid) {
+      return res.status(400).json({ error: '行程資料格式錯誤', details: validation.errors });
+    }
+
+    const proposal = await stopOrderService.proposeDayOrder(validation.timeline, dayNumber);
+
+    if (!proposal) {
+      return res.status(404).json({ error: '找不到該天行程' });
+    }
+
+    res.json(proposal);
+  } catch (error) {
+    console.error('Error optimizing day order:', error);
+    res.status(500).json({ error: '最佳化行程順序失敗' });
+  }
+});
+
+// Get a cost quotation for an itinerary
+router.get('/:id/quote', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    let pax: number | undefined;
+    if (req.query.pax !== undefined) {
+      pax = Number(req.query.pax);
+      if (!Number.isInteger(pax) || pax < 1 || pax > 999) {
+        return res.status(400).json({ error: '人數必須為 1 到 999 之間的整數' });
+      }
+    }
+
+    const quote = await quotationService.getItineraryQuote(id, agencyUserId, pax);
+    res.json(quote);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Itinerary not found') {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    console.error('Error building quote:', error);
+    res.status(500).json({ error: '計算報價失敗' });
+  }
+});
+
+// Export an itinerary as a client-facing PDF
+router.get('/:id/export.pdf', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const { filename, pdf } = await itineraryPdfService.getItineraryPdf(id, agencyUserId);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="itinerary.pdf"; filename*=UTF-8''${encodeURIComponent(filename)}`
+    );
+    res.send(pdf);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Itinerary not found') {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    console.error('Error exporting itinerary PDF:', error);
+    res.status(500).json({ error: '匯出 PDF 失敗' });
+  }
+});
+
+// Export an itinerary as an iCalendar file
+router.get('/:id/calendar.ics', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const { filename, calendar } = await itineraryCalendarService.getItineraryCalendar(id, agencyUserId);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="itinerary.ics"; filename*=UTF-8''${encodeURIComponent(filename)}`
+    );
+    res.send(calendar);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Itinerary not found') {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    console.error('Error exporting itinerary calendar:', error);
+    res.status(500).json({ error: '匯出行事曆失敗' });
+  }
+});
+
+// Get the calendar subscription URL of an itinerary (null when not enabled)
+router.get('/:id/calendar-subscription', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const subscription = await itineraryCalendarService.getCalendarToken(id, agencyUserId);
+
+    if (!subscription) {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    res.json({ url: subscription.token ? calendarSubscriptionUrl(req, subscription.token) : null });
+  } catch (error) {
+    console.error('Error fetching calendar subscription:', error);
+    res.status(500).json({ error: '取得行事曆訂閱失敗' });
+  }
+});
+
+// Create or regenerate the calendar subscription URL (old URLs stop working)
+router.post('/:id/calendar-subscription', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const token = await itineraryCalendarService.rotateCalendarToken(id, agencyUserId);
+
+    if (!token) {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    res.status(201).json({ url: calendarSubscriptionUrl(req, token) });
+  } catch (error) {
+    console.error('Error creating calendar subscription:', error);
+    res.status(500).json({ error: '建立行事曆訂閱失敗' });
+  }
+});
+
+// Disable the calendar subscription URL
+router.delete('/:id/calendar-subscription', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const success = await itineraryCalendarService.revokeCalendarToken(id, agencyUserId);
+
+    if (!success) {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    res.json({ message: '行事曆訂閱已停用' });
+  } catch (error) {
+    console.error('Error revoking calendar subscription:', error);
+    res.status(500).json({ error: '停用行事曆訂閱失敗' });
+  }
+});
+
+// List the share links of an itinerary
+router.get('/:id/share-links', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const links = await itineraryShareService.getShareLinks(id, agencyUserId);
+
+    if (!links) {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    res.json(links);
+  } catch (error) {
+    console.error('Error fetching share links:', error);
+    res.status(500).json({ error: '取得分享連結失敗' });
+  }
+});
+
+// Create a read-only share link for travellers
+router.post('/:id/share-links', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const agencyUserId = req.user!.userId;
+    const { expiresInDays = itineraryShareService.DEFAULT_SHARE_DAYS } = req.body;
+
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > itineraryShareService.MAX_SHARE_DAYS) {
+      return res.status(400).json({ error: `有效天數必須為 1 到 ${itineraryShareService.MAX_SHARE_DAYS} 之間的整數` });
+    }
+
+    const link = await itineraryShareService.createShareLink(id, agencyUserId, expiresInDays);
+
+    if (!link) {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    res.status(201).json(link);
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    res.status(500).json({ error: '建立分享連結失敗' });
+  }
+});
+
+// Revoke a share link
+router.delete('/:id/share-links/:linkId', async (req: Request, res: Response) => {
+  try {
+    const { id, linkId } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const success = await itineraryShareService.revokeShareLink(id, linkId, agencyUserId);
+
+    if (!success) {
+      return res.status(404).json({ error: '找不到該分享連結' });
+    }
+
+    res.json({ message: '分享連結已停用' });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    res.status(500).json({ error: '停用分享連結失敗' });
+  }
+});
+
+// Autosave the planner's working copy as a draft version (the itinerary itself is unchanged)
+router.post('/:id/versions', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const validation = validateTimeline(req.body.timeline);
+    if (!validation.valid) {
+      return res.status(400).json({ error: '行程資料格式錯誤', details: validation.errors });
+    }
+
+    const version = await itineraryVersionService.autosaveItinerary(id, agencyUserId, validation.timeline);
+
+    if (!version) {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    res.status(201).json(version);
+  } catch (error) {
+    console.error('Error autosaving itinerary:', error);
+    res.status(500).json({ error: '自動儲存失敗' });
+  }
+});
+
+// List the saved and autosaved versions of an itinerary
+router.get('/:id/versions', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const versions = await itineraryVersionService.getItineraryVersions(id, agencyUserId);
+
+    if (!versions) {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    res.json(versions);
+  } catch (error) {
+    console.error('Error fetching itinerary versions:', error);
+    res.status(500).json({ error: '取得版本紀錄失敗' });
+  }
+});
+
+// Get one version with its timeline for preview
+router.get('/:id/versions/:versionId', async (req: Request, res: Response) => {
+  try {
+    const { id, versionId } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const version = await itineraryVersionService.getItineraryVersion(id, versionId, agencyUserId);
+
+    if (!version) {
+      return res.status(404).json({ error: '找不到該版本' });
+    }
+
+    res.json(version);
+  } catch (error) {
+    console.error('Error fetching itinerary version:', error);
+    res.status(500).json({ error: '取得版本失敗' });
+  }
+});
+
+// Restore an earlier version's timeline onto the itinerary (If-Match guards against undoing someone else's save)
+router.post('/:id/versions/:versionId/restore', async (req: Request, res: Response) => {
+  try {
+    const { id, versionId } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const expectedVersion = parseIfMatch(req.get('If-Match'));
+    if (expectedVersion === null) {
+      return res.status(400).json({ error: '無效的 If-Match 標頭' });
+    }
+
+    const restored = await itineraryVersionService.restoreItineraryVersion(id, versionId, agencyUserId, expectedVersion);
+
+    if (!restored) {
+      return res.status(404).json({ error: '找不到該版本' });
+    }
+
+    const itinerary = await itineraryService.getItineraryById(id, agencyUserId);
+    res.set('ETag', formatETag(itinerary!.version));
+    res.json(itinerary);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Itinerary is locked') {
+      return res.status(409).json({ error: '行程已確認，無法修改行程內容' });
+    }
+    if (error instanceof Error && error.message === 'Version conflict') {
+      return sendVersionConflict(res, req.params.id, req.user!.userId);
+    }
+    console.error('Error restoring itinerary version:', error);
+    res.status(500).json({ error: '還原版本失敗' });
+  }
+});
+
+// Check a saved itinerary's days for feasibility (?maxDayHours= overrides the day length limit)
+router.get('/:id/validate', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const maxDayHours = parseMaxDayHours(req.query.maxDayHours);
+    if (maxDayHours === null) {
+      return res.status(400).json({ error: `每日行程上限必須介於 0 到 ${itineraryFeasibilityService.MAX_DAY_HOURS_LIMIT} 小時之間` });
+    }
+
+    const report = await itineraryFeasibilityService.validateItinerary(id, agencyUserId, { maxDayHours });
+
+    if (!report) {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    res.json(report);
+  } catch (error) {
+    console.error('Error validating itinerary:', error);
+    res.status(500).json({ error: '檢查行程失敗' });
+  }
+});
+
 // Get a specific itinerary
 router.get('/:id', async (req: Request, res: Response) => {
   try {
@@ -59,6 +644,7 @@ router.get('/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ error: '找不到該行程' });
     }
 
+    res.set('ETag', formatETag(itinerary.version));
     res.json(itinerary);
   } catch (error) {
     console.error('Error fetching itinerary:', error);
@@ -66,35 +652,117 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// Update an itinerary
+// Update an itinerary (If-Match guards against overwriting someone else's save).
+// The status changes through POST /:id/status, and confirmed itineraries keep their timeline and dates.
 router.put('/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { name, timeline, destination, daysCount, startDate, endDate, restrictedSupplierName, status } = req.body;
     const agencyUserId = req.user!.userId;
 
+    if (status !== undefined) {
+      return res.status(400).json({ error: '請透過狀態變更功能更新行程狀態' });
+    }
+
+    const expectedVersion = parseIfMatch(req.get('If-Match'));
+    if (expectedVersion === null) {
+      return res.status(400).json({ error: '無效的 If-Match 標頭' });
+    }
+
+    let normalizedTimeline;
+    if (timeline !== undefined) {
+      const validation = validateTimeline(timeline);
+      if (!validation.valid) {
+        return res.status(400).json({ error: '行程資料格式錯誤', details: validation.errors });
+      }
+      normalizedTimeline = validation.timeline;
+    }
+
     const itinerary = await itineraryService.updateItinerary(id, agencyUserId, {
       name,
-      timeline,
+      timeline: normalizedTimeline,
       destination,
       daysCount,
       startDate,
       endDate,
-      restrictedSupplierName,
-      status
-    });
+      restrictedSupplierName
+    }, expectedVersion);
 
     if (!itinerary) {
       return res.status(404).json({ error: '找不到該行程' });
     }
 
+    res.set('ETag', formatETag(itinerary.version));
     res.json(itinerary);
   } catch (error) {
+    if (error instanceof Error && error.message === 'Itinerary is locked') {
+      return res.status(409).json({ error: '行程已確認，無法修改行程內容' });
+    }
+    if (error instanceof Error && error.message === 'Version conflict') {
+      return sendVersionConflict(res, req.params.id, req.user!.userId);
+    }
     console.error('Error updating itinerary:', error);
     res.status(500).json({ error: '更新行程失敗' });
   }
 });
 
+// Move an itinerary to another stage (draft → quoted → confirmed → travelling → completed).
+// Refused changes answer 400 with the reasons and, for confirmation, the blocking feasibility issues.
+router.post('/:id/status', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body;
+    const agencyUserId = req.user!.userId;
+
+    if (!itineraryService.ITINERARY_STATUSES.includes(status)) {
+      return res.status(400).json({ error: '行程狀態無效' });
+    }
+
+    const expectedVersion = parseIfMatch(req.get('If-Match'));
+    if (expectedVersion === null) {
+      return res.status(400).json({ error: '無效的 If-Match 標頭' });
+    }
+
+    const result = await itineraryStatusService.changeItineraryStatus(id, agencyUserId, status, expectedVersion);
+
+    if (!result) {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    if (!result.itinerary) {
+      return res.status(400).json({ error: result.errors[0], details: result.errors, issues: result.issues });
+    }
+
+    res.set('ETag', formatETag(result.itinerary.version));
+    res.json(result.itinerary);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Version conflict') {
+      return sendVersionConflict(res, req.params.id, req.user!.userId);
+    }
+    console.error('Error changing itinerary status:', error);
+    res.status(500).json({ error: '變更行程狀態失敗' });
+  }
+});
+
+// List when the itinerary entered each stage
+router.get('/:id/status-history', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const agencyUserId = req.user!.userId;
+
+    const history = await itineraryStatusService.getStatusHistory(id, agencyUserId);
+
+    if (!history) {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    res.json(history);
+  } catch (error) {
+    console.error('Error fetching itinerary status history:', error);
+    res.status(500).json({ error: '取得狀態紀錄失敗' });
+  }
+});
+
 // Delete an itinerary
 router.delete('/:id', async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,36 @@
+import express, { Request, Response } from 'express';
+import * as itineraryShareService from '../services/itineraryShareService';
+
+const router = express.Router();
+
+// No authentication: these routes serve content agencies have explicitly shared
+
+// Get a shared itinerary (read-only, without prices or supplier details)
+router.get('/itineraries/:token', async (req: Request, res: Response) => {
+  try {
+    const { token } = req.params;
+
+    if (!/^[a-f0-9]{48}$/.test(token)) {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+
+    const itinerary = await itineraryShareService.getSharedItinerary(token);
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.json(itinerary);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+
+    if (message === 'Share link not found') {
+      return res.status(404).json({ error: '找不到該行程' });
+    }
+    if (message === 'Share link expired') {
+      return res.status(410).json({ error: '分享連結已過期' });
+    }
+
+    console.error('Error fetching shared itinerary:', error);
+    res.status(500).json({ error: '取得行程失敗' });
+  }
+});
+
+export default router;
@@ -1,9 +1,31 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
 import { requireAuth, requireRole } from '../middleware/auth';
-import { createProduct, getProductsBySupplier, getProductById, updateProduct, updateProductStatus, ProductStatus } from '../services/productService';
-import { uploadCoverImage } from '../services/storageService';
+import {
+  createProduct, getProductsBySupplier, getProductById, updateProduct, updateProductStatus,
+  ProductStatus, ProductListFilters, PRODUCT_SORT_COLUMNS,
+} from '../services/productService';
+import { uploadCoverImage, deleteImageWithVariants, UploadResult } from '../services/storageService';
+import { getProductRevisions } from '../services/productRevisionService';
+import { getProductAvailability, updateProductAvailability, validateAvailabilityInput } from '../services/productAvailabilityService';
+import { getPriceRules, replacePriceRules, validatePriceRules } from '../services/productPricingService';
+import {
+  getProductImages,
+  countProductImages,
+  addProductImages,
+  reorderProductImages,
+  updateImageCaption,
+  deleteProductImage,
+  MAX_PRODUCT_IMAGES,
+  MAX_CAPTION_LENGTH,
+} from '../services/productImageService';
 import { createTrip, getTripsBySupplier, getTripById, updateTrip, deleteTrip, updateTripStatus, TripStatus } from '../services/tripService';
+import { formatETag, parseIfMatch } from '../utils/etag';
+import { missingProductFields, validateProductFields, toProductFields, REQUIRED_PRODUCT_FIELDS } from '../utils/productFields';
+import { importProducts, MAX_IMPORT_ARCHIVE_SIZE } from '../services/productImportService';
+import { AppError } from '../middleware/errorHandler';
+import { parsePageRequest } from '../utils/pagination';
+import { writeProductExport, exportFilename, EXPORT_FORMATS, EXPORT_CONTENT_TYPES, ExportFormat } from '../services/productExportService';
 
 const router = Router();
 
@@ -15,6 +37,32 @@ const upload = multer({
   },
 });
 
+// Imports may carry a ZIP of images; importProducts checks the spreadsheet against its own limit
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMPORT_ARCHIVE_SIZE,
+  },
+});
+
+/**
+ * FilterBar filters from the query string (?destination=&category=&status=)
+ * @throws AppError (400) for an unknown status
+ */
+const productListFilters = (query: Request['query']): ProductListFilters => {
+  const status = (query.status as ProductStatus) || undefined;
+  const validStatuses: ProductStatus[] = ['草稿', '待審核', '已發佈', '需要修改'];
+  if (status && !validStatuses.includes(status)) {
+    throw new AppError(`Invalid status. Must be one of: ${validStatuses.join(', ')}`, 400);
+  }
+
+  return {
+    destination: (query.destination as string) || undefined,
+    category: (query.category as string) || undefined,
+    status,
+  };
+};
+
 // Apply authentication and supplier role requirement to all routes
 router.use(requireAuth);
 router.use(requireRole(['supplier']));
@@ -28,7 +76,7 @@ router.post('/tours', upload.single('coverImage'), async (req: Request, res: Res
     console.log('Request body:', req.body);
     console.log('Request file:', req.file ? { name: req.file.originalname, size: req.file.size, mimetype: req.file.mimetype } : 'No file');
 
-    const { title, destination, category, description, netPrice, status, hasShopping, hasTicket, ticketPrice, duration, address, latitude, longitude } = req.body;
+    const { status } = req.body;
     const supplierId = req.user!.userId;
 
     // Validate status if provided
@@ -36,14 +84,21 @@ router.post('/tours', upload.single('coverImage'), async (req: Request, res: Res
     const productStatus: ProductStatus = status && validStatuses.includes(status) ? status : '草稿';
 
     // Validate required fields
-    if (!title || !destination || !category || !description || !netPrice) {
-      console.error('Missing required fields:', { title: !!title, destination: !!destination, category: !!category, description: !!description, netPrice: !!netPrice });
+    const missingFields = missingProductFields(req.body);
+    if (missingFields.length > 0) {
+      console.error('Missing required fields:', missingFields);
       res.status(400).json({
-        error: 'All fields are required: title, destination, category, description, netPrice',
+        error: `All fields are required: ${REQUIRED_PRODUCT_FIELDS.join(', ')}`,
       });
       return;
     }
 
+    const fieldErrors = validateProductFields(req.body);
+    if (fieldErrors.length > 0) {
+      res.status(400).json({ error: 'Invalid product', details: fieldErrors });
+      return;
+    }
+
     // Validate cover image
     if (!req.file) {
       console.error('No cover image provided');
@@ -51,13 +106,12 @@ router.post('/tours', upload.single('coverImage'), async (req: Request, res: Res
       return;
     }
 
-    // Upload cover image to Cloud Storage
-    let coverImageUrl: string;
+    // Resize the cover image and upload its variants
+    let uploadResult: UploadResult;
     try {
       console.log('Uploading cover image...');
-      const uploadResult = await uploadCoverImage(req.file);
-      coverImageUrl = uploadResult.publicUrl;
-      console.log('Cover image uploaded:', coverImageUrl);
+      uploadResult = await uploadCoverImage(req.file);
+      console.log('Cover image uploaded:', uploadResult.publicUrl);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Image upload failed';
       console.error('Image upload error:', error);
@@ -69,19 +123,9 @@ router.post('/tours', upload.single('coverImage'), async (req: Request, res: Res
     console.log('Creating product in database...');
     const product = await createProduct({
       supplierId,
-      title,
-      destination,
-      category,
-      description,
-      coverImageUrl,
-      netPrice: parseFloat(netPrice),
-      hasShopping: hasShopping === 'true' || hasShopping === true,
-      hasTicket: hasTicket === 'true' || hasTicket === true,
-      ticketPrice: ticketPrice ? parseFloat(ticketPrice) : undefined,
-      duration: duration ? parseFloat(duration) : 1.0,
-      address,
-      latitude: latitude ? parseFloat(latitude) : undefined,
-      longitude: longitude ? parseFloat(longitude) : undefined,
+      ...toProductFields(req.body),
+      coverImageUrl: uploadResult.publicUrl,
+      coverImageVariants: uploadResult.variants,
     }, productStatus);
     console.log('Product created successfully:', product.id);
 
@@ -94,21 +138,107 @@ router.post('/tours', upload.single('coverImage'), async (req: Request, res: Res
   }
 });
 
+/**
+ * POST /api/supplier/tours/import
+ * Create draft products from a CSV or XLSX file ("file") with cover images from an optional ZIP ("images").
+ * With dryRun=true every row is validated and nothing is stored; otherwise nothing is created unless all rows are valid.
+ */
+router.post(
+  '/tours/import',
+  importUpload.fields([{ name: 'file', maxCount: 1 }, { name: 'images', maxCount: 1 }]),
+  async (req: Request, res: Response) => {
+    try {
+      const files = (req.files as Record<string, Express.Multer.File[]> | undefined) || {};
+      const sheet = files.file?.[0];
+      const dryRun = req.body.dryRun === 'true';
+
+      if (!sheet) {
+        res.status(400).json({ error: 'A CSV or XLSX file is required' });
+        return;
+      }
+
+      const report = await importProducts(req.user!.userId, sheet, files.images?.[0], { dryRun });
+
+      if (!dryRun && report.invalid > 0) {
+        res.status(400).json({ error: 'Some rows are invalid; nothing was imported', report });
+        return;
+      }
+
+      res.status(dryRun ? 200 : 201).json(report);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error('Import products error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
 /**
  * GET /api/supplier/tours
- * Get all tours for the authenticated supplier
+ * Get a page of the authenticated supplier's tours, filtered by ?destination=&category=&status=
+ * and sorted by ?sort=createdAt|updatedAt|title|destination|category|status|netPrice&order=asc|desc
+ * (newest first by default). Pass pageInfo.nextCursor as ?cursor= for the next page.
  */
 router.get('/tours', async (req: Request, res: Response) => {
   try {
     const supplierId = req.user!.userId;
-    const products = await getProductsBySupplier(supplierId);
+    const filters = productListFilters(req.query);
+    const page = parsePageRequest(req.query, Object.keys(PRODUCT_SORT_COLUMNS), { sort: 'createdAt', order: 'desc' });
+
+    const products = await getProductsBySupplier(supplierId, filters, page);
     res.json(products);
   } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
     console.error('Get supplier products error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+/**
+ * GET /api/supplier/tours/export
+ * Download the supplier's products as CSV, XLSX or JSON (?format=csv|xlsx|json),
+ * optionally filtered by destination, category and status like the dashboard FilterBar
+ * IMPORTANT: This must come BEFORE /tours/:id
+ */
+router.get('/tours/export', async (req: Request, res: Response) => {
+  const format = (req.query.format || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    res.status(400).json({ error: `Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    return;
+  }
+
+  let filters: ProductListFilters;
+  try {
+    filters = productListFilters(req.query);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+    return;
+  }
+
+  res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${exportFilename(format)}"`);
+
+  try {
+    await writeProductExport(format, { ...filters, supplierId: req.user!.userId }, res);
+  } catch (error) {
+    console.error('Export supplier products error:', error);
+    // Once rows are on the wire the only way to signal failure is to cut the download short
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.removeHeader('Content-Disposition');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/supplier/tours/:id
  * Get a specific tour product for editing
@@ -140,6 +270,360 @@ router.get('/tours/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/supplier/tours/:id/revisions
+ * Get the revision history of a tour product owned by the supplier
+ */
+router.get('/tours/:id/revisions', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const supplierId = req.user!.userId;
+
+    const product = await getProductById(id);
+
+    // Verify ownership
+    if (product.supplierId !== supplierId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const revisions = await getProductRevisions(id);
+    res.json(revisions);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch revisions';
+
+    if (message === 'Product not found') {
+      res.status(404).json({ error: message });
+      return;
+    }
+
+    console.error('Get product revisions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/supplier/tours/:id/availability
+ * Get operating days, opening hours and blackout dates of a tour product
+ */
+router.get('/tours/:id/availability', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const supplierId = req.user!.userId;
+
+    const product = await getProductById(id);
+
+    // Verify ownership
+    if (product.supplierId !== supplierId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const availability = await getProductAvailability(id);
+    res.json(availability);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch availability';
+
+    if (message === 'Product not found') {
+      res.status(404).json({ error: message });
+      return;
+    }
+
+    console.error('Get product availability error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/supplier/tours/:id/availability
+ * Replace operating days, opening hours and blackout dates of a tour product
+ */
+router.put('/tours/:id/availability', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const supplierId = req.user!.userId;
+
+    const errors = validateAvailabilityInput(req.body);
+    if (errors.length > 0) {
+      res.status(400).json({ error: 'Invalid availability', details: errors });
+      return;
+    }
+
+    const { operatingDays, openingTime, closingTime, blackoutDates } = req.body;
+    const availability = await updateProductAvailability(id, supplierId, {
+      operatingDays,
+      openingTime: openingTime || null,
+      closingTime: closingTime || null,
+      blackoutDates,
+    });
+
+    if (!availability) {
+      res.status(404).json({ error: 'Product not found or access denied' });
+      return;
+    }
+
+    res.json(availability);
+  } catch (error) {
+    console.error('Update product availability error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/supplier/tours/:id/pricing
+ * Get seasonal, weekday, pax-type and group-size price rules of a tour product
+ */
+router.get('/tours/:id/pricing', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const supplierId = req.user!.userId;
+
+    const product = await getProductById(id);
+
+    // Verify ownership
+    if (product.supplierId !== supplierId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    const rules = await getPriceRules(id);
+    res.json({ basePrice: product.netPrice, rules });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch price rules';
+
+    if (message === 'Product not found') {
+      res.status(404).json({ error: message });
+      return;
+    }
+
+    console.error('Get price rules error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/supplier/tours/:id/pricing
+ * Replace the price rules of a tour product; net price remains the fallback
+ */
+router.put('/tours/:id/pricing', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const supplierId = req.user!.userId;
+
+    const errors = validatePriceRules(req.body.rules);
+    if (errors.length > 0) {
+      res.status(400).json({ error: 'Invalid price rules', details: errors });
+      return;
+    }
+
+    const rules = await replacePriceRules(id, supplierId, req.body.rules);
+    if (!rules) {
+      res.status(404).json({ error: 'Product not found or access denied' });
+      return;
+    }
+
+    res.json({ rules });
+  } catch (error) {
+    console.error('Update price rules error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/supplier/tours/:id/images
+ * Get the gallery images of a tour product in display order
+ */
+router.get('/tours/:id/images', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const supplierId = req.user!.userId;
+
+    const product = await getProductById(id);
+
+    // Verify ownership
+    if (product.supplierId !== supplierId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    res.json(await getProductImages(id));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch images';
+
+    if (message === 'Product not found') {
+      res.status(404).json({ error: message });
+      return;
+    }
+
+    console.error('Get product images error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/supplier/tours/:id/images
+ * Upload one or more gallery images ("images" files, optional "captions" fields in the same order)
+ */
+router.post('/tours/:id/images', upload.array('images', MAX_PRODUCT_IMAGES), async (req: Request, res: Response) => {
+  const uploads: UploadResult[] = [];
+  const removeUploads = () =>
+    Promise.all(uploads.map(upload => deleteImageWithVariants(upload.publicUrl, upload.variants)));
+
+  try {
+    const { id } = req.params;
+    const supplierId = req.user!.userId;
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    const captions: unknown[] = req.body.captions === undefined
+      ? []
+      : Array.isArray(req.body.captions) ? req.body.captions : [req.body.captions];
+
+    if (files.length === 0) {
+      res.status(400).json({ error: 'At least one image is required' });
+      return;
+    }
+    if (captions.some(caption => typeof caption !== 'string' || caption.length > MAX_CAPTION_LENGTH)) {
+      res.status(400).json({ error: `Captions must be at most ${MAX_CAPTION_LENGTH} characters` });
+      return;
+    }
+
+    const product = await getProductById(id);
+
+    // Verify ownership
+    if (product.supplierId !== supplierId) {
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    // Check the limit before uploading; addProductImages re-checks it under a lock
+    if ((await countProductImages(id)) + files.length > MAX_PRODUCT_IMAGES) {
+      res.status(400).json({ error: `A product can have at most ${MAX_PRODUCT_IMAGES} images` });
+      return;
+    }
+
+    for (const file of files) {
+      try {
+        uploads.push(await uploadCoverImage(file));
+      } catch (error) {
+        await removeUploads();
+        const message = error instanceof Error ? error.message : 'Image upload failed';
+        res.status(400).json({ error: `${file.originalname}: ${message}` });
+        return;
+      }
+    }
+
+    const images = await addProductImages(
+      id,
+      supplierId,
+      uploads.map((upload, index) => ({
+        imageUrl: upload.publicUrl,
+        variants: upload.variants,
+        caption: captions[index] as string | undefined,
+      }))
+    );
+
+    res.status(201).json(images);
+  } catch (error) {
+    await removeUploads();
+    const message = error instanceof Error ? error.message : 'Image upload failed';
+
+    if (message === 'Product not found' || message === 'Product not found or access denied') {
+      res.status(404).json({ error: message });
+      return;
+    }
+    if (message.startsWith('A product can have at most')) {
+      res.status(400).json({ error: message });
+      return;
+    }
+
+    console.error('Upload product images error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/supplier/tours/:id/images/order
+ * Reorder the gallery; body is { imageIds } listing every image once
+ */
+router.put('/tours/:id/images/order', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { imageIds } = req.body;
+    const supplierId = req.user!.userId;
+
+    if (!Array.isArray(imageIds) || imageIds.some(imageId => typeof imageId !== 'string')) {
+      res.status(400).json({ error: 'imageIds must be an array of image IDs' });
+      return;
+    }
+
+    res.json(await reorderProductImages(id, supplierId, imageIds));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to reorder images';
+
+    if (message === 'Product not found or access denied') {
+      res.status(404).json({ error: message });
+      return;
+    }
+    if (message.startsWith('imageIds must')) {
+      res.status(400).json({ error: message });
+      return;
+    }
+
+    console.error('Reorder product images error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /api/supplier/tours/:id/images/:imageId
+ * Update the caption of a gallery image
+ */
+router.patch('/tours/:id/images/:imageId', async (req: Request, res: Response) => {
+  try {
+    const { id, imageId } = req.params;
+    const { caption } = req.body;
+    const supplierId = req.user!.userId;
+
+    if (caption !== null && (typeof caption !== 'string' || caption.length > MAX_CAPTION_LENGTH)) {
+      res.status(400).json({ error: `caption must be a string of at most ${MAX_CAPTION_LENGTH} characters or null` });
+      return;
+    }
+
+    const image = await updateImageCaption(id, supplierId, imageId, caption);
+    if (!image) {
+      res.status(404).json({ error: 'Image not found or access denied' });
+      return;
+    }
+
+    res.json(image);
+  } catch (error) {
+    console.error('Update image caption error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/supplier/tours/:id/images/:imageId
+ * Remove a gallery image and its stored file
+ */
+router.delete('/tours/:id/images/:imageId', async (req: Request, res: Response) => {
+  try {
+    const { id, imageId } = req.params;
+    const supplierId = req.user!.userId;
+
+    const image = await deleteProductImage(id, supplierId, imageId);
+    if (!image) {
+      res.status(404).json({ error: 'Image not found or access denied' });
+      return;
+    }
+
+    await deleteImageWithVariants(image.imageUrl, image.variants);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete product image error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * PUT /api/supplier/tours/:id
  * Update an existing tour product
@@ -174,6 +658,7 @@ router.put('/tours/:id', upload.single('coverImage'), async (req: Request, res:
       try {
         const uploadResult = await uploadCoverImage(req.file);
         updateData.coverImageUrl = uploadResult.publicUrl;
+        updateData.coverImageVariants = uploadResult.variants;
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Image upload failed';
         res.status(400).json({ error: message });
@@ -305,6 +790,7 @@ router.get('/trips/:id', async (req: Request, res: Response) => {
     const { id } = req.params;
     const supplierId = req.user!.userId;
     const trip = await getTripById(id, supplierId);
+    res.set('ETag', formatETag(trip.version));
     res.json(trip);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Internal server error';
@@ -319,7 +805,8 @@ router.get('/trips/:id', async (req: Request, res: Response) => {
 
 /**
  * PUT /api/supplier/trips/:id
- * Update an existing trip
+ * Update an existing trip. Send the ETag from GET as If-Match to get a 409
+ * instead of silently overwriting a save made in another tab.
  */
 router.put('/trips/:id', async (req: Request, res: Response) => {
   try {
@@ -327,10 +814,28 @@ router.put('/trips/:id', async (req: Request, res: Response) => {
     const supplierId = req.user!.userId;
     const { name, destination, category, daysCount, days } = req.body;
 
-    const trip = await updateTrip(id, supplierId, { name, destination, category, daysCount, days });
+    const expectedVersion = parseIfMatch(req.get('If-Match'));
+    if (expectedVersion === null) {
+      res.status(400).json({ error: 'Invalid If-Match header' });
+      return;
+    }
+
+    const trip = await updateTrip(id, supplierId, { name, destination, category, daysCount, days }, expectedVersion);
+    res.set('ETag', formatETag(trip.version));
     res.json(trip);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Internal server error';
+    if (message === 'Version conflict') {
+      // The conflict still stands if the lookup fails, it just comes without `current`
+      try {
+        const current = await getTripById(req.params.id, req.user!.userId);
+        res.status(409).json({ error: message, current });
+      } catch (lookupError) {
+        console.error('Get trip after version conflict error:', lookupError);
+        res.status(409).json({ error: message });
+      }
+      return;
+    }
     if (message.includes('not found')) {
       res.status(404).json({ error: message });
       return;
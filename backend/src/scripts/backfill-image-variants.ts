@@ -0,0 +1,111 @@
+import pool from '../config/database';
+import { downloadImage, storeImageVariants } from '../services/storageService';
+
+/**
+ * Backfill script to generate WebP variants for images uploaded before processing existed.
+ * Covers products.cover_image_url and product_images.image_url rows whose variants column is null.
+ * The original file and URL are kept; only the variants column is filled in.
+ *
+ * Usage: npm run images:backfill -- [--dry-run] [--limit=N]
+ */
+
+interface BackfillTarget {
+  table: 'products' | 'product_images';
+  urlColumn: 'cover_image_url' | 'image_url';
+  variantsColumn: 'cover_image_variants' | 'variants';
+}
+
+const TARGETS: BackfillTarget[] = [
+  { table: 'products', urlColumn: 'cover_image_url', variantsColumn: 'cover_image_variants' },
+  { table: 'product_images', urlColumn: 'image_url', variantsColumn: 'variants' },
+];
+
+interface BackfillStats {
+  processed: number;
+  skipped: number;
+  failed: number;
+}
+
+const parseArgs = (args: string[]): { dryRun: boolean; limit: number | null } => {
+  const limitArg = args.find(arg => arg.startsWith('--limit='));
+  const limit = limitArg ? parseInt(limitArg.slice('--limit='.length), 10) : null;
+  if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+    throw new Error('--limit must be a positive integer');
+  }
+  return { dryRun: args.includes('--dry-run'), limit };
+};
+
+async function backfillTarget(target: BackfillTarget, dryRun: boolean, limit: number | null): Promise<BackfillStats> {
+  const stats: BackfillStats = { processed: 0, skipped: 0, failed: 0 };
+  const { table, urlColumn, variantsColumn } = target;
+
+  const result = await pool.query(
+    `SELECT id, ${urlColumn} AS url FROM ${table}
+     WHERE ${urlColumn} IS NOT NULL AND ${urlColumn} <> '' AND ${variantsColumn} IS NULL
+     ORDER BY created_at
+     ${limit !== null ? 'LIMIT $1' : ''}`,
+    limit !== null ? [limit] : []
+  );
+
+  console.log(`${table}: ${result.rows.length} image(s) without variants`);
+
+  // One at a time: each image is decoded in full and resizing is CPU-bound
+  for (const row of result.rows) {
+    const original = await downloadImage(row.url);
+    if (!original) {
+      console.log(`  - skipped ${row.id}: ${row.url} is not in our storage`);
+      stats.skipped++;
+      continue;
+    }
+
+    if (dryRun) {
+      console.log(`  - would process ${row.id} (${original.length} bytes)`);
+      stats.processed++;
+      continue;
+    }
+
+    try {
+      const upload = await storeImageVariants(original);
+      await pool.query(
+        `UPDATE ${table} SET ${variantsColumn} = $1 WHERE id = $2`,
+        [JSON.stringify(upload.variants), row.id]
+      );
+      console.log(`  ✓ ${row.id}`);
+      stats.processed++;
+    } catch (error) {
+      console.error(`  ✗ ${row.id}:`, error instanceof Error ? error.message : error);
+      stats.failed++;
+    }
+  }
+
+  return stats;
+}
+
+async function backfillImageVariants(): Promise<void> {
+  try {
+    const { dryRun, limit } = parseArgs(process.argv.slice(2));
+    console.log(`Backfilling image variants${dryRun ? ' (dry run)' : ''}...`);
+
+    const totals: BackfillStats = { processed: 0, skipped: 0, failed: 0 };
+    for (const target of TARGETS) {
+      const stats = await backfillTarget(target, dryRun, limit);
+      totals.processed += stats.processed;
+      totals.skipped += stats.skipped;
+      totals.failed += stats.failed;
+    }
+
+    console.log('-----------------------------------');
+    console.log(`Processed: ${totals.processed}, skipped: ${totals.skipped}, failed: ${totals.failed}`);
+    if (totals.failed > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Failed to backfill image variants:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+// Run the backfill script
+backfillImageVariants();
@@ -0,0 +1,41 @@
+import pool from '../config/database';
+import { detectProductDuplicates } from '../services/productDuplicateService';
+
+/**
+ * Run duplicate detection over every submitted product, for products created before
+ * detection ran on create and update. Linked and dismissed pairs are kept.
+ *
+ * Usage: npm run products:detect-duplicates
+ */
+
+async function detectDuplicateProducts(): Promise<void> {
+  try {
+    const result = await pool.query(
+      `SELECT id, supplier_id, title, destination, category, address, latitude, longitude
+       FROM products
+       WHERE status != '草稿' AND (is_deleted = FALSE OR is_deleted IS NULL)
+       ORDER BY created_at`
+    );
+    console.log(`Checking ${result.rows.length} products for duplicates...`);
+
+    let flagged = 0;
+    for (const product of result.rows) {
+      const matches = await detectProductDuplicates(pool, product);
+      if (matches > 0) {
+        console.log(`  - ${product.title} (${product.id}): ${matches} likely duplicate(s)`);
+        flagged++;
+      }
+    }
+
+    console.log('-----------------------------------');
+    console.log(`Products with likely duplicates: ${flagged}`);
+  } catch (error) {
+    console.error('Failed to detect duplicate products:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+// Run the duplicate detection script
+detectDuplicateProducts();
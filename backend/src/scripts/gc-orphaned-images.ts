@@ -0,0 +1,52 @@
+import pool from '../config/database';
+import { collectOrphanedImages, DEFAULT_GRACE_PERIOD_HOURS } from '../services/orphanedImageService';
+
+/**
+ * Garbage collection script for stored images no product or gallery image references,
+ * e.g. replaced cover images and images of products deleted long ago.
+ * Uses the storage driver selected by STORAGE_DRIVER.
+ *
+ * Usage: npm run images:gc -- [--dry-run] [--grace-hours=N]
+ */
+
+const parseArgs = (args: string[]): { dryRun: boolean; gracePeriodHours: number } => {
+  const graceArg = args.find(arg => arg.startsWith('--grace-hours='));
+  const gracePeriodHours = graceArg ? Number(graceArg.slice('--grace-hours='.length)) : DEFAULT_GRACE_PERIOD_HOURS;
+  return { dryRun: args.includes('--dry-run'), gracePeriodHours };
+};
+
+const formatSize = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+async function gcOrphanedImages(): Promise<void> {
+  try {
+    const { dryRun, gracePeriodHours } = parseArgs(process.argv.slice(2));
+    console.log(`Collecting orphaned images older than ${gracePeriodHours}h${dryRun ? ' (dry run)' : ''}...`);
+
+    const report = await collectOrphanedImages({ dryRun, gracePeriodHours });
+
+    for (const object of report.orphaned) {
+      console.log(`  - ${object.key} (${object.size} bytes, ${object.updatedAt.toISOString()})`);
+    }
+
+    const orphanedBytes = report.orphaned.reduce((total, object) => total + object.size, 0);
+    console.log('-----------------------------------');
+    console.log(`Scanned: ${report.scanned}, referenced: ${report.referenced}, within grace period: ${report.recent}`);
+    console.log(`Orphaned: ${report.orphaned.length} (${formatSize(orphanedBytes)})`);
+    if (dryRun) {
+      console.log('Dry run: nothing was deleted. Run without --dry-run to delete these files.');
+    } else {
+      console.log(`Deleted: ${report.deleted}, failed: ${report.failed}`);
+    }
+    if (report.failed > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Failed to collect orphaned images:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+// Run the garbage collection script
+gcOrphanedImages();
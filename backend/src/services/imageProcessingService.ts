@@ -0,0 +1,80 @@
+import sharp from 'sharp';
+
+export type ImageVariantName = 'thumbnail' | 'card' | 'hero';
+
+interface VariantSpec {
+  width: number;
+  height: number;
+  /** cover crops to the exact size; inside keeps the whole photo within the box */
+  fit: 'cover' | 'inside';
+  quality: number;
+}
+
+/**
+ * Sizes produced for every upload: thumbnail for lists and timeline items,
+ * card for ResourceLibrary and dashboard cards, hero for detail pages and carousels
+ */
+export const IMAGE_VARIANTS: Record<ImageVariantName, VariantSpec> = {
+  thumbnail: { width: 160, height: 120, fit: 'cover', quality: 70 },
+  card: { width: 640, height: 480, fit: 'cover', quality: 75 },
+  hero: { width: 1920, height: 1080, fit: 'inside', quality: 82 },
+};
+
+export const IMAGE_VARIANT_NAMES = Object.keys(IMAGE_VARIANTS) as ImageVariantName[];
+
+export type ImageVariantUrls = Record<ImageVariantName, string>;
+
+/** Cover image as returned by product APIs */
+export interface CoverImage extends ImageVariantUrls {
+  /** Stored cover_image_url: the hero variant for processed uploads, the untouched file for older ones */
+  original: string;
+}
+
+export interface ProcessedVariant {
+  name: ImageVariantName;
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Produce WebP variants of an uploaded photo.
+ * Orientation from EXIF is applied to the pixels and all metadata (EXIF, GPS, ICC) is dropped.
+ * @param input - Original file contents (JPEG, PNG or WebP)
+ * @throws Error if the input is not a decodable image
+ */
+export const processImage = async (input: Buffer): Promise<ProcessedVariant[]> => {
+  // Decode once; each variant is rendered from the auto-rotated image
+  const source = sharp(input, { failOn: 'error' }).rotate();
+  await source.metadata().catch(() => {
+    throw new Error('File is not a valid image');
+  });
+
+  return Promise.all(IMAGE_VARIANT_NAMES.map(async name => {
+    const spec = IMAGE_VARIANTS[name];
+    const { data, info } = await source
+      .clone()
+      .resize({ width: spec.width, height: spec.height, fit: spec.fit, withoutEnlargement: true })
+      .webp({ quality: spec.quality })
+      .toBuffer({ resolveWithObject: true });
+
+    return { name, data, width: info.width, height: info.height };
+  }));
+};
+
+/**
+ * Re-encode an image as JPEG, for consumers such as PDFKit that cannot read WebP
+ * @throws Error if the input is not a decodable image
+ */
+export const convertToJpeg = (input: Buffer): Promise<Buffer> =>
+  sharp(input).rotate().jpeg({ quality: 85 }).toBuffer();
+
+/**
+ * Build the coverImage object of a product row
+ * @param variants - cover_image_variants column; null for images uploaded before processing existed,
+ *   in which case every variant falls back to the original URL
+ */
+export const toCoverImage = (url: string | null, variants: ImageVariantUrls | null): CoverImage | null => {
+  if (!url) return null;
+  return { original: url, ...(variants || { thumbnail: url, card: url, hero: url }) };
+};
@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import pool from '../config/database';
+import { getItineraryById } from './itineraryService';
+import { upgradeTimeline } from '../utils/timelineSchema';
+
+export interface CalendarItinerary {
+  id: string;
+  name: string;
+  startDate?: Date;
+  updatedAt: Date;
+  timelineData: any[];
+}
+
+export interface CalendarProductDetails {
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+const PRODUCT_ID = '-//Delux+//Itinerary Calendar//ZH-TW';
+const UID_DOMAIN = 'delux-plus';
+const DEFAULT_ITEM_MINUTES = 60;
+
+// Meals have no time of their own in the timeline, so they get conventional slots
+const MEAL_SLOTS = [
+  { slot: 'breakfast', label: '早餐', start: '07:30', minutes: 60 },
+  { slot: 'lunch', label: '午餐', start: '12:00', minutes: 60 },
+  { slot: 'dinner', label: '晚餐', start: '18:30', minutes: 90 },
+] as const;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Escape a TEXT property value (RFC 5545 section 3.3.11)
+ */
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold a content line to at most 75 octets (RFC 5545 section 3.1),
+ * never splitting a multi-byte character
+ */
+export const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const dayDate = (startDate: Date, dayNumber: number): Date => {
+  const date = new Date(startDate);
+  date.setDate(date.getDate() + dayNumber - 1);
+  return date;
+};
+
+const formatDate = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+const formatUtc = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+/**
+ * Local "floating" date-time, so events show at the same wall-clock time
+ * wherever the tour leader's phone happens to be
+ */
+const formatLocalDateTime = (date: Date, time: string, addMinutes = 0): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const value = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes + addMinutes);
+  return `${formatDate(value)}T${pad(value.getHours())}${pad(value.getMinutes())}00`;
+};
+
+const isValidTime = (time: any): time is string =>
+  typeof time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+
+/**
+ * Build an RFC 5545 calendar for an itinerary
+ * Timed activities become timed events, meals are placed in conventional slots and
+ * each night's hotel is an all-day event. Itineraries without a start date produce an empty calendar.
+ * @param itinerary - Itinerary with its timeline
+ * @param products - Current product locations keyed by ID
+ * @returns iCalendar text with CRLF line endings
+ */
+export const buildItineraryCalendar = (
+  itinerary: CalendarItinerary,
+  products: Map<string, CalendarProductDetails>
+): string => {
+  const dtstamp = formatUtc(new Date(itinerary.updatedAt));
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(itinerary.name)}`,
+  ];
+
+  const addEvent = (uid: string, properties: string[]) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid}@${UID_DOMAIN}`,
+      `DTSTAMP:${dtstamp}`,
+      ...properties,
+      'END:VEVENT'
+    );
+  };
+
+  const startDate = itinerary.startDate ? new Date(itinerary.startDate) : null;
+
+  for (const day of startDate ? itinerary.timelineData || [] : []) {
+    const date = dayDate(startDate!, day.dayNumber);
+    const uidPrefix = `${itinerary.id}-d${day.dayNumber}`;
+
+    (day.items || []).forEach((item: any, index: number) => {
+      const details = products.get(item.id);
+      const address = details?.address || item.address;
+      const latitude = details?.latitude ?? item.location?.lat;
+      const longitude = details?.longitude ?? item.location?.lng;
+
+      const properties = [`SUMMARY:${escapeText(item.title || '行程活動')}`];
+
+      if (isValidTime(item.startTime)) {
+        const minutes = item.duration || DEFAULT_ITEM_MINUTES;
+        properties.push(
+          `DTSTART:${formatLocalDateTime(date, item.startTime)}`,
+          `DTEND:${formatLocalDateTime(date, item.startTime, minutes)}`
+        );
+      } else {
+        properties.push(`DTSTART;VALUE=DATE:${formatDate(date)}`);
+      }
+
+      if (address) {
+        properties.push(`LOCATION:${escapeText(address)}`);
+      }
+      if (latitude !== undefined && longitude !== undefined && latitude !== null && longitude !== null) {
+        properties.push(`GEO:${Number(latitude).toFixed(6)};${Number(longitude).toFixed(6)}`);
+      }
+      if (item.notes) {
+        properties.push(`DESCRIPTION:${escapeText(item.notes)}`);
+      }
+
+      // timelineId survives reordering, so calendar apps update the event instead of duplicating it
+      addEvent(`${uidPrefix}-${item.timelineId || `item${index}-${item.id}`}`, properties);
+    });
+
+    for (const meal of MEAL_SLOTS) {
+      const name = day[`${meal.slot}Custom`] || day[`${meal.slot}Title`];
+      if (!name) continue;
+
+      addEvent(`${uidPrefix}-${meal.slot}`, [
+        `SUMMARY:${escapeText(`${meal.label}：${name}`)}`,
+        `DTSTART:${formatLocalDateTime(date, meal.start)}`,
+        `DTEND:${formatLocalDateTime(date, meal.start, meal.minutes)}`,
+      ]);
+    }
+
+    const hotel = day.hotelCustom || day.hotelTitle;
+    if (hotel) {
+      addEvent(`${uidPrefix}-hotel`, [
+        `SUMMARY:${escapeText(`住宿：${hotel}`)}`,
+        `DTSTART;VALUE=DATE:${formatDate(date)}`,
+        `DTEND;VALUE=DATE:${formatDate(dayDate(date, 2))}`,
+        'TRANSP:TRANSPARENT',
+      ]);
+    }
+
+    if (day.notes) {
+      addEvent(`${uidPrefix}-notes`, [
+        `SUMMARY:${escapeText(`Day ${day.dayNumber} 行程說明`)}`,
+        `DTSTART;VALUE=DATE:${formatDate(date)}`,
+        `DESCRIPTION:${escapeText(day.notes)}`,
+        'TRANSP:TRANSPARENT',
+      ]);
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const renderCalendar = async (itinerary: CalendarItinerary): Promise<string> => {
+  const productIds = Array.from(new Set(
+    (itinerary.timelineData || [])
+      .flatMap((day: any) => (day.items || []).map((item: any) => item.id))
+      .filter(Boolean)
+  ));
+
+  const products = new Map<string, CalendarProductDetails>();
+  if (productIds.length > 0) {
+    const result = await pool.query(
+      `SELECT id, address, latitude, longitude
+       FROM products
+       WHERE id::text = ANY($1)`,
+      [productIds]
+    );
+    for (const row of result.rows) {
+      products.set(row.id, {
+        address: row.address || undefined,
+        latitude: row.latitude !== null ? parseFloat(row.latitude) : undefined,
+        longitude: row.longitude !== null ? parseFloat(row.longitude) : undefined,
+      });
+    }
+  }
+
+  return buildItineraryCalendar(itinerary, products);
+};
+
+/**
+ * Get the calendar for an agency's own itinerary
+ * @throws Error if the itinerary does not exist for this agency
+ */
+export const getItineraryCalendar = async (
+  id: string,
+  agencyUserId: string
+): Promise<{ filename: string; calendar: string }> => {
+  const itinerary = await getItineraryById(id, agencyUserId);
+  if (!itinerary) {
+    throw new Error('Itinerary not found');
+  }
+
+  return { filename: `${itinerary.name}.ics`, calendar: await renderCalendar(itinerary) };
+};
+
+/**
+ * Get the calendar behind a subscription token (no login; the token is the credential)
+ * @throws Error if the token does not match any itinerary
+ */
+export const getCalendarByToken = async (token: string): Promise<string> => {
+  const result = await pool.query(
+    `SELECT id, name, start_date as "startDate", updated_at as "updatedAt",
+            timeline_data as "timelineData", timeline_version as "timelineVersion"
+     FROM itineraries
+     WHERE calendar_token = $1`,
+    [token]
+  );
+
+  if (!result.rows[0]) {
+    throw new Error('Calendar not found');
+  }
+
+  const row = result.rows[0];
+  return renderCalendar({ ...row, timelineData: upgradeTimeline(row.timelineData, row.timelineVersion) });
+};
+
+/**
+ * Create (or replace) an itinerary's calendar subscription token.
+ * Rotating the token invalidates any previously shared subscription URL.
+ * @returns New token, or null if the itinerary does not exist for this agency
+ */
+export const rotateCalendarToken = async (id: string, agencyUserId: string): Promise<string | null> => {
+  const token = crypto.randomBytes(24).toString('hex');
+
+  const result = await pool.query(
+    `UPDATE itineraries SET calendar_token = $1
+     WHERE id = $2 AND agency_user_id = $3
+     RETURNING id`,
+    [token, id, agencyUserId]
+  );
+
+  return result.rows[0] ? token : null;
+};
+
+export const revokeCalendarToken = async (id: string, agencyUserId: string): Promise<boolean> => {
+  const result = await pool.query(
+    `UPDATE itineraries SET calendar_token = NULL
+     WHERE id = $1 AND agency_user_id = $2`,
+    [id, agencyUserId]
+  );
+
+  return result.rowCount !== null && result.rowCount > 0;
+};
+
+/**
+ * @returns The current token (null when not shared), or null if the itinerary does not exist for this agency
+ */
+export const getCalendarToken = async (
+  id: string,
+  agencyUserId: string
+): Promise<{ token: string | null } | null> => {
+  const result = await pool.query(
+    'SELECT calendar_token FROM itineraries WHERE id = $1 AND agency_user_id = $2',
+    [id, agencyUserId]
+  );
+
+  if (!result.rows[0]) return null;
+  return { token: result.rows[0].calendar_token || null };
+};
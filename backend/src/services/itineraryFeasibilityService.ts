@@ -0,0 +1,289 @@
+import pool from '../config/database';
+import { getItineraryById } from './itineraryService';
+import { estimateRoute, formatDuration } from './routeEstimateService';
+import { ProductAvailability, checkAvailability, getAvailabilityByProductIds } from './productAvailabilityService';
+import { TimelineDay, TimelineItem } from '../utils/timelineSchema';
+
+export type FeasibilityIssueType = 'overlap' | 'transfer' | 'day_too_long' | 'missing_hotel' | 'missing_meal' | 'closed';
+
+export interface FeasibilityIssue {
+  dayNumber: number;
+  type: FeasibilityIssueType;
+  /** Errors make the day impossible as planned; warnings are worth a second look */
+  severity: 'error' | 'warning';
+  message: string;
+  /** Timeline items involved, in day order */
+  timelineIds?: string[];
+  /** Missing or closed meal/hotel for missing_meal and closed issues */
+  field?: 'breakfast' | 'lunch' | 'dinner' | 'hotel';
+}
+
+export interface FeasibilityReport {
+  valid: boolean;
+  issues: FeasibilityIssue[];
+}
+
+export interface FeasibilityOptions {
+  /** Longest acceptable span from the first activity's start to the last one's end */
+  maxDayHours?: number;
+  /** YYYY-MM-DD date of day 1; without it closed dates cannot be checked */
+  startDate?: string;
+}
+
+export const DEFAULT_MAX_DAY_HOURS = 12;
+export const MAX_DAY_HOURS_LIMIT = 24;
+
+/** Used when neither the timeline item nor its product has a duration */
+const DEFAULT_ITEM_MINUTES = 60;
+
+const MEALS = [
+  ['breakfast', '早餐'],
+  ['lunch', '午餐'],
+  ['dinner', '晚餐'],
+] as const;
+
+/** Calendar date of a day, as YYYY-MM-DD */
+const dayDate = (startDate: string, dayNumber: number): string => {
+  const date = new Date(`${startDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + dayNumber - 1);
+  return date.toISOString().slice(0, 10);
+};
+
+const parseTime = (time: string | undefined | null): number | null => {
+  const match = time ? /^(\d{1,2}):(\d{2})$/.exec(time) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+const formatMinutes = (minutes: number): string => formatDuration(minutes * 60);
+
+/**
+ * Travel minutes between consecutive items. Stored route legs are used when they
+ * line up with the items; otherwise the leg is estimated from item coordinates.
+ * @returns One entry per gap between items; null where it cannot be determined
+ */
+const getTransferMinutes = (day: TimelineDay): (number | null)[] => {
+  const legs = day.routeInfo?.legs;
+  const legsMatchItems = legs && legs.length === day.items.length - 1;
+
+  return day.items.slice(1).map((item, index) => {
+    if (legsMatchItems) {
+      return Math.round(legs![index].durationValue / 60);
+    }
+
+    const previous = day.items[index];
+    if (previous.location && item.location) {
+      return Math.round(estimateRoute([previous.location, item.location]).legs[0].durationValue / 60);
+    }
+    return null;
+  });
+};
+
+/**
+ * Check a timeline for days that cannot work as planned
+ * @param productDurations - Product durations in minutes, used for items without their own duration
+ * @param availability - Product availability, checked against each day's date when options.startDate is set
+ */
+export const checkTimelineFeasibility = (
+  timeline: TimelineDay[],
+  productDurations: Map<string, number> = new Map(),
+  options: FeasibilityOptions = {},
+  availability: Map<string, ProductAvailability> = new Map()
+): FeasibilityReport => {
+  const maxDayMinutes = (options.maxDayHours ?? DEFAULT_MAX_DAY_HOURS) * 60;
+  const issues: FeasibilityIssue[] = [];
+
+  const itemMinutes = (item: TimelineItem): number =>
+    item.duration ?? productDurations.get(item.id) ?? DEFAULT_ITEM_MINUTES;
+
+  timeline.forEach((day, dayIndex) => {
+    const transfers = getTransferMinutes(day);
+
+    // Unscheduled items before the first start time are placed backwards from it,
+    // so they do not stretch the day back to midnight
+    const firstScheduled = day.items.findIndex(item => parseTime(item.startTime) !== null);
+    const leadingStarts: number[] = [];
+    if (firstScheduled > 0) {
+      let next = parseTime(day.items[firstScheduled].startTime)!;
+      for (let i = firstScheduled - 1; i >= 0; i--) {
+        next -= (transfers[i] ?? 0) + itemMinutes(day.items[i]);
+        leadingStarts[i] = next;
+      }
+    }
+
+    // Walk the day in order; other items without a start time follow the previous one plus travel
+    let dayStart: number | null = null;
+    let previousEnd: number | null = null;
+
+    const date = options.startDate ? dayDate(options.startDate, day.dayNumber) : null;
+
+    day.items.forEach((item, index) => {
+      const scheduled = parseTime(item.startTime);
+      const travel = index > 0 ? transfers[index - 1] : null;
+      const start = scheduled ?? leadingStarts[index] ?? (previousEnd !== null ? previousEnd + (travel ?? 0) : 0);
+
+      const itemAvailability = date && availability.get(item.id);
+      if (itemAvailability) {
+        const window = scheduled !== null ? { start: scheduled, end: scheduled + itemMinutes(item) } : undefined;
+        const closed = checkAvailability(itemAvailability, date, window);
+        if (closed) {
+          issues.push({
+            dayNumber: day.dayNumber,
+            type: 'closed',
+            severity: 'error',
+            message: `「${item.title}」${date}${closed.message}`,
+            timelineIds: [item.timelineId],
+          });
+        }
+      }
+
+      if (previousEnd !== null && scheduled !== null) {
+        const previous = day.items[index - 1];
+        const timelineIds = [previous.timelineId, item.timelineId];
+
+        if (scheduled < previousEnd) {
+          issues.push({
+            dayNumber: day.dayNumber,
+            type: 'overlap',
+            severity: 'error',
+            message: `「${item.title}」在「${previous.title}」結束前就開始（重疊 ${formatMinutes(previousEnd - scheduled)}）`,
+            timelineIds,
+          });
+        } else if (travel !== null && scheduled - previousEnd < travel) {
+          issues.push({
+            dayNumber: day.dayNumber,
+            type: 'transfer',
+            severity: 'error',
+            message: `「${previous.title}」到「${item.title}」約需 ${formatMinutes(travel)}，但只安排了 ${formatMinutes(scheduled - previousEnd)}`,
+            timelineIds,
+          });
+        }
+      }
+
+      dayStart = dayStart === null ? start : Math.min(dayStart, start);
+      previousEnd = Math.max(previousEnd ?? 0, start + itemMinutes(item));
+    });
+
+    if (dayStart !== null && previousEnd !== null && previousEnd - dayStart > maxDayMinutes) {
+      issues.push({
+        dayNumber: day.dayNumber,
+        type: 'day_too_long',
+        severity: 'warning',
+        message: `本日行程（含交通）長達 ${formatMinutes(previousEnd - dayStart)}，超過 ${formatMinutes(maxDayMinutes)}`,
+      });
+    }
+
+    // No hotel is needed after the last day
+    if (dayIndex < timeline.length - 1 && !day.hotelId && !day.hotelCustom) {
+      issues.push({
+        dayNumber: day.dayNumber,
+        type: 'missing_hotel',
+        severity: 'warning',
+        message: '尚未安排住宿',
+      });
+    }
+
+    if (date) {
+      const bookings: [NonNullable<FeasibilityIssue['field']>, string | null, string | null, string][] = [
+        ['hotel', day.hotelId, day.hotelTitle, '住宿'],
+        ...MEALS.map(([meal, label]): [typeof meal, string | null, string | null, string] =>
+          [meal, day[`${meal}Id`], day[`${meal}Title`], label]),
+      ];
+
+      for (const [field, productId, title, label] of bookings) {
+        const bookingAvailability = productId && availability.get(productId);
+        const closed = bookingAvailability && checkAvailability(bookingAvailability, date);
+        if (closed) {
+          issues.push({
+            dayNumber: day.dayNumber,
+            type: 'closed',
+            severity: 'error',
+            message: `${label}「${title || productId}」${date}${closed.message}`,
+            field,
+          });
+        }
+      }
+    }
+
+    for (const [meal, label] of MEALS) {
+      // Breakfast on the first day is usually before departure
+      if (meal === 'breakfast' && dayIndex === 0) continue;
+      if (!day[`${meal}Id`] && !day[`${meal}Custom`]) {
+        issues.push({
+          dayNumber: day.dayNumber,
+          type: 'missing_meal',
+          severity: 'warning',
+          message: `尚未安排${label}`,
+          field: meal,
+        });
+      }
+    }
+  });
+
+  return { valid: !issues.some(issue => issue.severity === 'error'), issues };
+};
+
+/**
+ * Look up product durations (stored in hours) for items that have no duration of their own
+ * @returns Minutes by product ID
+ */
+export const getProductDurations = async (timeline: TimelineDay[]): Promise<Map<string, number>> => {
+  const productIds = Array.from(new Set(
+    timeline.flatMap(day => day.items.filter(item => item.duration === undefined).map(item => item.id))
+  ));
+
+  const durations = new Map<string, number>();
+  if (productIds.length === 0) return durations;
+
+  const result = await pool.query(
+    'SELECT id, duration FROM products WHERE id::text = ANY($1) AND duration IS NOT NULL',
+    [productIds]
+  );
+  for (const row of result.rows) {
+    durations.set(row.id, Math.round(parseFloat(row.duration) * 60));
+  }
+  return durations;
+};
+
+/**
+ * Check a timeline that has not been saved yet
+ */
+export const checkTimeline = async (
+  timeline: TimelineDay[],
+  options: FeasibilityOptions = {}
+): Promise<FeasibilityReport> => {
+  const productIds = Array.from(new Set(timeline.flatMap(day => [
+    ...day.items.map(item => item.id),
+    day.hotelId, day.breakfastId, day.lunchId, day.dinnerId,
+  ].filter((id): id is string => !!id))));
+
+  const [durations, availability] = await Promise.all([
+    getProductDurations(timeline),
+    options.startDate ? getAvailabilityByProductIds(productIds) : Promise.resolve(new Map<string, ProductAvailability>()),
+  ]);
+
+  return checkTimelineFeasibility(timeline, durations, options, availability);
+};
+
+/**
+ * Check a saved itinerary
+ * @returns Report, or null if the itinerary does not exist for this agency
+ */
+export const validateItinerary = async (
+  id: string,
+  agencyUserId: string,
+  options?: FeasibilityOptions
+): Promise<FeasibilityReport | null> => {
+  const itinerary = await getItineraryById(id, agencyUserId);
+  if (!itinerary) {
+    return null;
+  }
+
+  // DATE columns come back as local midnight
+  const startDate = itinerary.startDate ? new Date(itinerary.startDate) : null;
+  return checkTimeline(itinerary.timelineData, {
+    ...options,
+    startDate: startDate
+      ? `${startDate.getFullYear()}-${String(startDate.getMonth() + 1).padStart(2, '0')}-${String(startDate.getDate()).padStart(2, '0')}`
+      : undefined,
+  });
+};
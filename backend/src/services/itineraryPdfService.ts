@@ -0,0 +1,292 @@
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import pool from '../config/database';
+import { getItineraryById } from './itineraryService';
+import { downloadImage } from './storageService';
+import { convertToJpeg } from './imageProcessingService';
+import { stripHtml } from '../utils/html';
+
+export interface PdfProductDetails {
+  title: string;
+  description?: string;
+  coverImageUrl?: string;
+  address?: string;
+}
+
+export interface ItineraryPdfData {
+  name: string;
+  agencyName?: string;
+  destination?: string;
+  startDate?: Date;
+  endDate?: Date;
+  timeline: any[];
+  products: Map<string, PdfProductDetails>;
+  images: Map<string, Buffer>;
+}
+
+// System font locations for a CJK-capable font (alpine font-noto-cjk, debian fonts-noto-cjk)
+const CJK_FONT_CANDIDATES = [
+  '/usr/share/fonts/noto/NotoSansCJK-Regular.ttc',
+  '/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc',
+];
+const CJK_FONT_FAMILY = 'NotoSansCJKtc-Regular';
+
+const BRAND_COLOR = '#1e293b';
+const MUTED_COLOR = '#64748b';
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
+const MEAL_LABELS = [
+  ['breakfast', '早餐'],
+  ['lunch', '午餐'],
+  ['dinner', '晚餐'],
+] as const;
+
+/**
+ * Resolve the font used for body text. PDFKit's built-in fonts cannot render
+ * Chinese, so a locally installed CJK font is preferred; PDF_FONT_PATH overrides it.
+ */
+const resolveFont = (): { src: string; family?: string } | null => {
+  if (process.env.PDF_FONT_PATH && fs.existsSync(process.env.PDF_FONT_PATH)) {
+    return { src: process.env.PDF_FONT_PATH, family: process.env.PDF_FONT_FAMILY };
+  }
+
+  const candidate = CJK_FONT_CANDIDATES.find(path => fs.existsSync(path));
+  return candidate ? { src: candidate, family: CJK_FONT_FAMILY } : null;
+};
+
+export const formatDayDate = (startDate: Date | undefined, dayNumber: number): string | null => {
+  if (!startDate) return null;
+  const date = new Date(startDate);
+  date.setDate(date.getDate() + dayNumber - 1);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}/${month}/${day}（${WEEKDAYS[date.getDay()]}）`;
+};
+
+/**
+ * Summarise a day's cached route, preferring the totals Google returned
+ */
+export const formatRouteSummary = (routeInfo: any): string | null => {
+  if (!routeInfo || !Array.isArray(routeInfo.legs) || routeInfo.legs.length === 0) return null;
+
+  if (routeInfo.totalDistance && routeInfo.totalDuration) {
+    return `${routeInfo.totalDistance}・${routeInfo.totalDuration}`;
+  }
+
+  const meters = routeInfo.legs.reduce((sum: number, leg: any) => sum + (leg.distanceValue || 0), 0);
+  const seconds = routeInfo.legs.reduce((sum: number, leg: any) => sum + (leg.durationValue || 0), 0);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return `${(meters / 1000).toFixed(1)} 公里・${hours > 0 ? `${hours} 小時 ` : ''}${minutes} 分鐘`;
+};
+
+// PDFKit only embeds JPEG and PNG
+const isEmbeddableImage = (buffer: Buffer): boolean =>
+  (buffer[0] === 0xff && buffer[1] === 0xd8) ||
+  (buffer[0] === 0x89 && buffer.toString('ascii', 1, 4) === 'PNG');
+
+/**
+ * Render an itinerary as a client-facing PDF
+ * Everything needed (product details, image bytes) is passed in, so rendering itself does no I/O.
+ * @returns PDF file contents
+ */
+export const renderItineraryPdf = (data: ItineraryPdfData): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50, bufferPages: true, info: { Title: data.name } });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const font = resolveFont();
+    if (font) {
+      doc.registerFont('body', font.src, font.family);
+    } else {
+      console.warn('No CJK font found for PDF export; set PDF_FONT_PATH. Falling back to Helvetica.');
+      doc.registerFont('body', 'Helvetica');
+    }
+    doc.font('body');
+
+    const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const left = doc.page.margins.left;
+
+    const ensureSpace = (height: number) => {
+      if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+      }
+    };
+
+    // Cover header
+    doc.rect(0, 0, doc.page.width, 110).fill(BRAND_COLOR);
+    doc.fillColor('#ffffff').fontSize(22).text(data.name, left, 36, { width: contentWidth });
+    const subtitle = [
+      data.destination,
+      data.startDate && data.endDate
+        ? `${formatDayDate(data.startDate, 1)} – ${formatDayDate(data.endDate, 1)}`
+        : null,
+      `${data.timeline.length} 天`,
+    ].filter(Boolean).join('｜');
+    doc.fontSize(11).fillColor('#cbd5e1').text(subtitle, left, doc.y + 4, { width: contentWidth });
+    if (data.agencyName) {
+      doc.fontSize(10).text(data.agencyName, left, 36, { width: contentWidth, align: 'right' });
+    }
+    doc.fillColor('#000000');
+    doc.y = 140;
+
+    for (const day of data.timeline) {
+      ensureSpace(80);
+
+      const dayDate = formatDayDate(data.startDate, day.dayNumber);
+      doc.fontSize(16).fillColor(BRAND_COLOR)
+        .text(`Day ${day.dayNumber}${dayDate ? `　${dayDate}` : ''}`, left, doc.y, { width: contentWidth });
+
+      const route = formatRouteSummary(day.routeInfo);
+      if (route) {
+        doc.fontSize(9).fillColor(MUTED_COLOR).text(`車程：${route}`, { width: contentWidth });
+      }
+      doc.moveTo(left, doc.y + 4).lineTo(left + contentWidth, doc.y + 4).strokeColor('#e2e8f0').stroke();
+      doc.moveDown(0.8);
+
+      for (const item of day.items || []) {
+        const details = data.products.get(item.id);
+        const title = details?.title || item.title || '未命名景點';
+        const description = details?.description || item.description;
+        const image = data.images.get(item.id);
+
+        ensureSpace(96);
+        const top = doc.y;
+        let textLeft = left;
+
+        if (image) {
+          try {
+            doc.image(image, left, top, { fit: [120, 80] });
+            textLeft = left + 132;
+          } catch (error) {
+            console.error('Error embedding image in PDF:', error);
+          }
+        }
+
+        const textWidth = contentWidth - (textLeft - left);
+        const time = item.startTime ? `${item.startTime}　` : '';
+        doc.fontSize(12).fillColor('#0f172a').text(`${time}${title}`, textLeft, top, { width: textWidth });
+        if (details?.address) {
+          doc.fontSize(9).fillColor(MUTED_COLOR).text(details.address, textLeft, doc.y, { width: textWidth });
+        }
+        if (description) {
+          doc.fontSize(9).fillColor('#334155')
+            .text(stripHtml(description), textLeft, doc.y + 2, { width: textWidth, height: 60, ellipsis: true });
+        }
+
+        const imageBottom = textLeft !== left ? top + 84 : 0;
+        doc.y = Math.max(doc.y, imageBottom) + 8;
+      }
+
+      if (!day.items || day.items.length === 0) {
+        doc.fontSize(10).fillColor(MUTED_COLOR).text('自由活動', left, doc.y, { width: contentWidth });
+        doc.moveDown(0.5);
+      }
+
+      ensureSpace(60);
+      const meals = MEAL_LABELS
+        .map(([slot, label]) => `${label}：${day[`${slot}Custom`] || day[`${slot}Title`] || '自理'}`)
+        .join('　');
+      doc.fontSize(10).fillColor('#0f172a').text(meals, left, doc.y, { width: contentWidth });
+      doc.text(`住宿：${day.hotelCustom || day.hotelTitle || '自理'}`, { width: contentWidth });
+
+      if (day.notes) {
+        doc.moveDown(0.3);
+        doc.fontSize(9).fillColor('#334155').text(day.notes, { width: contentWidth });
+      }
+
+      doc.moveDown(1.5);
+    }
+
+    // Page footers
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const bottom = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc.fontSize(8).fillColor(MUTED_COLOR).text(
+        `${data.name}　${i + 1} / ${range.count}`,
+        left,
+        doc.page.height - 30,
+        { width: contentWidth, align: 'center' }
+      );
+      doc.page.margins.bottom = bottom;
+    }
+
+    doc.end();
+  });
+};
+
+/**
+ * Build the PDF for a saved itinerary
+ * Product details are read fresh from the database; cover images are read from our own
+ * storage bucket (never from arbitrary URLs), and a missing image is simply left out.
+ * @throws Error if the itinerary does not exist for this agency
+ */
+export const getItineraryPdf = async (
+  id: string,
+  agencyUserId: string
+): Promise<{ filename: string; pdf: Buffer }> => {
+  const itinerary = await getItineraryById(id, agencyUserId);
+  if (!itinerary) {
+    throw new Error('Itinerary not found');
+  }
+
+  const timeline = itinerary.timelineData || [];
+  const productIds = Array.from(new Set(
+    timeline.flatMap((day: any) => (day.items || []).map((item: any) => item.id)).filter(Boolean)
+  ));
+
+  const products = new Map<string, PdfProductDetails>();
+  if (productIds.length > 0) {
+    const result = await pool.query(
+      `SELECT id, title, description, cover_image_url, cover_image_variants, address
+       FROM products
+       WHERE id::text = ANY($1)`,
+      [productIds]
+    );
+    for (const row of result.rows) {
+      products.set(row.id, {
+        title: row.title,
+        description: row.description || undefined,
+        // The card variant is plenty for print and much smaller than the hero image
+        coverImageUrl: row.cover_image_variants?.card || row.cover_image_url || undefined,
+        address: row.address || undefined,
+      });
+    }
+  }
+
+  const images = new Map<string, Buffer>();
+  for (const [productId, details] of products) {
+    if (!details.coverImageUrl) continue;
+    const image = await downloadImage(details.coverImageUrl);
+    if (!image) continue;
+    if (isEmbeddableImage(image)) {
+      images.set(productId, image);
+      continue;
+    }
+    // Processed uploads are WebP, which PDFKit cannot embed
+    try {
+      images.set(productId, await convertToJpeg(image));
+    } catch {
+      // Not an image we can read; leave it out like a missing one
+    }
+  }
+
+  const agency = await pool.query('SELECT name FROM users WHERE id = $1', [agencyUserId]);
+
+  const pdf = await renderItineraryPdf({
+    name: itinerary.name,
+    agencyName: agency.rows[0]?.name,
+    destination: itinerary.destination,
+    startDate: itinerary.startDate,
+    endDate: itinerary.endDate,
+    timeline,
+    products,
+    images,
+  });
+
+  return { filename: `${itinerary.name}.pdf`, pdf };
+};
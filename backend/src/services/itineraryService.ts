@@ -1,4 +1,7 @@
 import pool from '../config/database';
+import { TIMELINE_SCHEMA_VERSION, upgradeTimeline } from '../utils/timelineSchema';
+import { recordItineraryVersion } from './itineraryVersionService';
+import { paginate, Page, PageRequest } from '../utils/pagination';
 
 interface CreateItineraryData {
   name: string;
@@ -11,7 +14,17 @@ interface CreateItineraryData {
   restrictedSupplierName?: string;
 }
 
-interface Itinerary {
+/** Workflow stages, in order; see itineraryStatusService for the allowed transitions */
+export const ITINERARY_STATUSES = ['draft', 'quoted', 'confirmed', 'travelling', 'completed'] as const;
+
+export type ItineraryStatus = typeof ITINERARY_STATUSES[number];
+
+/** Stages whose timeline and dates can no longer be edited */
+export const LOCKED_ITINERARY_STATUSES: readonly ItineraryStatus[] = ['confirmed', 'travelling', 'completed'];
+
+export const isItineraryLocked = (status: ItineraryStatus): boolean => LOCKED_ITINERARY_STATUSES.includes(status);
+
+export interface Itinerary {
   id: string;
   name: string;
   agencyUserId: string;
@@ -21,7 +34,10 @@ interface Itinerary {
   startDate?: Date;
   endDate?: Date;
   restrictedSupplierName?: string;
-  status: string;
+  status: ItineraryStatus;
+  /** When the itinerary last moved to its current status; null for drafts never moved */
+  statusChangedAt: Date | null;
+  version: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -30,13 +46,15 @@ const mapRowToItinerary = (row: any): Itinerary => ({
   id: row.id,
   name: row.name,
   agencyUserId: row.agencyUserId,
-  timelineData: row.timelineData,
+  timelineData: upgradeTimeline(row.timelineData, row.timelineVersion),
   destination: row.destination,
   daysCount: row.daysCount,
   startDate: row.startDate,
   endDate: row.endDate,
   restrictedSupplierName: row.restrictedSupplierName,
   status: row.status,
+  statusChangedAt: row.statusChangedAt,
+  version: row.version,
   createdAt: row.createdAt,
   updatedAt: row.updatedAt,
 });
@@ -45,38 +63,76 @@ export const createItinerary = async (data: CreateItineraryData): Promise<Itiner
   const { name, agencyUserId, timeline, destination, daysCount, startDate, endDate, restrictedSupplierName } = data;
 
   const result = await pool.query(
-    `INSERT INTO itineraries (name, agency_user_id, timeline_data, destination, days_count, start_date, end_date, restricted_supplier_name)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `INSERT INTO itineraries (name, agency_user_id, timeline_data, timeline_version, destination, days_count, start_date, end_date, restricted_supplier_name)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
      RETURNING id, name, agency_user_id as "agencyUserId", 
-               timeline_data as "timelineData", destination, days_count as "daysCount",
-               start_date as "startDate", end_date as "endDate", restricted_supplier_name as "restrictedSupplierName", status,
+               timeline_data as "timelineData", timeline_version as "timelineVersion", destination, days_count as "daysCount",
+               start_date as "startDate", end_date as "endDate", restricted_supplier_name as "restrictedSupplierName", status, status_changed_at as "statusChangedAt", version,
                created_at as "createdAt", updated_at as "updatedAt"`,
-    [name, agencyUserId, JSON.stringify(timeline), destination, daysCount, startDate, endDate, restrictedSupplierName]
+    [name, agencyUserId, JSON.stringify(timeline), TIMELINE_SCHEMA_VERSION, destination, daysCount, startDate, endDate, restrictedSupplierName]
   );
 
+  await recordItineraryVersion(pool, result.rows[0].id, timeline, 'save', agencyUserId);
+
   return mapRowToItinerary(result.rows[0]);
 };
 
-export const getItinerariesByAgency = async (agencyUserId: string): Promise<Itinerary[]> => {
-  const result = await pool.query(
-    `SELECT id, name, agency_user_id as "agencyUserId", 
-            timeline_data as "timelineData", destination, days_count as "daysCount",
-            start_date as "startDate", end_date as "endDate", restricted_supplier_name as "restrictedSupplierName", status,
+// Sort keys of the agency itinerary list, on the camelCase aliases of the list query
+export const ITINERARY_SORT_COLUMNS = {
+  createdAt: '"createdAt"',
+  updatedAt: '"updatedAt"',
+  name: 'name',
+};
+
+export const getItinerariesByAgency = async (
+  agencyUserId: string,
+  filters: { status?: ItineraryStatus },
+  page: PageRequest
+): Promise<Page<Itinerary>> => {
+  const conditions = ['agency_user_id = $1'];
+  const values: any[] = [agencyUserId];
+
+  if (filters.status) {
+    values.push(filters.status);
+    conditions.push(`status = $${values.length}`);
+  }
+
+  return paginate(pool, {
+    query: `SELECT id, name, agency_user_id as "agencyUserId", 
+            timeline_data as "timelineData", timeline_version as "timelineVersion", destination, days_count as "daysCount",
+            start_date as "startDate", end_date as "endDate", restricted_supplier_name as "restrictedSupplierName", status, status_changed_at as "statusChangedAt", version,
             created_at as "createdAt", updated_at as "updatedAt"
      FROM itineraries
+     WHERE ${conditions.join(' AND ')}`,
+    values,
+    sortColumns: ITINERARY_SORT_COLUMNS,
+    page,
+    mapRow: mapRowToItinerary,
+  });
+};
+
+// Number of the agency's itineraries in each stage, for the stage filter
+export const getItineraryStatusCounts = async (agencyUserId: string): Promise<Record<ItineraryStatus, number>> => {
+  const result = await pool.query(
+    `SELECT status, COUNT(*) AS count
+     FROM itineraries
      WHERE agency_user_id = $1
-     ORDER BY created_at DESC`,
+     GROUP BY status`,
     [agencyUserId]
   );
 
-  return result.rows.map(mapRowToItinerary);
+  const counts = Object.fromEntries(ITINERARY_STATUSES.map(status => [status, 0])) as Record<ItineraryStatus, number>;
+  for (const row of result.rows) {
+    counts[row.status as ItineraryStatus] = parseInt(row.count, 10);
+  }
+  return counts;
 };
 
 export const getItineraryById = async (id: string, agencyUserId: string): Promise<Itinerary | null> => {
   const result = await pool.query(
     `SELECT id, name, agency_user_id as "agencyUserId", 
-            timeline_data as "timelineData", destination, days_count as "daysCount",
-            start_date as "startDate", end_date as "endDate", restricted_supplier_name as "restrictedSupplierName", status,
+            timeline_data as "timelineData", timeline_version as "timelineVersion", destination, days_count as "daysCount",
+            start_date as "startDate", end_date as "endDate", restricted_supplier_name as "restrictedSupplierName", status, status_changed_at as "statusChangedAt", version,
             created_at as "createdAt", updated_at as "updatedAt"
      FROM itineraries
      WHERE id = $1 AND agency_user_id = $2`,
@@ -98,8 +154,8 @@ export const updateItinerary = async (
     startDate?: string;
     endDate?: string;
     restrictedSupplierName?: string;
-    status?: string;
-  }
+  },
+  expectedVersion?: number
 ): Promise<Itinerary | null> => {
   const updates: string[] = [];
   const values: any[] = [];
@@ -113,6 +169,8 @@ export const updateItinerary = async (
   if (data.timeline !== undefined) {
     updates.push(`timeline_data = $${paramCount++}`);
     values.push(JSON.stringify(data.timeline));
+    updates.push(`timeline_version = $${paramCount++}`);
+    values.push(TIMELINE_SCHEMA_VERSION);
   }
 
   if (data.destination !== undefined) {
@@ -140,24 +198,32 @@ export const updateItinerary = async (
     values.push(data.restrictedSupplierName);
   }
 
-  if (data.status !== undefined) {
-    updates.push(`status = $${paramCount++}`);
-    values.push(data.status);
-  }
-
   if (updates.length === 0) {
     return getItineraryById(id, agencyUserId);
   }
 
-  updates.push(`updated_at = CURRENT_TIMESTAMP`);
-  
+  updates.push(`updated_at = CURRENT_TIMESTAMP`, `version = version + 1`);
+
+  let versionCondition = '';
+  if (expectedVersion !== undefined) {
+    versionCondition = ` AND version = $${paramCount++}`;
+    values.push(expectedVersion);
+  }
+
+  // Confirmed itineraries keep the timeline and dates they were confirmed with
+  const changesPlan = [data.timeline, data.daysCount, data.startDate, data.endDate].some(value => value !== undefined);
+  if (changesPlan) {
+    versionCondition += ` AND status <> ALL($${paramCount++})`;
+    values.push(LOCKED_ITINERARY_STATUSES);
+  }
+
   const query = `
     UPDATE itineraries
     SET ${updates.join(', ')}
-    WHERE id = $${paramCount++} AND agency_user_id = $${paramCount++}
+    WHERE id = $${paramCount++} AND agency_user_id = $${paramCount++}${versionCondition}
     RETURNING id, name, agency_user_id as "agencyUserId", 
-              timeline_data as "timelineData", destination, days_count as "daysCount",
-              start_date as "startDate", end_date as "endDate", restricted_supplier_name as "restrictedSupplierName", status,
+              timeline_data as "timelineData", timeline_version as "timelineVersion", destination, days_count as "daysCount",
+              start_date as "startDate", end_date as "endDate", restricted_supplier_name as "restrictedSupplierName", status, status_changed_at as "statusChangedAt", version,
               created_at as "createdAt", updated_at as "updatedAt"
   `;
   
@@ -165,7 +231,21 @@ export const updateItinerary = async (
 
   const result = await pool.query(query, values);
 
-  if (!result.rows[0]) return null;
+  if (!result.rows[0]) {
+    const current = await getItineraryById(id, agencyUserId);
+    if (current && changesPlan && isItineraryLocked(current.status)) {
+      throw new Error('Itinerary is locked');
+    }
+    if (current && expectedVersion !== undefined) {
+      throw new Error('Version conflict');
+    }
+    return null;
+  }
+
+  if (data.timeline !== undefined) {
+    await recordItineraryVersion(pool, id, data.timeline, 'save', agencyUserId);
+  }
+
   return mapRowToItinerary(result.rows[0]);
 };
 
@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+import pool from '../config/database';
+import { upgradeTimeline } from '../utils/timelineSchema';
+import { stripHtml } from '../utils/html';
+
+export interface ShareLink {
+  id: string;
+  itineraryId: string;
+  token: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+export interface PublicItineraryItem {
+  id: string;
+  title: string;
+  category?: string;
+  /** Plain text: the public page must never render HTML the agency or supplier wrote */
+  description?: string;
+  coverImageUrl?: string;
+  address?: string;
+  location?: { lat: number; lng: number };
+  startTime?: string;
+  duration?: number;
+}
+
+export interface PublicItineraryDay {
+  dayNumber: number;
+  date?: string;
+  dayOfWeek?: string;
+  items: PublicItineraryItem[];
+  breakfast: string | null;
+  lunch: string | null;
+  dinner: string | null;
+  hotel: string | null;
+  notes: string | null;
+  routeInfo?: any;
+}
+
+export interface PublicItinerary {
+  name: string;
+  agencyName?: string;
+  destination?: string;
+  startDate?: Date;
+  endDate?: Date;
+  daysCount: number;
+  days: PublicItineraryDay[];
+  expiresAt: Date;
+}
+
+export interface PublicProductDetails {
+  title: string;
+  category?: string;
+  description?: string;
+  coverImageUrl?: string;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export const DEFAULT_SHARE_DAYS = 30;
+export const MAX_SHARE_DAYS = 365;
+
+const mapRowToShareLink = (row: any): ShareLink => ({
+  id: row.id,
+  itineraryId: row.itinerary_id,
+  token: row.token,
+  expiresAt: row.expires_at,
+  revokedAt: row.revoked_at || undefined,
+  createdAt: row.created_at,
+});
+
+const ownsItinerary = async (itineraryId: string, agencyUserId: string): Promise<boolean> => {
+  const result = await pool.query(
+    'SELECT 1 FROM itineraries WHERE id = $1 AND agency_user_id = $2',
+    [itineraryId, agencyUserId]
+  );
+  return result.rows.length > 0;
+};
+
+/**
+ * Mint a new share link for an itinerary
+ * @param expiresInDays - Lifetime of the link in days
+ * @returns Created link, or null if the itinerary does not exist for this agency
+ */
+export const createShareLink = async (
+  itineraryId: string,
+  agencyUserId: string,
+  expiresInDays: number = DEFAULT_SHARE_DAYS
+): Promise<ShareLink | null> => {
+  if (!(await ownsItinerary(itineraryId, agencyUserId))) {
+    return null;
+  }
+
+  const token = crypto.randomBytes(24).toString('hex');
+  const result = await pool.query(
+    `INSERT INTO itinerary_share_links (itinerary_id, token, expires_at, created_by)
+     VALUES ($1, $2, CURRENT_TIMESTAMP + $3 * INTERVAL '1 day', $4)
+     RETURNING *`,
+    [itineraryId, token, expiresInDays, agencyUserId]
+  );
+
+  return mapRowToShareLink(result.rows[0]);
+};
+
+/**
+ * @returns Links newest first, or null if the itinerary does not exist for this agency
+ */
+export const getShareLinks = async (itineraryId: string, agencyUserId: string): Promise<ShareLink[] | null> => {
+  if (!(await ownsItinerary(itineraryId, agencyUserId))) {
+    return null;
+  }
+
+  const result = await pool.query(
+    `SELECT * FROM itinerary_share_links
+     WHERE itinerary_id = $1
+     ORDER BY created_at DESC`,
+    [itineraryId]
+  );
+
+  return result.rows.map(mapRowToShareLink);
+};
+
+export const revokeShareLink = async (
+  itineraryId: string,
+  linkId: string,
+  agencyUserId: string
+): Promise<boolean> => {
+  const result = await pool.query(
+    `UPDATE itinerary_share_links l
+     SET revoked_at = CURRENT_TIMESTAMP
+     FROM itineraries i
+     WHERE l.id = $1 AND l.itinerary_id = $2 AND l.revoked_at IS NULL
+       AND i.id = l.itinerary_id AND i.agency_user_id = $3`,
+    [linkId, itineraryId, agencyUserId]
+  );
+
+  return result.rowCount !== null && result.rowCount > 0;
+};
+
+/**
+ * Reduce an itinerary to what a traveller may see.
+ * Fields are copied by whitelist so net prices, ticket prices, supplier names and
+ * internal IDs never leak, even if new fields are later added to timeline_data.
+ */
+export const toPublicItinerary = (
+  itinerary: any,
+  products: Map<string, PublicProductDetails>,
+  agencyName: string | undefined,
+  expiresAt: Date
+): PublicItinerary => {
+  const timeline: any[] = itinerary.timelineData || [];
+
+  const days = timeline.map((day: any): PublicItineraryDay => ({
+    dayNumber: day.dayNumber,
+    date: day.date,
+    dayOfWeek: day.dayOfWeek,
+    items: (day.items || []).map((item: any, index: number): PublicItineraryItem => {
+      const details = products.get(item.id);
+      const lat = details?.latitude ?? item.location?.lat;
+      const lng = details?.longitude ?? item.location?.lng;
+      const description = details?.description || item.description;
+
+      return {
+        id: `${day.dayNumber}-${index}`,
+        title: details?.title || item.title,
+        category: details?.category || item.category,
+        description: typeof description === 'string' ? stripHtml(description) || undefined : undefined,
+        coverImageUrl: details?.coverImageUrl || item.coverImageUrl,
+        address: details?.address || item.address,
+        location: lat !== undefined && lng !== undefined && lat !== null && lng !== null
+          ? { lat: Number(lat), lng: Number(lng) }
+          : undefined,
+        startTime: item.startTime,
+        duration: item.duration,
+      };
+    }),
+    breakfast: day.breakfastCustom || day.breakfastTitle || null,
+    lunch: day.lunchCustom || day.lunchTitle || null,
+    dinner: day.dinnerCustom || day.dinnerTitle || null,
+    hotel: day.hotelCustom || day.hotelTitle || null,
+    notes: day.notes || null,
+    routeInfo: day.routeInfo,
+  }));
+
+  return {
+    name: itinerary.name,
+    agencyName,
+    destination: itinerary.destination || undefined,
+    startDate: itinerary.startDate || undefined,
+    endDate: itinerary.endDate || undefined,
+    daysCount: days.length,
+    days,
+    expiresAt,
+  };
+};
+
+/**
+ * Resolve a share token to the traveller-facing itinerary
+ * @throws Error 'Share link not found' for unknown or revoked tokens, 'Share link expired' once expired
+ */
+export const getSharedItinerary = async (token: string): Promise<PublicItinerary> => {
+  const result = await pool.query(
+    `SELECT l.expires_at, l.revoked_at, (l.expires_at <= CURRENT_TIMESTAMP) as expired,
+            i.name, i.destination, i.start_date as "startDate", i.end_date as "endDate",
+            i.timeline_data as "timelineData", i.timeline_version as "timelineVersion", u.name as agency_name
+     FROM itinerary_share_links l
+     JOIN itineraries i ON i.id = l.itinerary_id
+     LEFT JOIN users u ON u.id = i.agency_user_id
+     WHERE l.token = $1`,
+    [token]
+  );
+
+  const row = result.rows[0];
+  if (!row || row.revoked_at) {
+    throw new Error('Share link not found');
+  }
+  if (row.expired) {
+    throw new Error('Share link expired');
+  }
+  row.timelineData = upgradeTimeline(row.timelineData, row.timelineVersion);
+
+  const productIds = Array.from(new Set(
+    (row.timelineData || [])
+      .flatMap((day: any) => (day.items || []).map((item: any) => item.id))
+      .filter(Boolean)
+  ));
+
+  const products = new Map<string, PublicProductDetails>();
+  if (productIds.length > 0) {
+    const productResult = await pool.query(
+      `SELECT id, title, category, description, cover_image_url, address, latitude, longitude
+       FROM products
+       WHERE id::text = ANY($1)`,
+      [productIds]
+    );
+    for (const product of productResult.rows) {
+      products.set(product.id, {
+        title: product.title,
+        category: product.category,
+        description: product.description || undefined,
+        coverImageUrl: product.cover_image_url || undefined,
+        address: product.address || undefined,
+        latitude: product.latitude !== null ? parseFloat(product.latitude) : undefined,
+        longitude: product.longitude !== null ? parseFloat(product.longitude) : undefined,
+      });
+    }
+  }
+
+  return toPublicItinerary(row, products, row.agency_name || undefined, row.expires_at);
+};
@@ -0,0 +1,182 @@
+import pool from '../config/database';
+import { getItineraryById, Itinerary, ItineraryStatus } from './itineraryService';
+import { FeasibilityIssue, validateItinerary } from './itineraryFeasibilityService';
+
+/**
+ * Allowed moves through the workflow draft → quoted → confirmed → travelling → completed.
+ * A quote can go back to draft and a confirmation can be reopened as a quote (unlocking the timeline);
+ * once travelling there is no way back.
+ */
+export const ITINERARY_STATUS_TRANSITIONS: Record<ItineraryStatus, readonly ItineraryStatus[]> = {
+  draft: ['quoted'],
+  quoted: ['draft', 'confirmed'],
+  confirmed: ['quoted', 'travelling'],
+  travelling: ['completed'],
+  completed: [],
+};
+
+// Stage names as the agency UI shows them
+const STATUS_LABELS: Record<ItineraryStatus, string> = {
+  draft: '草稿',
+  quoted: '已報價',
+  confirmed: '已確認',
+  travelling: '旅行中',
+  completed: '已完成',
+};
+
+export interface StatusChangeCheck {
+  allowed: boolean;
+  /** Why the change is refused, ready to show to the agent */
+  errors: string[];
+  /** Feasibility errors that block confirmation */
+  issues: FeasibilityIssue[];
+}
+
+export interface StatusChangeResult extends StatusChangeCheck {
+  /** Updated itinerary, null when the change was refused */
+  itinerary: Itinerary | null;
+}
+
+export interface ItineraryStatusChange {
+  id: string;
+  fromStatus: ItineraryStatus;
+  toStatus: ItineraryStatus;
+  changedBy: string | null;
+  changedByName: string | null;
+  changedAt: Date;
+}
+
+// DATE columns come back as local midnight
+const startOfToday = (): Date => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+/**
+ * Check whether an itinerary may move to a status:
+ * quoting needs at least one product, confirming needs dates and a timeline without feasibility errors,
+ * and travelling cannot start before the departure date
+ */
+export const checkStatusChange = async (
+  itinerary: Itinerary,
+  agencyUserId: string,
+  to: ItineraryStatus
+): Promise<StatusChangeCheck> => {
+  const refuse = (...errors: string[]): StatusChangeCheck => ({ allowed: false, errors, issues: [] });
+
+  if (!ITINERARY_STATUS_TRANSITIONS[itinerary.status].includes(to)) {
+    return refuse(`無法從「${STATUS_LABELS[itinerary.status]}」變更為「${STATUS_LABELS[to]}」`);
+  }
+
+  if (to === 'quoted' && !itinerary.timelineData.some(day => day.items.length > 0)) {
+    return refuse('行程中尚無任何產品，無法報價');
+  }
+
+  if (to === 'confirmed') {
+    if (!itinerary.startDate || !itinerary.endDate) {
+      return refuse('確認行程前請先設定出發與回程日期');
+    }
+
+    const report = await validateItinerary(itinerary.id, agencyUserId);
+    const issues = (report?.issues ?? []).filter(issue => issue.severity === 'error');
+    if (issues.length > 0) {
+      return { allowed: false, errors: ['行程仍有需要修正的問題，無法確認'], issues };
+    }
+  }
+
+  if (to === 'travelling' && (!itinerary.startDate || new Date(itinerary.startDate) > startOfToday())) {
+    return refuse('尚未到出發日期，無法開始旅程');
+  }
+
+  return { allowed: true, errors: [], issues: [] };
+};
+
+/**
+ * Move an itinerary to another status and record the change
+ * @param expectedVersion - Version the agent last saw (from If-Match), if any
+ * @returns Result with the updated itinerary or the reasons for refusing, or null if the itinerary does not exist for this agency
+ * @throws Error('Version conflict') if the itinerary changed since expectedVersion
+ */
+export const changeItineraryStatus = async (
+  id: string,
+  agencyUserId: string,
+  to: ItineraryStatus,
+  expectedVersion?: number
+): Promise<StatusChangeResult | null> => {
+  const itinerary = await getItineraryById(id, agencyUserId);
+  if (!itinerary) {
+    return null;
+  }
+  if (expectedVersion !== undefined && itinerary.version !== expectedVersion) {
+    throw new Error('Version conflict');
+  }
+
+  const check = await checkStatusChange(itinerary, agencyUserId, to);
+  if (!check.allowed) {
+    return { ...check, itinerary: null };
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // The version guard also catches edits made while the checks ran
+    const result = await client.query(
+      `UPDATE itineraries
+       SET status = $1, status_changed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP, version = version + 1
+       WHERE id = $2 AND agency_user_id = $3 AND version = $4
+       RETURNING id`,
+      [to, id, agencyUserId, itinerary.version]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Version conflict');
+    }
+
+    await client.query(
+      `INSERT INTO itinerary_status_changes (itinerary_id, from_status, to_status, changed_by)
+       VALUES ($1, $2, $3, $4)`,
+      [id, itinerary.status, to, agencyUserId]
+    );
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  return { ...check, itinerary: await getItineraryById(id, agencyUserId) };
+};
+
+/**
+ * List an itinerary's status changes, oldest first
+ * @returns Changes, or null if the itinerary does not exist for this agency
+ */
+export const getStatusHistory = async (id: string, agencyUserId: string): Promise<ItineraryStatusChange[] | null> => {
+  const result = await pool.query(
+    `SELECT c.id, c.from_status, c.to_status, c.changed_by, u.name as changed_by_name, c.changed_at
+     FROM itineraries i
+     LEFT JOIN itinerary_status_changes c ON c.itinerary_id = i.id
+     LEFT JOIN users u ON c.changed_by = u.id
+     WHERE i.id = $1 AND i.agency_user_id = $2
+     ORDER BY c.changed_at ASC`,
+    [id, agencyUserId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return result.rows
+    .filter(row => row.id !== null)
+    .map(row => ({
+      id: row.id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      changedBy: row.changed_by,
+      changedByName: row.changed_by_name,
+      changedAt: row.changed_at,
+    }));
+};
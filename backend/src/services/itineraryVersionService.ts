@@ -0,0 +1,308 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { TIMELINE_SCHEMA_VERSION, TimelineDay, upgradeTimeline } from '../utils/timelineSchema';
+import { isItineraryLocked, LOCKED_ITINERARY_STATUSES } from './itineraryService';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+export type ItineraryVersionSource = 'autosave' | 'save' | 'restore';
+
+export interface ItineraryVersionSummary {
+  id: string;
+  itineraryId: string;
+  source: ItineraryVersionSource;
+  dayCount: number;
+  itemCount: number;
+  createdAt: Date;
+}
+
+export interface ItineraryVersion extends ItineraryVersionSummary {
+  timelineData: TimelineDay[];
+}
+
+/** Planner working copy of a plan that has not been saved as an itinerary yet */
+export interface ItineraryDraft {
+  timelineData: TimelineDay[];
+  destination: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  restrictedSupplierName: string | null;
+  updatedAt: Date;
+}
+
+export interface SaveItineraryDraftRequest {
+  timeline: TimelineDay[];
+  destination?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  restrictedSupplierName?: string | null;
+}
+
+/** Autosaved versions kept per itinerary; older ones are pruned on every write, saves and restores never are */
+export const MAX_ITINERARY_VERSIONS = 30;
+
+const SUMMARY_COLUMNS = `id, itinerary_id, source, created_at,
+  jsonb_array_length(timeline_data) as day_count,
+  (SELECT COALESCE(SUM(jsonb_array_length(d->'items')), 0) FROM jsonb_array_elements(timeline_data) d) as item_count`;
+
+const mapRowToSummary = (row: any): ItineraryVersionSummary => ({
+  id: row.id,
+  itineraryId: row.itinerary_id,
+  source: row.source,
+  dayCount: Number(row.day_count),
+  itemCount: Number(row.item_count),
+  createdAt: row.created_at,
+});
+
+const ownsItinerary = async (itineraryId: string, agencyUserId: string): Promise<boolean> => {
+  const result = await pool.query(
+    'SELECT 1 FROM itineraries WHERE id = $1 AND agency_user_id = $2',
+    [itineraryId, agencyUserId]
+  );
+  return result.rows.length > 0;
+};
+
+/**
+ * Append a version of an itinerary's timeline and prune the oldest autosaves beyond MAX_ITINERARY_VERSIONS
+ * @param db - Pool or transaction client to write with
+ * @param timeline - Timeline in the current schema
+ * @returns Created version
+ */
+export const recordItineraryVersion = async (
+  db: Queryable,
+  itineraryId: string,
+  timeline: TimelineDay[],
+  source: ItineraryVersionSource,
+  createdBy?: string
+): Promise<ItineraryVersionSummary> => {
+  const result = await db.query(
+    `INSERT INTO itinerary_versions (itinerary_id, source, timeline_data, timeline_version, created_by)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${SUMMARY_COLUMNS}`,
+    [itineraryId, source, JSON.stringify(timeline), TIMELINE_SCHEMA_VERSION, createdBy || null]
+  );
+
+  await db.query(
+    `DELETE FROM itinerary_versions
+     WHERE itinerary_id = $1
+       AND source = 'autosave'
+       AND id NOT IN (
+         SELECT id FROM itinerary_versions
+         WHERE itinerary_id = $1 AND source = 'autosave'
+         ORDER BY created_at DESC
+         LIMIT $2
+       )`,
+    [itineraryId, MAX_ITINERARY_VERSIONS]
+  );
+
+  return mapRowToSummary(result.rows[0]);
+};
+
+/**
+ * Store an autosaved draft. The itinerary itself is left untouched.
+ * A draft identical to the latest version is not stored again.
+ * @param timeline - Validated timeline from the planner
+ * @returns Created (or unchanged latest) version, or null if the itinerary does not exist for this agency
+ */
+export const autosaveItinerary = async (
+  itineraryId: string,
+  agencyUserId: string,
+  timeline: TimelineDay[]
+): Promise<ItineraryVersionSummary | null> => {
+  if (!(await ownsItinerary(itineraryId, agencyUserId))) {
+    return null;
+  }
+
+  const latest = await pool.query(
+    `SELECT ${SUMMARY_COLUMNS}, (timeline_data = $2::jsonb) as unchanged
+     FROM itinerary_versions
+     WHERE itinerary_id = $1
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [itineraryId, JSON.stringify(timeline)]
+  );
+
+  if (latest.rows[0]?.unchanged) {
+    return mapRowToSummary(latest.rows[0]);
+  }
+
+  return recordItineraryVersion(pool, itineraryId, timeline, 'autosave', agencyUserId);
+};
+
+/**
+ * Autosave the agency's unsaved plan, replacing the previous one
+ * @param draft - Validated timeline plus the planner's trip settings
+ * @returns When the draft was stored
+ */
+export const saveItineraryDraft = async (agencyUserId: string, draft: SaveItineraryDraftRequest): Promise<Date> => {
+  const result = await pool.query(
+    `INSERT INTO itinerary_drafts (
+       agency_user_id, timeline_data, timeline_version, destination, start_date, end_date, restricted_supplier_name
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (agency_user_id) DO UPDATE
+     SET timeline_data = EXCLUDED.timeline_data,
+         timeline_version = EXCLUDED.timeline_version,
+         destination = EXCLUDED.destination,
+         start_date = EXCLUDED.start_date,
+         end_date = EXCLUDED.end_date,
+         restricted_supplier_name = EXCLUDED.restricted_supplier_name,
+         updated_at = CURRENT_TIMESTAMP
+     RETURNING updated_at`,
+    [
+      agencyUserId,
+      JSON.stringify(draft.timeline),
+      TIMELINE_SCHEMA_VERSION,
+      draft.destination || null,
+      draft.startDate || null,
+      draft.endDate || null,
+      draft.restrictedSupplierName || null,
+    ]
+  );
+
+  return result.rows[0].updated_at;
+};
+
+/**
+ * Get the agency's unsaved plan, with its timeline upgraded to the current schema
+ * @returns Draft, or null if there is none
+ */
+export const getItineraryDraft = async (agencyUserId: string): Promise<ItineraryDraft | null> => {
+  const result = await pool.query(
+    `SELECT timeline_data, timeline_version, destination, start_date, end_date, restricted_supplier_name, updated_at
+     FROM itinerary_drafts
+     WHERE agency_user_id = $1`,
+    [agencyUserId]
+  );
+
+  const row = result.rows[0];
+  if (!row) return null;
+
+  return {
+    timelineData: upgradeTimeline(row.timeline_data, row.timeline_version),
+    destination: row.destination,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    restrictedSupplierName: row.restricted_supplier_name,
+    updatedAt: row.updated_at,
+  };
+};
+
+/**
+ * Drop the agency's unsaved plan, e.g. once it has been saved as an itinerary
+ */
+export const discardItineraryDraft = async (agencyUserId: string): Promise<void> => {
+  await pool.query('DELETE FROM itinerary_drafts WHERE agency_user_id = $1', [agencyUserId]);
+};
+
+/**
+ * @returns Versions newest first (without timelines), or null if the itinerary does not exist for this agency
+ */
+export const getItineraryVersions = async (
+  itineraryId: string,
+  agencyUserId: string
+): Promise<ItineraryVersionSummary[] | null> => {
+  if (!(await ownsItinerary(itineraryId, agencyUserId))) {
+    return null;
+  }
+
+  const result = await pool.query(
+    `SELECT ${SUMMARY_COLUMNS}
+     FROM itinerary_versions
+     WHERE itinerary_id = $1
+     ORDER BY created_at DESC`,
+    [itineraryId]
+  );
+
+  return result.rows.map(mapRowToSummary);
+};
+
+/**
+ * Get a single version with its timeline, upgraded to the current schema
+ * @returns Version, or null if it does not exist for this agency
+ */
+export const getItineraryVersion = async (
+  itineraryId: string,
+  versionId: string,
+  agencyUserId: string
+): Promise<ItineraryVersion | null> => {
+  if (!(await ownsItinerary(itineraryId, agencyUserId))) {
+    return null;
+  }
+
+  const result = await pool.query(
+    `SELECT ${SUMMARY_COLUMNS}, timeline_data, timeline_version
+     FROM itinerary_versions
+     WHERE id = $1 AND itinerary_id = $2`,
+    [versionId, itineraryId]
+  );
+
+  const row = result.rows[0];
+  if (!row) return null;
+
+  return {
+    ...mapRowToSummary(row),
+    timelineData: upgradeTimeline(row.timeline_data, row.timeline_version),
+  };
+};
+
+/**
+ * Copy an earlier version's timeline back onto the itinerary.
+ * The restore itself is recorded as a new version so it can be undone.
+ * @param expectedVersion - Itinerary version the restore was chosen on (from If-Match), if any
+ * @returns true if restored, false if the version does not exist for this agency
+ * @throws Error('Itinerary is locked') if the itinerary has been confirmed
+ * @throws Error('Version conflict') if the itinerary was saved since expectedVersion
+ */
+export const restoreItineraryVersion = async (
+  itineraryId: string,
+  versionId: string,
+  agencyUserId: string,
+  expectedVersion?: number
+): Promise<boolean> => {
+  const version = await getItineraryVersion(itineraryId, versionId, agencyUserId);
+  if (!version) {
+    return false;
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // Checked in the UPDATE itself so a confirmation or save committed meanwhile is not overwritten
+    const values: any[] = [
+      JSON.stringify(version.timelineData),
+      TIMELINE_SCHEMA_VERSION,
+      version.timelineData.length,
+      itineraryId,
+      LOCKED_ITINERARY_STATUSES,
+    ];
+    let versionCondition = '';
+    if (expectedVersion !== undefined) {
+      values.push(expectedVersion);
+      versionCondition = ` AND version = $${values.length}`;
+    }
+
+    const result = await client.query(
+      `UPDATE itineraries
+       SET timeline_data = $1, timeline_version = $2, days_count = $3,
+           updated_at = CURRENT_TIMESTAMP, version = version + 1
+       WHERE id = $4 AND status <> ALL($5)${versionCondition}`,
+      values
+    );
+    if (result.rowCount === 0) {
+      const current = await client.query('SELECT status FROM itineraries WHERE id = $1', [itineraryId]);
+      const locked = current.rows[0] && isItineraryLocked(current.rows[0].status);
+      throw new Error(locked || expectedVersion === undefined ? 'Itinerary is locked' : 'Version conflict');
+    }
+    await recordItineraryVersion(client, itineraryId, version.timelineData, 'restore', agencyUserId);
+
+    await client.query('COMMIT');
+    return true;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+};
@@ -0,0 +1,113 @@
+import pool from '../config/database';
+import { getStorageDriver, StoredObject } from './storage';
+
+/**
+ * Files younger than this are never collected: uploads are stored before the
+ * product row that references them is written
+ */
+export const DEFAULT_GRACE_PERIOD_HOURS = 24;
+
+export interface OrphanedImageOptions {
+  /** Report orphans without deleting them */
+  dryRun: boolean;
+  gracePeriodHours?: number;
+  now?: Date;
+}
+
+export interface OrphanedImageReport {
+  dryRun: boolean;
+  gracePeriodHours: number;
+  /** Files found in storage */
+  scanned: number;
+  /** Files referenced by a product or gallery image */
+  referenced: number;
+  /** Unreferenced files spared because they are within the grace period */
+  recent: number;
+  /** Unreferenced files older than the grace period */
+  orphaned: StoredObject[];
+  deleted: number;
+  failed: number;
+}
+
+/**
+ * Storage keys still in use: covers and gallery images of live products, plus those of
+ * products soft-deleted within the grace period (shared itineraries keep showing them for a while).
+ * Revision snapshots and itinerary timelines are not references; they fall back to the live product.
+ * @param gracePeriodHours - How long images of a soft-deleted product are kept
+ */
+export const getReferencedImageKeys = async (gracePeriodHours: number): Promise<Set<string>> => {
+  const result = await pool.query(
+    `SELECT p.cover_image_url AS url, p.cover_image_variants AS variants
+     FROM products p
+     WHERE p.cover_image_url IS NOT NULL
+       AND (p.is_deleted = FALSE OR p.is_deleted IS NULL OR p.deleted_at > NOW() - $1::float8 * INTERVAL '1 hour')
+     UNION ALL
+     SELECT i.image_url AS url, i.variants
+     FROM product_images i
+     JOIN products p ON p.id = i.product_id
+     WHERE p.is_deleted = FALSE OR p.is_deleted IS NULL OR p.deleted_at > NOW() - $1::float8 * INTERVAL '1 hour'`,
+    [gracePeriodHours]
+  );
+
+  const driver = getStorageDriver();
+  const keys = new Set<string>();
+  for (const row of result.rows) {
+    for (const url of [row.url, ...Object.values<string>(row.variants || {})]) {
+      const key = driver.keyFromUrl(url);
+      if (key) keys.add(key);
+    }
+  }
+  return keys;
+};
+
+/**
+ * Find stored images no product references and, unless dryRun is set, delete them
+ * @throws Error if the grace period is shorter than an hour, or storage or the database cannot be read
+ */
+export const collectOrphanedImages = async (options: OrphanedImageOptions): Promise<OrphanedImageReport> => {
+  const gracePeriodHours = options.gracePeriodHours ?? DEFAULT_GRACE_PERIOD_HOURS;
+  if (!Number.isFinite(gracePeriodHours) || gracePeriodHours < 1) {
+    throw new Error('Grace period must be at least 1 hour');
+  }
+
+  const driver = getStorageDriver();
+  // List before reading references, so a file uploaded in between is either too new or already referenced
+  const stored = await driver.list();
+  const referencedKeys = await getReferencedImageKeys(gracePeriodHours);
+  const cutoff = (options.now ?? new Date()).getTime() - gracePeriodHours * 60 * 60 * 1000;
+
+  const report: OrphanedImageReport = {
+    dryRun: options.dryRun,
+    gracePeriodHours,
+    scanned: stored.length,
+    referenced: 0,
+    recent: 0,
+    orphaned: [],
+    deleted: 0,
+    failed: 0,
+  };
+
+  for (const object of stored) {
+    if (referencedKeys.has(object.key)) {
+      report.referenced++;
+    } else if (object.updatedAt.getTime() > cutoff) {
+      report.recent++;
+    } else {
+      report.orphaned.push(object);
+    }
+  }
+
+  if (options.dryRun) return report;
+
+  for (const object of report.orphaned) {
+    try {
+      await driver.delete(object.key);
+      report.deleted++;
+    } catch (error) {
+      console.error(`Error deleting orphaned image ${object.key}:`, error);
+      report.failed++;
+    }
+  }
+
+  return report;
+};
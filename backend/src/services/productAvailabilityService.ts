@@ -0,0 +1,226 @@
+import pool from '../config/database';
+import { ValidationError, isValidDateString } from '../utils/validation';
+
+export interface BlackoutRange {
+  /** YYYY-MM-DD, inclusive */
+  startDate: string;
+  /** YYYY-MM-DD, inclusive */
+  endDate: string;
+  reason?: string | null;
+}
+
+export interface ProductAvailability {
+  productId: string;
+  /** Weekdays the product operates, 0 (Sunday) to 6 (Saturday) */
+  operatingDays: number[];
+  /** HH:mm local time, null when not restricted */
+  openingTime: string | null;
+  closingTime: string | null;
+  blackoutDates: BlackoutRange[];
+}
+
+export type AvailabilityInput = Omit<ProductAvailability, 'productId'>;
+
+export interface ClosedReason {
+  reason: 'blackout' | 'weekday' | 'hours';
+  message: string;
+}
+
+export const MAX_BLACKOUT_RANGES = 100;
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Validate an availability payload from a supplier
+ * @returns Field-level errors (e.g. "blackoutDates[1].endDate"); empty when valid
+ */
+export const validateAvailabilityInput = (input: any): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (typeof input !== 'object' || input === null) {
+    return [{ field: 'availability', message: 'must be an object' }];
+  }
+
+  const { operatingDays, openingTime, closingTime, blackoutDates } = input;
+
+  if (!Array.isArray(operatingDays) || operatingDays.some(day => !ALL_DAYS.includes(day))) {
+    errors.push({ field: 'operatingDays', message: 'must be an array of weekdays 0-6' });
+  }
+  for (const [field, value] of [['openingTime', openingTime], ['closingTime', closingTime]] as const) {
+    if (value !== null && value !== undefined && !(typeof value === 'string' && TIME_PATTERN.test(value))) {
+      errors.push({ field, message: 'must be HH:mm or null' });
+    }
+  }
+  if (!openingTime !== !closingTime) {
+    errors.push({ field: 'closingTime', message: 'opening and closing time must be set together' });
+  } else if (TIME_PATTERN.test(openingTime) && TIME_PATTERN.test(closingTime) && openingTime >= closingTime) {
+    errors.push({ field: 'closingTime', message: 'must be after openingTime' });
+  }
+
+  if (!Array.isArray(blackoutDates) || blackoutDates.length > MAX_BLACKOUT_RANGES) {
+    errors.push({ field: 'blackoutDates', message: `must be an array of at most ${MAX_BLACKOUT_RANGES} ranges` });
+  } else {
+    blackoutDates.forEach((range: any, index: number) => {
+      const path = `blackoutDates[${index}]`;
+      if (!isValidDateString(range?.startDate)) errors.push({ field: `${path}.startDate`, message: 'must be YYYY-MM-DD' });
+      if (!isValidDateString(range?.endDate)) errors.push({ field: `${path}.endDate`, message: 'must be YYYY-MM-DD' });
+      else if (isValidDateString(range.startDate) && range.endDate < range.startDate) {
+        errors.push({ field: `${path}.endDate`, message: 'must not be before startDate' });
+      }
+      if (range?.reason !== undefined && range.reason !== null && typeof range.reason !== 'string') {
+        errors.push({ field: `${path}.reason`, message: 'must be a string' });
+      }
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Get availability for several products at once
+ * @returns Availability by product ID (products that do not exist are left out)
+ */
+export const getAvailabilityByProductIds = async (productIds: string[]): Promise<Map<string, ProductAvailability>> => {
+  const availability = new Map<string, ProductAvailability>();
+  if (productIds.length === 0) return availability;
+
+  const products = await pool.query(
+    `SELECT id, operating_days, to_char(opening_time, 'HH24:MI') as opening_time, to_char(closing_time, 'HH24:MI') as closing_time
+     FROM products
+     WHERE id::text = ANY($1)`,
+    [productIds]
+  );
+  for (const row of products.rows) {
+    availability.set(row.id, {
+      productId: row.id,
+      operatingDays: (row.operating_days || ALL_DAYS).map(Number),
+      openingTime: row.opening_time,
+      closingTime: row.closing_time,
+      blackoutDates: [],
+    });
+  }
+
+  if (availability.size > 0) {
+    const blackouts = await pool.query(
+      `SELECT product_id, to_char(start_date, 'YYYY-MM-DD') as start_date, to_char(end_date, 'YYYY-MM-DD') as end_date, reason
+       FROM product_blackout_dates
+       WHERE product_id::text = ANY($1)
+       ORDER BY start_date`,
+      [Array.from(availability.keys())]
+    );
+    for (const row of blackouts.rows) {
+      availability.get(row.product_id)?.blackoutDates.push({
+        startDate: row.start_date,
+        endDate: row.end_date,
+        reason: row.reason,
+      });
+    }
+  }
+
+  return availability;
+};
+
+/**
+ * @returns Availability, or null if the product does not exist
+ */
+export const getProductAvailability = async (productId: string): Promise<ProductAvailability | null> => {
+  const availability = await getAvailabilityByProductIds([productId]);
+  return availability.get(productId) || null;
+};
+
+/**
+ * Replace a product's operating days, opening hours and blackout dates
+ * @param input - Payload that passed validateAvailabilityInput
+ * @returns Updated availability, or null if the product does not exist for this supplier
+ */
+export const updateProductAvailability = async (
+  productId: string,
+  supplierId: string,
+  input: AvailabilityInput
+): Promise<ProductAvailability | null> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const updated = await client.query(
+      `UPDATE products
+       SET operating_days = $1, opening_time = $2, closing_time = $3, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4 AND supplier_id = $5 AND (is_deleted = FALSE OR is_deleted IS NULL)
+       RETURNING id`,
+      [
+        Array.from(new Set(input.operatingDays)).sort(),
+        input.openingTime || null,
+        input.closingTime || null,
+        productId,
+        supplierId,
+      ]
+    );
+
+    if (updated.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    await client.query('DELETE FROM product_blackout_dates WHERE product_id = $1', [productId]);
+    for (const range of input.blackoutDates) {
+      await client.query(
+        'INSERT INTO product_blackout_dates (product_id, start_date, end_date, reason) VALUES ($1, $2, $3, $4)',
+        [productId, range.startDate, range.endDate, range.reason || null]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  return getProductAvailability(productId);
+};
+
+/**
+ * Check whether a product is open on a date and, optionally, for a time window
+ * @param date - YYYY-MM-DD
+ * @param window - Visit start and end as minutes after midnight
+ * @returns Why the product is closed, or null if it is open
+ */
+export const checkAvailability = (
+  availability: ProductAvailability,
+  date: string,
+  window?: { start: number; end: number }
+): ClosedReason | null => {
+  const blackout = availability.blackoutDates.find(range => range.startDate <= date && date <= range.endDate);
+  if (blackout) {
+    return {
+      reason: 'blackout',
+      message: blackout.reason ? `暫停營業（${blackout.reason}）` : '暫停營業',
+    };
+  }
+
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  if (!availability.operatingDays.includes(weekday)) {
+    return { reason: 'weekday', message: `星期${WEEKDAY_LABELS[weekday]}公休` };
+  }
+
+  if (window && availability.openingTime && availability.closingTime) {
+    const opening = toMinutes(availability.openingTime);
+    const closing = toMinutes(availability.closingTime);
+    if (window.start < opening || window.end > closing) {
+      return {
+        reason: 'hours',
+        message: `營業時間為 ${availability.openingTime}–${availability.closingTime}`,
+      };
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,421 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { LatLng, boundingBoxAround, haversineKm } from '../utils/geo';
+import { toCoverImage, CoverImage } from './imageProcessingService';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+export type ProductDuplicateStatus = 'suspected' | 'linked' | 'dismissed';
+
+/**
+ * Why two products look alike. Address and distance are null when either product lacks that data.
+ */
+export interface DuplicateSignals {
+  titleSimilarity: number;
+  sameAddress: boolean | null;
+  distanceMeters: number | null;
+}
+
+/**
+ * The other product of a duplicate pair, with the fields compared side by side
+ */
+export interface DuplicateCandidate {
+  id: string;
+  supplierId: string;
+  supplierName: string;
+  title: string;
+  destination: string;
+  category: string;
+  description: string;
+  coverImageUrl: string;
+  coverImage: CoverImage | null;
+  netPrice: number;
+  duration: number;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  status: string;
+  duplicateOfId?: string;
+}
+
+export interface ProductDuplicate {
+  id: string;
+  score: number;
+  signals: DuplicateSignals;
+  status: ProductDuplicateStatus;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+  product: DuplicateCandidate;
+}
+
+/**
+ * Pairs scoring at least this much are flagged to admins
+ */
+export const DUPLICATE_SCORE_THRESHOLD = 0.7;
+
+// Products this close are treated as the same place; proximity fades to nothing at MAX_MATCH_DISTANCE_M
+const SAME_PLACE_DISTANCE_M = 50;
+const MAX_MATCH_DISTANCE_M = 300;
+
+// Signal weights; missing signals are left out and the rest rescaled
+const TITLE_WEIGHT = 0.5;
+const ADDRESS_WEIGHT = 0.25;
+const PROXIMITY_WEIGHT = 0.25;
+
+const CONTAINED_TITLE_SIMILARITY = 0.9;
+
+// Shorter normalised addresses (e.g. just a city) say nothing about the exact place
+const MIN_ADDRESS_MATCH_LENGTH = 6;
+
+const MAX_CANDIDATES = 500;
+
+/**
+ * Fields used to compare two products
+ */
+export interface DuplicateComparable {
+  title: string;
+  address?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+/**
+ * Lowercase a title and drop width differences, punctuation and whitespace,
+ * so "一蘭拉麵 天神西通店" and "一蘭拉麵（天神西通店）" compare equal
+ */
+export const normalizeTitle = (title: string): string =>
+  title.normalize('NFKC').toLowerCase().replace(/[\p{P}\p{S}\s]/gu, '');
+
+const bigrams = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) || 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Dice coefficient of the character bigrams of the normalised titles, from 0 (nothing shared) to 1 (equal).
+ * Character bigrams work for CJK titles, which have no word boundaries.
+ * A title contained in the other, e.g. "清水寺" in "清水寺 (Kiyomizu-dera)", scores at least CONTAINED_TITLE_SIMILARITY.
+ */
+export const titleSimilarity = (a: string, b: string): number => {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (left === right) return left ? 1 : 0;
+  if (left.length < 2 || right.length < 2) return 0;
+  const contained = left.includes(right) || right.includes(left) ? CONTAINED_TITLE_SIMILARITY : 0;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  let shared = 0;
+  for (const [bigram, count] of leftBigrams) {
+    shared += Math.min(count, rightBigrams.get(bigram) || 0);
+  }
+  return Math.max(contained, (2 * shared) / (left.length - 1 + right.length - 1));
+};
+
+/**
+ * Canonical form of an address: full-width characters folded, postal code dropped and
+ * Japanese block numbers ("2丁目1番57号") written like "2-1-57" before separators are removed
+ */
+export const normalizeAddress = (address: string): string =>
+  address
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/〒?\s*\d{3}-\d{4}/g, '')
+    .replace(/(\d+)\s*(丁目|番地|番)/g, '$1-')
+    .replace(/(\d+)\s*号/g, '$1')
+    .replace(/[\p{P}\p{S}\s]/gu, '');
+
+const sameAddress = (a: string, b: string): boolean => {
+  const left = normalizeAddress(a);
+  const right = normalizeAddress(b);
+  if (Math.min(left.length, right.length) < MIN_ADDRESS_MATCH_LENGTH) return false;
+  // One supplier may include the prefecture or building the other leaves out
+  return left.includes(right) || right.includes(left);
+};
+
+const locationOf = (product: DuplicateComparable): LatLng | null =>
+  product.latitude != null && product.longitude != null
+    ? { lat: Number(product.latitude), lng: Number(product.longitude) }
+    : null;
+
+/**
+ * Score how likely two products describe the same attraction, from 0 to 1
+ */
+export const scoreDuplicate = (
+  a: DuplicateComparable,
+  b: DuplicateComparable
+): { score: number; signals: DuplicateSignals } => {
+  const similarity = titleSimilarity(a.title, b.title);
+  const addressMatch = a.address && b.address ? sameAddress(a.address, b.address) : null;
+  const from = locationOf(a);
+  const to = locationOf(b);
+  const distanceMeters = from && to ? Math.round(haversineKm(from, to) * 1000) : null;
+
+  let total = TITLE_WEIGHT * similarity;
+  let weight = TITLE_WEIGHT;
+  if (addressMatch !== null) {
+    total += ADDRESS_WEIGHT * (addressMatch ? 1 : 0);
+    weight += ADDRESS_WEIGHT;
+  }
+  if (distanceMeters !== null) {
+    const proximity = Math.min(1, Math.max(0,
+      (MAX_MATCH_DISTANCE_M - distanceMeters) / (MAX_MATCH_DISTANCE_M - SAME_PLACE_DISTANCE_M)));
+    total += PROXIMITY_WEIGHT * proximity;
+    weight += PROXIMITY_WEIGHT;
+  }
+
+  return {
+    score: Math.round((total / weight) * 1000) / 1000,
+    signals: {
+      titleSimilarity: Math.round(similarity * 1000) / 1000,
+      sameAddress: addressMatch,
+      distanceMeters,
+    },
+  };
+};
+
+/**
+ * Compare a created or updated product with other suppliers' products in the same category
+ * and destination (or nearby), and record likely duplicates for admin review.
+ * Suspected pairs that no longer match are removed; linked and dismissed pairs are left alone.
+ * @param db - Pool or transaction client
+ * @param product - Raw products row
+ * @returns Number of likely duplicates found
+ */
+export async function detectProductDuplicates(db: Queryable, product: any): Promise<number> {
+  const conditions = [
+    'p.id != $1',
+    'p.supplier_id != $2',
+    'p.category = $3',
+    // Drafts are private to their supplier until submitted
+    `p.status != '草稿'`,
+    '(p.is_deleted = FALSE OR p.is_deleted IS NULL)',
+  ];
+  const values: any[] = [product.id, product.supplier_id, product.category, product.destination];
+  const nearby = ['p.destination = $4'];
+
+  const location = locationOf(product);
+  if (location) {
+    const area = boundingBoxAround(location, MAX_MATCH_DISTANCE_M / 1000);
+    values.push(area.minLat, area.maxLat, area.minLng, area.maxLng);
+    nearby.push(
+      area.minLng <= area.maxLng
+        ? '(p.latitude BETWEEN $5 AND $6 AND p.longitude BETWEEN $7 AND $8)'
+        : '(p.latitude BETWEEN $5 AND $6 AND (p.longitude >= $7 OR p.longitude <= $8))'
+    );
+  }
+  conditions.push(`(${nearby.join(' OR ')})`);
+
+  const candidates = await db.query(
+    `SELECT p.id, p.title, p.address, p.latitude, p.longitude
+     FROM products p
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY p.created_at DESC
+     LIMIT ${MAX_CANDIDATES}`,
+    values
+  );
+
+  const matches = candidates.rows
+    .map(candidate => ({ id: candidate.id as string, ...scoreDuplicate(product, candidate) }))
+    .filter(match => match.score >= DUPLICATE_SCORE_THRESHOLD);
+
+  await db.query(
+    `DELETE FROM product_duplicates
+     WHERE status = 'suspected'
+       AND (product_id = $1 OR matched_product_id = $1)
+       AND NOT (product_id = ANY($2::uuid[]) OR matched_product_id = ANY($2::uuid[]))`,
+    [product.id, matches.map(match => match.id)]
+  );
+
+  for (const match of matches) {
+    await db.query(
+      `INSERT INTO product_duplicates (product_id, matched_product_id, score, signals)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT ((LEAST(product_id, matched_product_id)), (GREATEST(product_id, matched_product_id)))
+       DO UPDATE SET score = EXCLUDED.score, signals = EXCLUDED.signals, updated_at = CURRENT_TIMESTAMP
+       WHERE product_duplicates.status = 'suspected'`,
+      [product.id, match.id, match.score, JSON.stringify(match.signals)]
+    );
+  }
+
+  return matches.length;
+}
+
+/**
+ * Likely duplicates of a product that an admin has not dismissed, highest score first
+ * @param productId - Product ID
+ */
+export async function getProductDuplicates(productId: string): Promise<ProductDuplicate[]> {
+  const result = await pool.query(
+    `SELECT d.id, d.score, d.signals, d.status, d.resolved_by, d.resolved_at, d.created_at,
+            p.id AS other_id, p.supplier_id, p.title, p.destination, p.category, p.description,
+            p.cover_image_url, p.cover_image_variants, p.net_price, p.duration,
+            p.address, p.latitude, p.longitude, p.status AS product_status, p.duplicate_of_id,
+            u.name AS supplier_name
+     FROM product_duplicates d
+     JOIN products p ON p.id = CASE WHEN d.product_id = $1 THEN d.matched_product_id ELSE d.product_id END
+     JOIN users u ON p.supplier_id = u.id
+     WHERE (d.product_id = $1 OR d.matched_product_id = $1)
+       AND d.status != 'dismissed'
+       AND p.status != '草稿'
+       AND (p.is_deleted = FALSE OR p.is_deleted IS NULL)
+     ORDER BY d.score DESC, d.created_at DESC`,
+    [productId]
+  );
+
+  return result.rows.map(row => ({
+    id: row.id,
+    score: parseFloat(row.score),
+    signals: row.signals,
+    status: row.status,
+    resolvedBy: row.resolved_by || undefined,
+    resolvedAt: row.resolved_at || undefined,
+    createdAt: row.created_at,
+    product: {
+      id: row.other_id,
+      supplierId: row.supplier_id,
+      supplierName: row.supplier_name,
+      title: row.title,
+      destination: row.destination,
+      category: row.category,
+      description: row.description,
+      coverImageUrl: row.cover_image_url,
+      coverImage: toCoverImage(row.cover_image_url, row.cover_image_variants),
+      netPrice: parseFloat(row.net_price),
+      duration: parseFloat(row.duration),
+      address: row.address || undefined,
+      latitude: row.latitude ? parseFloat(row.latitude) : undefined,
+      longitude: row.longitude ? parseFloat(row.longitude) : undefined,
+      status: row.product_status,
+      duplicateOfId: row.duplicate_of_id || undefined,
+    },
+  }));
+}
+
+const dismissPair = (db: Queryable, productId: string, otherId: string, adminId: string) =>
+  db.query(
+    `UPDATE product_duplicates
+     SET status = 'dismissed', resolved_by = $3, resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+     WHERE LEAST(product_id, matched_product_id) = LEAST($1::uuid, $2::uuid)
+       AND GREATEST(product_id, matched_product_id) = GREATEST($1::uuid, $2::uuid)`,
+    [productId, otherId, adminId]
+  );
+
+/**
+ * Mark a product as a duplicate of another. The duplicate is hidden from agencies;
+ * the pair is recorded as linked even if the detector never flagged it.
+ * @param productId - The duplicate
+ * @param duplicateOfId - The product to keep
+ * @param adminId - Admin making the decision
+ * @throws Error if either product is not found, they are the same, or duplicateOfId is itself a duplicate
+ */
+export async function linkDuplicate(productId: string, duplicateOfId: string, adminId: string): Promise<void> {
+  if (productId === duplicateOfId) {
+    throw new Error('A product cannot be a duplicate of itself');
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const products = await client.query(
+      `SELECT id, duplicate_of_id FROM products
+       WHERE id = ANY($1::uuid[]) AND (is_deleted = FALSE OR is_deleted IS NULL)
+       FOR UPDATE`,
+      [[productId, duplicateOfId]]
+    );
+    const duplicate = products.rows.find(row => row.id === productId);
+    const original = products.rows.find(row => row.id === duplicateOfId);
+    if (!duplicate || !original) {
+      throw new Error('Product not found');
+    }
+    if (original.duplicate_of_id) {
+      throw new Error('Cannot link to a product that is itself a duplicate');
+    }
+
+    if (duplicate.duplicate_of_id && duplicate.duplicate_of_id !== duplicateOfId) {
+      await dismissPair(client, productId, duplicate.duplicate_of_id, adminId);
+    }
+
+    await client.query(
+      'UPDATE products SET duplicate_of_id = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [duplicateOfId, productId]
+    );
+    // Products that pointed at the new duplicate now point at the product being kept
+    await client.query(
+      'UPDATE products SET duplicate_of_id = $1, updated_at = CURRENT_TIMESTAMP WHERE duplicate_of_id = $2',
+      [duplicateOfId, productId]
+    );
+
+    await client.query(
+      `INSERT INTO product_duplicates (product_id, matched_product_id, score, signals, status, resolved_by, resolved_at)
+       VALUES ($1, $2, 1, '{}', 'linked', $3, CURRENT_TIMESTAMP)
+       ON CONFLICT ((LEAST(product_id, matched_product_id)), (GREATEST(product_id, matched_product_id)))
+       DO UPDATE SET status = 'linked', resolved_by = $3, resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP`,
+      [productId, duplicateOfId, adminId]
+    );
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Undo linkDuplicate: the product is listed to agencies again and the pair is dismissed
+ * @throws Error if the product is not linked as a duplicate
+ */
+export async function unlinkDuplicate(productId: string, adminId: string): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      'SELECT duplicate_of_id FROM products WHERE id = $1 FOR UPDATE',
+      [productId]
+    );
+    const duplicateOfId = result.rows[0]?.duplicate_of_id;
+    if (!duplicateOfId) {
+      throw new Error('Product is not linked as a duplicate');
+    }
+
+    await client.query(
+      'UPDATE products SET duplicate_of_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [productId]
+    );
+    await dismissPair(client, productId, duplicateOfId, adminId);
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Mark a suspected pair as not a duplicate, so it is no longer flagged
+ * @param productId - Product whose detail page the admin is on
+ * @param duplicateId - product_duplicates row ID
+ * @throws Error if the pair is not found or not suspected
+ */
+export async function dismissDuplicate(productId: string, duplicateId: string, adminId: string): Promise<void> {
+  const result = await pool.query(
+    `UPDATE product_duplicates
+     SET status = 'dismissed', resolved_by = $3, resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND (product_id = $2 OR matched_product_id = $2) AND status = 'suspected'`,
+    [duplicateId, productId, adminId]
+  );
+  if (result.rowCount === 0) {
+    throw new Error('Duplicate not found');
+  }
+}
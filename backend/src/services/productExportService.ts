@@ -0,0 +1,225 @@
+import { Writable } from 'stream';
+import { QueryResult } from 'pg';
+import ExcelJS from 'exceljs';
+import pool from '../config/database';
+import { ProductStatus, ProductListFilters, productListConditions } from './productService';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+// Rows fetched per query; the export never holds more than one batch in memory
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Filters of the product list pages, limited to one supplier's products for supplier exports
+ */
+export interface ProductExportFilters extends ProductListFilters {
+  /** Only this supplier's products, drafts included */
+  supplierId?: string;
+}
+
+export interface ExportedProduct {
+  id: string;
+  title: string;
+  destination: string;
+  category: string;
+  description: string;
+  netPrice: number;
+  hasShopping: boolean;
+  hasTicket: boolean;
+  ticketPrice: number | null;
+  duration: number;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  coverImage: string;
+  status: ProductStatus;
+  rejectionReason: string | null;
+  supplierName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Export columns. Names match the import columns, so a supplier can edit an export and import it again.
+ */
+const PRODUCT_COLUMNS: (keyof ExportedProduct)[] = [
+  'id', 'title', 'destination', 'category', 'description', 'netPrice',
+  'hasShopping', 'hasTicket', 'ticketPrice', 'duration',
+  'address', 'latitude', 'longitude', 'coverImage',
+  'status', 'rejectionReason', 'createdAt', 'updatedAt',
+];
+
+const ADMIN_COLUMNS: (keyof ExportedProduct)[] = ['id', 'supplierName', ...PRODUCT_COLUMNS.slice(1)];
+
+const toNumberOrNull = (value: any): number | null =>
+  value === null || value === undefined ? null : parseFloat(value);
+
+const mapExportRow = (row: any): ExportedProduct => ({
+  id: row.id,
+  title: row.title,
+  destination: row.destination,
+  category: row.category,
+  description: row.description,
+  netPrice: parseFloat(row.net_price),
+  hasShopping: !!row.has_shopping,
+  hasTicket: !!row.has_ticket,
+  ticketPrice: toNumberOrNull(row.ticket_price),
+  duration: parseFloat(row.duration),
+  address: row.address ?? null,
+  latitude: toNumberOrNull(row.latitude),
+  longitude: toNumberOrNull(row.longitude),
+  coverImage: row.cover_image_url,
+  status: row.status,
+  rejectionReason: row.rejection_reason ?? null,
+  supplierName: row.supplier_name,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Products matching the filters, newest first, read in batches with keyset pagination
+ */
+export async function* iterateProductsForExport(
+  filters: ProductExportFilters,
+  batchSize: number = EXPORT_BATCH_SIZE
+): AsyncGenerator<ExportedProduct> {
+  const conditions = ['(p.is_deleted = FALSE OR p.is_deleted IS NULL)'];
+  const values: any[] = [];
+
+  if (filters.supplierId) {
+    values.push(filters.supplierId);
+    conditions.push(`p.supplier_id = $${values.length}`);
+  } else {
+    // Drafts are private to their supplier
+    conditions.push(`p.status != '草稿'`);
+  }
+  conditions.push(...productListConditions(filters, values));
+
+  // created_at travels as text so the cursor keeps the column's full precision
+  let cursor: { createdAt: string; id: string } | null = null;
+  for (;;) {
+    const pageConditions: string[] = cursor ? [...conditions, `(p.created_at, p.id) < ($${values.length + 1}, $${values.length + 2})`] : conditions;
+    const pageValues: any[] = cursor ? [...values, cursor.createdAt, cursor.id] : values;
+
+    const result: QueryResult = await pool.query(
+      `SELECT p.id, p.title, p.destination, p.category, p.description,
+              p.cover_image_url, p.net_price, p.has_shopping, p.has_ticket,
+              p.ticket_price, p.duration, p.status, p.rejection_reason, p.created_at, p.updated_at,
+              p.address, p.latitude, p.longitude,
+              p.created_at::text AS cursor_created_at,
+              u.name AS supplier_name
+       FROM products p
+       JOIN users u ON p.supplier_id = u.id
+       WHERE ${pageConditions.join(' AND ')}
+       ORDER BY p.created_at DESC, p.id DESC
+       LIMIT ${batchSize}`,
+      pageValues
+    );
+
+    for (const row of result.rows) {
+      yield mapExportRow(row);
+    }
+
+    if (result.rows.length < batchSize) return;
+    const last: any = result.rows[result.rows.length - 1];
+    cursor = { createdAt: last.cursor_created_at, id: last.id };
+  }
+}
+
+/**
+ * Write a chunk, waiting for the client to catch up when the buffer is full
+ */
+const write = (out: Writable, chunk: string): Promise<void> => {
+  if (out.write(chunk)) return Promise.resolve();
+  return new Promise(resolve => {
+    const done = () => {
+      out.off('drain', done);
+      out.off('close', done);
+      resolve();
+    };
+    out.on('drain', done);
+    out.on('close', done);
+  });
+};
+
+const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Keep spreadsheet apps from evaluating supplier-entered text as a formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const writeCsv = async (out: Writable, columns: (keyof ExportedProduct)[], products: AsyncIterable<ExportedProduct>) => {
+  // The BOM lets Excel open the file as UTF-8
+  await write(out, `\uFEFF${columns.join(',')}\r\n`);
+  for await (const product of products) {
+    if (out.destroyed) return;
+    await write(out, `${columns.map(column => toCsvCell(product[column])).join(',')}\r\n`);
+  }
+  out.end();
+};
+
+const writeJson = async (out: Writable, columns: (keyof ExportedProduct)[], products: AsyncIterable<ExportedProduct>) => {
+  let separator = '';
+  await write(out, '[');
+  for await (const product of products) {
+    if (out.destroyed) return;
+    const entry = Object.fromEntries(columns.map(column => [column, product[column]]));
+    await write(out, `${separator}\n${JSON.stringify(entry)}`);
+    separator = ',';
+  }
+  await write(out, '\n]\n');
+  out.end();
+};
+
+const writeXlsx = async (out: Writable, columns: (keyof ExportedProduct)[], products: AsyncIterable<ExportedProduct>) => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: false, useSharedStrings: false });
+  const worksheet = workbook.addWorksheet('Products');
+  worksheet.addRow(columns).commit();
+  for await (const product of products) {
+    if (out.destroyed) return;
+    worksheet.addRow(columns.map(column => product[column])).commit();
+  }
+  worksheet.commit();
+  // Finishes the zip stream, which ends `out`
+  await workbook.commit();
+};
+
+/**
+ * Stream the products matching the filters to `out` and end it.
+ * Supplier exports (filters.supplierId set) leave out the supplier name column.
+ * @throws Error if reading products fails; `out` may already have received part of the export
+ */
+export const writeProductExport = async (
+  format: ExportFormat,
+  filters: ProductExportFilters,
+  out: Writable
+): Promise<void> => {
+  const columns = filters.supplierId ? PRODUCT_COLUMNS : ADMIN_COLUMNS;
+  const products = iterateProductsForExport(filters);
+
+  if (format === 'csv') {
+    await writeCsv(out, columns, products);
+  } else if (format === 'json') {
+    await writeJson(out, columns, products);
+  } else {
+    await writeXlsx(out, columns, products);
+  }
+};
+
+/**
+ * Download file name, e.g. "products-2026-01-31.xlsx"
+ */
+export const exportFilename = (format: ExportFormat, now: Date = new Date()): string =>
+  `products-${now.toISOString().slice(0, 10)}.${format}`;
@@ -0,0 +1,185 @@
+import pool from '../config/database';
+import { ImageVariantUrls } from './imageProcessingService';
+
+export interface ProductImage {
+  id: string;
+  productId: string;
+  imageUrl: string;
+  /** Resized variants; images stored before processing existed use imageUrl for every size */
+  variants: ImageVariantUrls;
+  caption: string | null;
+  sortOrder: number;
+  createdAt: Date;
+}
+
+export const MAX_PRODUCT_IMAGES = 15;
+export const MAX_CAPTION_LENGTH = 255;
+
+const mapImage = (row: any): ProductImage => ({
+  id: row.id,
+  productId: row.product_id,
+  imageUrl: row.image_url,
+  variants: row.variants || { thumbnail: row.image_url, card: row.image_url, hero: row.image_url },
+  caption: row.caption,
+  sortOrder: row.sort_order,
+  createdAt: row.created_at,
+});
+
+const OWNED_PRODUCT_QUERY = `
+  SELECT id FROM products
+  WHERE id = $1 AND supplier_id = $2 AND (is_deleted = FALSE OR is_deleted IS NULL)
+`;
+
+/**
+ * @returns Gallery images of a product in display order
+ */
+export const getProductImages = async (productId: string): Promise<ProductImage[]> => {
+  const result = await pool.query(
+    'SELECT * FROM product_images WHERE product_id = $1 ORDER BY sort_order, created_at',
+    [productId]
+  );
+
+  return result.rows.map(mapImage);
+};
+
+/**
+ * Count gallery images, so uploads over the limit can be rejected before they reach storage
+ */
+export const countProductImages = async (productId: string): Promise<number> => {
+  const result = await pool.query('SELECT COUNT(*) FROM product_images WHERE product_id = $1', [productId]);
+  return parseInt(result.rows[0].count, 10);
+};
+
+/**
+ * Append uploaded images to the end of a product's gallery
+ * @param images - Public URLs with optional captions, in upload order
+ * @returns The full gallery after the insert
+ * @throws Error if the product is not the supplier's, or the gallery would exceed MAX_PRODUCT_IMAGES
+ */
+export const addProductImages = async (
+  productId: string,
+  supplierId: string,
+  images: Array<{ imageUrl: string; variants?: ImageVariantUrls; caption?: string | null }>
+): Promise<ProductImage[]> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // Lock the product row so concurrent uploads cannot both pass the limit check
+    const product = await client.query(`${OWNED_PRODUCT_QUERY} FOR UPDATE`, [productId, supplierId]);
+    if (product.rows.length === 0) {
+      throw new Error('Product not found or access denied');
+    }
+
+    const existing = await client.query(
+      'SELECT COUNT(*) as count, COALESCE(MAX(sort_order), -1) as max_order FROM product_images WHERE product_id = $1',
+      [productId]
+    );
+    const count = parseInt(existing.rows[0].count, 10);
+    if (count + images.length > MAX_PRODUCT_IMAGES) {
+      throw new Error(`A product can have at most ${MAX_PRODUCT_IMAGES} images`);
+    }
+
+    let sortOrder = parseInt(existing.rows[0].max_order, 10);
+    for (const image of images) {
+      sortOrder += 1;
+      await client.query(
+        'INSERT INTO product_images (product_id, image_url, variants, caption, sort_order) VALUES ($1, $2, $3, $4, $5)',
+        [productId, image.imageUrl, image.variants ? JSON.stringify(image.variants) : null, image.caption || null, sortOrder]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  return getProductImages(productId);
+};
+
+/**
+ * Reorder a product's gallery
+ * @param imageIds - Every image ID of the product, in the new order
+ * @returns The reordered gallery
+ * @throws Error if the product is not the supplier's, or imageIds is not exactly the product's images
+ */
+export const reorderProductImages = async (
+  productId: string,
+  supplierId: string,
+  imageIds: string[]
+): Promise<ProductImage[]> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const product = await client.query(`${OWNED_PRODUCT_QUERY} FOR UPDATE`, [productId, supplierId]);
+    if (product.rows.length === 0) {
+      throw new Error('Product not found or access denied');
+    }
+
+    const existing = await client.query('SELECT id FROM product_images WHERE product_id = $1', [productId]);
+    const existingIds = new Set(existing.rows.map(row => row.id));
+    if (imageIds.length !== existingIds.size || new Set(imageIds).size !== imageIds.length
+      || imageIds.some(id => !existingIds.has(id))) {
+      throw new Error('imageIds must list every image of the product exactly once');
+    }
+
+    for (const [index, imageId] of imageIds.entries()) {
+      await client.query('UPDATE product_images SET sort_order = $1 WHERE id = $2', [index, imageId]);
+    }
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  return getProductImages(productId);
+};
+
+/**
+ * Set or clear the caption of a gallery image
+ * @returns Updated image, or null if the image does not exist on the supplier's product
+ */
+export const updateImageCaption = async (
+  productId: string,
+  supplierId: string,
+  imageId: string,
+  caption: string | null
+): Promise<ProductImage | null> => {
+  const result = await pool.query(
+    `UPDATE product_images pi
+     SET caption = $1
+     FROM products p
+     WHERE pi.id = $2 AND pi.product_id = $3 AND p.id = pi.product_id AND p.supplier_id = $4
+     RETURNING pi.*`,
+    [caption || null, imageId, productId, supplierId]
+  );
+
+  return result.rows.length > 0 ? mapImage(result.rows[0]) : null;
+};
+
+/**
+ * Remove an image from a product's gallery (the stored file is left to the caller)
+ * @returns Deleted image, or null if the image does not exist on the supplier's product
+ */
+export const deleteProductImage = async (
+  productId: string,
+  supplierId: string,
+  imageId: string
+): Promise<ProductImage | null> => {
+  const result = await pool.query(
+    `DELETE FROM product_images pi
+     USING products p
+     WHERE pi.id = $1 AND pi.product_id = $2 AND p.id = pi.product_id AND p.supplier_id = $3
+     RETURNING pi.*`,
+    [imageId, productId, supplierId]
+  );
+
+  return result.rows.length > 0 ? mapImage(result.rows[0]) : null;
+};
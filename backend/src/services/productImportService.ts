@@ -0,0 +1,392 @@
+import path from 'path';
+import { unzipSync } from 'fflate';
+import sharp from 'sharp';
+import pool from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { createProducts, CreateProductRequest } from './productService';
+import { storeImageVariants, deleteImageWithVariants, UploadResult } from './storageService';
+import { ImageVariantUrls } from './imageProcessingService';
+import { ValidationError } from '../utils/validation';
+import { validateProductFields, toProductFields } from '../utils/productFields';
+import { parseSpreadsheet, spreadsheetFormat } from '../utils/spreadsheet';
+
+export const MAX_IMPORT_ROWS = 500;
+export const MAX_IMPORT_SHEET_SIZE = 5 * 1024 * 1024; // 5MB
+export const MAX_IMPORT_ARCHIVE_SIZE = 100 * 1024 * 1024; // 100MB
+
+// Same rules as a single cover image upload
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+export type ImportColumn =
+  | 'title' | 'destination' | 'category' | 'description' | 'netPrice'
+  | 'hasShopping' | 'hasTicket' | 'ticketPrice' | 'duration'
+  | 'address' | 'latitude' | 'longitude' | 'coverImage';
+
+/**
+ * Accepted headers per column: the API field name (any case) or the label on the create form
+ */
+export const IMPORT_COLUMNS: Record<ImportColumn, string[]> = {
+  title: ['title', '產品標題', '標題'],
+  destination: ['destination', '目的地'],
+  category: ['category', '類別'],
+  description: ['description', '產品描述', '描述'],
+  netPrice: ['netPrice', '淨價'],
+  hasShopping: ['hasShopping', '購物行程'],
+  hasTicket: ['hasTicket', '門票'],
+  ticketPrice: ['ticketPrice', '門票價格'],
+  duration: ['duration', '停留時間'],
+  address: ['address', '地址'],
+  latitude: ['latitude', '緯度'],
+  longitude: ['longitude', '經度'],
+  coverImage: ['coverImage', '封面圖'],
+};
+
+const REQUIRED_COLUMNS: ImportColumn[] = ['title', 'destination', 'category', 'description', 'netPrice', 'coverImage'];
+
+// Categories may be written as they appear on the create form
+const CATEGORY_LABELS: Record<string, string> = {
+  '地標': 'landmark',
+  '住宿': 'accommodation',
+  '餐飲': 'food',
+  '交通': 'transportation',
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', '是', '有'];
+
+export interface ImportRowResult {
+  /** Row number in the spreadsheet; the header is row 1 */
+  row: number;
+  title: string | null;
+  errors: ValidationError[];
+  /** Set once the product has been created */
+  productId?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  created: number;
+  rows: ImportRowResult[];
+}
+
+export interface ImportOptions {
+  /** Validate everything, including images, without storing or creating anything */
+  dryRun: boolean;
+}
+
+type CoverSource =
+  | { type: 'archive'; name: string }
+  | { type: 'existing'; url: string; variants: ImageVariantUrls | null };
+
+interface ParsedRow {
+  result: ImportRowResult;
+  fields: Record<string, string>;
+  cover: CoverSource | null;
+}
+
+interface ArchiveEntry {
+  name: string;
+  size: number;
+}
+
+interface ArchiveIndex {
+  byPath: Map<string, ArchiveEntry>;
+  /** null marks a file name shared by entries in different folders */
+  byName: Map<string, ArchiveEntry | null>;
+}
+
+const normalizeHeader = (header: string): string => header.replace(/[\s*＊]/g, '').toLowerCase();
+
+const HEADER_LOOKUP = new Map<string, ImportColumn>(
+  (Object.entries(IMPORT_COLUMNS) as [ImportColumn, string[]][]).flatMap(([column, headers]) =>
+    headers.map(header => [normalizeHeader(header), column] as [string, ImportColumn])
+  )
+);
+
+/**
+ * Map header cells to columns
+ * @throws AppError if a required column is missing or a column appears twice
+ */
+const mapHeaders = (headers: string[]): (ImportColumn | null)[] => {
+  const columns = headers.map(header => HEADER_LOOKUP.get(normalizeHeader(header)) || null);
+
+  const duplicate = columns.find((column, index) => column && columns.indexOf(column) !== index);
+  if (duplicate) {
+    throw new AppError(`Column ${duplicate} appears more than once`, 400);
+  }
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new AppError(`Missing columns: ${missing.join(', ')}`, 400);
+  }
+
+  return columns;
+};
+
+const normalizeFields = (fields: Record<string, string>): Record<string, string> => {
+  const normalized = { ...fields };
+  if (normalized.category) {
+    normalized.category = CATEGORY_LABELS[normalized.category] || normalized.category;
+  }
+  for (const field of ['hasShopping', 'hasTicket']) {
+    normalized[field] = TRUE_VALUES.includes((normalized[field] || '').toLowerCase()) ? 'true' : 'false';
+  }
+  return normalized;
+};
+
+/**
+ * List the files in the images ZIP without decompressing them
+ * @throws AppError if the archive cannot be read
+ */
+const indexArchive = (archive: Buffer): ArchiveIndex => {
+  const index: ArchiveIndex = { byPath: new Map(), byName: new Map() };
+  try {
+    unzipSync(archive, {
+      filter: file => {
+        if (file.name.endsWith('/') || file.name.startsWith('__MACOSX/')) return false;
+        const entry = { name: file.name, size: file.originalSize };
+        const basename = path.posix.basename(file.name);
+        index.byPath.set(file.name, entry);
+        index.byName.set(basename, index.byName.has(basename) ? null : entry);
+        return false;
+      },
+    });
+  } catch (error) {
+    throw new AppError('Invalid ZIP file', 400);
+  }
+  return index;
+};
+
+const readArchiveEntry = (archive: Buffer, name: string): Buffer => {
+  const files = unzipSync(archive, { filter: file => file.name === name });
+  return Buffer.from(files[name]);
+};
+
+/**
+ * Cover images already used by the supplier's products, by URL, so rows can reuse them without a ZIP
+ */
+const getExistingCovers = async (supplierId: string, urls: string[]): Promise<Map<string, ImageVariantUrls | null>> => {
+  if (urls.length === 0) return new Map();
+
+  const result = await pool.query(
+    `SELECT DISTINCT ON (cover_image_url) cover_image_url, cover_image_variants
+     FROM products
+     WHERE supplier_id = $1 AND cover_image_url = ANY($2) AND (is_deleted = FALSE OR is_deleted IS NULL)`,
+    [supplierId, urls]
+  );
+  return new Map(result.rows.map(row => [row.cover_image_url, row.cover_image_variants]));
+};
+
+const resolveCover = (
+  value: string,
+  archiveIndex: ArchiveIndex | null,
+  existingCovers: Map<string, ImageVariantUrls | null>
+): { cover: CoverSource | null; error?: string } => {
+  if (!value) {
+    return { cover: null, error: 'coverImage is required' };
+  }
+
+  if (/^https?:\/\//i.test(value)) {
+    if (!existingCovers.has(value)) {
+      return { cover: null, error: 'coverImage URL must be the cover image of one of your products' };
+    }
+    return { cover: { type: 'existing', url: value, variants: existingCovers.get(value)! } };
+  }
+
+  if (!archiveIndex) {
+    return { cover: null, error: `coverImage ${value} needs an images ZIP` };
+  }
+  // Files are found by full path or, when unambiguous, by file name alone
+  const entry = archiveIndex.byPath.get(value) ?? archiveIndex.byName.get(value);
+  if (entry === undefined) {
+    return { cover: null, error: `coverImage ${value} is not in the images ZIP` };
+  }
+  if (entry === null) {
+    return { cover: null, error: `coverImage ${value} matches several files in the images ZIP; use its full path` };
+  }
+  if (!IMAGE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+    return { cover: null, error: 'Only JPEG, PNG, and WebP images are allowed' };
+  }
+  if (entry.size > MAX_IMAGE_SIZE) {
+    return { cover: null, error: 'Image must be less than 5MB' };
+  }
+  return { cover: { type: 'archive', name: entry.name } };
+};
+
+/**
+ * Read and validate every row of an import file
+ * @throws AppError for problems with the files themselves
+ */
+const parseImportRows = async (
+  supplierId: string,
+  sheet: Express.Multer.File,
+  archive: Express.Multer.File | undefined
+): Promise<ParsedRow[]> => {
+  const format = spreadsheetFormat(sheet.originalname);
+  if (!format) {
+    throw new AppError('Only CSV and XLSX files can be imported', 400);
+  }
+  if (sheet.size > MAX_IMPORT_SHEET_SIZE) {
+    throw new AppError('Import file must be less than 5MB', 400);
+  }
+  if (archive && path.extname(archive.originalname).toLowerCase() !== '.zip') {
+    throw new AppError('Images must be uploaded as a ZIP file', 400);
+  }
+
+  let cells: string[][];
+  try {
+    cells = await parseSpreadsheet(sheet.buffer, format);
+  } catch (error) {
+    throw new AppError(error instanceof Error ? error.message : 'Invalid import file', 400);
+  }
+
+  const [headers = [], ...dataRows] = cells;
+  const columns = mapHeaders(headers);
+  const records = dataRows
+    .map((row, index) => ({ rowNumber: index + 2, row }))
+    .filter(({ row }) => row.some(cell => cell !== ''));
+
+  if (records.length === 0) {
+    throw new AppError('The import file has no product rows', 400);
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new AppError(`At most ${MAX_IMPORT_ROWS} products can be imported at once`, 400);
+  }
+
+  const rows = records.map(({ rowNumber, row }) => {
+    const fields: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      if (column) fields[column] = row[index] || '';
+    });
+    return { rowNumber, fields: normalizeFields(fields) };
+  });
+
+  const archiveIndex = archive ? indexArchive(archive.buffer) : null;
+  const existingCovers = await getExistingCovers(
+    supplierId,
+    rows.map(({ fields }) => fields.coverImage).filter(value => /^https?:\/\//i.test(value))
+  );
+
+  return rows.map(({ rowNumber, fields }) => {
+    const errors = validateProductFields(fields);
+    const { cover, error } = resolveCover(fields.coverImage, archiveIndex, existingCovers);
+    if (error) {
+      errors.push({ field: 'coverImage', message: error });
+    }
+    return { result: { row: rowNumber, title: fields.title || null, errors }, fields, cover };
+  });
+};
+
+/**
+ * Decode (dry run) or store (import) each image referenced from the ZIP, one at a time.
+ * Rows whose image cannot be decoded get an error.
+ * @returns Stored uploads by archive entry name; empty on a dry run
+ */
+const processArchiveImages = async (
+  rows: ParsedRow[],
+  archive: Buffer,
+  dryRun: boolean
+): Promise<Map<string, UploadResult>> => {
+  const uploads = new Map<string, UploadResult>();
+  const failed = new Set<string>();
+
+  for (const { cover } of rows) {
+    if (cover?.type !== 'archive' || uploads.has(cover.name) || failed.has(cover.name)) continue;
+
+    const data = readArchiveEntry(archive, cover.name);
+    try {
+      if (dryRun) {
+        await sharp(data).metadata();
+      } else {
+        uploads.set(cover.name, await storeImageVariants(data));
+      }
+    } catch (error) {
+      failed.add(cover.name);
+    }
+  }
+
+  for (const { result, cover } of rows) {
+    if (cover?.type === 'archive' && failed.has(cover.name)) {
+      result.errors.push({ field: 'coverImage', message: 'File is not a valid image' });
+    }
+  }
+
+  return uploads;
+};
+
+const removeUploads = (uploads: Map<string, UploadResult>): Promise<unknown> =>
+  Promise.all(Array.from(uploads.values()).map(upload => deleteImageWithVariants(upload.publicUrl, upload.variants)));
+
+const buildReport = (rows: ParsedRow[], dryRun: boolean): ImportReport => {
+  const invalid = rows.filter(({ result }) => result.errors.length > 0).length;
+  return {
+    dryRun,
+    total: rows.length,
+    valid: rows.length - invalid,
+    invalid,
+    created: rows.filter(({ result }) => result.productId).length,
+    rows: rows.map(({ result }) => result),
+  };
+};
+
+/**
+ * Import products from a CSV or XLSX file, with cover images from an optional ZIP.
+ * Each row follows the rules of POST /api/supplier/tours; coverImage names a file in the ZIP
+ * or is the cover image URL of one of the supplier's products.
+ * Nothing is created unless every row is valid; products are created as '草稿' in one transaction.
+ * @param supplierId - Owner of the new products
+ * @param sheet - Uploaded CSV or XLSX file
+ * @param archive - Uploaded ZIP of cover images, if any
+ * @returns Per-row report; check `invalid` to see whether anything was created
+ * @throws AppError (400) if the files cannot be read, lack required columns or have too many rows
+ */
+export const importProducts = async (
+  supplierId: string,
+  sheet: Express.Multer.File,
+  archive: Express.Multer.File | undefined,
+  options: ImportOptions
+): Promise<ImportReport> => {
+  const rows = await parseImportRows(supplierId, sheet, archive);
+  const hasErrors = () => rows.some(({ result }) => result.errors.length > 0);
+
+  // Images are only worth storing when every row is otherwise valid
+  if (!options.dryRun && hasErrors()) {
+    return buildReport(rows, false);
+  }
+
+  const uploads = archive ? await processArchiveImages(rows, archive.buffer, options.dryRun) : new Map<string, UploadResult>();
+  if (options.dryRun) {
+    return buildReport(rows, true);
+  }
+  if (hasErrors()) {
+    await removeUploads(uploads);
+    return buildReport(rows, false);
+  }
+
+  const productsData: CreateProductRequest[] = rows.map(({ fields, cover }) => {
+    const image = cover!.type === 'archive'
+      ? { url: uploads.get(cover!.name)!.publicUrl, variants: uploads.get(cover!.name)!.variants }
+      : { url: cover!.url, variants: cover!.variants };
+
+    return {
+      supplierId,
+      ...toProductFields(fields),
+      coverImageUrl: image.url,
+      coverImageVariants: image.variants || undefined,
+    };
+  });
+
+  try {
+    const products = await createProducts(productsData, '草稿');
+    products.forEach((product, index) => {
+      rows[index].result.productId = product.id;
+    });
+  } catch (error) {
+    await removeUploads(uploads);
+    throw error;
+  }
+
+  return buildReport(rows, false);
+};
@@ -0,0 +1,288 @@
+import pool from '../config/database';
+import { ValidationError, isValidDateString } from '../utils/validation';
+
+export type PaxType = 'adult' | 'child';
+
+export const PAX_TYPES: PaxType[] = ['adult', 'child'];
+
+export interface PriceRule {
+  id?: string;
+  /** Shown to agencies, e.g. "旺季" or "團體 10 人以上" */
+  label: string | null;
+  /** YYYY-MM-DD, inclusive; null leaves that end open */
+  startDate: string | null;
+  endDate: string | null;
+  /** Weekdays 0 (Sunday) to 6 (Saturday); null for every day */
+  daysOfWeek: number[] | null;
+  /** null for every pax type */
+  paxType: PaxType | null;
+  minGroupSize: number | null;
+  maxGroupSize: number | null;
+  price: number;
+}
+
+export interface ResolvedPrice {
+  productId: string;
+  date: string;
+  paxType: PaxType;
+  groupSize: number;
+  price: number;
+  /** Matching rule, or null when the base net price applies */
+  ruleId: string | null;
+  label: string | null;
+}
+
+export const MAX_PRICE_RULES = 50;
+export const MAX_PRICE_CALENDAR_DAYS = 62;
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const isOptionalGroupSize = (value: any): boolean =>
+  value === null || value === undefined || (Number.isInteger(value) && value >= 1);
+
+/**
+ * Validate the price rules a supplier submits for a product
+ * @returns Field-level errors (e.g. "rules[2].price"); empty when valid
+ */
+export const validatePriceRules = (rules: any): ValidationError[] => {
+  if (!Array.isArray(rules) || rules.length > MAX_PRICE_RULES) {
+    return [{ field: 'rules', message: `must be an array of at most ${MAX_PRICE_RULES} rules` }];
+  }
+
+  const errors: ValidationError[] = [];
+  rules.forEach((rule: any, index: number) => {
+    const path = `rules[${index}]`;
+    if (typeof rule !== 'object' || rule === null) {
+      errors.push({ field: path, message: 'must be an object' });
+      return;
+    }
+
+    if (typeof rule.price !== 'number' || !Number.isFinite(rule.price) || rule.price < 0) {
+      errors.push({ field: `${path}.price`, message: 'must be a non-negative number' });
+    }
+    if (rule.label !== undefined && rule.label !== null && (typeof rule.label !== 'string' || rule.label.length > 100)) {
+      errors.push({ field: `${path}.label`, message: 'must be a string of at most 100 characters' });
+    }
+    for (const field of ['startDate', 'endDate'] as const) {
+      if (rule[field] !== undefined && rule[field] !== null && !isValidDateString(rule[field])) {
+        errors.push({ field: `${path}.${field}`, message: 'must be YYYY-MM-DD or null' });
+      }
+    }
+    if (isValidDateString(rule.startDate) && isValidDateString(rule.endDate) && rule.endDate < rule.startDate) {
+      errors.push({ field: `${path}.endDate`, message: 'must not be before startDate' });
+    }
+    if (rule.daysOfWeek !== undefined && rule.daysOfWeek !== null
+      && (!Array.isArray(rule.daysOfWeek) || rule.daysOfWeek.length === 0 || rule.daysOfWeek.some((day: any) => !ALL_DAYS.includes(day)))) {
+      errors.push({ field: `${path}.daysOfWeek`, message: 'must be a non-empty array of weekdays 0-6 or null' });
+    }
+    if (rule.paxType !== undefined && rule.paxType !== null && !PAX_TYPES.includes(rule.paxType)) {
+      errors.push({ field: `${path}.paxType`, message: `must be one of ${PAX_TYPES.join(', ')} or null` });
+    }
+    for (const field of ['minGroupSize', 'maxGroupSize'] as const) {
+      if (!isOptionalGroupSize(rule[field])) {
+        errors.push({ field: `${path}.${field}`, message: 'must be a positive integer or null' });
+      }
+    }
+    if (Number.isInteger(rule.minGroupSize) && Number.isInteger(rule.maxGroupSize) && rule.maxGroupSize < rule.minGroupSize) {
+      errors.push({ field: `${path}.maxGroupSize`, message: 'must not be less than minGroupSize' });
+    }
+  });
+
+  return errors;
+};
+
+const matchesRule = (rule: PriceRule, date: string, weekday: number, paxType: PaxType, groupSize: number): boolean =>
+  (rule.startDate === null || rule.startDate <= date)
+  && (rule.endDate === null || date <= rule.endDate)
+  && (rule.daysOfWeek === null || rule.daysOfWeek.includes(weekday))
+  && (rule.paxType === null || rule.paxType === paxType)
+  && (rule.minGroupSize === null || groupSize >= rule.minGroupSize)
+  && (rule.maxGroupSize === null || groupSize <= rule.maxGroupSize);
+
+// Number of conditions a rule sets; a date range or group-size tier counts once
+const specificity = (rule: PriceRule): number =>
+  Number(rule.startDate !== null || rule.endDate !== null)
+  + Number(rule.daysOfWeek !== null)
+  + Number(rule.paxType !== null)
+  + Number(rule.minGroupSize !== null || rule.maxGroupSize !== null);
+
+/**
+ * Pick the rule that prices a booking.
+ * The matching rule with the most conditions wins, so "peak-season child" beats "peak season";
+ * ties go to the rule listed first.
+ * @param rules - Rules in supplier order
+ * @param date - YYYY-MM-DD
+ * @returns Matching rule, or null when the base price applies
+ */
+export const selectPriceRule = (
+  rules: PriceRule[],
+  date: string,
+  paxType: PaxType,
+  groupSize: number
+): PriceRule | null => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  let best: PriceRule | null = null;
+
+  for (const rule of rules) {
+    if (matchesRule(rule, date, weekday, paxType, groupSize) && (!best || specificity(rule) > specificity(best))) {
+      best = rule;
+    }
+  }
+
+  return best;
+};
+
+const mapRule = (row: any): PriceRule => ({
+  id: row.id,
+  label: row.label,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  daysOfWeek: row.days_of_week ? row.days_of_week.map(Number) : null,
+  paxType: row.pax_type,
+  minGroupSize: row.min_group_size,
+  maxGroupSize: row.max_group_size,
+  price: parseFloat(row.price),
+});
+
+/**
+ * @returns Price rules of a product in supplier order
+ */
+export const getPriceRules = async (productId: string): Promise<PriceRule[]> => {
+  const result = await pool.query(
+    `SELECT id, label, to_char(start_date, 'YYYY-MM-DD') as start_date, to_char(end_date, 'YYYY-MM-DD') as end_date,
+            days_of_week, pax_type, min_group_size, max_group_size, price
+     FROM product_price_rules
+     WHERE product_id = $1
+     ORDER BY sort_order`,
+    [productId]
+  );
+
+  return result.rows.map(mapRule);
+};
+
+/**
+ * Replace all price rules of a product
+ * @param rules - Rules that passed validatePriceRules, in the order they should be listed
+ * @returns Saved rules, or null if the product does not exist for this supplier
+ */
+export const replacePriceRules = async (
+  productId: string,
+  supplierId: string,
+  rules: PriceRule[]
+): Promise<PriceRule[] | null> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const product = await client.query(
+      `SELECT id FROM products
+       WHERE id = $1 AND supplier_id = $2 AND (is_deleted = FALSE OR is_deleted IS NULL)
+       FOR UPDATE`,
+      [productId, supplierId]
+    );
+
+    if (product.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    await client.query('DELETE FROM product_price_rules WHERE product_id = $1', [productId]);
+    for (const [index, rule] of rules.entries()) {
+      await client.query(
+        `INSERT INTO product_price_rules
+           (product_id, sort_order, label, start_date, end_date, days_of_week, pax_type, min_group_size, max_group_size, price)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          productId,
+          index,
+          rule.label || null,
+          rule.startDate || null,
+          rule.endDate || null,
+          rule.daysOfWeek ? Array.from(new Set(rule.daysOfWeek)).sort() : null,
+          rule.paxType || null,
+          rule.minGroupSize ?? null,
+          rule.maxGroupSize ?? null,
+          rule.price,
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  return getPriceRules(productId);
+};
+
+const getBasePrice = async (productId: string): Promise<number> => {
+  const result = await pool.query('SELECT net_price FROM products WHERE id = $1', [productId]);
+  if (result.rows.length === 0) {
+    throw new Error('Product not found');
+  }
+
+  return parseFloat(result.rows[0].net_price);
+};
+
+const toResolvedPrice = (
+  productId: string,
+  basePrice: number,
+  rule: PriceRule | null,
+  date: string,
+  paxType: PaxType,
+  groupSize: number
+): ResolvedPrice => ({
+  productId,
+  date,
+  paxType,
+  groupSize,
+  price: rule ? rule.price : basePrice,
+  ruleId: rule?.id ?? null,
+  label: rule?.label ?? null,
+});
+
+/**
+ * Resolve the per-person price of a product for one booking
+ * @param date - YYYY-MM-DD
+ * @param groupSize - Total travellers in the group, used for group-size tiers
+ * @returns Price from the best matching rule, or the product's net price
+ */
+export const resolvePrice = async (
+  productId: string,
+  date: string,
+  paxType: PaxType,
+  groupSize: number
+): Promise<ResolvedPrice> => {
+  const [basePrice, rules] = await Promise.all([getBasePrice(productId), getPriceRules(productId)]);
+  return toResolvedPrice(productId, basePrice, selectPriceRule(rules, date, paxType, groupSize), date, paxType, groupSize);
+};
+
+/**
+ * Resolve adult and child prices for every date in a range
+ * @param startDate - YYYY-MM-DD, inclusive
+ * @param endDate - YYYY-MM-DD, inclusive; at most MAX_PRICE_CALENDAR_DAYS after startDate
+ */
+export const getPriceCalendar = async (
+  productId: string,
+  startDate: string,
+  endDate: string,
+  groupSize: number
+): Promise<Array<{ date: string; prices: Record<PaxType, ResolvedPrice> }>> => {
+  const [basePrice, rules] = await Promise.all([getBasePrice(productId), getPriceRules(productId)]);
+
+  const calendar: Array<{ date: string; prices: Record<PaxType, ResolvedPrice> }> = [];
+  const current = new Date(`${startDate}T00:00:00Z`);
+  const last = new Date(`${endDate}T00:00:00Z`);
+  while (current <= last && calendar.length < MAX_PRICE_CALENDAR_DAYS) {
+    const date = current.toISOString().slice(0, 10);
+    const price = (paxType: PaxType) =>
+      toResolvedPrice(productId, basePrice, selectPriceRule(rules, date, paxType, groupSize), date, paxType, groupSize);
+    calendar.push({ date, prices: { adult: price('adult'), child: price('child') } });
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return calendar;
+};
@@ -0,0 +1,236 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+export type ProductRevisionChangeType = 'create' | 'update' | 'status';
+
+export interface ProductSnapshot {
+  title: string;
+  destination: string;
+  category: string;
+  description: string;
+  coverImageUrl: string;
+  netPrice: number;
+  hasShopping: boolean;
+  hasTicket: boolean;
+  ticketPrice: number | null;
+  duration: number;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  status: string;
+  rejectionReason: string | null;
+}
+
+export interface ProductRevision {
+  id: string;
+  productId: string;
+  revisionNumber: number;
+  changeType: ProductRevisionChangeType;
+  snapshot: ProductSnapshot;
+  changedFields: string[];
+  changedBy?: string;
+  changedByName?: string;
+  createdAt: Date;
+}
+
+export interface ProductFieldChange {
+  field: keyof ProductSnapshot;
+  before: any;
+  after: any;
+}
+
+export interface ProductRevisionDiff {
+  productId: string;
+  fromRevision: number;
+  toRevision: number;
+  changes: ProductFieldChange[];
+}
+
+/**
+ * Content fields compared between revisions. Status and rejection reason are
+ * kept in the snapshot for context but are review metadata, not content.
+ */
+export const DIFFABLE_PRODUCT_FIELDS: (keyof ProductSnapshot)[] = [
+  'title', 'destination', 'category', 'description', 'coverImageUrl',
+  'netPrice', 'hasShopping', 'hasTicket', 'ticketPrice', 'duration',
+  'address', 'latitude', 'longitude',
+];
+
+const toNumberOrNull = (value: any): number | null =>
+  value === null || value === undefined || value === '' ? null : parseFloat(value);
+
+/**
+ * Build a revision snapshot from a raw products table row
+ * @param row - Row selected from the products table (snake_case columns)
+ * @returns Snapshot of the product's editable state
+ */
+export function snapshotFromRow(row: any): ProductSnapshot {
+  return {
+    title: row.title,
+    destination: row.destination,
+    category: row.category,
+    description: row.description,
+    coverImageUrl: row.cover_image_url,
+    netPrice: parseFloat(row.net_price),
+    hasShopping: !!row.has_shopping,
+    hasTicket: !!row.has_ticket,
+    ticketPrice: toNumberOrNull(row.ticket_price),
+    duration: parseFloat(row.duration),
+    address: row.address ?? null,
+    latitude: toNumberOrNull(row.latitude),
+    longitude: toNumberOrNull(row.longitude),
+    status: row.status,
+    rejectionReason: row.rejection_reason ?? null,
+  };
+}
+
+/**
+ * Compare two snapshots field by field
+ * @param before - Older snapshot (null when diffing against nothing)
+ * @param after - Newer snapshot
+ * @returns Changed content fields with their before/after values
+ */
+export function diffProductSnapshots(
+  before: ProductSnapshot | null,
+  after: ProductSnapshot
+): ProductFieldChange[] {
+  const changes: ProductFieldChange[] = [];
+
+  for (const field of DIFFABLE_PRODUCT_FIELDS) {
+    const beforeValue = before ? before[field] ?? null : null;
+    const afterValue = after[field] ?? null;
+
+    if (beforeValue !== afterValue) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  }
+
+  return changes;
+}
+
+const mapRowToRevision = (row: any): ProductRevision => ({
+  id: row.id,
+  productId: row.product_id,
+  revisionNumber: row.revision_number,
+  changeType: row.change_type,
+  snapshot: row.snapshot,
+  changedFields: row.changed_fields || [],
+  changedBy: row.changed_by || undefined,
+  changedByName: row.changed_by_name || undefined,
+  createdAt: row.created_at,
+});
+
+/**
+ * Append a revision for a product
+ * @param db - Pool or transaction client to write with
+ * @param productRow - Raw products row holding the state to snapshot
+ * @param changeType - What produced this revision
+ * @param changedBy - User responsible for the change
+ * @returns Created revision
+ */
+export async function recordProductRevision(
+  db: Queryable,
+  productRow: any,
+  changeType: ProductRevisionChangeType,
+  changedBy?: string
+): Promise<ProductRevision> {
+  const snapshot = snapshotFromRow(productRow);
+
+  const previous = await db.query(
+    `SELECT revision_number, snapshot FROM product_revisions
+     WHERE product_id = $1
+     ORDER BY revision_number DESC
+     LIMIT 1`,
+    [productRow.id]
+  );
+
+  const previousRevision = previous.rows[0];
+  const revisionNumber = previousRevision ? previousRevision.revision_number + 1 : 1;
+  const changedFields = diffProductSnapshots(previousRevision ? previousRevision.snapshot : null, snapshot)
+    .map(change => change.field);
+
+  const result = await db.query(
+    `INSERT INTO product_revisions (product_id, revision_number, change_type, snapshot, changed_fields, changed_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [productRow.id, revisionNumber, changeType, JSON.stringify(snapshot), changedFields, changedBy || null]
+  );
+
+  return mapRowToRevision(result.rows[0]);
+}
+
+/**
+ * Record the current state as revision 1 for products created before
+ * revision tracking existed, so their first update still has a "before".
+ * @param db - Pool or transaction client to write with
+ * @param productRow - Raw products row holding the pre-update state
+ */
+export async function ensureBaselineRevision(db: Queryable, productRow: any): Promise<void> {
+  const existing = await db.query(
+    'SELECT 1 FROM product_revisions WHERE product_id = $1 LIMIT 1',
+    [productRow.id]
+  );
+
+  if (existing.rows.length === 0) {
+    await recordProductRevision(db, productRow, 'create');
+  }
+}
+
+/**
+ * Get all revisions of a product, newest first
+ * @param productId - Product ID
+ * @returns Revisions with the name of the user who made each change
+ */
+export async function getProductRevisions(productId: string): Promise<ProductRevision[]> {
+  const result = await pool.query(
+    `SELECT r.*, u.name as changed_by_name
+     FROM product_revisions r
+     LEFT JOIN users u ON r.changed_by = u.id
+     WHERE r.product_id = $1
+     ORDER BY r.revision_number DESC`,
+    [productId]
+  );
+
+  return result.rows.map(mapRowToRevision);
+}
+
+/**
+ * Diff a revision against an earlier one
+ * @param productId - Product ID
+ * @param revisionNumber - Revision to inspect
+ * @param againstRevision - Revision to compare with (defaults to the one before)
+ * @returns Changed fields between the two revisions
+ * @throws Error if either revision does not exist
+ */
+export async function getProductRevisionDiff(
+  productId: string,
+  revisionNumber: number,
+  againstRevision?: number
+): Promise<ProductRevisionDiff> {
+  const baseRevision = againstRevision ?? revisionNumber - 1;
+
+  const result = await pool.query(
+    `SELECT revision_number, snapshot FROM product_revisions
+     WHERE product_id = $1 AND revision_number = ANY($2)`,
+    [productId, [revisionNumber, baseRevision]]
+  );
+
+  const target = result.rows.find(row => row.revision_number === revisionNumber);
+  if (!target) {
+    throw new Error('Revision not found');
+  }
+
+  const base = result.rows.find(row => row.revision_number === baseRevision);
+  if (!base && baseRevision >= 1) {
+    throw new Error('Revision not found');
+  }
+
+  return {
+    productId,
+    fromRevision: base ? baseRevision : 0,
+    toRevision: revisionNumber,
+    changes: diffProductSnapshots(base ? base.snapshot : null, target.snapshot),
+  };
+}
@@ -1,4 +1,15 @@
+import { PoolClient } from 'pg';
 import pool from '../config/database';
+import { recordProductRevision, ensureBaselineRevision } from './productRevisionService';
+import { detectProductDuplicates } from './productDuplicateService';
+import { stripHtml } from '../utils/html';
+import { toCoverImage, CoverImage, ImageVariantUrls } from './imageProcessingService';
+import { parseSearchQuery, toLikePattern, highlightTerms, buildSnippet } from '../utils/search';
+import {
+  LatLng, BoundingBox, DEFAULT_SEARCH_RADIUS_KM, boundingBoxAround, boundingBoxCenter,
+} from '../utils/geo';
+import { paginate, Page, PageRequest } from '../utils/pagination';
+import { AppError } from '../middleware/errorHandler';
 
 export interface CreateProductRequest {
   supplierId: string;
@@ -7,6 +18,7 @@ export interface CreateProductRequest {
   category: string;
   description: string;
   coverImageUrl: string;
+  coverImageVariants?: ImageVariantUrls;
   netPrice: number;
   hasShopping: boolean;
   hasTicket: boolean;
@@ -23,6 +35,7 @@ export interface UpdateProductRequest {
   category?: string;
   description?: string;
   coverImageUrl?: string;
+  coverImageVariants?: ImageVariantUrls;
   netPrice?: number;
   hasShopping?: boolean;
   hasTicket?: boolean;
@@ -43,6 +56,8 @@ export interface Product {
   category: string;
   description: string;
   coverImageUrl: string;
+  /** Resized variants of the cover image */
+  coverImage: CoverImage | null;
   netPrice: number;
   hasShopping: boolean;
   hasTicket: boolean;
@@ -59,49 +74,145 @@ export interface Product {
 
 export interface ProductWithSupplier extends Product {
   supplierName: string;
+  /** Set when an admin linked this product as a duplicate; such products are hidden from agencies */
+  duplicateOfId?: string;
 }
 
 export interface ProductFilters {
   destination?: string;
   category?: string;
+  supplierId?: string;
+  /** Free-text query; whitespace-separated terms must all match */
+  q?: string;
+  /** Only products within radiusKm of this point, nearest first */
+  near?: LatLng;
+  /** Defaults to DEFAULT_SEARCH_RADIUS_KM; ignored when bbox is given */
+  radiusKm?: number;
+  /** Only products inside this box, nearest to `near` (or the box centre) first */
+  bbox?: BoundingBox;
 }
 
 /**
- * Create a new product with supplier association
- * @param productData - Product data
- * @param status - Initial status (defaults to '草稿')
- * @returns Created product
+ * Filters of the supplier and admin product lists
  */
-export async function createProduct(
-  productData: CreateProductRequest,
-  status: ProductStatus = '草稿'
-): Promise<Product> {
+export interface ProductListFilters {
+  /** Exact destination, as picked in the supplier FilterBar */
+  destination?: string;
+  /** Case-insensitive part of the destination, as typed on the admin tours page */
+  destinationQuery?: string;
+  /** Case-insensitive part of the supplier name */
+  supplierQuery?: string;
+  category?: string;
+  status?: ProductStatus;
+}
+
+/**
+ * Sort keys of the supplier product list
+ */
+export const PRODUCT_SORT_COLUMNS = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  title: 'title',
+  destination: 'destination',
+  category: 'category',
+  status: 'status',
+  netPrice: 'net_price',
+};
+
+/**
+ * Sort keys of the admin product list
+ */
+export const ADMIN_PRODUCT_SORT_COLUMNS = {
+  ...PRODUCT_SORT_COLUMNS,
+  supplierName: 'supplier_name',
+};
+
+/**
+ * Sort keys of the agency product list. `relevance` needs a `q` search and `distance` a location filter.
+ */
+export const PUBLISHED_PRODUCT_SORT_COLUMNS = {
+  createdAt: 'created_at',
+  title: 'title',
+  netPrice: 'net_price',
+  // Older products may have no duration
+  duration: 'COALESCE(duration, 0)',
+  relevance: ['search_rank', 'created_at'],
+  distance: 'distance_km',
+};
+
+export interface PublishedProduct extends ProductWithSupplier {
+  /** Present only when searching with `q` */
+  searchRank?: number;
+  /** HTML-escaped text with matches wrapped in <mark>, present only when searching */
+  highlights?: {
+    title: string;
+    snippet?: string;
+  };
+  /** Kilometres from `near` (or the bounding box centre), present only for location queries */
+  distanceKm?: number;
+}
+
+// Must stay identical to the expression behind the products.search_grams column
+const productSearchDocument = (alias: string): string =>
+  `(COALESCE(${alias}.title, '') || ' ' || COALESCE(${alias}.description, '') || ' ' || COALESCE(${alias}.address, ''))`;
+
+/**
+ * Condition matching products whose text or supplier name contains a search term.
+ * Each side narrows by the GIN-indexed character grams first and confirms the substring with ILIKE;
+ * a UNION of the two keeps the supplier match from turning the search into a scan of the join.
+ * @param term - Parameter holding the search term
+ * @param pattern - Parameter holding the term as an ILIKE pattern
+ */
+const productSearchCondition = (term: string, pattern: string): string =>
+  `p.id IN (
+     SELECT sp.id FROM products sp
+     WHERE sp.search_grams @> search_grams(${term}) AND ${productSearchDocument('sp')} ILIKE ${pattern}
+     UNION
+     SELECT sp.id FROM products sp
+     JOIN users su ON sp.supplier_id = su.id
+     WHERE su.name_search_grams @> search_grams(${term}) AND su.name ILIKE ${pattern}
+   )`;
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+/**
+ * Insert a product row, record its 'create' revision and flag likely duplicates
+ * @returns Raw products row
+ */
+async function insertProduct(db: Queryable, productData: CreateProductRequest, status: ProductStatus): Promise<any> {
   const {
     supplierId, title, destination, category, description,
-    coverImageUrl, netPrice, hasShopping, hasTicket, ticketPrice, duration,
+    coverImageUrl, coverImageVariants, netPrice, hasShopping, hasTicket, ticketPrice, duration,
     address, latitude, longitude
   } = productData;
 
-  const result = await pool.query(
+  const result = await db.query(
     `INSERT INTO products (
        supplier_id, title, destination, category, description, 
-       cover_image_url, net_price, has_shopping, has_ticket, 
+       cover_image_url, cover_image_variants, net_price, has_shopping, has_ticket, 
        ticket_price, duration, status, address, latitude, longitude
      )
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
      RETURNING id, supplier_id, title, destination, category, description, 
-               cover_image_url, net_price, has_shopping, has_ticket, 
+               cover_image_url, cover_image_variants, net_price, has_shopping, has_ticket, 
                ticket_price, duration, status, rejection_reason, created_at, updated_at,
                address, latitude, longitude`,
     [
       supplierId, title, destination, category, description,
-      coverImageUrl, netPrice, hasShopping, hasTicket,
+      coverImageUrl, coverImageVariants ? JSON.stringify(coverImageVariants) : null, netPrice, hasShopping, hasTicket,
       ticketPrice || null, duration, status, address || null, latitude || null, longitude || null
     ]
   );
 
   const product = result.rows[0];
 
+  await recordProductRevision(db, product, 'create', supplierId);
+  await detectProductDuplicates(db, product);
+
+  return product;
+}
+
+function mapCreatedProduct(product: any): Product {
   return {
     id: product.id,
     supplierId: product.supplier_id,
@@ -110,6 +221,7 @@ export async function createProduct(
     category: product.category,
     description: product.description,
     coverImageUrl: product.cover_image_url,
+    coverImage: toCoverImage(product.cover_image_url, product.cover_image_variants),
     netPrice: parseFloat(product.net_price),
     hasShopping: product.has_shopping,
     hasTicket: product.has_ticket,
@@ -125,7 +237,63 @@ export async function createProduct(
 }
 
 /**
- * Update an existing product with ownership validation (excluding soft-deleted products)
+ * Create a new product with supplier association, together with its first revision
+ * @param productData - Product data
+ * @param status - Initial status (defaults to '草稿')
+ * @returns Created product
+ */
+export async function createProduct(
+  productData: CreateProductRequest,
+  status: ProductStatus = '草稿'
+): Promise<Product> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const product = await insertProduct(client, productData, status);
+
+    await client.query('COMMIT');
+    return mapCreatedProduct(product);
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Create several products in one transaction: either all of them are created or none
+ * @param productsData - Product data, inserted in order
+ * @param status - Initial status (defaults to '草稿')
+ * @returns Created products, in the same order
+ */
+export async function createProducts(
+  productsData: CreateProductRequest[],
+  status: ProductStatus = '草稿'
+): Promise<Product[]> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const products: Product[] = [];
+    for (const productData of productsData) {
+      products.push(mapCreatedProduct(await insertProduct(client, productData, status)));
+    }
+
+    await client.query('COMMIT');
+    return products;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Update an existing product with ownership validation (excluding soft-deleted products).
+ * Every update is snapshotted into product_revisions in the same transaction.
  * @param id - Product ID
  * @param supplierId - Supplier ID for ownership validation
  * @param productData - Updated product data
@@ -137,16 +305,71 @@ export async function updateProduct(
   supplierId: string,
   productData: UpdateProductRequest
 ): Promise<Product> {
-  // First verify ownership and that product is not soft-deleted
-  const ownershipCheck = await pool.query(
-    'SELECT id FROM products WHERE id = $1 AND supplier_id = $2 AND (is_deleted = FALSE OR is_deleted IS NULL)',
-    [id, supplierId]
-  );
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
 
-  if (ownershipCheck.rows.length === 0) {
-    throw new Error('Product not found or access denied');
+    // First verify ownership and that product is not soft-deleted
+    const ownershipCheck = await client.query(
+      'SELECT * FROM products WHERE id = $1 AND supplier_id = $2 AND (is_deleted = FALSE OR is_deleted IS NULL) FOR UPDATE',
+      [id, supplierId]
+    );
+
+    if (ownershipCheck.rows.length === 0) {
+      throw new Error('Product not found or access denied');
+    }
+
+    // Products created before revision tracking need their current state kept as the baseline
+    await ensureBaselineRevision(client, ownershipCheck.rows[0]);
+
+    const product = await applyProductUpdate(client, id, productData);
+    await recordProductRevision(client, product, 'update', supplierId);
+    await detectProductDuplicates(client, product);
+
+    await client.query('COMMIT');
+
+    return {
+      id: product.id,
+      supplierId: product.supplier_id,
+      title: product.title,
+      destination: product.destination,
+      category: product.category,
+      description: product.description,
+      coverImageUrl: product.cover_image_url,
+      coverImage: toCoverImage(product.cover_image_url, product.cover_image_variants),
+      netPrice: parseFloat(product.net_price),
+      hasShopping: product.has_shopping,
+      hasTicket: product.has_ticket,
+      ticketPrice: product.ticket_price ? parseFloat(product.ticket_price) : undefined,
+      duration: parseFloat(product.duration),
+      address: product.address,
+      latitude: product.latitude ? parseFloat(product.latitude) : undefined,
+      longitude: product.longitude ? parseFloat(product.longitude) : undefined,
+      status: product.status,
+      rejectionReason: product.rejection_reason,
+      createdAt: product.created_at,
+      updatedAt: product.updated_at,
+    };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
   }
+}
 
+/**
+ * Write the changed columns of a product
+ * @param client - Transaction client
+ * @param id - Product ID
+ * @param productData - Updated product data
+ * @returns Raw updated products row
+ */
+async function applyProductUpdate(
+  client: PoolClient,
+  id: string,
+  productData: UpdateProductRequest
+): Promise<any> {
   // Build dynamic update query
   const updates: string[] = [];
   const values: any[] = [];
@@ -171,6 +394,9 @@ export async function updateProduct(
   if (productData.coverImageUrl !== undefined) {
     updates.push(`cover_image_url = $${paramCount++}`);
     values.push(productData.coverImageUrl);
+    // A new cover replaces the old variants; without variants the original URL is used for all sizes
+    updates.push(`cover_image_variants = $${paramCount++}`);
+    values.push(productData.coverImageVariants ? JSON.stringify(productData.coverImageVariants) : null);
   }
   if (productData.netPrice !== undefined) {
     updates.push(`net_price = $${paramCount++}`);
@@ -208,177 +434,308 @@ export async function updateProduct(
   updates.push(`updated_at = CURRENT_TIMESTAMP`);
   values.push(id);
 
-  const result = await pool.query(
+  const result = await client.query(
     `UPDATE products
      SET ${updates.join(', ')}
      WHERE id = $${paramCount}
      RETURNING id, supplier_id, title, destination, category, description, 
-               cover_image_url, net_price, has_shopping, has_ticket, 
+               cover_image_url, cover_image_variants, net_price, has_shopping, has_ticket, 
                ticket_price, duration, status, rejection_reason, created_at, updated_at,
                address, latitude, longitude`,
     values
   );
 
-  const product = result.rows[0];
-
-  return {
-    id: product.id,
-    supplierId: product.supplier_id,
-    title: product.title,
-    destination: product.destination,
-    category: product.category,
-    description: product.description,
-    coverImageUrl: product.cover_image_url,
-    netPrice: parseFloat(product.net_price),
-    hasShopping: product.has_shopping,
-    hasTicket: product.has_ticket,
-    ticketPrice: product.ticket_price ? parseFloat(product.ticket_price) : undefined,
-    duration: parseFloat(product.duration),
-    address: product.address,
-    latitude: product.latitude ? parseFloat(product.latitude) : undefined,
-    longitude: product.longitude ? parseFloat(product.longitude) : undefined,
-    status: product.status,
-    rejectionReason: product.rejection_reason,
-    createdAt: product.created_at,
-    updatedAt: product.updated_at,
-  };
+  return result.rows[0];
 }
 
 /**
- * Get all products for a specific supplier (excluding soft-deleted products)
- * @param supplierId - Supplier ID
- * @returns Array of products owned by the supplier
+ * WHERE conditions for ProductListFilters on `products p` (joined with `users u` for supplierQuery)
+ * @param values - Query parameters; filter values are appended
  */
-export async function getProductsBySupplier(supplierId: string): Promise<Product[]> {
-  const result = await pool.query(
-    `SELECT id, supplier_id, title, destination, category, description, 
-            cover_image_url, net_price, has_shopping, has_ticket, 
-            ticket_price, duration, status, rejection_reason, created_at, updated_at,
-            address, latitude, longitude
-     FROM products
-     WHERE supplier_id = $1 AND (is_deleted = FALSE OR is_deleted IS NULL)
-     ORDER BY created_at DESC`,
-    [supplierId]
-  );
+export function productListConditions(filters: ProductListFilters, values: any[]): string[] {
+  const conditions: string[] = [];
 
-  return result.rows.map((row) => ({
-    id: row.id,
-    supplierId: row.supplier_id,
-    title: row.title,
-    destination: row.destination,
-    category: row.category,
-    description: row.description,
-    coverImageUrl: row.cover_image_url,
-    netPrice: parseFloat(row.net_price),
-    hasShopping: row.has_shopping,
-    hasTicket: row.has_ticket,
-    ticketPrice: row.ticket_price ? parseFloat(row.ticket_price) : undefined,
-    duration: parseFloat(row.duration),
-    address: row.address,
-    latitude: row.latitude ? parseFloat(row.latitude) : undefined,
-    longitude: row.longitude ? parseFloat(row.longitude) : undefined,
-    status: row.status,
-    rejectionReason: row.rejection_reason,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  }));
+  if (filters.destination) {
+    values.push(filters.destination);
+    conditions.push(`p.destination = $${values.length}`);
+  }
+  if (filters.destinationQuery) {
+    values.push(toLikePattern(filters.destinationQuery));
+    conditions.push(`p.destination ILIKE $${values.length}`);
+  }
+  if (filters.supplierQuery) {
+    values.push(toLikePattern(filters.supplierQuery));
+    conditions.push(`u.name ILIKE $${values.length}`);
+  }
+  if (filters.category) {
+    values.push(filters.category);
+    conditions.push(`p.category = $${values.length}`);
+  }
+  if (filters.status) {
+    values.push(filters.status);
+    conditions.push(`p.status = $${values.length}`);
+  }
+
+  return conditions;
 }
 
 /**
- * Get all products for admin view with supplier information (excluding soft-deleted products)
- * @returns Array of all products with supplier names
+ * Get a page of a supplier's products (excluding soft-deleted products)
+ * @param supplierId - Supplier ID
+ * @param filters - Destination, category and status filters
+ * @param page - Page request; sort keys are those of PRODUCT_SORT_COLUMNS
+ * @returns Page of products owned by the supplier
  */
-export async function getAllProducts(): Promise<ProductWithSupplier[]> {
-  const result = await pool.query(
-    `SELECT p.id, p.supplier_id, p.title, p.destination, p.category, p.description, 
-            p.cover_image_url, p.net_price, p.has_shopping, p.has_ticket, 
-            p.ticket_price, p.duration, p.status, p.created_at, p.updated_at,
-            p.address, p.latitude, p.longitude,
-            u.name as supplier_name
-     FROM products p
-     JOIN users u ON p.supplier_id = u.id
-     WHERE (p.is_deleted = FALSE OR p.is_deleted IS NULL) AND p.status != '草稿'
-     ORDER BY p.created_at DESC`
-  );
+export async function getProductsBySupplier(
+  supplierId: string,
+  filters: ProductListFilters,
+  page: PageRequest
+): Promise<Page<Product>> {
+  const values: any[] = [supplierId];
+  const conditions = [
+    'p.supplier_id = $1',
+    '(p.is_deleted = FALSE OR p.is_deleted IS NULL)',
+    ...productListConditions(filters, values),
+  ];
+
+  return paginate(pool, {
+    query: `SELECT p.id, p.supplier_id, p.title, p.destination, p.category, p.description, 
+                   p.cover_image_url, p.cover_image_variants, p.net_price, p.has_shopping, p.has_ticket, 
+                   p.ticket_price, p.duration, p.status, p.rejection_reason, p.created_at, p.updated_at,
+                   p.address, p.latitude, p.longitude
+            FROM products p
+            WHERE ${conditions.join(' AND ')}`,
+    values,
+    sortColumns: PRODUCT_SORT_COLUMNS,
+    page,
+    mapRow: (row): Product => ({
+      id: row.id,
+      supplierId: row.supplier_id,
+      title: row.title,
+      destination: row.destination,
+      category: row.category,
+      description: row.description,
+      coverImageUrl: row.cover_image_url,
+      coverImage: toCoverImage(row.cover_image_url, row.cover_image_variants),
+      netPrice: parseFloat(row.net_price),
+      hasShopping: row.has_shopping,
+      hasTicket: row.has_ticket,
+      ticketPrice: row.ticket_price ? parseFloat(row.ticket_price) : undefined,
+      duration: parseFloat(row.duration),
+      address: row.address,
+      latitude: row.latitude ? parseFloat(row.latitude) : undefined,
+      longitude: row.longitude ? parseFloat(row.longitude) : undefined,
+      status: row.status,
+      rejectionReason: row.rejection_reason,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }),
+  });
+}
 
-  return result.rows.map((row) => ({
-    id: row.id,
-    supplierId: row.supplier_id,
-    title: row.title,
-    destination: row.destination,
-    category: row.category,
-    description: row.description,
-    coverImageUrl: row.cover_image_url,
-    netPrice: parseFloat(row.net_price),
-    hasShopping: row.has_shopping,
-    hasTicket: row.has_ticket,
-    ticketPrice: row.ticket_price ? parseFloat(row.ticket_price) : undefined,
-    duration: parseFloat(row.duration),
-    address: row.address,
-    latitude: row.latitude ? parseFloat(row.latitude) : undefined,
-    longitude: row.longitude ? parseFloat(row.longitude) : undefined,
-    status: row.status,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-    supplierName: row.supplier_name,
-  }));
+/**
+ * Get a page of submitted products with supplier information for the admin view
+ * (excluding drafts and soft-deleted products)
+ * @param filters - Supplier, destination, category and status filters
+ * @param page - Page request; sort keys are those of ADMIN_PRODUCT_SORT_COLUMNS
+ * @returns Page of products with supplier names
+ */
+export async function getAllProducts(
+  filters: ProductListFilters,
+  page: PageRequest
+): Promise<Page<ProductWithSupplier>> {
+  const values: any[] = [];
+  const conditions = [
+    '(p.is_deleted = FALSE OR p.is_deleted IS NULL)',
+    `p.status != '草稿'`,
+    ...productListConditions(filters, values),
+  ];
+
+  return paginate(pool, {
+    query: `SELECT p.id, p.supplier_id, p.title, p.destination, p.category, p.description, 
+                   p.cover_image_url, p.cover_image_variants, p.net_price, p.has_shopping, p.has_ticket, 
+                   p.ticket_price, p.duration, p.status, p.created_at, p.updated_at,
+                   p.address, p.latitude, p.longitude,
+                   u.name as supplier_name
+            FROM products p
+            JOIN users u ON p.supplier_id = u.id
+            WHERE ${conditions.join(' AND ')}`,
+    values,
+    sortColumns: ADMIN_PRODUCT_SORT_COLUMNS,
+    page,
+    mapRow: (row): ProductWithSupplier => ({
+      id: row.id,
+      supplierId: row.supplier_id,
+      title: row.title,
+      destination: row.destination,
+      category: row.category,
+      description: row.description,
+      coverImageUrl: row.cover_image_url,
+      coverImage: toCoverImage(row.cover_image_url, row.cover_image_variants),
+      netPrice: parseFloat(row.net_price),
+      hasShopping: row.has_shopping,
+      hasTicket: row.has_ticket,
+      ticketPrice: row.ticket_price ? parseFloat(row.ticket_price) : undefined,
+      duration: parseFloat(row.duration),
+      address: row.address,
+      latitude: row.latitude ? parseFloat(row.latitude) : undefined,
+      longitude: row.longitude ? parseFloat(row.longitude) : undefined,
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      supplierName: row.supplier_name,
+    }),
+  });
 }
 
 /**
- * Get published products with optional filtering for agency view (excluding soft-deleted products)
- * @param filters - Optional filters for destination and duration
- * @returns Array of published products with supplier names
+ * Great-circle distance in km from the point in parameters $lat/$lng to a product (haversine formula, as in utils/geo)
  */
-export async function getPublishedProducts(filters?: ProductFilters): Promise<ProductWithSupplier[]> {
-  let query = `
-    SELECT p.id, p.supplier_id, p.title, p.destination, p.category, p.description, 
-           p.cover_image_url, p.net_price, p.has_shopping, p.has_ticket, 
-           p.ticket_price, p.duration, p.status, p.rejection_reason, p.created_at, p.updated_at,
-           p.address, p.latitude, p.longitude,
-           u.name as supplier_name
-    FROM products p
-    JOIN users u ON p.supplier_id = u.id
-    WHERE p.status = '已發佈' AND (p.is_deleted = FALSE OR p.is_deleted IS NULL)
-  `;
+const distanceKmSql = (lat: string, lng: string): string =>
+  `(2 * 6371 * ASIN(LEAST(1, SQRT(
+     POWER(SIN(RADIANS(p.latitude::float8 - ${lat}::float8) / 2), 2)
+     + COS(RADIANS(${lat}::float8)) * COS(RADIANS(p.latitude::float8))
+       * POWER(SIN(RADIANS(p.longitude::float8 - ${lng}::float8) / 2), 2)
+   ))))`;
 
+/**
+ * Get a page of published products with optional filtering for agency view (excluding soft-deleted products)
+ * When `q` is given, products can be sorted by `relevance`: where the terms matched (title first,
+ * then supplier name, address and description); results carry highlighted snippets.
+ * Location queries (`near` or `bbox`) skip products without coordinates, carry `distanceKm`
+ * and can be sorted by `distance`.
+ * @param filters - Optional filters for destination, category, supplier, free-text query and location
+ * @param page - Page request; sort keys are those of PUBLISHED_PRODUCT_SORT_COLUMNS
+ * @returns Page of published products with supplier names
+ * @throws AppError (400) if sorting by relevance without `q` or by distance without a location
+ */
+export async function getPublishedProducts(filters: ProductFilters, page: PageRequest): Promise<Page<PublishedProduct>> {
+  // Products linked as duplicates are listed once, under the product they duplicate
+  const conditions = [
+    `p.status = '已發佈'`,
+    `(p.is_deleted = FALSE OR p.is_deleted IS NULL)`,
+    'p.duplicate_of_id IS NULL',
+  ];
   const values: any[] = [];
   let paramCount = 1;
 
-  if (filters?.destination) {
-    query += ` AND p.destination = $${paramCount++}`;
+  if (filters.destination) {
+    conditions.push(`p.destination = $${paramCount++}`);
     values.push(filters.destination);
   }
 
-  if (filters?.category) {
-    query += ` AND p.category = $${paramCount++}`;
+  if (filters.category) {
+    conditions.push(`p.category = $${paramCount++}`);
     values.push(filters.category);
   }
 
-  query += ` ORDER BY p.created_at DESC`;
+  if (filters.supplierId) {
+    conditions.push(`p.supplier_id = $${paramCount++}`);
+    values.push(filters.supplierId);
+  }
 
-  const result = await pool.query(query, values);
+  const terms = parseSearchQuery(filters.q);
+  let rankSelect = '';
+
+  if (terms.length > 0) {
+    const rankParts: string[] = [];
+
+    for (const term of terms) {
+      const [termParam, param] = [`$${paramCount++}`, `$${paramCount++}`];
+      values.push(term, toLikePattern(term));
+      conditions.push(productSearchCondition(termParam, param));
+      rankParts.push(
+        `(CASE WHEN p.title ILIKE ${param} THEN 4 ELSE 0 END)
+         + (CASE WHEN u.name ILIKE ${param} THEN 2 ELSE 0 END)
+         + (CASE WHEN p.address ILIKE ${param} THEN 1 ELSE 0 END)
+         + (CASE WHEN p.description ILIKE ${param} THEN 1 ELSE 0 END)`
+      );
+    }
 
-  return result.rows.map((row) => ({
-    id: row.id,
-    supplierId: row.supplier_id,
-    title: row.title,
-    destination: row.destination,
-    category: row.category,
-    description: row.description,
-    coverImageUrl: row.cover_image_url,
-    netPrice: parseFloat(row.net_price),
-    hasShopping: row.has_shopping,
-    hasTicket: row.has_ticket,
-    ticketPrice: row.ticket_price ? parseFloat(row.ticket_price) : undefined,
-    duration: parseFloat(row.duration),
-    address: row.address,
-    latitude: row.latitude ? parseFloat(row.latitude) : undefined,
-    longitude: row.longitude ? parseFloat(row.longitude) : undefined,
-    status: row.status,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-    supplierName: row.supplier_name,
-  }));
+    // Gram overlap with the whole query breaks ties in favour of closer titles
+    values.push(terms.join(' '));
+    rankSelect = `, (${rankParts.join(' + ')} + search_gram_similarity(p.title, $${paramCount++})) as search_rank`;
+  } else if (page.sort === 'relevance') {
+    throw new AppError('sort=relevance requires q', 400);
+  }
+
+  // Location queries prefilter on the lat/lng box, then on the exact distance for radius queries
+  const area = filters.bbox
+    ?? (filters.near && boundingBoxAround(filters.near, filters.radiusKm ?? DEFAULT_SEARCH_RADIUS_KM));
+  const origin = filters.near ?? (filters.bbox && boundingBoxCenter(filters.bbox));
+  let distanceSelect = '';
+
+  if (area && origin) {
+    const [minLat, maxLat, minLng, maxLng] = [paramCount++, paramCount++, paramCount++, paramCount++];
+    values.push(area.minLat, area.maxLat, area.minLng, area.maxLng);
+    conditions.push(`p.latitude BETWEEN $${minLat} AND $${maxLat}`);
+    conditions.push(
+      area.minLng <= area.maxLng
+        ? `p.longitude BETWEEN $${minLng} AND $${maxLng}`
+        : `(p.longitude >= $${minLng} OR p.longitude <= $${maxLng})`
+    );
+
+    const [lat, lng] = [paramCount++, paramCount++];
+    values.push(origin.lat, origin.lng);
+    const distance = distanceKmSql(`$${lat}`, `$${lng}`);
+    distanceSelect = `, ${distance} as distance_km`;
+
+    // The box corners lie outside the circle, so radius queries drop those products here
+    if (!filters.bbox) {
+      values.push(filters.radiusKm ?? DEFAULT_SEARCH_RADIUS_KM);
+      conditions.push(`${distance} <= $${paramCount++}`);
+    }
+  } else if (page.sort === 'distance') {
+    throw new AppError('sort=distance requires near or bbox', 400);
+  }
+
+  return paginate(pool, {
+    query: `SELECT p.id, p.supplier_id, p.title, p.destination, p.category, p.description, 
+                   p.cover_image_url, p.cover_image_variants, p.net_price, p.has_shopping, p.has_ticket, 
+                   p.ticket_price, p.duration, p.status, p.rejection_reason, p.created_at, p.updated_at,
+                   p.address, p.latitude, p.longitude,
+                   u.name as supplier_name${rankSelect}${distanceSelect}
+            FROM products p
+            JOIN users u ON p.supplier_id = u.id
+            WHERE ${conditions.join(' AND ')}`,
+    values,
+    sortColumns: PUBLISHED_PRODUCT_SORT_COLUMNS,
+    page,
+    mapRow: (row): PublishedProduct => ({
+      id: row.id,
+      supplierId: row.supplier_id,
+      title: row.title,
+      destination: row.destination,
+      category: row.category,
+      description: row.description,
+      coverImageUrl: row.cover_image_url,
+      coverImage: toCoverImage(row.cover_image_url, row.cover_image_variants),
+      netPrice: parseFloat(row.net_price),
+      hasShopping: row.has_shopping,
+      hasTicket: row.has_ticket,
+      ticketPrice: row.ticket_price ? parseFloat(row.ticket_price) : undefined,
+      duration: parseFloat(row.duration),
+      address: row.address,
+      latitude: row.latitude ? parseFloat(row.latitude) : undefined,
+      longitude: row.longitude ? parseFloat(row.longitude) : undefined,
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      supplierName: row.supplier_name,
+      ...(terms.length > 0 && {
+        searchRank: parseFloat(row.search_rank),
+        highlights: {
+          title: highlightTerms(row.title, terms),
+          snippet: buildSnippet(stripHtml(row.description || ''), terms)
+            ?? buildSnippet(row.address || '', terms)
+            ?? buildSnippet(row.supplier_name || '', terms),
+        },
+      }),
+      ...(distanceSelect && {
+        distanceKm: Math.round(row.distance_km * 100) / 100,
+      }),
+    }),
+  });
 }
 
 /**
@@ -390,9 +747,9 @@ export async function getPublishedProducts(filters?: ProductFilters): Promise<Pr
 export async function getProductById(id: string): Promise<ProductWithSupplier> {
   const result = await pool.query(
     `SELECT p.id, p.supplier_id, p.title, p.destination, p.category, p.description, 
-            p.cover_image_url, p.net_price, p.has_shopping, p.has_ticket, 
+            p.cover_image_url, p.cover_image_variants, p.net_price, p.has_shopping, p.has_ticket, 
             p.ticket_price, p.duration, p.status, p.rejection_reason, p.created_at, p.updated_at,
-            p.address, p.latitude, p.longitude,
+            p.address, p.latitude, p.longitude, p.duplicate_of_id,
             u.name as supplier_name
      FROM products p
      JOIN users u ON p.supplier_id = u.id
@@ -414,6 +771,7 @@ export async function getProductById(id: string): Promise<ProductWithSupplier> {
     category: row.category,
     description: row.description,
     coverImageUrl: row.cover_image_url,
+    coverImage: toCoverImage(row.cover_image_url, row.cover_image_variants),
     netPrice: parseFloat(row.net_price),
     hasShopping: row.has_shopping,
     hasTicket: row.has_ticket,
@@ -427,14 +785,19 @@ export async function getProductById(id: string): Promise<ProductWithSupplier> {
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     supplierName: row.supplier_name,
+    duplicateOfId: row.duplicate_of_id || undefined,
   };
 }
 
 /**
- * Update product status (excluding soft-deleted products)
+ * Update product status (excluding soft-deleted products).
+ * The status revision and duplicate check run in the same transaction, with the product row locked
+ * so concurrent status changes number their revisions one after the other.
  * @param id - Product ID
  * @param status - New status
  * @param supplierId - Optional supplier ID for ownership validation (required for supplier updates)
+ * @param rejectionReason - Optional feedback stored with the status
+ * @param changedBy - Optional user ID recorded on the revision (defaults to supplierId)
  * @returns Updated product
  * @throws Error if product not found or access denied
  */
@@ -442,46 +805,43 @@ export async function updateProductStatus(
   id: string,
   status: ProductStatus,
   supplierId?: string,
-  rejectionReason?: string
+  rejectionReason?: string,
+  changedBy?: string
 ): Promise<Product> {
-  // If supplierId is provided, verify ownership
-  if (supplierId) {
-    const ownershipCheck = await pool.query(
-      'SELECT id FROM products WHERE id = $1 AND supplier_id = $2 AND (is_deleted = FALSE OR is_deleted IS NULL)',
-      [id, supplierId]
+  const client = await pool.connect();
+  let product: any;
+  try {
+    await client.query('BEGIN');
+
+    // Lock the product row; with supplierId, also verify ownership
+    const lock = await client.query(
+      `SELECT id FROM products
+       WHERE id = $1 AND (is_deleted = FALSE OR is_deleted IS NULL)${supplierId ? ' AND supplier_id = $2' : ''}
+       FOR UPDATE`,
+      supplierId ? [id, supplierId] : [id]
     );
 
-    if (ownershipCheck.rows.length === 0) {
-      throw new Error('Product not found or access denied');
+    if (lock.rows.length === 0) {
+      throw new Error(supplierId ? 'Product not found or access denied' : 'Product not found');
     }
-  }
 
-  const updates: string[] = ['status = $1', 'updated_at = CURRENT_TIMESTAMP'];
-  const values: any[] = [status, id];
-  let paramCount = 3;
-
-  if (rejectionReason !== undefined) {
-    updates.push(`rejection_reason = $${paramCount++}`);
-    values.push(rejectionReason);
-  }
+    product = await applyProductStatus(client, id, status, rejectionReason);
 
-  const result = await pool.query(
-    `UPDATE products
-     SET ${updates.join(', ')}
-     WHERE id = $2 AND (is_deleted = FALSE OR is_deleted IS NULL)
-     RETURNING id, supplier_id, title, destination, category, description, 
-               cover_image_url, net_price, has_shopping, has_ticket, 
-               ticket_price, duration, status, rejection_reason, created_at, updated_at,
-               address, latitude, longitude`,
-    values
-  );
+    // Status changes mark review points in the revision history
+    await recordProductRevision(client, product, 'status', changedBy || supplierId);
+    // Drafts are skipped as duplicate candidates, so check again once a product leaves draft
+    if (status !== '草稿') {
+      await detectProductDuplicates(client, product);
+    }
 
-  if (result.rows.length === 0) {
-    throw new Error('Product not found');
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
   }
 
-  const product = result.rows[0];
-
   return {
     id: product.id,
     supplierId: product.supplier_id,
@@ -490,6 +850,7 @@ export async function updateProductStatus(
     category: product.category,
     description: product.description,
     coverImageUrl: product.cover_image_url,
+    coverImage: toCoverImage(product.cover_image_url, product.cover_image_variants),
     netPrice: parseFloat(product.net_price),
     hasShopping: product.has_shopping,
     hasTicket: product.has_ticket,
@@ -505,6 +866,39 @@ export async function updateProductStatus(
   };
 }
 
+/**
+ * Write a status (and optional feedback) onto a locked product row
+ * @returns Raw products row after the change
+ */
+async function applyProductStatus(
+  db: Queryable,
+  id: string,
+  status: ProductStatus,
+  rejectionReason?: string
+): Promise<any> {
+  const updates: string[] = ['status = $1', 'updated_at = CURRENT_TIMESTAMP'];
+  const values: any[] = [status, id];
+  let paramCount = 3;
+
+  if (rejectionReason !== undefined) {
+    updates.push(`rejection_reason = $${paramCount++}`);
+    values.push(rejectionReason);
+  }
+
+  const result = await db.query(
+    `UPDATE products
+     SET ${updates.join(', ')}
+     WHERE id = $2 AND (is_deleted = FALSE OR is_deleted IS NULL)
+     RETURNING id, supplier_id, title, destination, category, description, 
+               cover_image_url, cover_image_variants, net_price, has_shopping, has_ticket, 
+               ticket_price, duration, status, rejection_reason, created_at, updated_at,
+               address, latitude, longitude`,
+    values
+  );
+
+  return result.rows[0];
+}
+
 /**
  * Get products by status for admin review (excluding soft-deleted products)
  * @param status - Product status to filter by
@@ -513,7 +907,7 @@ export async function updateProductStatus(
 export async function getProductsByStatus(status: ProductStatus): Promise<ProductWithSupplier[]> {
   const result = await pool.query(
     `SELECT p.id, p.supplier_id, p.title, p.destination, p.category, p.description, 
-            p.cover_image_url, p.net_price, p.has_shopping, p.has_ticket, 
+            p.cover_image_url, p.cover_image_variants, p.net_price, p.has_shopping, p.has_ticket, 
             p.ticket_price, p.duration, p.status, p.rejection_reason, p.created_at, p.updated_at,
             p.address, p.latitude, p.longitude,
             u.name as supplier_name
@@ -532,6 +926,7 @@ export async function getProductsByStatus(status: ProductStatus): Promise<Produc
     category: row.category,
     description: row.description,
     coverImageUrl: row.cover_image_url,
+    coverImage: toCoverImage(row.cover_image_url, row.cover_image_variants),
     netPrice: parseFloat(row.net_price),
     hasShopping: row.has_shopping,
     hasTicket: row.has_ticket,
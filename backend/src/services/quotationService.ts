@@ -0,0 +1,298 @@
+import pool from '../config/database';
+import { getItineraryById } from './itineraryService';
+
+export type RoundingMode = 'up' | 'down' | 'nearest';
+
+export interface QuoteSettings {
+  markupPercent: number;
+  roundingUnit: number;
+  roundingMode: RoundingMode;
+  currency: string;
+  // TWD per one unit of the quote currency (e.g. 0.21 for JPY)
+  exchangeRate: number;
+  defaultPax: number;
+  roomOccupancy: number;
+}
+
+export type QuoteLineKind = 'item' | 'ticket' | 'breakfast' | 'lunch' | 'dinner' | 'hotel';
+
+export interface QuoteLine {
+  kind: QuoteLineKind;
+  productId: string;
+  title: string;
+  unitPrice: number;
+  quantity: number;
+  amount: number;
+}
+
+export interface QuoteDay {
+  dayNumber: number;
+  lines: QuoteLine[];
+  netTotal: number;
+  netPerPerson: number;
+}
+
+export interface ItineraryQuote {
+  itineraryId: string;
+  pax: number;
+  rooms: number;
+  settings: QuoteSettings;
+  days: QuoteDay[];
+  netTotal: number;
+  netPerPerson: number;
+  markupAmount: number;
+  sellTotal: number;
+  pricePerPerson: number;
+  priceTotal: number;
+  currency: string;
+  unpricedProductIds: string[];
+}
+
+export interface QuoteProduct {
+  id: string;
+  title: string;
+  netPrice: number;
+  hasTicket: boolean;
+  ticketPrice: number | null;
+}
+
+export const DEFAULT_QUOTE_SETTINGS: QuoteSettings = {
+  markupPercent: 0,
+  roundingUnit: 1,
+  roundingMode: 'up',
+  currency: 'TWD',
+  exchangeRate: 1,
+  defaultPax: 2,
+  roomOccupancy: 2,
+};
+
+const MEAL_SLOTS = ['breakfast', 'lunch', 'dinner'] as const;
+
+const toMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const mapRowToSettings = (row: any): QuoteSettings => ({
+  markupPercent: parseFloat(row.markup_percent),
+  roundingUnit: row.rounding_unit,
+  roundingMode: row.rounding_mode,
+  currency: row.currency,
+  exchangeRate: parseFloat(row.exchange_rate),
+  defaultPax: row.default_pax,
+  roomOccupancy: row.room_occupancy,
+});
+
+/**
+ * Round a price to the agency's rounding unit
+ * @param value - Price in the quote currency
+ * @param unit - Rounding unit (e.g. 100 rounds to the nearest hundred)
+ * @param mode - Direction to round in
+ */
+export const roundPrice = (value: number, unit: number, mode: RoundingMode): number => {
+  // Strip float noise first so 1200.0000001 does not round up to the next unit
+  const steps = toMoney(value / unit);
+  const rounded = mode === 'up' ? Math.ceil(steps) : mode === 'down' ? Math.floor(steps) : Math.round(steps);
+  return toMoney(rounded * unit);
+};
+
+/**
+ * Price an itinerary timeline
+ * Items and meals are charged per person, tickets per person on top of the net price,
+ * and hotels per room per night with rooms derived from the occupancy setting.
+ * @param timeline - Itinerary timeline_data
+ * @param products - Current products keyed by ID
+ * @param settings - Agency quote settings
+ * @param pax - Number of travellers
+ * @returns Per-day breakdown and totals; amounts are TWD except pricePerPerson/priceTotal
+ */
+export const buildQuote = (
+  timeline: any[],
+  products: Map<string, QuoteProduct>,
+  settings: QuoteSettings,
+  pax: number
+): Omit<ItineraryQuote, 'itineraryId'> => {
+  const rooms = Math.ceil(pax / settings.roomOccupancy);
+  const unpriced = new Set<string>();
+
+  const addLine = (lines: QuoteLine[], kind: QuoteLineKind, productId: string, unitPrice: number, quantity: number, title: string) => {
+    lines.push({ kind, productId, title, unitPrice, quantity, amount: toMoney(unitPrice * quantity) });
+  };
+
+  const days: QuoteDay[] = (timeline || []).map((day: any) => {
+    const lines: QuoteLine[] = [];
+
+    for (const item of day.items || []) {
+      const product = products.get(item.id);
+      if (!product) {
+        if (item.id) unpriced.add(item.id);
+        continue;
+      }
+
+      addLine(lines, 'item', product.id, product.netPrice, pax, product.title);
+      if (product.hasTicket && product.ticketPrice) {
+        addLine(lines, 'ticket', product.id, product.ticketPrice, pax, product.title);
+      }
+    }
+
+    // Custom text (e.g. "自理") overrides the selected product, so it carries no cost
+    for (const slot of MEAL_SLOTS) {
+      const productId = day[`${slot}Id`];
+      if (!productId || day[`${slot}Custom`]) continue;
+
+      const product = products.get(productId);
+      if (!product) {
+        unpriced.add(productId);
+        continue;
+      }
+      addLine(lines, slot, product.id, product.netPrice, pax, product.title);
+    }
+
+    if (day.hotelId && !day.hotelCustom) {
+      const product = products.get(day.hotelId);
+      if (product) {
+        addLine(lines, 'hotel', product.id, product.netPrice, rooms, product.title);
+      } else {
+        unpriced.add(day.hotelId);
+      }
+    }
+
+    const netTotal = toMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+    return {
+      dayNumber: day.dayNumber,
+      lines,
+      netTotal,
+      netPerPerson: toMoney(netTotal / pax),
+    };
+  });
+
+  const netTotal = toMoney(days.reduce((sum, day) => sum + day.netTotal, 0));
+  const markupAmount = toMoney(netTotal * settings.markupPercent / 100);
+  const sellTotal = toMoney(netTotal + markupAmount);
+  const pricePerPerson = roundPrice(
+    sellTotal / pax / settings.exchangeRate,
+    settings.roundingUnit,
+    settings.roundingMode
+  );
+
+  return {
+    pax,
+    rooms,
+    settings,
+    days,
+    netTotal,
+    netPerPerson: toMoney(netTotal / pax),
+    markupAmount,
+    sellTotal,
+    pricePerPerson,
+    priceTotal: toMoney(pricePerPerson * pax),
+    currency: settings.currency,
+    unpricedProductIds: Array.from(unpriced),
+  };
+};
+
+/**
+ * Get an agency's quote settings, falling back to defaults when none are saved
+ */
+export const getQuoteSettings = async (agencyUserId: string): Promise<QuoteSettings> => {
+  const result = await pool.query(
+    'SELECT * FROM agency_quote_settings WHERE agency_user_id = $1',
+    [agencyUserId]
+  );
+
+  if (!result.rows[0]) return { ...DEFAULT_QUOTE_SETTINGS };
+  return mapRowToSettings(result.rows[0]);
+};
+
+export const updateQuoteSettings = async (
+  agencyUserId: string,
+  data: Partial<QuoteSettings>
+): Promise<QuoteSettings> => {
+  const changes = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+  const settings: QuoteSettings = { ...(await getQuoteSettings(agencyUserId)), ...changes };
+
+  const result = await pool.query(
+    `INSERT INTO agency_quote_settings
+       (agency_user_id, markup_percent, rounding_unit, rounding_mode, currency, exchange_rate, default_pax, room_occupancy)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (agency_user_id) DO UPDATE SET
+       markup_percent = EXCLUDED.markup_percent,
+       rounding_unit = EXCLUDED.rounding_unit,
+       rounding_mode = EXCLUDED.rounding_mode,
+       currency = EXCLUDED.currency,
+       exchange_rate = EXCLUDED.exchange_rate,
+       default_pax = EXCLUDED.default_pax,
+       room_occupancy = EXCLUDED.room_occupancy,
+       updated_at = CURRENT_TIMESTAMP
+     RETURNING *`,
+    [
+      agencyUserId,
+      settings.markupPercent,
+      settings.roundingUnit,
+      settings.roundingMode,
+      settings.currency.toUpperCase(),
+      settings.exchangeRate,
+      settings.defaultPax,
+      settings.roomOccupancy,
+    ]
+  );
+
+  return mapRowToSettings(result.rows[0]);
+};
+
+const collectProductIds = (timeline: any[]): string[] => {
+  const ids = new Set<string>();
+  for (const day of timeline || []) {
+    for (const item of day.items || []) {
+      if (item.id) ids.add(item.id);
+    }
+    for (const slot of [...MEAL_SLOTS, 'hotel']) {
+      if (day[`${slot}Id`]) ids.add(day[`${slot}Id`]);
+    }
+  }
+  return Array.from(ids);
+};
+
+/**
+ * Quote a saved itinerary using current product prices
+ * @param id - Itinerary ID
+ * @param agencyUserId - Owning agency user
+ * @param pax - Number of travellers (defaults to the agency's default pax)
+ * @throws Error if the itinerary does not exist for this agency
+ */
+export const getItineraryQuote = async (
+  id: string,
+  agencyUserId: string,
+  pax?: number
+): Promise<ItineraryQuote> => {
+  const itinerary = await getItineraryById(id, agencyUserId);
+  if (!itinerary) {
+    throw new Error('Itinerary not found');
+  }
+
+  const settings = await getQuoteSettings(agencyUserId);
+  const productIds = collectProductIds(itinerary.timelineData);
+
+  const products = new Map<string, QuoteProduct>();
+  if (productIds.length > 0) {
+    // Deleted products are still priced so historical itineraries keep their cost
+    const result = await pool.query(
+      `SELECT id, title, net_price, has_ticket, ticket_price
+       FROM products
+       WHERE id::text = ANY($1)`,
+      [productIds]
+    );
+
+    for (const row of result.rows) {
+      products.set(row.id, {
+        id: row.id,
+        title: row.title,
+        netPrice: parseFloat(row.net_price),
+        hasTicket: !!row.has_ticket,
+        ticketPrice: row.ticket_price !== null ? parseFloat(row.ticket_price) : null,
+      });
+    }
+  }
+
+  return {
+    itineraryId: id,
+    ...buildQuote(itinerary.timelineData, products, settings, pax ?? settings.defaultPax),
+  };
+};
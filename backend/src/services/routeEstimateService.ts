@@ -0,0 +1,158 @@
+import pool from '../config/database';
+import { LatLng, encodePolyline, haversineKm } from '../utils/geo';
+
+export type TravelMode = 'driving' | 'walking' | 'coach';
+
+export const TRAVEL_MODES: TravelMode[] = ['driving', 'walking', 'coach'];
+
+export interface SpeedProfile {
+  /** Average door-to-door speed */
+  speedKmh: number;
+  /** Road distance relative to straight-line distance */
+  detourFactor: number;
+  /** Fixed time added per leg (parking, boarding) */
+  overheadMinutes: number;
+}
+
+/** Same shape as the planner's RouteLeg built from Google Directions */
+export interface RouteLeg {
+  distanceText: string;
+  distanceValue: number;
+  durationText: string;
+  durationValue: number;
+  startLocation: LatLng;
+  endLocation: LatLng;
+}
+
+export interface RouteInfo {
+  polyline: string;
+  legs: RouteLeg[];
+  totalDistance?: string;
+  totalDuration?: string;
+}
+
+/** A stop is either a product (coordinates looked up) or explicit coordinates */
+export interface RouteStop {
+  productId?: string;
+  lat?: number;
+  lng?: number;
+}
+
+const DEFAULT_SPEED_PROFILES: Record<TravelMode, SpeedProfile> = {
+  driving: { speedKmh: 40, detourFactor: 1.3, overheadMinutes: 5 },
+  walking: { speedKmh: 4.5, detourFactor: 1.2, overheadMinutes: 0 },
+  coach: { speedKmh: 30, detourFactor: 1.35, overheadMinutes: 10 },
+};
+
+const readEnvNumber = (name: string, fallback: number, min: number): number => {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value > min ? value : fallback;
+};
+
+/**
+ * Speed profile for a mode. Each value can be overridden with environment variables,
+ * e.g. ROUTE_DRIVING_SPEED_KMH, ROUTE_COACH_DETOUR_FACTOR, ROUTE_WALKING_OVERHEAD_MINUTES.
+ */
+export const getSpeedProfile = (mode: TravelMode): SpeedProfile => {
+  const defaults = DEFAULT_SPEED_PROFILES[mode];
+  const prefix = `ROUTE_${mode.toUpperCase()}`;
+
+  return {
+    speedKmh: readEnvNumber(`${prefix}_SPEED_KMH`, defaults.speedKmh, 0),
+    detourFactor: readEnvNumber(`${prefix}_DETOUR_FACTOR`, defaults.detourFactor, 0),
+    overheadMinutes: readEnvNumber(`${prefix}_OVERHEAD_MINUTES`, defaults.overheadMinutes, -1),
+  };
+};
+
+const formatDistance = (meters: number): string => `${(meters / 1000).toFixed(1)} 公里`;
+
+export const formatDuration = (seconds: number): string => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} 分鐘`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours} 小時` : `${hours} 小時 ${minutes % 60} 分鐘`;
+};
+
+/**
+ * Estimate a route through points in order, without calling an external routing API.
+ * Leg distance is the haversine distance scaled by the mode's detour factor.
+ * @param points - At least two points
+ * @returns Route in the same shape the planner stores from Google Directions
+ */
+export const estimateRoute = (points: LatLng[], mode: TravelMode = 'driving'): RouteInfo => {
+  const profile = getSpeedProfile(mode);
+
+  const legs = points.slice(1).map((endLocation, index) => {
+    const startLocation = points[index];
+    const distanceKm = haversineKm(startLocation, endLocation) * profile.detourFactor;
+    const distanceValue = Math.round(distanceKm * 1000);
+    const durationValue = Math.round((distanceKm / profile.speedKmh) * 3600 + profile.overheadMinutes * 60);
+
+    return {
+      distanceText: formatDistance(distanceValue),
+      distanceValue,
+      durationText: formatDuration(durationValue),
+      durationValue,
+      startLocation,
+      endLocation,
+    };
+  });
+
+  const totalDistance = legs.reduce((acc, leg) => acc + leg.distanceValue, 0);
+  const totalDuration = legs.reduce((acc, leg) => acc + leg.durationValue, 0);
+
+  return {
+    polyline: encodePolyline(points),
+    legs,
+    totalDistance: `${(totalDistance / 1000).toFixed(1)} km`,
+    totalDuration: `${Math.round(totalDuration / 60)} 分鐘`,
+  };
+};
+
+/**
+ * Resolve stops to coordinates and estimate the route through them.
+ * Stops without usable coordinates (e.g. products with only an address) are skipped.
+ * @returns Route, plus the indexes of skipped stops
+ * @throws Error if fewer than two stops have coordinates
+ */
+export const estimateRouteForStops = async (
+  stops: RouteStop[],
+  mode: TravelMode = 'driving'
+): Promise<RouteInfo & { skippedStops: number[] }> => {
+  const productIds = stops
+    .filter(stop => stop.productId && (stop.lat === undefined || stop.lng === undefined))
+    .map(stop => stop.productId!);
+
+  const productLocations = new Map<string, LatLng>();
+  if (productIds.length > 0) {
+    const result = await pool.query(
+      `SELECT id, latitude, longitude FROM products
+       WHERE id::text = ANY($1) AND latitude IS NOT NULL AND longitude IS NOT NULL`,
+      [productIds]
+    );
+    for (const row of result.rows) {
+      productLocations.set(row.id, { lat: parseFloat(row.latitude), lng: parseFloat(row.longitude) });
+    }
+  }
+
+  const points: LatLng[] = [];
+  const skippedStops: number[] = [];
+  stops.forEach((stop, index) => {
+    const point = stop.lat !== undefined && stop.lng !== undefined
+      ? { lat: stop.lat, lng: stop.lng }
+      : stop.productId ? productLocations.get(stop.productId) : undefined;
+
+    if (point) {
+      points.push(point);
+    } else {
+      skippedStops.push(index);
+    }
+  });
+
+  if (points.length < 2) {
+    throw new Error('Not enough located stops');
+  }
+
+  return { ...estimateRoute(points, mode), skippedStops };
+};
@@ -0,0 +1,231 @@
+import pool from '../config/database';
+import { LatLng, haversineKm } from '../utils/geo';
+import { TimelineDay, TimelineItem } from '../utils/timelineSchema';
+import { estimateRoute } from './routeEstimateService';
+
+export interface OrderableStop {
+  key: string;
+  location?: LatLng;
+  /** Fixed stops keep their position and split the day into independently ordered segments */
+  fixed: boolean;
+}
+
+export interface TravelTotals {
+  /** Meters */
+  distanceValue: number;
+  /** Seconds */
+  durationValue: number;
+}
+
+export interface DayOrderProposal {
+  dayNumber: number;
+  /** Timeline IDs in the proposed order */
+  order: string[];
+  changed: boolean;
+  /** Estimated travel including the legs from and to the hotels */
+  before: TravelTotals;
+  after: TravelTotals;
+}
+
+/** Segments up to this size are solved exactly; larger ones use nearest neighbour + 2-opt */
+const MAX_EXACT_STOPS = 12;
+
+const REORDERABLE_TYPES: TimelineItem['productType'][] = ['landmark', 'transportation'];
+
+const pathCost = (order: number[], points: LatLng[], start?: LatLng, end?: LatLng): number => {
+  let cost = 0;
+  if (start && order.length > 0) cost += haversineKm(start, points[order[0]]);
+  for (let i = 1; i < order.length; i++) cost += haversineKm(points[order[i - 1]], points[order[i]]);
+  if (end && order.length > 0) cost += haversineKm(points[order[order.length - 1]], end);
+  return cost;
+};
+
+/**
+ * Held-Karp dynamic programming over subsets for an open path.
+ * A missing start or end lets the path begin or finish at any point.
+ */
+const solveExact = (points: LatLng[], start?: LatLng, end?: LatLng): number[] => {
+  const n = points.length;
+  const full = (1 << n) - 1;
+  const cost: number[][] = Array.from({ length: 1 << n }, () => new Array(n).fill(Infinity));
+  const parent: number[][] = Array.from({ length: 1 << n }, () => new Array(n).fill(-1));
+
+  for (let j = 0; j < n; j++) {
+    cost[1 << j][j] = start ? haversineKm(start, points[j]) : 0;
+  }
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let j = 0; j < n; j++) {
+      if (!(mask & (1 << j)) || cost[mask][j] === Infinity) continue;
+      for (let k = 0; k < n; k++) {
+        if (mask & (1 << k)) continue;
+        const next = mask | (1 << k);
+        const candidate = cost[mask][j] + haversineKm(points[j], points[k]);
+        if (candidate < cost[next][k]) {
+          cost[next][k] = candidate;
+          parent[next][k] = j;
+        }
+      }
+    }
+  }
+
+  let last = 0;
+  let best = Infinity;
+  for (let j = 0; j < n; j++) {
+    const total = cost[full][j] + (end ? haversineKm(points[j], end) : 0);
+    if (total < best) {
+      best = total;
+      last = j;
+    }
+  }
+
+  const order: number[] = [];
+  for (let mask = full, j = last; j !== -1;) {
+    order.unshift(j);
+    const previous = parent[mask][j];
+    mask &= ~(1 << j);
+    j = previous;
+  }
+  return order;
+};
+
+const solveHeuristic = (points: LatLng[], start?: LatLng, end?: LatLng): number[] => {
+  // Nearest neighbour from the start (or the first point)
+  const remaining = new Set(points.map((_, index) => index));
+  const order: number[] = [];
+  let current = start;
+  while (remaining.size > 0) {
+    let nearest = remaining.values().next().value as number;
+    if (current) {
+      for (const index of remaining) {
+        if (haversineKm(current, points[index]) < haversineKm(current, points[nearest])) nearest = index;
+      }
+    }
+    order.push(nearest);
+    remaining.delete(nearest);
+    current = points[nearest];
+  }
+
+  // 2-opt: reverse sections while that shortens the path
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let k = i + 1; k < order.length; k++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, k + 1).reverse(), ...order.slice(k + 1)];
+        if (pathCost(candidate, points, start, end) < pathCost(order, points, start, end) - 1e-9) {
+          order.splice(0, order.length, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+  return order;
+};
+
+/**
+ * Reorder stops to minimise straight-line travel.
+ * Fixed stops and stops without coordinates stay in place; the stops between
+ * them are reordered as separate segments running from the previous known
+ * location to the next fixed stop (or the day's end point).
+ * @returns Stop keys in the new order
+ */
+export const optimizeStopOrder = (stops: OrderableStop[], start?: LatLng, end?: LatLng): string[] => {
+  const result = stops.map(stop => stop.key);
+  let segmentStart = start;
+  let segment: number[] = [];
+
+  const flush = (segmentEnd?: LatLng) => {
+    if (segment.length > 1) {
+      const points = segment.map(index => stops[index].location!);
+      const order = points.length <= MAX_EXACT_STOPS
+        ? solveExact(points, segmentStart, segmentEnd)
+        : solveHeuristic(points, segmentStart, segmentEnd);
+      order.forEach((pointIndex, slot) => {
+        result[segment[slot]] = stops[segment[pointIndex]].key;
+      });
+    }
+    segment = [];
+  };
+
+  stops.forEach((stop, index) => {
+    if (!stop.fixed && stop.location) {
+      segment.push(index);
+      return;
+    }
+    flush(stop.location);
+    if (stop.location) segmentStart = stop.location;
+  });
+  flush(end);
+
+  return result;
+};
+
+const travelTotals = (points: LatLng[]): TravelTotals => {
+  if (points.length < 2) return { distanceValue: 0, durationValue: 0 };
+  const { legs } = estimateRoute(points);
+  return {
+    distanceValue: legs.reduce((acc, leg) => acc + leg.distanceValue, 0),
+    durationValue: legs.reduce((acc, leg) => acc + leg.durationValue, 0),
+  };
+};
+
+const getHotelLocations = async (hotelIds: string[]): Promise<Map<string, LatLng>> => {
+  const locations = new Map<string, LatLng>();
+  if (hotelIds.length === 0) return locations;
+
+  const result = await pool.query(
+    `SELECT id, latitude, longitude FROM products
+     WHERE id::text = ANY($1) AND latitude IS NOT NULL AND longitude IS NOT NULL`,
+    [hotelIds]
+  );
+  for (const row of result.rows) {
+    locations.set(row.id, { lat: parseFloat(row.latitude), lng: parseFloat(row.longitude) });
+  }
+  return locations;
+};
+
+/**
+ * Propose a shorter order for one day's landmarks and transport, starting from the
+ * previous night's hotel and ending at this night's hotel when they have coordinates.
+ * Items with a pinned start time, other product types and items without coordinates keep their place.
+ * @returns Proposal, or null if the day does not exist
+ */
+export const proposeDayOrder = async (timeline: TimelineDay[], dayNumber: number): Promise<DayOrderProposal | null> => {
+  const dayIndex = timeline.findIndex(day => day.dayNumber === dayNumber);
+  if (dayIndex === -1) {
+    return null;
+  }
+
+  const day = timeline[dayIndex];
+  const previousHotelId = dayIndex > 0 ? timeline[dayIndex - 1].hotelId : null;
+  const hotels = await getHotelLocations([previousHotelId, day.hotelId].filter((id): id is string => !!id));
+  const start = previousHotelId ? hotels.get(previousHotelId) : undefined;
+  const end = day.hotelId ? hotels.get(day.hotelId) : undefined;
+
+  const order = optimizeStopOrder(
+    day.items.map(item => ({
+      key: item.timelineId,
+      location: item.location,
+      fixed: !!item.timePinned || !REORDERABLE_TYPES.includes(item.productType),
+    })),
+    start,
+    end
+  );
+
+  const byTimelineId = new Map(day.items.map(item => [item.timelineId, item]));
+  const routePoints = (timelineIds: string[]): LatLng[] => [
+    ...(start ? [start] : []),
+    ...timelineIds.map(id => byTimelineId.get(id)!.location).filter((location): location is LatLng => !!location),
+    ...(end ? [end] : []),
+  ];
+
+  const currentOrder = day.items.map(item => item.timelineId);
+  return {
+    dayNumber,
+    order,
+    changed: order.some((id, index) => id !== currentOrder[index]),
+    before: travelTotals(routePoints(currentOrder)),
+    after: travelTotals(routePoints(order)),
+  };
+};
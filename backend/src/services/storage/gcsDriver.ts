@@ -0,0 +1,83 @@
+import { Bucket } from '@google-cloud/storage';
+import { StorageDriver, StoredObject, PutOptions, assertValidKey, isValidKey } from './types';
+
+const isNotFound = (error: any): boolean => error?.code === 404;
+
+/**
+ * Google Cloud Storage driver. Files are made public and served from storage.googleapis.com
+ * (the bucket should also grant allUsers read through uniform bucket-level access).
+ */
+export const createGcsDriver = (bucket: Bucket): StorageDriver => {
+  const urlPrefix = `https://storage.googleapis.com/${bucket.name}/`;
+
+  return {
+    name: 'gcs',
+
+    async put(key: string, data: Buffer, options: PutOptions): Promise<void> {
+      assertValidKey(key);
+      const file = bucket.file(key);
+
+      await new Promise<void>((resolve, reject) => {
+        const stream = file.createWriteStream({
+          resumable: false,
+          metadata: { contentType: options.contentType, cacheControl: options.cacheControl },
+        });
+        stream.on('error', error => reject(new Error(`Upload failed: ${error.message}`)));
+        stream.on('finish', () => resolve());
+        stream.end(data);
+      });
+
+      try {
+        await file.makePublic();
+      } catch (error) {
+        console.error('Error making file public:', error);
+        // Continue anyway, as the bucket might be public by default
+      }
+    },
+
+    async delete(key: string): Promise<void> {
+      assertValidKey(key);
+      try {
+        await bucket.file(key).delete();
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    },
+
+    async get(key: string): Promise<Buffer | null> {
+      assertValidKey(key);
+      try {
+        const [contents] = await bucket.file(key).download();
+        return contents;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async exists(key: string): Promise<boolean> {
+      assertValidKey(key);
+      const [exists] = await bucket.file(key).exists();
+      return exists;
+    },
+
+    async list(): Promise<StoredObject[]> {
+      const [files] = await bucket.getFiles();
+      return files
+        .filter(file => isValidKey(file.name))
+        .map(file => ({
+          key: file.name,
+          size: Number(file.metadata.size) || 0,
+          updatedAt: new Date(file.metadata.updated || file.metadata.timeCreated || 0),
+        }));
+    },
+
+    getUrl(key: string): string {
+      return `${urlPrefix}${encodeURIComponent(key)}`;
+    },
+
+    keyFromUrl(url: string): string | null {
+      return url && url.startsWith(urlPrefix) ? decodeURIComponent(url.slice(urlPrefix.length)) : null;
+    },
+  };
+};
@@ -0,0 +1,45 @@
+import path from 'path';
+import { bucket } from '../../config/storage';
+import { StorageDriver } from './types';
+import { createGcsDriver } from './gcsDriver';
+import { createLocalDriver } from './localDriver';
+
+export * from './types';
+
+/** Path the local driver's files are served under (see index.ts) */
+export const LOCAL_UPLOADS_PATH = '/uploads';
+
+export const getLocalStorageDir = (): string =>
+  path.resolve(process.env.LOCAL_STORAGE_DIR || 'uploads');
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Storage driver selected by STORAGE_DRIVER ("gcs", the default, or "local"), created on first use
+ * @throws Error if STORAGE_DRIVER names an unknown driver
+ */
+export const getStorageDriver = (): StorageDriver => {
+  if (driver) return driver;
+
+  const name = process.env.STORAGE_DRIVER || 'gcs';
+  if (name === 'local') {
+    const apiUrl = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || '3000'}`;
+    driver = createLocalDriver({
+      rootDir: getLocalStorageDir(),
+      baseUrl: `${apiUrl.replace(/\/+$/, '')}${LOCAL_UPLOADS_PATH}`,
+    });
+  } else if (name === 'gcs') {
+    driver = createGcsDriver(bucket);
+  } else {
+    throw new Error(`Unknown STORAGE_DRIVER "${name}" (expected "gcs" or "local")`);
+  }
+
+  return driver;
+};
+
+/**
+ * Forget the selected driver so the next call re-reads the environment (for tests)
+ */
+export const resetStorageDriver = (): void => {
+  driver = null;
+};
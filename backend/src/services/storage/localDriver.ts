@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StorageDriver, StoredObject, PutOptions, assertValidKey, isValidKey } from './types';
+
+export interface LocalDriverOptions {
+  /** Directory files are written to */
+  rootDir: string;
+  /** Public URL of the static route serving rootDir, without a trailing slash */
+  baseUrl: string;
+}
+
+const isNotFound = (error: any): boolean => error?.code === 'ENOENT';
+
+/**
+ * Local-disk driver for development and tests. Files are served by the
+ * express.static route mounted in index.ts; content type comes from the extension.
+ */
+export const createLocalDriver = ({ rootDir, baseUrl }: LocalDriverOptions): StorageDriver => {
+  const urlPrefix = `${baseUrl.replace(/\/+$/, '')}/`;
+  const filePath = (key: string): string => {
+    assertValidKey(key);
+    return path.join(rootDir, key);
+  };
+
+  return {
+    name: 'local',
+
+    async put(key: string, data: Buffer, _options: PutOptions): Promise<void> {
+      const target = filePath(key);
+      await fs.mkdir(rootDir, { recursive: true });
+      // Write then rename, so a reader never sees a half-written file
+      const temporary = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, data);
+      await fs.rename(temporary, target);
+    },
+
+    async delete(key: string): Promise<void> {
+      try {
+        await fs.unlink(filePath(key));
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    },
+
+    async get(key: string): Promise<Buffer | null> {
+      try {
+        return await fs.readFile(filePath(key));
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async exists(key: string): Promise<boolean> {
+      try {
+        await fs.access(filePath(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async list(): Promise<StoredObject[]> {
+      let entries;
+      try {
+        entries = await fs.readdir(rootDir, { withFileTypes: true });
+      } catch (error) {
+        // Nothing has been uploaded yet
+        if (isNotFound(error)) return [];
+        throw error;
+      }
+
+      const files = entries.filter(entry => entry.isFile() && isValidKey(entry.name));
+      return Promise.all(files.map(async entry => {
+        const stats = await fs.stat(path.join(rootDir, entry.name));
+        return { key: entry.name, size: stats.size, updatedAt: stats.mtime };
+      }));
+    },
+
+    getUrl(key: string): string {
+      return `${urlPrefix}${encodeURIComponent(key)}`;
+    },
+
+    keyFromUrl(url: string): string | null {
+      return url && url.startsWith(urlPrefix) ? decodeURIComponent(url.slice(urlPrefix.length)) : null;
+    },
+  };
+};
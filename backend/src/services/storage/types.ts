@@ -0,0 +1,50 @@
+export type StorageDriverName = 'gcs' | 'local';
+
+export interface PutOptions {
+  contentType: string;
+  cacheControl?: string;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  /** Last write time; used to spare files that are too new to be referenced yet */
+  updatedAt: Date;
+}
+
+/**
+ * Where uploaded files live. Keys are flat file names such as
+ * "3f2a…-1700000000000.jpg"; public URLs are derived from them.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  /** Store a file, replacing any file with the same key */
+  put(key: string, data: Buffer, options: PutOptions): Promise<void>;
+  /** Remove a file; removing a missing file is not an error */
+  delete(key: string): Promise<void>;
+  /** Read a file, or null if it does not exist */
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+  /** Every stored file; files whose names are not valid keys are left out */
+  list(): Promise<StoredObject[]>;
+  /** Public URL the file is served from */
+  getUrl(key: string): string;
+  /** Inverse of getUrl; null for URLs that do not point into this storage */
+  keyFromUrl(url: string): string | null;
+}
+
+/**
+ * Keys are single file names, so they cannot escape the storage root
+ * (older uploads may still carry arbitrary extensions, so other characters are allowed)
+ */
+export const isValidKey = (key: string): boolean =>
+  Boolean(key) && key.length <= 255 && !key.startsWith('.') && !/[/\\\0]/.test(key);
+
+/**
+ * @throws Error if the key is empty, hidden, too long or contains a path separator
+ */
+export const assertValidKey = (key: string): void => {
+  if (!isValidKey(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+};
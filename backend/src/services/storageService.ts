@@ -1,12 +1,18 @@
-import { bucket } from '../config/storage';
 import crypto from 'crypto';
+import { getStorageDriver } from './storage';
+import { processImage, ImageVariantUrls } from './imageProcessingService';
 
 const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB in bytes
 
+const CACHE_CONTROL = 'public, max-age=31536000'; // Cache for 1 year
+
 export interface UploadResult {
+  /** URL of the hero variant, stored as the image URL */
   publicUrl: string;
+  /** Storage key of the hero variant */
   filename: string;
+  variants: ImageVariantUrls;
 }
 
 /**
@@ -27,81 +33,119 @@ function validateFile(file: Express.Multer.File): void {
 }
 
 /**
- * Generate unique filename with timestamp
- * @param originalName - Original filename
- * @returns Unique filename
+ * Generate unique file name prefix with timestamp; variants append "-<variant>.webp"
+ * @returns Unique prefix
  */
-function generateUniqueFilename(originalName: string): string {
+function generateUniquePrefix(): string {
   const timestamp = Date.now();
   const randomString = crypto.randomBytes(16).toString('hex');
-  const extension = originalName.split('.').pop() || 'jpg';
-  return `${randomString}-${timestamp}.${extension}`;
+  return `${randomString}-${timestamp}`;
 }
 
 /**
- * Upload cover image to Google Cloud Storage
- * @param file - Multer file object
- * @returns Public URL and filename
- * @throws Error if upload fails or validation fails
+ * Resize an image into WebP variants and store them all
+ * @param input - Original image contents; the original itself is not kept
+ * @returns Variant URLs, with the hero variant as publicUrl
+ * @throws Error if the image cannot be decoded or stored (variants stored so far are removed)
  */
-export async function uploadCoverImage(file: Express.Multer.File): Promise<UploadResult> {
-  // Validate file
-  validateFile(file);
-
-  // Generate unique filename
-  const filename = generateUniqueFilename(file.originalname);
-
-  // Create blob in bucket
-  const blob = bucket.file(filename);
-
-  // Create write stream
-  const blobStream = blob.createWriteStream({
-    resumable: false,
-    metadata: {
-      contentType: file.mimetype,
-      cacheControl: 'public, max-age=31536000', // Cache for 1 year
-    },
-  });
-
-  // Upload file
-  await new Promise<void>((resolve, reject) => {
-    blobStream.on('error', (error) => {
-      reject(new Error(`Upload failed: ${error.message}`));
-    });
-
-    blobStream.on('finish', () => {
-      resolve();
-    });
-
-    blobStream.end(file.buffer);
-  });
+export async function storeImageVariants(input: Buffer): Promise<UploadResult> {
+  let processed;
+  try {
+    processed = await processImage(input);
+  } catch (error) {
+    throw new Error('File is not a valid image');
+  }
 
-  // Make the file public
+  const driver = getStorageDriver();
+  const prefix = generateUniquePrefix();
+  const stored: string[] = [];
   try {
-    await blob.makePublic();
+    for (const variant of processed) {
+      const key = `${prefix}-${variant.name}.webp`;
+      await driver.put(key, variant.data, { contentType: 'image/webp', cacheControl: CACHE_CONTROL });
+      stored.push(key);
+    }
   } catch (error) {
-    console.error('Error making file public:', error);
-    // Continue anyway, as the bucket might be public by default
+    await Promise.all(stored.map(key => deleteImage(key)));
+    throw error;
   }
 
-  // Get public URL (bucket must have uniform bucket-level access with allUsers read permission)
-  const publicUrl = `https://storage.googleapis.com/${bucket.name}/${filename}`;
+  const variants = Object.fromEntries(
+    processed.map(variant => [variant.name, driver.getUrl(`${prefix}-${variant.name}.webp`)])
+  ) as ImageVariantUrls;
 
   return {
-    publicUrl,
-    filename,
+    publicUrl: variants.hero,
+    filename: `${prefix}-hero.webp`,
+    variants,
   };
 }
 
 /**
- * Delete image from Google Cloud Storage
+ * Validate an uploaded image and store its resized variants
+ * @param file - Multer file object
+ * @returns Public URL of the hero variant, its filename and all variant URLs
+ * @throws Error if upload fails or validation fails
+ */
+export async function uploadCoverImage(file: Express.Multer.File): Promise<UploadResult> {
+  // Validate file
+  validateFile(file);
+
+  return storeImageVariants(file.buffer);
+}
+
+/**
+ * Delete image from storage
  * @param filename - Filename to delete
  */
 export async function deleteImage(filename: string): Promise<void> {
   try {
-    await bucket.file(filename).delete();
+    await getStorageDriver().delete(filename);
   } catch (error) {
     console.error('Error deleting file:', error);
     // Don't throw error - file might already be deleted
   }
 }
+
+/**
+ * Delete an image from storage, given its public URL
+ * @param publicUrl - URL previously returned by uploadCoverImage; URLs outside our storage are ignored
+ */
+export async function deleteImageByUrl(publicUrl: string): Promise<void> {
+  const filename = getStorageDriver().keyFromUrl(publicUrl);
+  if (!filename) {
+    return;
+  }
+
+  await deleteImage(filename);
+}
+
+/**
+ * Delete an image and all of its variants from storage
+ * @param publicUrl - Stored image URL
+ * @param variants - Variant URLs stored alongside it, if any
+ */
+export async function deleteImageWithVariants(publicUrl: string, variants?: ImageVariantUrls | null): Promise<void> {
+  const urls = new Set([publicUrl, ...Object.values(variants || {})]);
+  await Promise.all(Array.from(urls).map(url => deleteImageByUrl(url)));
+}
+
+/**
+ * Read an image from storage, given its public URL
+ * @param publicUrl - URL previously returned by uploadCoverImage
+ * @returns File contents, or null if the URL does not point into our storage or the file is missing
+ */
+export async function downloadImage(publicUrl: string): Promise<Buffer | null> {
+  const driver = getStorageDriver();
+  const filename = driver.keyFromUrl(publicUrl);
+  if (!filename) {
+    return null;
+  }
+
+  try {
+    return await driver.get(filename);
+  } catch (error) {
+    console.error('Error downloading file:', error);
+    return null;
+  }
+}
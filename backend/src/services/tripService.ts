@@ -1,5 +1,9 @@
+import { PoolClient } from 'pg';
 import pool from '../config/database';
 import { Product } from './productService';
+import { recordTripSnapshot, markLatestSnapshotReviewed } from './tripSnapshotService';
+import { parseSearchQuery, toLikePattern } from '../utils/search';
+import { paginate, Page, PageRequest } from '../utils/pagination';
 
 export interface TripDayItem {
   id?: string;
@@ -24,6 +28,8 @@ export interface TripDay {
 
 export type TripStatus = '草稿' | '審核中' | '已通過' | '已退回';
 
+type Queryable = Pick<PoolClient, 'query'>;
+
 export interface Trip {
   id: string;
   supplierId: string;
@@ -34,6 +40,7 @@ export interface Trip {
   status: TripStatus;
   rejectionReason?: string;
   days?: TripDay[];
+  version: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -125,14 +132,20 @@ export async function getTripsBySupplier(supplierId: string): Promise<Trip[]> {
     daysCount: row.days_count,
     status: row.status as TripStatus,
     rejectionReason: row.rejection_reason,
+    version: row.version,
     createdAt: row.created_at,
     updatedAt: row.updated_at
   }));
 }
 
-export async function getTripById(id: string, supplierId: string): Promise<Trip> {
+/**
+ * Get a trip with its days, items and product titles
+ * @param db - Pool or transaction client to read with (defaults to the pool)
+ * @throws Error if the trip does not exist for this supplier
+ */
+export async function getTripById(id: string, supplierId: string, db: Queryable = pool): Promise<Trip> {
   // Check ownership
-  const tripCheck = await pool.query(
+  const tripCheck = await db.query(
     'SELECT * FROM supplier_trips WHERE id = $1 AND supplier_id = $2',
     [id, supplierId]
   );
@@ -149,13 +162,14 @@ export async function getTripById(id: string, supplierId: string): Promise<Trip>
     daysCount: row.days_count,
     status: row.status as TripStatus,
     rejectionReason: row.rejection_reason,
+    version: row.version,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     days: []
   };
 
   // Fetch Days
-  const daysResult = await pool.query(
+  const daysResult = await db.query(
     'SELECT * FROM supplier_trip_days WHERE trip_id = $1 ORDER BY day_index ASC',
     [id]
   );
@@ -177,7 +191,7 @@ export async function getTripById(id: string, supplierId: string): Promise<Trip>
     };
 
     // Fetch items with product titles for this day
-    const itemsResult = await pool.query(
+    const itemsResult = await db.query(
       `SELECT i.*, p.title as product_title 
        FROM supplier_trip_day_items i 
        LEFT JOIN products p ON i.product_id = p.id 
@@ -196,7 +210,7 @@ export async function getTripById(id: string, supplierId: string): Promise<Trip>
     // Fetch meal and hotel titles if they are IDs
     const mealHotelIds = [dayRow.breakfast_id, dayRow.lunch_id, dayRow.dinner_id, dayRow.hotel_id].filter(Boolean);
     if (mealHotelIds.length > 0) {
-      const productsResult = await pool.query(
+      const productsResult = await db.query(
         'SELECT id, title FROM products WHERE id = ANY($1)',
         [mealHotelIds]
       );
@@ -217,25 +231,39 @@ export async function getTripById(id: string, supplierId: string): Promise<Trip>
   return trip;
 }
 
-export async function updateTrip(id: string, supplierId: string, updateData: UpdateTripRequest): Promise<Trip> {
+/**
+ * Replace a trip's contents
+ * @param expectedVersion - Version the client last loaded; omit to overwrite unconditionally
+ * @throws Error 'Version conflict' if the trip was saved by someone else in the meantime
+ */
+export async function updateTrip(
+  id: string,
+  supplierId: string,
+  updateData: UpdateTripRequest,
+  expectedVersion?: number
+): Promise<Trip> {
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
     
-    // Check ownership
+    // Check ownership (locking the row so concurrent saves are serialized)
     const ownershipResult = await client.query(
-      'SELECT id FROM supplier_trips WHERE id = $1 AND supplier_id = $2',
+      'SELECT id, version FROM supplier_trips WHERE id = $1 AND supplier_id = $2 FOR UPDATE',
       [id, supplierId]
     );
     if (ownershipResult.rows.length === 0) {
       throw new Error('Trip not found or access denied');
     }
+    if (expectedVersion !== undefined && ownershipResult.rows[0].version !== expectedVersion) {
+      throw new Error('Version conflict');
+    }
 
     // Update Trip Master Record
     // Note: Editing a trip resets it to '草稿' or keeps it in current non-reviewed state
     await client.query(
       `UPDATE supplier_trips 
-       SET name = $1, destination = $2, category = $3, days_count = $4, status = $5, updated_at = CURRENT_TIMESTAMP 
+       SET name = $1, destination = $2, category = $3, days_count = $4, status = $5,
+           updated_at = CURRENT_TIMESTAMP, version = version + 1
        WHERE id = $6`,
       [updateData.name, updateData.destination, updateData.category || '團體旅遊', updateData.daysCount, '草稿', id]
     );
@@ -295,7 +323,9 @@ export async function deleteTrip(id: string, supplierId: string): Promise<void>
 
 /**
  * Update trip status with validation
- * Suppliers can only submit for review if all products are approved
+ * Suppliers can only submit for review if all products are approved.
+ * Each submission is snapshotted so admins can compare resubmissions; the status change
+ * and its snapshot commit together, and resubmitting a trip already under review adds none.
  */
 export async function updateTripStatus(
   id: string,
@@ -303,20 +333,25 @@ export async function updateTripStatus(
   supplierId?: string,
   rejectionReason?: string
 ): Promise<Trip> {
-  // If supplierId is provided, verify ownership
-  if (supplierId) {
-    const ownershipCheck = await pool.query(
-      'SELECT id FROM supplier_trips WHERE id = $1 AND supplier_id = $2',
-      [id, supplierId]
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // Lock the trip so a repeated submission sees the status the first one left behind
+    const current = await client.query(
+      `SELECT status, supplier_id FROM supplier_trips
+       WHERE id = $1${supplierId ? ' AND supplier_id = $2' : ''}
+       FOR UPDATE`,
+      supplierId ? [id, supplierId] : [id]
     );
 
-    if (ownershipCheck.rows.length === 0) {
-      throw new Error('Trip not found or access denied');
+    if (current.rows.length === 0) {
+      throw new Error(supplierId ? 'Trip not found or access denied' : 'Trip not found');
     }
 
-    // If submitting for review, check all products
-    if (status === '審核中') {
-      const unapprovedProducts = await pool.query(`
+    // Suppliers submitting for review must have every product approved
+    if (supplierId && status === '審核中') {
+      const unapprovedProducts = await client.query(`
         SELECT p.title 
         FROM products p
         WHERE p.id IN (
@@ -339,30 +374,40 @@ export async function updateTripStatus(
         throw new Error('此行程包含尚未審核通過的產品，請先完成產品審核後再提交行程審核。');
       }
     }
-  }
 
-  const updates: string[] = ['status = $1', 'updated_at = CURRENT_TIMESTAMP'];
-  const values: any[] = [status, id];
-  let paramCount = 3;
+    const updates: string[] = ['status = $1', 'updated_at = CURRENT_TIMESTAMP', 'version = version + 1'];
+    const values: any[] = [status, id];
+    let paramCount = 3;
 
-  if (rejectionReason !== undefined) {
-    updates.push(`rejection_reason = $${paramCount++}`);
-    values.push(rejectionReason);
-  }
+    if (rejectionReason !== undefined) {
+      updates.push(`rejection_reason = $${paramCount++}`);
+      values.push(rejectionReason);
+    }
 
-  const result = await pool.query(
-    `UPDATE supplier_trips
-     SET ${updates.join(', ')}
-     WHERE id = $2
-     RETURNING *`,
-    values
-  );
+    await client.query(
+      `UPDATE supplier_trips
+       SET ${updates.join(', ')}
+       WHERE id = $2`,
+      values
+    );
 
-  if (result.rows.length === 0) {
-    throw new Error('Trip not found');
-  }
+    const trip = await getTripById(id, current.rows[0].supplier_id, client);
 
-  return getTripById(id, supplierId || result.rows[0].supplier_id);
+    // A trip already under review keeps the snapshot taken when it was submitted
+    if (status === '審核中' && current.rows[0].status !== '審核中') {
+      await recordTripSnapshot(client, trip, supplierId);
+    } else if (status === '已通過' || status === '已退回') {
+      await markLatestSnapshotReviewed(client, id, status, rejectionReason);
+    }
+
+    await client.query('COMMIT');
+    return trip;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
 }
 
 /**
@@ -383,64 +428,79 @@ export async function getTripsByStatus(status: TripStatus): Promise<Trip[]> {
     daysCount: row.days_count,
     status: row.status as TripStatus,
     rejectionReason: row.rejection_reason,
+    version: row.version,
     createdAt: row.created_at,
     updatedAt: row.updated_at
   }));
 }
 
 /**
- * Get approved trips for agency view (no ownership check)
+ * Sort keys of the agency trip list
+ */
+export const APPROVED_TRIP_SORT_COLUMNS = {
+  createdAt: 'created_at',
+  name: 'name',
+  daysCount: 'days_count',
+};
+
+/**
+ * Get a page of approved trips for agency view (no ownership check)
  * Supports optional search (name/destination) and daysCount filter
  */
-export async function getApprovedTrips(filters?: {
-  search?: string;
-  daysCount?: number;
-  destination?: string;
-}): Promise<(Trip & { supplierName: string })[]> {
+export async function getApprovedTrips(
+  filters: {
+    search?: string;
+    daysCount?: number;
+    destination?: string;
+  },
+  page: PageRequest
+): Promise<Page<Trip & { supplierName: string }>> {
   const conditions = [`st.status = '已通過'`];
   const values: any[] = [];
   let paramCount = 1;
 
-  if (filters?.search) {
-    conditions.push(`(st.name ILIKE $${paramCount} OR st.destination ILIKE $${paramCount})`);
-    values.push(`%${filters.search}%`);
+  // Every whitespace-separated term must match the name, destination or supplier
+  for (const term of parseSearchQuery(filters.search)) {
+    conditions.push(`(st.name ILIKE $${paramCount} OR st.destination ILIKE $${paramCount} OR u.name ILIKE $${paramCount})`);
+    values.push(toLikePattern(term));
     paramCount++;
   }
 
-  if (filters?.daysCount) {
+  if (filters.daysCount) {
     conditions.push(`st.days_count = $${paramCount}`);
     values.push(filters.daysCount);
     paramCount++;
   }
 
-  if (filters?.destination) {
+  if (filters.destination) {
     conditions.push(`st.destination ILIKE $${paramCount}`);
     values.push(`%${filters.destination}%`);
     paramCount++;
   }
 
-  const result = await pool.query(
-    `SELECT st.*, u.name as supplier_name
+  return paginate(pool, {
+    query: `SELECT st.*, u.name as supplier_name
      FROM supplier_trips st
      JOIN users u ON st.supplier_id = u.id
-     WHERE ${conditions.join(' AND ')}
-     ORDER BY st.created_at DESC`,
-    values
-  );
-
-  return result.rows.map(row => ({
-    id: row.id,
-    supplierId: row.supplier_id,
-    name: row.name,
-    destination: row.destination,
-    category: row.category,
-    daysCount: row.days_count,
-    status: row.status as TripStatus,
-    rejectionReason: row.rejection_reason,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-    supplierName: row.supplier_name
-  }));
+     WHERE ${conditions.join(' AND ')}`,
+    values,
+    sortColumns: APPROVED_TRIP_SORT_COLUMNS,
+    page,
+    mapRow: row => ({
+      id: row.id,
+      supplierId: row.supplier_id,
+      name: row.name,
+      destination: row.destination,
+      category: row.category,
+      daysCount: row.days_count,
+      status: row.status as TripStatus,
+      rejectionReason: row.rejection_reason,
+      version: row.version,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      supplierName: row.supplier_name
+    }),
+  });
 }
 
 /**
@@ -470,6 +530,7 @@ export async function getApprovedTripById(id: string): Promise<Trip & { supplier
     daysCount: row.days_count,
     status: row.status as TripStatus,
     rejectionReason: row.rejection_reason,
+    version: row.version,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     supplierName: row.supplier_name,
@@ -0,0 +1,292 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import type { Trip, TripStatus } from './tripService';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+export interface TripSnapshotItem {
+  productId: string;
+  productTitle?: string | null;
+  sortOrder: number;
+}
+
+export interface TripSnapshotDay {
+  dayIndex: number;
+  breakfastId: string | null;
+  breakfastCustom: string | null;
+  breakfastTitle: string | null;
+  lunchId: string | null;
+  lunchCustom: string | null;
+  lunchTitle: string | null;
+  dinnerId: string | null;
+  dinnerCustom: string | null;
+  dinnerTitle: string | null;
+  hotelId: string | null;
+  hotelCustom: string | null;
+  hotelTitle: string | null;
+  notes: string | null;
+  items: TripSnapshotItem[];
+}
+
+export interface TripSnapshotContent {
+  name: string;
+  destination: string;
+  category: string;
+  daysCount: number;
+  days: TripSnapshotDay[];
+}
+
+export interface TripSnapshot {
+  id: string;
+  tripId: string;
+  version: number;
+  snapshot: TripSnapshotContent;
+  submittedBy?: string;
+  reviewStatus?: TripStatus;
+  rejectionReason?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+}
+
+export interface TripFieldChange {
+  field: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface TripDayDiff {
+  dayIndex: number;
+  change: 'added' | 'removed' | 'modified' | 'unchanged';
+  fields: TripFieldChange[];
+  addedItems: string[];
+  removedItems: string[];
+  reordered: boolean;
+}
+
+export interface TripSnapshotDiff {
+  tripId: string;
+  fromVersion: number;
+  toVersion: number;
+  tripFields: TripFieldChange[];
+  days: TripDayDiff[];
+}
+
+const DAY_SLOTS = ['breakfast', 'lunch', 'dinner', 'hotel'] as const;
+
+const mapRowToSnapshot = (row: any): TripSnapshot => ({
+  id: row.id,
+  tripId: row.trip_id,
+  version: row.version,
+  snapshot: row.snapshot,
+  submittedBy: row.submitted_by || undefined,
+  reviewStatus: row.review_status || undefined,
+  rejectionReason: row.rejection_reason || undefined,
+  reviewedAt: row.reviewed_at || undefined,
+  createdAt: row.created_at,
+});
+
+/**
+ * Reduce a fully loaded trip to the content worth preserving in a snapshot
+ * (drops row IDs, which are regenerated on every save)
+ */
+export function buildTripSnapshot(trip: Trip): TripSnapshotContent {
+  return {
+    name: trip.name,
+    destination: trip.destination,
+    category: trip.category,
+    daysCount: trip.daysCount,
+    days: (trip.days || []).map((day: any) => ({
+      dayIndex: day.dayIndex,
+      breakfastId: day.breakfastId || null,
+      breakfastCustom: day.breakfastCustom || null,
+      breakfastTitle: day.breakfastTitle || null,
+      lunchId: day.lunchId || null,
+      lunchCustom: day.lunchCustom || null,
+      lunchTitle: day.lunchTitle || null,
+      dinnerId: day.dinnerId || null,
+      dinnerCustom: day.dinnerCustom || null,
+      dinnerTitle: day.dinnerTitle || null,
+      hotelId: day.hotelId || null,
+      hotelCustom: day.hotelCustom || null,
+      hotelTitle: day.hotelTitle || null,
+      notes: day.notes || null,
+      items: (day.items || []).map((item: any) => ({
+        productId: item.productId,
+        productTitle: item.productTitle || null,
+        sortOrder: item.sortOrder,
+      })),
+    })),
+  };
+}
+
+// Custom text wins over the product title, matching how trips are displayed
+const slotLabel = (day: TripSnapshotDay, slot: typeof DAY_SLOTS[number]): string | null =>
+  day[`${slot}Custom`] || day[`${slot}Title`] || day[`${slot}Id`] || null;
+
+const itemLabel = (item: TripSnapshotItem): string => item.productTitle || item.productId;
+
+function diffDay(before: TripSnapshotDay | undefined, after: TripSnapshotDay | undefined): TripDayDiff {
+  const dayIndex = (after || before)!.dayIndex;
+  const fields: TripFieldChange[] = [];
+
+  for (const slot of DAY_SLOTS) {
+    const beforeValue = before ? slotLabel(before, slot) : null;
+    const afterValue = after ? slotLabel(after, slot) : null;
+    if (beforeValue !== afterValue) {
+      fields.push({ field: slot, before: beforeValue, after: afterValue });
+    }
+  }
+
+  const beforeNotes = before?.notes || null;
+  const afterNotes = after?.notes || null;
+  if (beforeNotes !== afterNotes) {
+    fields.push({ field: 'notes', before: beforeNotes, after: afterNotes });
+  }
+
+  const beforeItems = [...(before?.items || [])].sort((a, b) => a.sortOrder - b.sortOrder);
+  const afterItems = [...(after?.items || [])].sort((a, b) => a.sortOrder - b.sortOrder);
+  const beforeIds = beforeItems.map(i => i.productId);
+  const afterIds = afterItems.map(i => i.productId);
+
+  const addedItems = afterItems.filter(i => !beforeIds.includes(i.productId)).map(itemLabel);
+  const removedItems = beforeItems.filter(i => !afterIds.includes(i.productId)).map(itemLabel);
+
+  // Only a reorder if the shared items appear in a different sequence
+  const keptBefore = beforeIds.filter(id => afterIds.includes(id));
+  const keptAfter = afterIds.filter(id => beforeIds.includes(id));
+  const reordered = keptBefore.some((id, idx) => keptAfter[idx] !== id);
+
+  let change: TripDayDiff['change'] = 'unchanged';
+  if (!before) change = 'added';
+  else if (!after) change = 'removed';
+  else if (fields.length > 0 || addedItems.length > 0 || removedItems.length > 0 || reordered) change = 'modified';
+
+  return { dayIndex, change, fields, addedItems, removedItems, reordered };
+}
+
+/**
+ * Compare two trip snapshots day by day
+ * @param before - Older snapshot content
+ * @param after - Newer snapshot content
+ * @returns Trip-level field changes and a per-day breakdown
+ */
+export function diffTripSnapshots(
+  before: TripSnapshotContent,
+  after: TripSnapshotContent
+): Omit<TripSnapshotDiff, 'tripId' | 'fromVersion' | 'toVersion'> {
+  const tripFields: TripFieldChange[] = [];
+  for (const field of ['name', 'destination', 'category', 'daysCount'] as const) {
+    if (before[field] !== after[field]) {
+      tripFields.push({ field, before: before[field], after: after[field] });
+    }
+  }
+
+  const dayIndexes = Array.from(new Set([
+    ...before.days.map(d => d.dayIndex),
+    ...after.days.map(d => d.dayIndex),
+  ])).sort((a, b) => a - b);
+
+  const days = dayIndexes.map(dayIndex => diffDay(
+    before.days.find(d => d.dayIndex === dayIndex),
+    after.days.find(d => d.dayIndex === dayIndex)
+  ));
+
+  return { tripFields, days };
+}
+
+/**
+ * Store an immutable snapshot of a trip as it was submitted for review
+ * @param db - Pool or transaction client to write with
+ * @param trip - Fully loaded trip (with days, items and titles)
+ * @param submittedBy - Supplier who submitted the trip
+ */
+export async function recordTripSnapshot(db: Queryable, trip: Trip, submittedBy?: string): Promise<TripSnapshot> {
+  const result = await db.query(
+    `INSERT INTO supplier_trip_snapshots (trip_id, version, snapshot, submitted_by)
+     VALUES (
+       $1,
+       (SELECT COALESCE(MAX(version), 0) + 1 FROM supplier_trip_snapshots WHERE trip_id = $1),
+       $2, $3
+     )
+     RETURNING *`,
+    [trip.id, JSON.stringify(buildTripSnapshot(trip)), submittedBy || null]
+  );
+
+  return mapRowToSnapshot(result.rows[0]);
+}
+
+/**
+ * Attach the admin's review outcome to the snapshot under review.
+ * Only the latest unreviewed snapshot is touched; snapshot content never changes.
+ * @param db - Pool or transaction client to write with
+ */
+export async function markLatestSnapshotReviewed(
+  db: Queryable,
+  tripId: string,
+  reviewStatus: TripStatus,
+  rejectionReason?: string
+): Promise<void> {
+  await db.query(
+    `UPDATE supplier_trip_snapshots
+     SET review_status = $2, rejection_reason = $3, reviewed_at = CURRENT_TIMESTAMP
+     WHERE id = (
+       SELECT id FROM supplier_trip_snapshots
+       WHERE trip_id = $1
+       ORDER BY version DESC
+       LIMIT 1
+     ) AND review_status IS NULL`,
+    [tripId, reviewStatus, rejectionReason || null]
+  );
+}
+
+/**
+ * List every snapshot of a trip
+ * @param tripId - Trip ID
+ * @returns Snapshots, newest version first
+ */
+export async function getTripSnapshots(tripId: string): Promise<TripSnapshot[]> {
+  const result = await pool.query(
+    'SELECT * FROM supplier_trip_snapshots WHERE trip_id = $1 ORDER BY version DESC',
+    [tripId]
+  );
+
+  return result.rows.map(mapRowToSnapshot);
+}
+
+/**
+ * Diff two snapshots of a trip
+ * @param tripId - Trip ID
+ * @param toVersion - Newer version (defaults to the latest)
+ * @param fromVersion - Older version (defaults to the latest rejected version before toVersion,
+ *                      falling back to the one immediately before it)
+ * @throws Error if the trip has fewer than two snapshots or a version does not exist
+ */
+export async function getTripSnapshotDiff(
+  tripId: string,
+  toVersion?: number,
+  fromVersion?: number
+): Promise<TripSnapshotDiff> {
+  const snapshots = await getTripSnapshots(tripId);
+
+  const to = toVersion !== undefined
+    ? snapshots.find(s => s.version === toVersion)
+    : snapshots[0];
+  if (!to) {
+    throw new Error('Snapshot not found');
+  }
+
+  const earlier = snapshots.filter(s => s.version < to.version);
+  const from = fromVersion !== undefined
+    ? snapshots.find(s => s.version === fromVersion)
+    : earlier.find(s => s.reviewStatus === '已退回') || earlier[0];
+  if (!from) {
+    throw new Error('Snapshot not found');
+  }
+
+  return {
+    tripId,
+    fromVersion: from.version,
+    toVersion: to.version,
+    ...diffTripSnapshots(from.snapshot, to.snapshot),
+  };
+}
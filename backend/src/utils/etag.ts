@@ -0,0 +1,20 @@
+/**
+ * ETag helpers for optimistic concurrency.
+ * Editable resources carry an integer row version; the ETag is that version
+ * quoted, and clients send it back in If-Match when saving.
+ */
+
+export const formatETag = (version: number): string => `"${version}"`;
+
+/**
+ * Parse an If-Match header into the version the client expects to overwrite
+ * @returns Expected version, undefined when the header is absent or "*", null when malformed
+ */
+export const parseIfMatch = (header: string | undefined): number | null | undefined => {
+  if (header === undefined || header.trim() === '*') {
+    return undefined;
+  }
+
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header.trim());
+  return match ? parseInt(match[1], 10) : null;
+};
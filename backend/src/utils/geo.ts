@@ -0,0 +1,137 @@
+/**
+ * Geographic helpers for location-based product queries.
+ * Coordinates are WGS84 degrees; distances are great-circle kilometres.
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Latitude/longitude rectangle. When minLng > maxLng the box crosses the antimeridian.
+ */
+export interface BoundingBox {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+export const DEFAULT_SEARCH_RADIUS_KM = 5;
+export const MAX_SEARCH_RADIUS_KM = 100;
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+const parseNumbers = (value: string, count: number): number[] | null => {
+  const parts = value.split(',').map(part => part.trim());
+  if (parts.length !== count || parts.some(part => part === '')) return null;
+
+  const numbers = parts.map(Number);
+  return numbers.every(Number.isFinite) ? numbers : null;
+};
+
+const isValidLat = (lat: number): boolean => lat >= -90 && lat <= 90;
+const isValidLng = (lng: number): boolean => lng >= -180 && lng <= 180;
+
+/**
+ * Parse a "lat,lng" query value
+ * @returns Point, or null if malformed or out of range
+ */
+export const parseLatLng = (value: string): LatLng | null => {
+  const numbers = parseNumbers(value, 2);
+  if (!numbers) return null;
+
+  const [lat, lng] = numbers;
+  return isValidLat(lat) && isValidLng(lng) ? { lat, lng } : null;
+};
+
+/**
+ * Parse a "minLat,minLng,maxLat,maxLng" query value (the format of Google Maps LatLngBounds.toUrlValue)
+ * @returns Bounding box, or null if malformed or out of range
+ */
+export const parseBoundingBox = (value: string): BoundingBox | null => {
+  const numbers = parseNumbers(value, 4);
+  if (!numbers) return null;
+
+  const [minLat, minLng, maxLat, maxLng] = numbers;
+  if (!isValidLat(minLat) || !isValidLat(maxLat) || !isValidLng(minLng) || !isValidLng(maxLng)) return null;
+  if (minLat > maxLat) return null;
+
+  return { minLat, minLng, maxLat, maxLng };
+};
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ */
+export const haversineKm = (a: LatLng, b: LatLng): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Smallest lat/lng rectangle containing the circle around a point.
+ * Used as an index-friendly prefilter before the exact distance check.
+ */
+export const boundingBoxAround = (center: LatLng, radiusKm: number): BoundingBox => {
+  const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+  const minLat = Math.max(-90, center.lat - latDelta);
+  const maxLat = Math.min(90, center.lat + latDelta);
+
+  // Near the poles the circle covers every longitude
+  const cosLat = Math.cos(toRadians(Math.max(Math.abs(minLat), Math.abs(maxLat))));
+  const lngDelta = cosLat > 0 ? radiusKm / (KM_PER_DEGREE_LAT * cosLat) : 180;
+  if (lngDelta >= 180) {
+    return { minLat, minLng: -180, maxLat, maxLng: 180 };
+  }
+
+  const wrap = (lng: number): number => (lng > 180 ? lng - 360 : lng < -180 ? lng + 360 : lng);
+  return { minLat, minLng: wrap(center.lng - lngDelta), maxLat, maxLng: wrap(center.lng + lngDelta) };
+};
+
+/**
+ * Centre of a bounding box, taking antimeridian crossing into account
+ */
+export const boundingBoxCenter = (box: BoundingBox): LatLng => {
+  const maxLng = box.minLng > box.maxLng ? box.maxLng + 360 : box.maxLng;
+  const lng = (box.minLng + maxLng) / 2;
+
+  return { lat: (box.minLat + box.maxLat) / 2, lng: lng > 180 ? lng - 360 : lng };
+};
+
+const encodeSignedValue = (value: number): string => {
+  let remaining = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+  while (remaining >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+    remaining >>= 5;
+  }
+  return encoded + String.fromCharCode(remaining + 63);
+};
+
+/**
+ * Encode points in the Google encoded polyline format, so straight-line
+ * routes can be drawn by the same map code as Directions API polylines
+ */
+export const encodePolyline = (points: LatLng[]): string => {
+  let previousLat = 0;
+  let previousLng = 0;
+
+  return points
+    .map(point => {
+      const lat = Math.round(point.lat * 1e5);
+      const lng = Math.round(point.lng * 1e5);
+      const encoded = encodeSignedValue(lat - previousLat) + encodeSignedValue(lng - previousLng);
+      previousLat = lat;
+      previousLng = lng;
+      return encoded;
+    })
+    .join('');
+};
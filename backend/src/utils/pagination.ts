@@ -0,0 +1,171 @@
+/**
+ * Cursor pagination shared by list endpoints.
+ * Lists are ordered by a sort column with the row id as tie-breaker, and the cursor carries
+ * the last row's values of those columns, so pages neither skip nor repeat rows when rows
+ * are added between requests (unlike LIMIT/OFFSET).
+ */
+import { PoolClient } from 'pg';
+import { AppError } from '../middleware/errorHandler';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Sort keys accepted by a list, each mapped to one or more columns of the paged query.
+ * Columns must not be NULL; `id` is appended to every key as the tie-breaker.
+ * @example { createdAt: 'created_at', relevance: ['search_rank', 'created_at'] }
+ */
+export type SortColumns = Record<string, string | string[]>;
+
+export interface PageRequest {
+  limit: number;
+  sort: string;
+  order: SortOrder;
+  /** Opaque cursor from the previous page's pageInfo.nextCursor */
+  cursor?: string;
+}
+
+export interface PageInfo {
+  /** Rows matching the filters, across all pages */
+  totalCount: number;
+  limit: number;
+  sort: string;
+  order: SortOrder;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+/**
+ * Response envelope of every paginated list endpoint
+ */
+export interface Page<T> {
+  items: T[];
+  pageInfo: PageInfo;
+}
+
+const firstValue = (value: unknown): string | undefined =>
+  typeof value === 'string' && value !== '' ? value : undefined;
+
+/**
+ * Read `limit`, `sort`, `order` and `cursor` from a request query
+ * @param query - req.query
+ * @param sorts - Accepted sort keys
+ * @param defaults - Sort and order used when the query has none
+ * @throws AppError (400) if limit, sort or order is invalid
+ */
+export const parsePageRequest = (
+  query: Record<string, unknown>,
+  sorts: string[],
+  defaults: { sort: string; order: SortOrder }
+): PageRequest => {
+  const limitParam = firstValue(query.limit);
+  const limit = limitParam === undefined ? DEFAULT_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new AppError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`, 400);
+  }
+
+  const sort = firstValue(query.sort) ?? defaults.sort;
+  if (!sorts.includes(sort)) {
+    throw new AppError(`Invalid sort. Must be one of: ${sorts.join(', ')}`, 400);
+  }
+
+  const orderParam = firstValue(query.order);
+  const order = orderParam ?? (sort === defaults.sort ? defaults.order : 'asc');
+  if (order !== 'asc' && order !== 'desc') {
+    throw new AppError('Invalid order. Must be one of: asc, desc', 400);
+  }
+
+  return { limit, sort, order, cursor: firstValue(query.cursor) };
+};
+
+const encodeCursor = (page: PageRequest, values: string[]): string =>
+  Buffer.from(JSON.stringify({ sort: page.sort, order: page.order, values })).toString('base64url');
+
+const decodeCursor = (page: PageRequest, columnCount: number): string[] => {
+  try {
+    const cursor = JSON.parse(Buffer.from(page.cursor!, 'base64url').toString('utf8'));
+    if (
+      cursor.sort === page.sort
+      && cursor.order === page.order
+      && Array.isArray(cursor.values)
+      && cursor.values.length === columnCount
+      && cursor.values.every((value: unknown) => typeof value === 'string')
+    ) {
+      return cursor.values;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new AppError('Invalid cursor', 400);
+};
+
+/**
+ * Fetch one page of a query and the total row count
+ * @param db - Pool or transaction client
+ * @param options.query - SELECT without ORDER BY or LIMIT; must return `id` and the sort columns
+ * @param options.values - Parameters of the query
+ * @param options.sortColumns - Columns for each sort key of the page request
+ * @param options.page - Parsed page request
+ * @param options.mapRow - Maps a row to an item
+ * @throws AppError (400) if the cursor is malformed or belongs to another sort
+ */
+export async function paginate<T>(
+  db: Queryable,
+  options: {
+    query: string;
+    values: any[];
+    sortColumns: SortColumns;
+    page: PageRequest;
+    mapRow: (row: any) => T;
+  }
+): Promise<Page<T>> {
+  const { query, values, sortColumns, page, mapRow } = options;
+  const columns = [...[sortColumns[page.sort]].flat(), 'id'];
+  const direction = page.order === 'asc' ? 'ASC' : 'DESC';
+
+  const pageValues = [...values];
+  let keyset = '';
+  if (page.cursor) {
+    const cursorValues = decodeCursor(page, columns.length);
+    // Values travel as text so timestamps keep microseconds; Postgres casts them to the column types
+    const placeholders = cursorValues.map(value => {
+      pageValues.push(value);
+      return `$${pageValues.length}`;
+    });
+    keyset = `WHERE (${columns.join(', ')}) ${page.order === 'asc' ? '>' : '<'} (${placeholders.join(', ')})`;
+  }
+  pageValues.push(page.limit + 1);
+
+  const [rowsResult, countResult] = await Promise.all([
+    db.query(
+      `SELECT page_source.*, ${columns.map((column, i) => `(${column})::text AS cursor_${i}`).join(', ')}
+       FROM (${query}) AS page_source
+       ${keyset}
+       ORDER BY ${columns.map(column => `${column} ${direction}`).join(', ')}
+       LIMIT $${pageValues.length}`,
+      pageValues
+    ),
+    db.query(`SELECT COUNT(*) AS count FROM (${query}) AS page_source`, values),
+  ]);
+
+  // One extra row tells whether there is a next page
+  const hasMore = rowsResult.rows.length > page.limit;
+  const rows = rowsResult.rows.slice(0, page.limit);
+  const last = rows[rows.length - 1];
+
+  return {
+    items: rows.map(mapRow),
+    pageInfo: {
+      totalCount: parseInt(countResult.rows[0].count, 10),
+      limit: page.limit,
+      sort: page.sort,
+      order: page.order,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor(page, columns.map((_, i) => last[`cursor_${i}`])) : null,
+    },
+  };
+}
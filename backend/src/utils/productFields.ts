@@ -0,0 +1,59 @@
+import { ValidationError } from './validation';
+import { CreateProductRequest } from '../services/productService';
+
+/**
+ * Product fields as submitted by the create form or an import row, before the cover image is stored
+ */
+export type ProductFields = Omit<CreateProductRequest, 'supplierId' | 'coverImageUrl' | 'coverImageVariants'>;
+
+export const REQUIRED_PRODUCT_FIELDS = ['title', 'destination', 'category', 'description', 'netPrice'] as const;
+
+const NUMERIC_PRODUCT_FIELDS = ['netPrice', 'ticketPrice', 'duration', 'latitude', 'longitude'] as const;
+
+const isBlank = (value: any): boolean => !value || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Required fields that are missing or blank
+ */
+export const missingProductFields = (input: Record<string, any>): string[] =>
+  REQUIRED_PRODUCT_FIELDS.filter(field => isBlank(input[field]));
+
+/**
+ * Validate product fields the way POST /api/supplier/tours does
+ * @param input - Submitted values; multipart and spreadsheet values arrive as strings
+ * @returns Field-level errors; empty when the fields can be passed to toProductFields
+ */
+export const validateProductFields = (input: Record<string, any>): ValidationError[] => {
+  const errors: ValidationError[] = missingProductFields(input).map(field => ({
+    field,
+    message: `${field} is required`,
+  }));
+
+  for (const field of NUMERIC_PRODUCT_FIELDS) {
+    const value = input[field];
+    if (isBlank(value)) continue;
+    if (Number.isNaN(parseFloat(value))) {
+      errors.push({ field, message: `${field} must be a number` });
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Convert validated product fields to the values createProduct expects
+ */
+export const toProductFields = (input: Record<string, any>): ProductFields => ({
+  title: input.title,
+  destination: input.destination,
+  category: input.category,
+  description: input.description,
+  netPrice: parseFloat(input.netPrice),
+  hasShopping: input.hasShopping === 'true' || input.hasShopping === true,
+  hasTicket: input.hasTicket === 'true' || input.hasTicket === true,
+  ticketPrice: input.ticketPrice ? parseFloat(input.ticketPrice) : undefined,
+  duration: input.duration ? parseFloat(input.duration) : 1.0,
+  address: input.address,
+  latitude: input.latitude ? parseFloat(input.latitude) : undefined,
+  longitude: input.longitude ? parseFloat(input.longitude) : undefined,
+});
@@ -0,0 +1,83 @@
+/**
+ * Free-text search helpers.
+ * Chinese text has no spaces between words, so searches match substrings
+ * (narrowed by indexed character bigrams, see migration 038) instead of relying on word tokenization.
+ * Whitespace in the query separates terms that must all match.
+ */
+
+export const MAX_SEARCH_TERMS = 5;
+export const MAX_SEARCH_TERM_LENGTH = 50;
+
+const SNIPPET_RADIUS = 40;
+
+/**
+ * Split a search query into distinct terms
+ * @example parseSearchQuery('溫泉  親子') // ['溫泉', '親子']
+ */
+export const parseSearchQuery = (q: string | undefined): string[] => {
+  if (!q) return [];
+
+  const terms = q
+    .split(/[\s　,，、]+/)
+    .map(term => term.trim().slice(0, MAX_SEARCH_TERM_LENGTH))
+    .filter(Boolean);
+
+  return Array.from(new Set(terms.map(term => term.toLowerCase()))).slice(0, MAX_SEARCH_TERMS);
+};
+
+/**
+ * Wrap a term for ILIKE, escaping LIKE wildcards in user input
+ */
+export const toLikePattern = (term: string): string =>
+  `%${term.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * HTML-escape text and wrap every occurrence of the terms in <mark>
+ */
+export const highlightTerms = (text: string, terms: string[]): string => {
+  if (terms.length === 0) return escapeHtml(text);
+
+  // Longest first so overlapping terms mark the longer match
+  const pattern = new RegExp(
+    [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|'),
+    'gi'
+  );
+
+  let result = '';
+  let lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    result += escapeHtml(text.slice(lastIndex, match.index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+    lastIndex = match.index! + match[0].length;
+  }
+
+  return result + escapeHtml(text.slice(lastIndex));
+};
+
+/**
+ * Cut a highlighted excerpt around the first matching term
+ * @param text - Plain text to excerpt from
+ * @returns Highlighted snippet, or undefined if no term occurs in the text
+ */
+export const buildSnippet = (text: string, terms: string[]): string | undefined => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const lower = normalized.toLowerCase();
+
+  const positions = terms.map(term => lower.indexOf(term.toLowerCase())).filter(index => index >= 0);
+  if (positions.length === 0) return undefined;
+
+  const first = Math.min(...positions);
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(normalized.length, first + SNIPPET_RADIUS * 2);
+
+  const excerpt = highlightTerms(normalized.slice(start, end), terms);
+  return `${start > 0 ? '…' : ''}${excerpt}${end < normalized.length ? '…' : ''}`;
+};
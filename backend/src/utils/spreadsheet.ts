@@ -0,0 +1,50 @@
+import path from 'path';
+import { parse } from 'csv-parse/sync';
+import ExcelJS from 'exceljs';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+/**
+ * Spreadsheet format from a file name, or null for unsupported files
+ */
+export const spreadsheetFormat = (filename: string): SpreadsheetFormat | null => {
+  const extension = path.extname(filename).toLowerCase();
+  if (extension === '.csv') return 'csv';
+  if (extension === '.xlsx') return 'xlsx';
+  return null;
+};
+
+/**
+ * Read every row of a CSV file (UTF-8, optionally with a BOM) or of the first XLSX worksheet.
+ * Cells are returned as trimmed display text; blank rows are kept so row numbers match the file.
+ * @throws Error if the file cannot be parsed
+ */
+export const parseSpreadsheet = async (data: Buffer, format: SpreadsheetFormat): Promise<string[][]> => {
+  if (format === 'csv') {
+    try {
+      return parse(data, { bom: true, relax_column_count: true, trim: true }) as string[][];
+    } catch (error) {
+      throw new Error(`Invalid CSV file: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(data as unknown as ArrayBuffer);
+  } catch (error) {
+    throw new Error('Invalid XLSX file');
+  }
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, row => {
+    const cells: string[] = [];
+    for (let column = 1; column <= row.cellCount; column++) {
+      cells.push(row.getCell(column).text.trim());
+    }
+    rows.push(cells);
+  });
+  return rows;
+};
@@ -0,0 +1,371 @@
+import { ValidationError } from './validation';
+
+/**
+ * Itinerary timeline_data schema
+ * Mirrors TimelineDay / Product in frontend/src/types/itinerary.ts. Bump
+ * TIMELINE_SCHEMA_VERSION and add an entry to TIMELINE_UPGRADES whenever the
+ * stored shape changes, so older rows are upgraded when read.
+ */
+
+export const TIMELINE_SCHEMA_VERSION = 2;
+
+export const MAX_TIMELINE_DAYS = 30;
+export const MAX_ITEMS_PER_DAY = 50;
+
+export const PRODUCT_TYPES = ['landmark', 'accommodation', 'food', 'transportation'] as const;
+
+export interface TimelineLocation {
+  lat: number;
+  lng: number;
+}
+
+export interface TimelineRouteLeg {
+  distanceText: string;
+  distanceValue: number;
+  durationText: string;
+  durationValue: number;
+  startLocation: TimelineLocation;
+  endLocation: TimelineLocation;
+}
+
+export interface TimelineRouteInfo {
+  polyline: string;
+  legs: TimelineRouteLeg[];
+  totalDistance?: string;
+  totalDuration?: string;
+}
+
+export interface TimelineItem {
+  id: string;
+  title: string;
+  destination?: string;
+  category?: string;
+  coverImageUrl?: string;
+  netPrice?: number;
+  supplierName?: string;
+  productType: typeof PRODUCT_TYPES[number];
+  notes?: string;
+  location?: TimelineLocation;
+  timelineId: string;
+  startTime?: string;
+  /** startTime was fixed by the agent; recalculation and reordering leave the item at that time */
+  timePinned?: boolean;
+  duration?: number;
+  description?: string;
+  hasShopping?: boolean;
+  hasTicket?: boolean;
+  ticketPrice?: number;
+  address?: string;
+}
+
+export interface TimelineDay {
+  dayNumber: number;
+  items: TimelineItem[];
+  date?: string;
+  dayOfWeek?: string;
+  breakfastId: string | null;
+  breakfastCustom: string | null;
+  breakfastTitle: string | null;
+  lunchId: string | null;
+  lunchCustom: string | null;
+  lunchTitle: string | null;
+  dinnerId: string | null;
+  dinnerCustom: string | null;
+  dinnerTitle: string | null;
+  hotelId: string | null;
+  hotelCustom: string | null;
+  hotelTitle: string | null;
+  notes: string | null;
+  routeInfo?: TimelineRouteInfo;
+}
+
+export type TimelineValidationResult =
+  | { valid: true; timeline: TimelineDay[] }
+  | { valid: false; errors: ValidationError[] };
+
+const DAY_TEXT_FIELDS = [
+  'breakfastId', 'breakfastCustom', 'breakfastTitle',
+  'lunchId', 'lunchCustom', 'lunchTitle',
+  'dinnerId', 'dinnerCustom', 'dinnerTitle',
+  'hotelId', 'hotelCustom', 'hotelTitle',
+  'notes',
+] as const;
+
+const ITEM_STRING_FIELDS = [
+  'destination', 'category', 'coverImageUrl', 'supplierName', 'notes', 'description', 'address',
+] as const;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isObject = (value: any): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: any): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isLocation = (value: any): value is TimelineLocation =>
+  isObject(value) && isFiniteNumber(value.lat) && isFiniteNumber(value.lng);
+
+const validateRouteInfo = (routeInfo: any, path: string, errors: ValidationError[]): void => {
+  if (!isObject(routeInfo)) {
+    errors.push({ field: path, message: 'must be an object' });
+    return;
+  }
+  if (typeof routeInfo.polyline !== 'string') {
+    errors.push({ field: `${path}.polyline`, message: 'must be a string' });
+  }
+  if (!Array.isArray(routeInfo.legs)) {
+    errors.push({ field: `${path}.legs`, message: 'must be an array' });
+    return;
+  }
+  routeInfo.legs.forEach((leg: any, index: number) => {
+    const legPath = `${path}.legs[${index}]`;
+    if (!isObject(leg)) {
+      errors.push({ field: legPath, message: 'must be an object' });
+      return;
+    }
+    for (const field of ['distanceText', 'durationText']) {
+      if (typeof leg[field] !== 'string') errors.push({ field: `${legPath}.${field}`, message: 'must be a string' });
+    }
+    for (const field of ['distanceValue', 'durationValue']) {
+      if (!isFiniteNumber(leg[field])) errors.push({ field: `${legPath}.${field}`, message: 'must be a number' });
+    }
+    for (const field of ['startLocation', 'endLocation']) {
+      if (!isLocation(leg[field])) errors.push({ field: `${legPath}.${field}`, message: 'must be { lat, lng }' });
+    }
+  });
+  for (const field of ['totalDistance', 'totalDuration']) {
+    if (routeInfo[field] !== undefined && typeof routeInfo[field] !== 'string') {
+      errors.push({ field: `${path}.${field}`, message: 'must be a string' });
+    }
+  }
+};
+
+const validateItem = (item: any, path: string, errors: ValidationError[]): void => {
+  if (!isObject(item)) {
+    errors.push({ field: path, message: 'must be an object' });
+    return;
+  }
+  if (typeof item.id !== 'string' || item.id.trim() === '') {
+    errors.push({ field: `${path}.id`, message: 'is required' });
+  }
+  if (typeof item.title !== 'string') {
+    errors.push({ field: `${path}.title`, message: 'is required' });
+  }
+  if (item.productType !== undefined && !PRODUCT_TYPES.includes(item.productType)) {
+    errors.push({ field: `${path}.productType`, message: `must be one of ${PRODUCT_TYPES.join(', ')}` });
+  }
+  if (item.timelineId !== undefined && typeof item.timelineId !== 'string') {
+    errors.push({ field: `${path}.timelineId`, message: 'must be a string' });
+  }
+  for (const field of ITEM_STRING_FIELDS) {
+    if (item[field] !== undefined && item[field] !== null && typeof item[field] !== 'string') {
+      errors.push({ field: `${path}.${field}`, message: 'must be a string' });
+    }
+  }
+  for (const field of ['netPrice', 'ticketPrice', 'duration']) {
+    if (item[field] !== undefined && item[field] !== null && (!isFiniteNumber(item[field]) || item[field] < 0)) {
+      errors.push({ field: `${path}.${field}`, message: 'must be a non-negative number' });
+    }
+  }
+  for (const field of ['hasShopping', 'hasTicket', 'timePinned']) {
+    if (item[field] !== undefined && item[field] !== null && typeof item[field] !== 'boolean') {
+      errors.push({ field: `${path}.${field}`, message: 'must be a boolean' });
+    }
+  }
+  if (item.startTime !== undefined && item.startTime !== null && item.startTime !== '' && !TIME_PATTERN.test(item.startTime)) {
+    errors.push({ field: `${path}.startTime`, message: 'must be HH:mm' });
+  }
+  if (item.location !== undefined && item.location !== null && !isLocation(item.location)) {
+    errors.push({ field: `${path}.location`, message: 'must be { lat, lng }' });
+  }
+};
+
+const validateDay = (day: any, path: string, errors: ValidationError[]): void => {
+  if (!isObject(day)) {
+    errors.push({ field: path, message: 'must be an object' });
+    return;
+  }
+  if (!Number.isInteger(day.dayNumber) || day.dayNumber < 1) {
+    errors.push({ field: `${path}.dayNumber`, message: 'must be a positive integer' });
+  }
+  if (!Array.isArray(day.items)) {
+    errors.push({ field: `${path}.items`, message: 'must be an array' });
+  } else if (day.items.length > MAX_ITEMS_PER_DAY) {
+    errors.push({ field: `${path}.items`, message: `must have at most ${MAX_ITEMS_PER_DAY} items` });
+  } else {
+    day.items.forEach((item: any, index: number) => validateItem(item, `${path}.items[${index}]`, errors));
+  }
+  for (const field of ['date', 'dayOfWeek']) {
+    if (day[field] !== undefined && day[field] !== null && typeof day[field] !== 'string') {
+      errors.push({ field: `${path}.${field}`, message: 'must be a string' });
+    }
+  }
+  for (const field of DAY_TEXT_FIELDS) {
+    if (day[field] !== undefined && day[field] !== null && typeof day[field] !== 'string') {
+      errors.push({ field: `${path}.${field}`, message: 'must be a string or null' });
+    }
+  }
+  if (day.routeInfo !== undefined && day.routeInfo !== null) {
+    validateRouteInfo(day.routeInfo, `${path}.routeInfo`, errors);
+  }
+};
+
+const optionalString = (value: any): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const optionalNumber = (value: any): number | undefined =>
+  isFiniteNumber(value) ? value : undefined;
+
+/**
+ * Copy a structurally valid timeline into the canonical shape, dropping unknown
+ * keys and filling defaults the planner relies on when reloading
+ */
+const normalizeTimeline = (timeline: any[]): TimelineDay[] =>
+  timeline.map((day: any): TimelineDay => {
+    const normalized: TimelineDay = {
+      dayNumber: day.dayNumber,
+      items: (day.items || []).map((item: any, index: number): TimelineItem => ({
+        id: item.id,
+        title: item.title,
+        destination: optionalString(item.destination),
+        category: optionalString(item.category),
+        coverImageUrl: optionalString(item.coverImageUrl),
+        netPrice: optionalNumber(item.netPrice),
+        supplierName: optionalString(item.supplierName),
+        productType: PRODUCT_TYPES.includes(item.productType) ? item.productType : 'landmark',
+        notes: optionalString(item.notes),
+        location: isLocation(item.location) ? { lat: item.location.lat, lng: item.location.lng } : undefined,
+        // Deterministic so repeated reads of an old row yield the same IDs
+        timelineId: optionalString(item.timelineId) || `${item.id}-d${day.dayNumber}-${index}`,
+        startTime: optionalString(item.startTime) || undefined,
+        timePinned: item.timePinned === true ? true : undefined,
+        duration: optionalNumber(item.duration),
+        description: optionalString(item.description),
+        hasShopping: typeof item.hasShopping === 'boolean' ? item.hasShopping : undefined,
+        hasTicket: typeof item.hasTicket === 'boolean' ? item.hasTicket : undefined,
+        ticketPrice: optionalNumber(item.ticketPrice),
+        address: optionalString(item.address),
+      })),
+      date: optionalString(day.date),
+      dayOfWeek: optionalString(day.dayOfWeek),
+      breakfastId: null,
+      breakfastCustom: null,
+      breakfastTitle: null,
+      lunchId: null,
+      lunchCustom: null,
+      lunchTitle: null,
+      dinnerId: null,
+      dinnerCustom: null,
+      dinnerTitle: null,
+      hotelId: null,
+      hotelCustom: null,
+      hotelTitle: null,
+      notes: null,
+      routeInfo: isObject(day.routeInfo) ? day.routeInfo as TimelineRouteInfo : undefined,
+    };
+
+    for (const field of DAY_TEXT_FIELDS) {
+      normalized[field] = typeof day[field] === 'string' ? day[field] : null;
+    }
+
+    return normalized;
+  });
+
+/**
+ * Validate a timeline sent by a client
+ * @param timeline - Untrusted request payload
+ * @returns Normalized timeline, or field-level errors (e.g. "timeline[0].items[2].startTime")
+ */
+export const validateTimeline = (timeline: unknown): TimelineValidationResult => {
+  const errors: ValidationError[] = [];
+
+  if (!Array.isArray(timeline)) {
+    return { valid: false, errors: [{ field: 'timeline', message: 'must be an array' }] };
+  }
+  if (timeline.length > MAX_TIMELINE_DAYS) {
+    return { valid: false, errors: [{ field: 'timeline', message: `must have at most ${MAX_TIMELINE_DAYS} days` }] };
+  }
+
+  timeline.forEach((day, index) => validateDay(day, `timeline[${index}]`, errors));
+
+  const dayNumbers = timeline.map((day: any) => day?.dayNumber);
+  dayNumbers.forEach((dayNumber, index) => {
+    if (dayNumbers.indexOf(dayNumber) !== index) {
+      errors.push({ field: `timeline[${index}].dayNumber`, message: 'must be unique' });
+    }
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, timeline: normalizeTimeline(timeline) };
+};
+
+const toNumber = (value: any): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+};
+
+/**
+ * v1 -> v2: rows saved before validation existed. Repairs what the planner used
+ * to patch up on load (missing productType/timelineId), coerces numeric strings,
+ * renumbers days, drops malformed items and route caches.
+ */
+const upgradeV1ToV2 = (timeline: any): TimelineDay[] => {
+  const days = Array.isArray(timeline) ? timeline.filter(isObject) : [];
+
+  const repaired = days.map((day: any, index: number) => ({
+    ...day,
+    dayNumber: Number.isInteger(day.dayNumber) && day.dayNumber > 0 ? day.dayNumber : index + 1,
+    items: (Array.isArray(day.items) ? day.items : [])
+      .filter((item: any) => isObject(item) && (typeof item.id === 'string' || typeof item.id === 'number'))
+      .map((item: any) => {
+        const lat = toNumber(item.location?.lat);
+        const lng = toNumber(item.location?.lng);
+        return {
+          ...item,
+          id: String(item.id),
+          title: typeof item.title === 'string' ? item.title : '',
+          netPrice: toNumber(item.netPrice),
+          ticketPrice: toNumber(item.ticketPrice),
+          duration: toNumber(item.duration),
+          startTime: TIME_PATTERN.test(item.startTime) ? item.startTime : undefined,
+          location: lat !== undefined && lng !== undefined ? { lat, lng } : undefined,
+        };
+      }),
+    routeInfo: isObject(day.routeInfo) && Array.isArray(day.routeInfo.legs) ? day.routeInfo : undefined,
+  }));
+
+  // Duplicate day numbers from old saves are renumbered by position
+  const dayNumbers = repaired.map((day: any) => day.dayNumber);
+  if (new Set(dayNumbers).size !== dayNumbers.length) {
+    repaired.forEach((day: any, index: number) => { day.dayNumber = index + 1; });
+  }
+
+  return normalizeTimeline(repaired);
+};
+
+const TIMELINE_UPGRADES: Record<number, (timeline: any) => any> = {
+  1: upgradeV1ToV2,
+};
+
+/**
+ * Upgrade stored timeline_data to the current schema version
+ * @param timeline - Stored timeline_data
+ * @param version - Schema version the row was written with
+ * @returns Timeline in the current schema
+ */
+export const upgradeTimeline = (timeline: any, version: number | null | undefined): TimelineDay[] => {
+  let current = version || 1;
+  let data = timeline;
+
+  while (current < TIMELINE_SCHEMA_VERSION) {
+    data = TIMELINE_UPGRADES[current](data);
+    current++;
+  }
+
+  return data;
+};
@@ -81,3 +81,9 @@ export const validatePositiveNumber = (value: any, fieldName: string): void => {
     throw new AppError(`${fieldName} must be a positive number`, 400);
   }
 };
+
+/**
+ * Validate a calendar date in YYYY-MM-DD format
+ */
+export const isValidDateString = (value: any): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
@@ -17,6 +17,7 @@ import AgencyDashboardPage from './pages/agency/AgencyDashboardPage';
 import AgencyTourDetailPage from './pages/agency/AgencyTourDetailPage';
 import ItineraryPlannerPage from './pages/agency/ItineraryPlannerPage';
 import AgencyTripsPage from './pages/agency/AgencyTripsPage';
+import SharedItineraryPage from './pages/public/SharedItineraryPage';
 import ProtectedRoute from './components/ProtectedRoute';
 
 // Component to handle role-based redirect after login
@@ -51,6 +52,7 @@ function App() {
               {/* Public routes */}
               <Route path="/login" element={<LoginPage />} />
               <Route path="/select-role" element={<RoleSelectionPage />} />
+              <Route path="/share/:token" element={<SharedItineraryPage />} />
 
               {/* Root redirect based on authentication */}
               <Route path="/" element={<RoleBasedRedirect />} />
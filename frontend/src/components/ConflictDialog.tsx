@@ -0,0 +1,65 @@
+import React from 'react';
+
+interface ConflictDialogProps {
+  isOpen: boolean;
+  itemLabel: string;
+  onReload: () => void;
+  onOverwrite: () => void;
+  onMerge: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Shown when a save is rejected with 409 because someone else saved first
+ */
+const ConflictDialog: React.FC<ConflictDialogProps> = ({ isOpen, itemLabel, onReload, onOverwrite, onMerge, onClose }) => {
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[1000] p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-slate-800">{itemLabel}已被其他人更新</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 leading-none flex items-center">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 text-sm">
+          <p className="text-slate-500 mb-2">
+            您開啟此{itemLabel}後，有人（或您在其他分頁）已儲存新的版本。請選擇處理方式：
+          </p>
+
+          <button
+            onClick={onMerge}
+            className="w-full text-left p-3 border border-slate-300 rounded-lg hover:bg-slate-50"
+          >
+            <p className="font-bold text-slate-800">合併變更</p>
+            <p className="text-slate-500">保留雙方修改，兩邊都改過的部分以您的版本為準。合併後請檢查再儲存。</p>
+          </button>
+          <button
+            onClick={onReload}
+            className="w-full text-left p-3 border border-slate-300 rounded-lg hover:bg-slate-50"
+          >
+            <p className="font-bold text-slate-800">重新載入</p>
+            <p className="text-slate-500">放棄您的修改，改用最新儲存的版本。</p>
+          </button>
+          <button
+            onClick={onOverwrite}
+            className="w-full text-left p-3 border border-red-200 rounded-lg hover:bg-red-50"
+          >
+            <p className="font-bold text-red-600">覆蓋</p>
+            <p className="text-slate-500">以您的版本取代對方的修改。</p>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictDialog;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import axios from '../config/axios';
+import { useToast } from './Toast';
+
+type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+interface ProductExportMenuProps {
+  // /api/supplier/tours/export or /api/admin/tours/export
+  endpoint: string;
+  // Current list filters; empty values are left out
+  filters: Record<string, string>;
+}
+
+const ProductExportMenu: React.FC<ProductExportMenuProps> = ({ endpoint, filters }) => {
+  const { showError } = useToast();
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setExporting(true);
+    try {
+      const params = Object.fromEntries(Object.entries(filters).filter(([, value]) => value));
+      const response = await axios.get(endpoint, { params: { ...params, format }, responseType: 'blob' });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `產品目錄-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to export products:', err);
+      showError('匯出產品失敗，請稍後再試');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={exporting}
+        className="px-4 py-2 bg-white hover:bg-slate-100 text-slate-700 border border-slate-300 rounded-lg font-medium transition-colors shadow-sm flex items-center gap-2 disabled:opacity-50"
+      >
+        <span className="material-symbols-outlined text-[18px]">download</span>
+        {exporting ? '匯出中...' : '匯出'}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-40 bg-white border border-slate-200 rounded-lg shadow-lg z-20 py-1">
+          {FORMAT_OPTIONS.map(option => (
+            <button
+              key={option.format}
+              onClick={() => handleExport(option.format)}
+              className="w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-50"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductExportMenu;
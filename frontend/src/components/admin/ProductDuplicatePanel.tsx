@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import axios from '../../config/axios';
+import { Copy, ImageOff } from 'lucide-react';
+import { CoverImage } from '../../types/itinerary';
+
+interface ComparedProduct {
+  id: string;
+  title: string;
+  supplierName: string;
+  destination: string;
+  category: string;
+  coverImage: CoverImage | null;
+  netPrice: number;
+  duration: number;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  duplicateOfId?: string;
+}
+
+// Returned by GET /api/admin/tours/:id/duplicates
+interface ProductDuplicate {
+  id: string;
+  score: number;
+  signals: {
+    titleSimilarity?: number;
+    sameAddress?: boolean | null;
+    distanceMeters?: number | null;
+  };
+  status: 'suspected' | 'linked';
+  product: ComparedProduct & { status: string };
+}
+
+interface ProductDuplicatePanelProps {
+  product: ComparedProduct;
+  // Called after the product is linked or unlinked, so the page can reload it
+  onChange: () => void;
+}
+
+const comparedFields: { key: keyof ComparedProduct; label: string }[] = [
+  { key: 'title', label: '產品名稱' },
+  { key: 'supplierName', label: '供應商' },
+  { key: 'destination', label: '目的地' },
+  { key: 'category', label: '類別' },
+  { key: 'address', label: '地址' },
+  { key: 'latitude', label: '緯度' },
+  { key: 'longitude', label: '經度' },
+  { key: 'netPrice', label: '淨價' },
+  { key: 'duration', label: '停留時間' },
+];
+
+const formatValue = (key: keyof ComparedProduct, value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (key === 'netPrice') return `NT$${Number(value).toLocaleString('zh-TW')}`;
+  if (key === 'duration') return `${value} 小時`;
+  return String(value);
+};
+
+const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} 公里` : `${meters} 公尺`;
+
+const Thumbnail: React.FC<{ coverImage: CoverImage | null; title: string }> = ({ coverImage, title }) =>
+  coverImage ? (
+    <img src={coverImage.card} alt={title} className="w-full h-32 object-cover rounded-lg" />
+  ) : (
+    <div className="w-full h-32 rounded-lg bg-slate-100 flex items-center justify-center text-slate-400">
+      <ImageOff size={24} />
+    </div>
+  );
+
+const ProductDuplicatePanel: React.FC<ProductDuplicatePanelProps> = ({ product, onChange }) => {
+  const [duplicates, setDuplicates] = useState<ProductDuplicate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDuplicates = async () => {
+    try {
+      const response = await axios.get(`/api/admin/tours/${product.id}/duplicates`);
+      setDuplicates(response.data);
+    } catch (err) {
+      console.error('Error fetching duplicates:', err);
+      setError('無法載入疑似重複產品');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchDuplicates();
+  }, [product.id, product.duplicateOfId]);
+
+  const runAction = async (busyKey: string, action: () => Promise<unknown>, failure: string) => {
+    try {
+      setBusyId(busyKey);
+      setError(null);
+      await action();
+      await fetchDuplicates();
+    } catch (err: any) {
+      console.error('Duplicate action failed:', err);
+      setError(err.response?.data?.error || failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleLink = (duplicate: ProductDuplicate) => {
+    if (!window.confirm(`確定將此產品標記為「${duplicate.product.title}」的重複？標記後旅行社將看不到此產品。`)) return;
+    runAction(duplicate.id, async () => {
+      await axios.put(`/api/admin/tours/${product.id}/duplicate-of`, { duplicateOfId: duplicate.product.id });
+      onChange();
+    }, '標記重複失敗');
+  };
+
+  const handleUnlink = () => {
+    runAction('unlink', async () => {
+      await axios.delete(`/api/admin/tours/${product.id}/duplicate-of`);
+      onChange();
+    }, '取消標記失敗');
+  };
+
+  const handleDismiss = (duplicate: ProductDuplicate) => {
+    runAction(duplicate.id, () => axios.post(`/api/admin/tours/${product.id}/duplicates/${duplicate.id}/dismiss`), '操作失敗');
+  };
+
+  if (loading || (duplicates.length === 0 && !product.duplicateOfId && !error)) {
+    return null;
+  }
+
+  return (
+    <div className="p-8 border-b border-slate-100">
+      <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <Copy size={20} className="text-slate-400" />
+        疑似重複產品
+      </h3>
+
+      {product.duplicateOfId && (
+        <div className="mb-4 p-4 bg-amber-50 text-amber-800 rounded-lg border border-amber-200 flex flex-wrap items-center justify-between gap-3 text-sm">
+          <span>
+            此產品已標記為
+            <Link to={`/admin/tours/${product.duplicateOfId}`} className="font-bold underline mx-1">另一個產品</Link>
+            的重複，旅行社的產品庫中不會顯示。
+          </span>
+          <button
+            onClick={handleUnlink}
+            disabled={busyId !== null}
+            className="px-3 py-1.5 bg-white border border-amber-300 rounded-lg font-medium hover:bg-amber-100 transition-colors disabled:opacity-50"
+          >
+            取消標記
+          </button>
+        </div>
+      )}
+
+      {error && <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg border border-red-200 text-sm">{error}</div>}
+
+      <div className="flex flex-col gap-6">
+        {duplicates.map(duplicate => {
+          const { signals } = duplicate;
+          const isLinkedToThis = duplicate.product.duplicateOfId === product.id;
+          const isOriginalOfThis = product.duplicateOfId === duplicate.product.id;
+
+          return (
+            <div key={duplicate.id} className="rounded-lg border border-slate-200 overflow-hidden">
+              <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 bg-slate-50 border-b border-slate-200">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-bold text-slate-800">相似度 {Math.round(duplicate.score * 100)}%</span>
+                  {signals.titleSimilarity !== undefined && (
+                    <span className="px-2 py-0.5 rounded-full bg-white border border-slate-200 text-slate-600">
+                      名稱 {Math.round(signals.titleSimilarity * 100)}%
+                    </span>
+                  )}
+                  {signals.sameAddress && (
+                    <span className="px-2 py-0.5 rounded-full bg-white border border-slate-200 text-slate-600">地址相同</span>
+                  )}
+                  {signals.distanceMeters !== null && signals.distanceMeters !== undefined && (
+                    <span className="px-2 py-0.5 rounded-full bg-white border border-slate-200 text-slate-600">
+                      距離 {formatDistance(signals.distanceMeters)}
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {isLinkedToThis && <span className="text-sm text-slate-500">對方已標記為此產品的重複</span>}
+                  {isOriginalOfThis && <span className="text-sm text-slate-500">此產品為其重複</span>}
+                  {!isLinkedToThis && !isOriginalOfThis && (
+                    <>
+                      <button
+                        onClick={() => handleDismiss(duplicate)}
+                        disabled={busyId !== null}
+                        className="px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-100 transition-colors disabled:opacity-50"
+                      >
+                        不是重複
+                      </button>
+                      <button
+                        onClick={() => handleLink(duplicate)}
+                        disabled={busyId !== null || !!duplicate.product.duplicateOfId}
+                        title={duplicate.product.duplicateOfId ? '對方本身已是重複產品' : undefined}
+                        className="px-3 py-1.5 bg-slate-800 text-white rounded-lg text-sm font-medium hover:bg-slate-700 transition-colors disabled:opacity-50"
+                      >
+                        {busyId === duplicate.id ? '處理中...' : '標記為重複'}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <table className="w-full text-sm table-fixed">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="text-left font-medium px-4 py-2 w-28"></th>
+                    <th className="text-left font-medium px-4 py-2">此產品</th>
+                    <th className="text-left font-medium px-4 py-2">
+                      <Link to={`/admin/tours/${duplicate.product.id}`} className="text-blue-600 hover:underline">
+                        疑似重複（{duplicate.product.status}）
+                      </Link>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  <tr>
+                    <td className="px-4 py-3 font-medium text-slate-700">封面圖片</td>
+                    <td className="px-4 py-3"><Thumbnail coverImage={product.coverImage} title={product.title} /></td>
+                    <td className="px-4 py-3"><Thumbnail coverImage={duplicate.product.coverImage} title={duplicate.product.title} /></td>
+                  </tr>
+                  {comparedFields.map(({ key, label }) => {
+                    const ours = formatValue(key, product[key]);
+                    const theirs = formatValue(key, duplicate.product[key]);
+                    return (
+                      <tr key={key} className="align-top">
+                        <td className="px-4 py-3 font-medium text-slate-700">{label}</td>
+                        <td className="px-4 py-3 text-slate-800 break-all">{ours}</td>
+                        <td className={`px-4 py-3 break-all ${ours === theirs ? 'text-slate-800' : 'text-amber-700 bg-amber-50/50'}`}>{theirs}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProductDuplicatePanel;
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import axios from '../../config/axios';
+import { History } from 'lucide-react';
+
+interface ProductRevision {
+  id: string;
+  revisionNumber: number;
+  changeType: 'create' | 'update' | 'status';
+  snapshot: { status: string; rejectionReason: string | null };
+  changedFields: string[];
+  changedByName?: string;
+  createdAt: string;
+}
+
+interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+interface ProductRevisionPanelProps {
+  productId: string;
+}
+
+const fieldLabels: Record<string, string> = {
+  title: '產品名稱',
+  destination: '目的地',
+  category: '類別',
+  description: '產品描述',
+  coverImageUrl: '封面圖片',
+  netPrice: '淨價',
+  hasShopping: '購物行程',
+  hasTicket: '門票',
+  ticketPrice: '門票價格',
+  duration: '停留時間',
+  address: '地址',
+  latitude: '緯度',
+  longitude: '經度',
+};
+
+const changeTypeLabels: Record<ProductRevision['changeType'], string> = {
+  create: '建立',
+  update: '內容修改',
+  status: '狀態變更',
+};
+
+const formatValue = (field: string, value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? '有' : '無';
+  if (field === 'netPrice' || field === 'ticketPrice') return `NT$${Number(value).toLocaleString('zh-TW')}`;
+  if (field === 'duration') return `${value} 小時`;
+  if (field === 'description') return String(value).replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  return String(value);
+};
+
+/**
+ * Find the revision recorded when the product was last sent back for revisions,
+ * so the default diff shows everything the supplier changed since that review.
+ */
+const findLastReviewRevision = (revisions: ProductRevision[]): ProductRevision | undefined =>
+  revisions.find(r => r.changeType === 'status' && r.snapshot.status === '需要修改');
+
+const ProductRevisionPanel: React.FC<ProductRevisionPanelProps> = ({ productId }) => {
+  const [revisions, setRevisions] = useState<ProductRevision[]>([]);
+  const [baseRevision, setBaseRevision] = useState<number | null>(null);
+  const [changes, setChanges] = useState<FieldChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const latestRevision = revisions[0];
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        setLoading(true);
+        const response = await axios.get(`/api/admin/tours/${productId}/revisions`);
+        const data: ProductRevision[] = response.data;
+        setRevisions(data);
+
+        if (data.length > 1) {
+          const reviewPoint = findLastReviewRevision(data);
+          setBaseRevision(reviewPoint && reviewPoint.revisionNumber !== data[0].revisionNumber
+            ? reviewPoint.revisionNumber
+            : data[1].revisionNumber);
+        }
+      } catch (err) {
+        console.error('Error fetching revisions:', err);
+        setError('無法載入變更紀錄');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRevisions();
+  }, [productId]);
+
+  useEffect(() => {
+    if (!latestRevision || baseRevision === null) return;
+
+    const fetchDiff = async () => {
+      try {
+        const response = await axios.get(
+          `/api/admin/tours/${productId}/revisions/${latestRevision.revisionNumber}/diff`,
+          { params: { against: baseRevision } }
+        );
+        setChanges(response.data.changes);
+      } catch (err) {
+        console.error('Error fetching revision diff:', err);
+        setError('無法載入變更比較');
+      }
+    };
+
+    fetchDiff();
+  }, [productId, latestRevision, baseRevision]);
+
+  if (loading) {
+    return <p className="text-slate-500 text-sm">載入變更紀錄中...</p>;
+  }
+
+  if (error) {
+    return <div className="p-4 bg-red-50 text-red-700 rounded-lg border border-red-200 text-sm">{error}</div>;
+  }
+
+  if (revisions.length < 2) {
+    return <p className="text-slate-500 text-sm">此產品尚無變更紀錄</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <History size={20} className="text-slate-400" />
+          變更比較
+        </h3>
+        <div className="flex items-center gap-2 text-sm text-slate-600">
+          <span>比較基準：</span>
+          <select
+            value={baseRevision ?? ''}
+            onChange={(e) => setBaseRevision(Number(e.target.value))}
+            className="p-2 border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-slate-400"
+          >
+            {revisions.slice(1).map(r => (
+              <option key={r.id} value={r.revisionNumber}>
+                第 {r.revisionNumber} 版・{changeTypeLabels[r.changeType]}
+                {r.changeType === 'status' ? `（${r.snapshot.status}）` : ''}
+                ・{new Date(r.createdAt).toLocaleString('zh-TW')}
+              </option>
+            ))}
+          </select>
+          <span>→ 第 {latestRevision.revisionNumber} 版（最新）</span>
+        </div>
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="text-slate-500 text-sm p-4 bg-slate-50 rounded-lg border border-slate-200">所選版本之間沒有內容變更</p>
+      ) : (
+        <div className="overflow-hidden rounded-lg border border-slate-200">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="text-left font-medium px-4 py-2 w-32">欄位</th>
+                <th className="text-left font-medium px-4 py-2">修改前</th>
+                <th className="text-left font-medium px-4 py-2">修改後</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {changes.map(change => (
+                <tr key={change.field} className="align-top">
+                  <td className="px-4 py-3 font-medium text-slate-700">{fieldLabels[change.field] || change.field}</td>
+                  <td className="px-4 py-3 text-red-700 bg-red-50/50 line-through decoration-red-300 break-all">
+                    {formatValue(change.field, change.before)}
+                  </td>
+                  <td className="px-4 py-3 text-green-700 bg-green-50/50 break-all">
+                    {formatValue(change.field, change.after)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductRevisionPanel;
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import axios from '../../config/axios';
+import { History, ArrowRight } from 'lucide-react';
+
+interface TripSnapshot {
+  id: string;
+  version: number;
+  reviewStatus?: string;
+  rejectionReason?: string;
+  createdAt: string;
+}
+
+interface FieldChange {
+  field: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+interface DayDiff {
+  dayIndex: number;
+  change: 'added' | 'removed' | 'modified' | 'unchanged';
+  fields: FieldChange[];
+  addedItems: string[];
+  removedItems: string[];
+  reordered: boolean;
+}
+
+interface SnapshotDiff {
+  fromVersion: number;
+  toVersion: number;
+  tripFields: FieldChange[];
+  days: DayDiff[];
+}
+
+interface TripSnapshotDiffPanelProps {
+  tripId: string;
+}
+
+const fieldLabels: Record<string, string> = {
+  name: '行程名稱',
+  destination: '目的地',
+  category: '類別',
+  daysCount: '天數',
+  breakfast: '早餐',
+  lunch: '午餐',
+  dinner: '晚餐',
+  hotel: '住宿',
+  notes: '詳細行程',
+};
+
+const dayChangeLabels: Record<DayDiff['change'], { label: string; className: string }> = {
+  added: { label: '新增', className: 'bg-green-100 text-green-700' },
+  removed: { label: '刪除', className: 'bg-red-100 text-red-700' },
+  modified: { label: '已修改', className: 'bg-amber-100 text-amber-700' },
+  unchanged: { label: '未變更', className: 'bg-slate-100 text-slate-500' },
+};
+
+const formatValue = (value: string | number | null): string =>
+  value === null || value === '' ? '—' : String(value);
+
+const TripSnapshotDiffPanel: React.FC<TripSnapshotDiffPanelProps> = ({ tripId }) => {
+  const [snapshots, setSnapshots] = useState<TripSnapshot[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const latestSnapshot = snapshots[0];
+
+  useEffect(() => {
+    const fetchSnapshots = async () => {
+      try {
+        setLoading(true);
+        const response = await axios.get(`/api/admin/trips/${tripId}/snapshots`);
+        const data: TripSnapshot[] = response.data;
+        setSnapshots(data);
+
+        if (data.length > 1) {
+          // Compare against the submission that was last sent back, when there is one
+          const rejected = data.slice(1).find(s => s.reviewStatus === '已退回');
+          setFromVersion((rejected || data[1]).version);
+        }
+      } catch (err) {
+        console.error('Error fetching trip snapshots:', err);
+        setError('無法載入送審紀錄');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSnapshots();
+  }, [tripId]);
+
+  useEffect(() => {
+    if (!latestSnapshot || fromVersion === null) return;
+
+    const fetchDiff = async () => {
+      try {
+        const response = await axios.get(`/api/admin/trips/${tripId}/snapshots/diff`, {
+          params: { from: fromVersion, to: latestSnapshot.version },
+        });
+        setDiff(response.data);
+      } catch (err) {
+        console.error('Error fetching snapshot diff:', err);
+        setError('無法載入版本比較');
+      }
+    };
+
+    fetchDiff();
+  }, [tripId, latestSnapshot, fromVersion]);
+
+  if (loading) {
+    return <p className="text-slate-500 text-sm">載入送審紀錄中...</p>;
+  }
+
+  if (error) {
+    return <div className="p-4 bg-red-50 text-red-700 rounded-lg border border-red-200 text-sm">{error}</div>;
+  }
+
+  if (snapshots.length < 2) {
+    return <p className="text-slate-500 text-sm">此行程尚無重新送審紀錄</p>;
+  }
+
+  const changedDays = diff ? diff.days.filter(d => d.change !== 'unchanged') : [];
+  const baseSnapshot = snapshots.find(s => s.version === fromVersion);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-xl font-bold text-slate-700 flex items-center gap-2">
+          <History size={20} className="text-slate-400" />
+          送審版本比較
+        </h2>
+        <div className="flex items-center gap-2 text-sm text-slate-600">
+          <span>比較基準：</span>
+          <select
+            value={fromVersion ?? ''}
+            onChange={(e) => setFromVersion(Number(e.target.value))}
+            className="p-2 border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-slate-400"
+          >
+            {snapshots.slice(1).map(s => (
+              <option key={s.id} value={s.version}>
+                第 {s.version} 次送審{s.reviewStatus ? `（${s.reviewStatus}）` : ''}・{new Date(s.createdAt).toLocaleString('zh-TW')}
+              </option>
+            ))}
+          </select>
+          <span>→ 第 {latestSnapshot.version} 次送審（最新）</span>
+        </div>
+      </div>
+
+      {baseSnapshot?.rejectionReason && (
+        <div className="p-4 bg-red-50 text-red-700 rounded-lg mb-4 border border-red-100 text-sm">
+          <p className="font-bold mb-1">當次退回原因：</p>
+          <p>{baseSnapshot.rejectionReason}</p>
+        </div>
+      )}
+
+      {!diff ? (
+        <p className="text-slate-500 text-sm">載入版本比較中...</p>
+      ) : diff.tripFields.length === 0 && changedDays.length === 0 ? (
+        <p className="text-slate-500 text-sm p-4 bg-slate-50 rounded-lg border border-slate-200">所選版本之間沒有內容變更</p>
+      ) : (
+        <div className="space-y-4">
+          {diff.tripFields.length > 0 && (
+            <div className="p-4 bg-white rounded-lg border border-slate-200 text-sm space-y-1.5">
+              {diff.tripFields.map(change => (
+                <div key={change.field} className="flex flex-wrap items-center gap-2">
+                  <span className="text-slate-400 w-16 shrink-0 font-medium">{fieldLabels[change.field] || change.field}</span>
+                  <span className="text-red-700 line-through decoration-red-300">{formatValue(change.before)}</span>
+                  <ArrowRight size={14} className="text-slate-400" />
+                  <span className="text-green-700">{formatValue(change.after)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {changedDays.map(day => (
+            <div key={day.dayIndex} className="bg-slate-50/50 rounded-xl p-5 border border-slate-200">
+              <div className="flex items-center gap-3 mb-3">
+                <span className="font-bold text-slate-800">Day {day.dayIndex}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${dayChangeLabels[day.change].className}`}>
+                  {dayChangeLabels[day.change].label}
+                </span>
+                {day.reordered && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-blue-100 text-blue-700">景點順序調整</span>
+                )}
+              </div>
+
+              <div className="text-sm space-y-1.5">
+                {day.addedItems.map(title => (
+                  <div key={`added-${title}`} className="text-green-700">＋ 景點：{title}</div>
+                ))}
+                {day.removedItems.map(title => (
+                  <div key={`removed-${title}`} className="text-red-700">－ 景點：{title}</div>
+                ))}
+                {day.fields.map(change => (
+                  <div key={change.field} className="flex flex-wrap items-start gap-2">
+                    <span className="text-slate-400 w-16 shrink-0 font-medium">{fieldLabels[change.field] || change.field}</span>
+                    <span className="text-red-700 line-through decoration-red-300 whitespace-pre-wrap">{formatValue(change.before)}</span>
+                    <ArrowRight size={14} className="text-slate-400 mt-0.5" />
+                    <span className="text-green-700 whitespace-pre-wrap">{formatValue(change.after)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TripSnapshotDiffPanel;
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import axios from '../../config/axios';
+import { useToast } from '../Toast';
+
+interface CalendarExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  itineraryId: string;
+  itineraryName: string;
+}
+
+const CalendarExportModal: React.FC<CalendarExportModalProps> = ({ isOpen, onClose, itineraryId, itineraryName }) => {
+  const { showSuccess, showError } = useToast();
+  const [subscriptionUrl, setSubscriptionUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchSubscription = async () => {
+      try {
+        setLoading(true);
+        const response = await axios.get(`/api/itinerary/${itineraryId}/calendar-subscription`);
+        setSubscriptionUrl(response.data.url);
+      } catch (err) {
+        console.error('Failed to fetch calendar subscription:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSubscription();
+  }, [isOpen, itineraryId]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleDownload = async () => {
+    try {
+      const response = await axios.get(`/api/itinerary/${itineraryId}/calendar.ics`, { responseType: 'blob' });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${itineraryName || '行程'}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to download calendar:', err);
+      showError('下載行事曆失敗');
+    }
+  };
+
+  const handleCreateSubscription = async () => {
+    if (subscriptionUrl && !window.confirm('重新產生後，舊的訂閱網址將失效。確定要繼續嗎？')) return;
+    try {
+      setUpdating(true);
+      const response = await axios.post(`/api/itinerary/${itineraryId}/calendar-subscription`);
+      setSubscriptionUrl(response.data.url);
+      showSuccess('已產生訂閱網址');
+    } catch (err) {
+      showError('產生訂閱網址失敗');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleRevokeSubscription = async () => {
+    if (!window.confirm('停用後，已訂閱的行事曆將不再更新。確定要停用嗎？')) return;
+    try {
+      setUpdating(true);
+      await axios.delete(`/api/itinerary/${itineraryId}/calendar-subscription`);
+      setSubscriptionUrl(null);
+      showSuccess('已停用訂閱');
+    } catch (err) {
+      showError('停用訂閱失敗');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!subscriptionUrl) return;
+    try {
+      await navigator.clipboard.writeText(subscriptionUrl);
+      showSuccess('已複製訂閱網址');
+    } catch (err) {
+      showError('複製失敗，請手動複製');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[1000] p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-slate-800">行事曆</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 leading-none flex items-center">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 text-sm">
+          <div>
+            <h4 className="font-bold text-slate-700 mb-1">下載 .ics 檔案</h4>
+            <p className="text-slate-500 mb-3">匯入手機或電腦行事曆，內容為目前已儲存的行程。</p>
+            <button
+              onClick={handleDownload}
+              className="px-4 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-700"
+            >
+              下載行事曆
+            </button>
+          </div>
+
+          <div className="pt-6 border-t border-slate-100">
+            <h4 className="font-bold text-slate-700 mb-1">訂閱網址</h4>
+            <p className="text-slate-500 mb-3">行事曆 App 會定期自動更新。任何取得網址的人都能看到行程，請只提供給領隊。</p>
+            {loading ? (
+              <p className="text-slate-400">載入中...</p>
+            ) : subscriptionUrl ? (
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <input
+                    readOnly
+                    value={subscriptionUrl}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 p-2 border border-slate-300 rounded-lg bg-slate-50 text-slate-600 text-xs"
+                  />
+                  <button onClick={handleCopy} className="px-3 py-2 border border-slate-300 rounded-lg hover:bg-slate-50">
+                    複製
+                  </button>
+                </div>
+                <div className="flex gap-3">
+                  <button
+                    onClick={handleCreateSubscription}
+                    disabled={updating}
+                    className="text-slate-600 hover:text-slate-900 disabled:opacity-50"
+                  >
+                    重新產生
+                  </button>
+                  <button
+                    onClick={handleRevokeSubscription}
+                    disabled={updating}
+                    className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    停用訂閱
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={handleCreateSubscription}
+                disabled={updating}
+                className="px-4 py-2 border border-slate-300 rounded-lg font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+              >
+                產生訂閱網址
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarExportModal;
@@ -9,6 +9,8 @@ interface MapViewProps {
   timelineData?: TimelineDay[];
   focusedDayNumber?: number | null;
   highlightedTimelineId?: string | null;
+  /** Called with the visible bounds ("minLat,minLng,maxLat,maxLng") whenever the map settles */
+  onViewportChange?: (bbox: string) => void;
 }
 
 const containerStyle = {
@@ -39,6 +41,7 @@ const MapView: React.FC<MapViewProps> = ({
   timelineData = [],
   focusedDayNumber = null,
   highlightedTimelineId = null,
+  onViewportChange,
 }) => {
   const { isLoaded } = useJsApiLoader(GOOGLE_MAPS_LOADER_CONFIG);
 
@@ -114,6 +117,13 @@ const MapView: React.FC<MapViewProps> = ({
     setMap(null);
   }, []);
 
+  const onIdle = useCallback(() => {
+    const bounds = map?.getBounds();
+    if (bounds && onViewportChange) {
+      onViewportChange(bounds.toUrlValue());
+    }
+  }, [map, onViewportChange]);
+
   if (!isLoaded) {
     return <div style={styles.loading}>載入地圖中...</div>;
   }
@@ -152,6 +162,7 @@ const MapView: React.FC<MapViewProps> = ({
         zoom={12}
         onLoad={onLoad}
         onUnmount={onUnmount}
+        onIdle={onIdle}
         onDragStart={() => setAutoFit(false)}
         options={{
           zoomControl: true,
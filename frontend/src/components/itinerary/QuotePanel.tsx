@@ -0,0 +1,328 @@
+import React, { useEffect, useState } from 'react';
+import axios from '../../config/axios';
+import { useToast } from '../Toast';
+
+type RoundingMode = 'up' | 'down' | 'nearest';
+
+interface QuoteSettings {
+  markupPercent: number;
+  roundingUnit: number;
+  roundingMode: RoundingMode;
+  currency: string;
+  exchangeRate: number;
+  defaultPax: number;
+  roomOccupancy: number;
+}
+
+interface QuoteLine {
+  kind: 'item' | 'ticket' | 'breakfast' | 'lunch' | 'dinner' | 'hotel';
+  productId: string;
+  title: string;
+  unitPrice: number;
+  quantity: number;
+  amount: number;
+}
+
+interface QuoteDay {
+  dayNumber: number;
+  lines: QuoteLine[];
+  netTotal: number;
+  netPerPerson: number;
+}
+
+interface ItineraryQuote {
+  pax: number;
+  rooms: number;
+  settings: QuoteSettings;
+  days: QuoteDay[];
+  netTotal: number;
+  netPerPerson: number;
+  markupAmount: number;
+  sellTotal: number;
+  pricePerPerson: number;
+  priceTotal: number;
+  currency: string;
+  unpricedProductIds: string[];
+}
+
+interface QuotePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  itineraryId: string;
+}
+
+const lineKindLabels: Record<QuoteLine['kind'], string> = {
+  item: '景點',
+  ticket: '門票',
+  breakfast: '早餐',
+  lunch: '午餐',
+  dinner: '晚餐',
+  hotel: '住宿',
+};
+
+const roundingModeLabels: Record<RoundingMode, string> = {
+  up: '無條件進位',
+  down: '無條件捨去',
+  nearest: '四捨五入',
+};
+
+const formatMoney = (value: number, currency = 'TWD') =>
+  `${currency} ${value.toLocaleString('zh-TW', { maximumFractionDigits: 2 })}`;
+
+const QuotePanel: React.FC<QuotePanelProps> = ({ isOpen, onClose, itineraryId }) => {
+  const { showSuccess, showError } = useToast();
+  const [quote, setQuote] = useState<ItineraryQuote | null>(null);
+  const [pax, setPax] = useState<number | null>(null);
+  const [settingsDraft, setSettingsDraft] = useState<QuoteSettings | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  const fetchQuote = async (paxOverride: number | null) => {
+    try {
+      setLoading(true);
+      const response = await axios.get(`/api/itinerary/${itineraryId}/quote`, {
+        params: paxOverride ? { pax: paxOverride } : {},
+      });
+      const data: ItineraryQuote = response.data;
+      setQuote(data);
+      setPax(data.pax);
+      setSettingsDraft(data.settings);
+    } catch (err) {
+      console.error('Failed to fetch quote:', err);
+      showError('無法計算報價');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchQuote(null);
+    }
+  }, [isOpen, itineraryId]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleSaveSettings = async () => {
+    if (!settingsDraft) return;
+    try {
+      setSavingSettings(true);
+      await axios.put('/api/itinerary/quote-settings', settingsDraft);
+      showSuccess('報價設定已更新');
+      setShowSettings(false);
+      await fetchQuote(pax);
+    } catch (err: any) {
+      showError(err.response?.data?.error || '更新報價設定失敗');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const updateDraft = <K extends keyof QuoteSettings>(field: K, value: QuoteSettings[K]) => {
+    setSettingsDraft(prev => prev ? { ...prev, [field]: value } : prev);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[1000] p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-slate-800">行程報價</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 leading-none flex items-center">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2 text-slate-600">
+              人數
+              <input
+                type="number"
+                min={1}
+                value={pax ?? ''}
+                onChange={(e) => setPax(e.target.value ? parseInt(e.target.value, 10) : null)}
+                className="w-20 p-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400"
+              />
+            </label>
+            <button
+              onClick={() => pax && pax > 0 && fetchQuote(pax)}
+              disabled={loading || !pax || pax < 1}
+              className="px-4 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-700 disabled:opacity-50"
+            >
+              重新計算
+            </button>
+            <button
+              onClick={() => setShowSettings(prev => !prev)}
+              className="ml-auto flex items-center gap-1 text-slate-500 hover:text-slate-800"
+            >
+              <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>settings</span>
+              報價設定
+            </button>
+          </div>
+
+          {showSettings && settingsDraft && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 p-4 bg-slate-50 rounded-lg border border-slate-200 text-sm">
+              <label className="flex flex-col gap-1 text-slate-600">
+                加價比例 (%)
+                <input
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  value={settingsDraft.markupPercent}
+                  onChange={(e) => updateDraft('markupPercent', parseFloat(e.target.value) || 0)}
+                  className="p-2 border border-slate-300 rounded-lg bg-white"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-slate-600">
+                幣別
+                <input
+                  type="text"
+                  maxLength={3}
+                  value={settingsDraft.currency}
+                  onChange={(e) => updateDraft('currency', e.target.value.toUpperCase())}
+                  className="p-2 border border-slate-300 rounded-lg bg-white"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-slate-600">
+                匯率 (1 單位 = ? TWD)
+                <input
+                  type="number"
+                  min={0}
+                  step="0.0001"
+                  value={settingsDraft.exchangeRate}
+                  onChange={(e) => updateDraft('exchangeRate', parseFloat(e.target.value) || 0)}
+                  className="p-2 border border-slate-300 rounded-lg bg-white"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-slate-600">
+                進位單位
+                <input
+                  type="number"
+                  min={1}
+                  value={settingsDraft.roundingUnit}
+                  onChange={(e) => updateDraft('roundingUnit', parseInt(e.target.value, 10) || 1)}
+                  className="p-2 border border-slate-300 rounded-lg bg-white"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-slate-600">
+                進位方式
+                <select
+                  value={settingsDraft.roundingMode}
+                  onChange={(e) => updateDraft('roundingMode', e.target.value as RoundingMode)}
+                  className="p-2 border border-slate-300 rounded-lg bg-white"
+                >
+                  {(Object.keys(roundingModeLabels) as RoundingMode[]).map(mode => (
+                    <option key={mode} value={mode}>{roundingModeLabels[mode]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-slate-600">
+                每房人數
+                <input
+                  type="number"
+                  min={1}
+                  value={settingsDraft.roomOccupancy}
+                  onChange={(e) => updateDraft('roomOccupancy', parseInt(e.target.value, 10) || 1)}
+                  className="p-2 border border-slate-300 rounded-lg bg-white"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-slate-600">
+                預設人數
+                <input
+                  type="number"
+                  min={1}
+                  value={settingsDraft.defaultPax}
+                  onChange={(e) => updateDraft('defaultPax', parseInt(e.target.value, 10) || 1)}
+                  className="p-2 border border-slate-300 rounded-lg bg-white"
+                />
+              </label>
+              <div className="col-span-full flex justify-end">
+                <button
+                  onClick={handleSaveSettings}
+                  disabled={savingSettings}
+                  className="px-4 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-700 disabled:opacity-50"
+                >
+                  儲存設定
+                </button>
+              </div>
+            </div>
+          )}
+
+          {loading && !quote ? (
+            <p className="text-slate-500 text-sm">計算報價中...</p>
+          ) : quote && (
+            <>
+              {quote.unpricedProductIds.length > 0 && (
+                <div className="p-3 bg-amber-50 text-amber-700 rounded-lg border border-amber-200 text-sm">
+                  有 {quote.unpricedProductIds.length} 項產品已不存在，未列入報價
+                </div>
+              )}
+
+              <div className="space-y-4">
+                {quote.days.map(day => (
+                  <div key={day.dayNumber} className="rounded-lg border border-slate-200 overflow-hidden">
+                    <div className="flex justify-between items-center px-4 py-2 bg-slate-50 text-sm font-bold text-slate-700">
+                      <span>Day {day.dayNumber}</span>
+                      <span>{formatMoney(day.netTotal)}（每人 {formatMoney(day.netPerPerson)}）</span>
+                    </div>
+                    {day.lines.length === 0 ? (
+                      <p className="px-4 py-3 text-sm text-slate-400">無計價項目</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <tbody className="divide-y divide-slate-100">
+                          {day.lines.map((line, idx) => (
+                            <tr key={`${line.kind}-${line.productId}-${idx}`}>
+                              <td className="px-4 py-2 text-slate-400 w-16">{lineKindLabels[line.kind]}</td>
+                              <td className="px-4 py-2 text-slate-700">{line.title}</td>
+                              <td className="px-4 py-2 text-slate-500 text-right whitespace-nowrap">
+                                {formatMoney(line.unitPrice)} × {line.quantity}{line.kind === 'hotel' ? ' 間' : ' 人'}
+                              </td>
+                              <td className="px-4 py-2 text-slate-700 text-right whitespace-nowrap">{formatMoney(line.amount)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="p-4 bg-slate-50 rounded-lg border border-slate-200 text-sm space-y-1.5">
+                <div className="flex justify-between text-slate-600">
+                  <span>成本合計（{quote.pax} 人 / {quote.rooms} 間房）</span>
+                  <span>{formatMoney(quote.netTotal)}</span>
+                </div>
+                <div className="flex justify-between text-slate-600">
+                  <span>加價 {quote.settings.markupPercent}%</span>
+                  <span>{formatMoney(quote.markupAmount)}</span>
+                </div>
+                <div className="flex justify-between text-slate-600">
+                  <span>售價合計</span>
+                  <span>{formatMoney(quote.sellTotal)}</span>
+                </div>
+                <div className="flex justify-between pt-2 border-t border-slate-200 font-bold text-slate-800 text-base">
+                  <span>每人報價</span>
+                  <span>{formatMoney(quote.pricePerPerson, quote.currency)}</span>
+                </div>
+                <div className="flex justify-between font-bold text-slate-800">
+                  <span>團體總價</span>
+                  <span>{formatMoney(quote.priceTotal, quote.currency)}</span>
+                </div>
+              </div>
+
+              <p className="text-xs text-slate-400">報價依已儲存的行程及產品目前淨價計算，未儲存的變更不會列入。</p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuotePanel;
@@ -1,5 +1,7 @@
-import React from 'react';
-import { ImageOff } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import axios from '../../config/axios';
+import ImageCarousel, { CarouselImage } from '../ui/ImageCarousel';
+import { CoverImage } from '../../types/itinerary';
 
 interface Product {
     id: string;
@@ -7,6 +9,7 @@ interface Product {
     destination: string;
     category: string;
     coverImageUrl: string;
+    coverImage?: CoverImage | null;
     netPrice: number;
     supplierName: string;
     productType: 'landmark' | 'accommodation' | 'food' | 'transportation';
@@ -20,6 +23,34 @@ interface ResourceDetailModalProps {
 }
 
 const ResourceDetailModal: React.FC<ResourceDetailModalProps> = ({ product, onClose }) => {
+    const [gallery, setGallery] = useState<CarouselImage[]>([]);
+
+    // Planner products carry only the cover image; the gallery comes with the product detail
+    useEffect(() => {
+        setGallery([]);
+        if (!product) return;
+
+        let cancelled = false;
+        const fetchGallery = async () => {
+            try {
+                const response = await axios.get(`/api/agency/tours/${product.id}`);
+                if (!cancelled) {
+                    setGallery((response.data.images || []).map((image: { variants: { hero: string }; caption: string | null }) => ({
+                        url: image.variants.hero,
+                        caption: image.caption,
+                    })));
+                }
+            } catch (err) {
+                console.error('Failed to fetch product gallery:', err);
+            }
+        };
+        fetchGallery();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [product?.id]);
+
     if (!product) return null;
 
     const categoryLabels: Record<string, string> = {
@@ -34,36 +65,11 @@ const ResourceDetailModal: React.FC<ResourceDetailModalProps> = ({ product, onCl
             <div style={styles.modal} onClick={e => e.stopPropagation()}>
                 <button style={styles.closeButton} onClick={onClose}>×</button>
 
-                <div style={styles.imageContainer}>
-                    <img
-                        src={product.coverImageUrl === 'null' || product.coverImageUrl === 'undefined' ? undefined : product.coverImageUrl}
-                        alt={product.title}
-                        style={{
-                            ...styles.image,
-                            display: (!product.coverImageUrl || product.coverImageUrl === 'null' || product.coverImageUrl === 'undefined') ? 'none' : 'block'
-                        }}
-                        onError={(e) => {
-                            e.currentTarget.style.display = 'none';
-                            const next = e.currentTarget.nextElementSibling;
-                            if (next) (next as HTMLElement).style.display = 'flex';
-                        }}
-                    />
-                    <div style={{
-                        ...styles.image,
-                        display: (!product.coverImageUrl || product.coverImageUrl === 'null' || product.coverImageUrl === 'undefined') ? 'flex' : 'none',
-                        flexDirection: 'column',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                        backgroundColor: '#f8fafc',
-                        color: '#94a3b8'
-                    }}>
-                        <ImageOff size={48} strokeWidth={1.5} style={{ opacity: 0.4 }} />
-                        <span style={{ fontSize: '0.75rem', fontWeight: 'bold', marginTop: '0.5rem', letterSpacing: '0.05em' }}>暫無預覽圖</span>
-                    </div>
+                <ImageCarousel images={[{ url: product.coverImage?.hero || product.coverImageUrl }, ...gallery]} alt={product.title} className="h-[250px]">
                     <div style={styles.typeBadge}>
                         {categoryLabels[product.category] || product.category}
                     </div>
-                </div>
+                </ImageCarousel>
 
                 <div style={styles.content}>
                     <h2 style={styles.title}>{product.title}</h2>
@@ -143,16 +149,6 @@ const styles = {
         zIndex: 10,
         transition: 'background 0.2s',
     },
-    imageContainer: {
-        position: 'relative' as const,
-        width: '100%',
-        height: '250px',
-    },
-    image: {
-        width: '100%',
-        height: '100%',
-        objectFit: 'cover' as const,
-    },
     typeBadge: {
         position: 'absolute' as const,
         bottom: '1rem',
@@ -1,8 +1,12 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useDraggable } from '@dnd-kit/core';
 import axios from '../../config/axios';
 import ResourceDetailModal from './ResourceDetailModal';
 import CustomSelect from '../ui/CustomSelect';
+import { toPlannerProduct } from '../../utils/tourProduct';
+import LoadMore from '../ui/LoadMore';
+import { usePaginatedList } from '../../hooks/usePaginatedList';
+import { CoverImage } from '../../types/itinerary';
 
 interface Product {
   id: string;
@@ -10,6 +14,7 @@ interface Product {
   destination: string;
   category: string;
   coverImageUrl: string;
+  coverImage?: CoverImage | null;
   netPrice: number;
   supplierName: string;
   productType: 'landmark' | 'accommodation' | 'food' | 'transportation';
@@ -25,6 +30,16 @@ interface Product {
   address?: string;
 }
 
+interface SearchHighlight {
+  title: string;
+  snippet?: string;
+}
+
+interface SupplierOption {
+  id: string;
+  name: string;
+}
+
 interface ResourceLibraryProps {
   onProductHover?: (product: Product | null) => void;
   setAvailableProducts: (products: Product[]) => void;
@@ -35,12 +50,16 @@ interface ResourceLibraryProps {
   restrictToSupplierName?: string | null;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+
 const DraggableProduct = ({
   product,
+  highlight,
   onHover,
   onPreview
 }: {
   product: Product;
+  highlight?: SearchHighlight;
   onHover: (p: Product | null) => void;
   onPreview: (p: Product) => void;
 }) => {
@@ -105,7 +124,8 @@ const DraggableProduct = ({
               flex: 1,
             }}
           >
-            {product.title}
+            {/* Highlights come from the server already HTML-escaped, with only <mark> added */}
+            {highlight ? <span dangerouslySetInnerHTML={{ __html: highlight.title }} /> : product.title}
           </h3>
           <button
             onPointerDown={(e) => e.stopPropagation()}
@@ -139,6 +159,13 @@ const DraggableProduct = ({
           </button>
         </div>
 
+        {highlight?.snippet && (
+          <p
+            style={{ margin: 0, fontSize: '0.75rem', color: '#636e72', lineHeight: '1.5' }}
+            dangerouslySetInnerHTML={{ __html: highlight.snippet }}
+          />
+        )}
+
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '0.8rem' }}>
           <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
             <span style={{
@@ -171,11 +198,11 @@ const ResourceLibrary: React.FC<ResourceLibraryProps> = ({
   onDateRangeChange,
   restrictToSupplierName
 }) => {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState(initialDestination || '');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [activeTab, setActiveTab] = useState<'all' | 'landmark' | 'accommodation' | 'food' | 'transportation'>('all');
   const [previewProduct, setPreviewProduct] = useState<Product | null>(null);
+  const [suppliers, setSuppliers] = useState<SupplierOption[] | null>(null);
   const [selectedSupplier, setSelectedSupplier] = useState<string>('all');
 
   useEffect(() => {
@@ -183,58 +210,58 @@ const ResourceLibrary: React.FC<ResourceLibraryProps> = ({
   }, [initialDestination]);
 
   useEffect(() => {
-    const fetchProducts = async () => {
-      try {
-        const response = await axios.get('/api/agency/tours');
-        const mappedProducts = response.data.map((p: any) => {
-          const categoryToType: Record<string, 'landmark' | 'accommodation' | 'food' | 'transportation'> = {
-            'landmark': 'landmark',
-            'accommodation': 'accommodation',
-            'food': 'food',
-            'transportation': 'transportation'
-          };
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
-          return {
-            ...p,
-            productType: categoryToType[p.category] || 'landmark',
-            location: p.latitude && p.longitude ? { lat: p.latitude, lng: p.longitude } : undefined,
-          };
+  useEffect(() => {
+    const fetchSuppliers = async () => {
+      try {
+        const response = await axios.get('/api/agency/suppliers', {
+          params: initialDestination ? { destination: initialDestination } : {},
         });
-
-        const filteredByDestination = initialDestination
-          ? mappedProducts.filter((p: Product) =>
-            p.destination.toLowerCase().includes(initialDestination.toLowerCase())
-          )
-          : mappedProducts;
-
-        setProducts(filteredByDestination);
-        setAvailableProducts(filteredByDestination);
+        setSuppliers(response.data);
       } catch (error) {
-        console.error('Failed to fetch products:', error);
-      } finally {
-        setLoading(false);
+        console.error('Failed to fetch suppliers:', error);
+        setSuppliers([]);
       }
     };
 
-    fetchProducts();
-  }, [setAvailableProducts, initialDestination]);
+    fetchSuppliers();
+  }, [initialDestination]);
 
-  const uniqueSuppliers = Array.from(new Set(products.map(p => p.supplierName))).filter(Boolean).sort();
+  // A restricted planner only lists its supplier, so wait for its ID before loading
+  const restrictedSupplierId = restrictToSupplierName
+    ? suppliers?.find(s => s.name === restrictToSupplierName)?.id
+    : undefined;
+  const supplierId = restrictToSupplierName
+    ? restrictedSupplierId
+    : selectedSupplier === 'all' ? undefined : selectedSupplier;
 
-  const filteredProducts = products.filter(product => {
-    const title = product.title || '';
-    const destination = product.destination || '';
-    const matchesSearch = title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      destination.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = activeTab === 'all' || product.productType === activeTab;
-    
-    // If restricted to a specific supplier, only show those. Otherwise use the dropdown.
-    const matchesSupplier = restrictToSupplierName 
-      ? product.supplierName === restrictToSupplierName
-      : (selectedSupplier === 'all' || product.supplierName === selectedSupplier);
-      
-    return matchesSearch && matchesType && matchesSupplier;
-  });
+  // Filters are applied on the server; search results come ranked by relevance with highlights
+  const {
+    items: tours,
+    pageInfo,
+    loading: loadingTours,
+    loadingMore,
+    loadMore,
+  } = usePaginatedList<any>(
+    restrictToSupplierName && !restrictedSupplierId ? null : '/api/agency/tours',
+    {
+      destination: initialDestination,
+      category: activeTab === 'all' ? undefined : activeTab,
+      supplierId,
+      q: debouncedSearch,
+    },
+    '載入資源失敗'
+  );
+
+  const loading = loadingTours || (!!restrictToSupplierName && suppliers === null);
+  const products = useMemo(() => tours.map(toPlannerProduct) as Product[], [tours]);
+
+  useEffect(() => {
+    setAvailableProducts(products);
+  }, [products, setAvailableProducts]);
 
   return (
     <div style={styles.container}>
@@ -263,8 +290,8 @@ const ResourceLibrary: React.FC<ResourceLibraryProps> = ({
                   onChange={(e) => setSelectedSupplier(e.target.value)}
                 >
                   <option value="all">全部供應商</option>
-                  {uniqueSuppliers.map(supplier => (
-                    <option key={supplier} value={supplier}>{supplier}</option>
+                  {(suppliers ?? []).map(supplier => (
+                    <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
                   ))}
                 </CustomSelect>
               )}
@@ -315,7 +342,7 @@ const ResourceLibrary: React.FC<ResourceLibraryProps> = ({
         <div style={styles.searchContainer}>
           <input
             type="text"
-            placeholder={initialDestination ? `在 ${initialDestination} 搜尋資源...` : "搜尋資源..."}
+            placeholder={initialDestination ? `在 ${initialDestination} 搜尋資源（例如：溫泉 親子）` : "搜尋資源（例如：溫泉 親子）"}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             style={styles.searchInput}
@@ -345,18 +372,27 @@ const ResourceLibrary: React.FC<ResourceLibraryProps> = ({
 
       <div style={styles.productList}>
         {loading && <p style={styles.message}>載入資源中...</p>}
-        {!loading && filteredProducts.length === 0 && (
+        {!loading && products.length === 0 && (
           <p style={styles.message}>找不到相關資源</p>
         )}
         <div style={{ padding: '1rem' }}>
-          {!loading && filteredProducts.map((product) => (
+          {!loading && products.map((product, index) => (
             <DraggableProduct
               key={product.id}
               product={product}
+              highlight={tours[index].highlights}
               onHover={onProductHover || (() => { })}
               onPreview={setPreviewProduct}
             />
           ))}
+          {!loading && (
+            <LoadMore
+              hasMore={pageInfo?.hasMore ?? false}
+              loading={loadingMore}
+              onLoadMore={loadMore}
+              infinite
+            />
+          )}
         </div>
       </div>
 
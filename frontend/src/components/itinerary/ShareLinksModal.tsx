@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import axios from '../../config/axios';
+import { useToast } from '../Toast';
+
+interface ShareLink {
+  id: string;
+  token: string;
+  expiresAt: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+interface ShareLinksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  itineraryId: string;
+}
+
+const EXPIRY_OPTIONS = [7, 30, 90, 365];
+
+const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+const ShareLinksModal: React.FC<ShareLinksModalProps> = ({ isOpen, onClose, itineraryId }) => {
+  const { showSuccess, showError } = useToast();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(30);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  const fetchLinks = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get(`/api/itinerary/${itineraryId}/share-links`);
+      setLinks(response.data);
+    } catch (err) {
+      console.error('Failed to fetch share links:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchLinks();
+    }
+  }, [isOpen, itineraryId]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true);
+      const response = await axios.post(`/api/itinerary/${itineraryId}/share-links`, { expiresInDays });
+      setLinks(prev => [response.data, ...prev]);
+      await navigator.clipboard?.writeText(shareUrl(response.data.token)).catch(() => {});
+      showSuccess('已建立分享連結');
+    } catch (err) {
+      showError('建立分享連結失敗');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    if (!window.confirm('停用後，持有此連結的旅客將無法再檢視行程。確定要停用嗎？')) return;
+    try {
+      await axios.delete(`/api/itinerary/${itineraryId}/share-links/${linkId}`);
+      showSuccess('已停用分享連結');
+      await fetchLinks();
+    } catch (err) {
+      showError('停用分享連結失敗');
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      showSuccess('已複製連結');
+    } catch (err) {
+      showError('複製失敗，請手動複製');
+    }
+  };
+
+  const now = Date.now();
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[1000] p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-slate-800">分享給旅客</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 leading-none flex items-center">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 text-sm">
+          <p className="text-slate-500">旅客可透過連結檢視已儲存的行程與地圖，不會顯示成本價格與供應商資訊。</p>
+
+          <div className="flex items-center gap-3">
+            <label className="text-slate-600">有效期限</label>
+            <select
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              className="p-2 border border-slate-300 rounded-lg bg-white"
+            >
+              {EXPIRY_OPTIONS.map(days => (
+                <option key={days} value={days}>{days} 天</option>
+              ))}
+            </select>
+            <button
+              onClick={handleCreate}
+              disabled={creating}
+              className="px-4 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-700 disabled:opacity-50"
+            >
+              建立連結
+            </button>
+          </div>
+
+          {loading ? (
+            <p className="text-slate-400">載入中...</p>
+          ) : links.length === 0 ? (
+            <p className="text-slate-400">尚未建立分享連結</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+              {links.map(link => {
+                const expired = new Date(link.expiresAt).getTime() <= now;
+                const active = !link.revokedAt && !expired;
+
+                return (
+                  <li key={link.id} className="p-3 flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className={`truncate text-xs ${active ? 'text-slate-700' : 'text-slate-400 line-through'}`}>
+                        {shareUrl(link.token)}
+                      </p>
+                      <p className="text-xs text-slate-400 mt-0.5">
+                        {link.revokedAt ? '已停用' : expired ? '已過期' : `有效至 ${new Date(link.expiresAt).toLocaleDateString('zh-TW')}`}
+                      </p>
+                    </div>
+                    {active && (
+                      <>
+                        <button onClick={() => handleCopy(link.token)} className="px-3 py-1.5 border border-slate-300 rounded-lg hover:bg-slate-50">
+                          複製
+                        </button>
+                        <button onClick={() => handleRevoke(link.id)} className="px-3 py-1.5 text-red-600 hover:text-red-700">
+                          停用
+                        </button>
+                      </>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareLinksModal;
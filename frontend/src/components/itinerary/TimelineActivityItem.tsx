@@ -10,6 +10,7 @@ interface TimelineActivityItemProps {
     isFirst?: boolean;
     isLast?: boolean;
     onHover?: (id: string | null) => void;
+    onTogglePin?: (id: string) => void;
 }
 
 export const TimelineActivityItemPreview: React.FC<{ item: Product; isTimelineItem?: boolean }> = ({
@@ -41,6 +42,7 @@ export const TimelineActivityItem: React.FC<TimelineActivityItemProps> = ({
     isFirst,
     isLast,
     onHover,
+    onTogglePin,
 }) => {
     const {
         attributes,
@@ -71,10 +73,22 @@ export const TimelineActivityItem: React.FC<TimelineActivityItemProps> = ({
                 <div {...attributes} {...listeners} className="cursor-grab text-slate-300 hover:text-slate-500 transition-colors flex items-center">
                     <span className="material-symbols-outlined" style={{ fontSize: '20px' }}>drag_indicator</span>
                 </div>
+                {item.startTime && (
+                    <span className={`text-xs font-medium ${item.timePinned ? 'text-blue-600' : 'text-slate-400'}`}>{item.startTime}</span>
+                )}
                 <span className="font-bold text-slate-700">{item.title}</span>
             </div>
 
             <div className="flex items-center gap-0.5" onPointerDown={(e) => e.stopPropagation()}>
+                {onTogglePin && (
+                    <button
+                        onClick={() => onTogglePin(item.timelineId!)}
+                        title={item.timePinned ? '取消固定時間' : '固定此時間（最佳化順序時不移動）'}
+                        className={`p-1 transition-colors flex items-center ${item.timePinned ? 'text-blue-600' : 'text-slate-300 hover:text-slate-600'}`}
+                    >
+                        <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>push_pin</span>
+                    </button>
+                )}
                 {onReorder && (
                     <>
                         <button
@@ -1,7 +1,7 @@
 import React, { useState, useRef, useImperativeHandle, useEffect } from 'react';
 import { TimelineDayRow } from './TimelineDayRow';
 import { MiniTimeline } from './MiniTimeline';
-import { Product, TimelineDay } from '../../types/itinerary';
+import { DayOrderProposal, FeasibilityIssue, Product, TimelineDay } from '../../types/itinerary';
 
 interface TimelineContainerProps {
     timeline: TimelineDay[];
@@ -18,6 +18,12 @@ interface TimelineContainerProps {
     onShowDayRoute?: (dayNumber: number) => void;
     focusedDay?: number | null;
     onItemHover?: (itemId: string | null) => void;
+    feasibilityIssues?: FeasibilityIssue[];
+    onTogglePin?: (dayNumber: number, itemId: string) => void;
+    onOptimizeDay?: (dayNumber: number) => void;
+    orderProposal?: DayOrderProposal | null;
+    onAcceptOrder?: () => void;
+    onRejectOrder?: () => void;
 }
 
 export interface TimelineContainerRef {
@@ -49,6 +55,12 @@ export const TimelineContainer = React.forwardRef<TimelineContainerRef, Timeline
         onShowDayRoute,
         focusedDay,
         onItemHover,
+        feasibilityIssues = [],
+        onTogglePin,
+        onOptimizeDay,
+        orderProposal,
+        onAcceptOrder,
+        onRejectOrder,
     },
     ref
 ) => {
@@ -147,6 +159,12 @@ export const TimelineContainer = React.forwardRef<TimelineContainerRef, Timeline
                                 onShowDayRoute={onShowDayRoute}
                                 isFocused={focusedDay === day.dayNumber}
                                 onItemHover={onItemHover}
+                                issues={feasibilityIssues.filter(issue => issue.dayNumber === day.dayNumber)}
+                                onTogglePin={onTogglePin ? (itemId) => onTogglePin(day.dayNumber, itemId) : undefined}
+                                onOptimizeDay={onOptimizeDay}
+                                orderProposal={orderProposal?.dayNumber === day.dayNumber ? orderProposal : null}
+                                onAcceptOrder={onAcceptOrder}
+                                onRejectOrder={onRejectOrder}
                             />
                         </div>
                     ))}
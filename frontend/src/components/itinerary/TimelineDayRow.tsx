@@ -3,7 +3,7 @@ import { useDroppable } from '@dnd-kit/core';
 import CustomSelect from '../ui/CustomSelect';
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { TimelineActivityItem } from './TimelineActivityItem';
-import { Product, TimelineDay } from '../../types/itinerary';
+import { DayOrderProposal, FeasibilityIssue, Product, TimelineDay } from '../../types/itinerary';
 
 interface TimelineDayRowProps {
     day: TimelineDay;
@@ -22,6 +22,12 @@ interface TimelineDayRowProps {
     onShowDayRoute?: (dayNumber: number) => void;
     isFocused?: boolean;
     onItemHover?: (itemId: string | null) => void;
+    issues?: FeasibilityIssue[];
+    onTogglePin?: (id: string) => void;
+    onOptimizeDay?: (dayNumber: number) => void;
+    orderProposal?: DayOrderProposal | null;
+    onAcceptOrder?: () => void;
+    onRejectOrder?: () => void;
 }
 
 // Meal predefined options
@@ -113,6 +119,9 @@ const HotelSelect: React.FC<{
     );
 };
 
+const formatTravel = ({ distanceValue, durationValue }: DayOrderProposal['before']) =>
+    `${(distanceValue / 1000).toFixed(1)} km • ${Math.round(durationValue / 60)} 分鐘`;
+
 // Helper to get display text for a meal/hotel field
 const getDisplayText = (idValue: string | null | undefined, customValue: string | null | undefined, titleValue: string | null | undefined): string | null => {
     if (customValue) return customValue;
@@ -134,6 +143,12 @@ export const TimelineDayRow: React.FC<TimelineDayRowProps> = ({
     onShowDayRoute,
     isFocused,
     onItemHover,
+    issues = [],
+    onTogglePin,
+    onOptimizeDay,
+    orderProposal,
+    onAcceptOrder,
+    onRejectOrder,
 }) => {
     const foodProducts = products.filter(p => p.productType === 'food');
     const accommodationProducts = products.filter(p => p.productType === 'accommodation');
@@ -152,6 +167,11 @@ export const TimelineDayRow: React.FC<TimelineDayRowProps> = ({
     const dinnerDisplay = getDisplayText(day.dinnerId, day.dinnerCustom, day.dinnerTitle);
     const hotelDisplay = getDisplayText(day.hotelId, day.hotelCustom, day.hotelTitle);
 
+    // Overlaps and tight transfers are shown between the two items; the rest above the day plan
+    const itemIssues = issues.filter(issue => issue.timelineIds);
+    const dayIssues = issues.filter(issue => !issue.timelineIds);
+    const hasErrors = issues.some(issue => issue.severity === 'error');
+
     const handleMealChange = (mealType: 'breakfast' | 'lunch' | 'dinner', idVal: string | null, customVal: string | null) => {
         if (!onDayFieldChange) return;
         onDayFieldChange(day.dayNumber, `${mealType}Id`, idVal);
@@ -212,6 +232,17 @@ export const TimelineDayRow: React.FC<TimelineDayRowProps> = ({
                 </div>
 
                 <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                    {/* Feasibility badge */}
+                    {issues.length > 0 && (
+                        <div
+                            className={`flex items-center gap-0.5 text-xs font-bold ${hasErrors ? 'text-red-500' : 'text-amber-500'}`}
+                            title={issues.map(issue => issue.message).join('\n')}
+                        >
+                            <span className="material-symbols-outlined text-[18px]">{hasErrors ? 'error' : 'warning'}</span>
+                            {issues.length}
+                        </div>
+                    )}
+
                     {/* Compact Route Button in Summary */}
                     {day.items.length >= 2 && (
                         <button
@@ -263,6 +294,21 @@ export const TimelineDayRow: React.FC<TimelineDayRowProps> = ({
             {/* Expanded Content */}
             {isExpanded && (
                 <div style={styles.expandedArea} className="p-6 space-y-6">
+                    {/* Day-level feasibility warnings */}
+                    {dayIssues.length > 0 && (
+                        <ul className="space-y-1">
+                            {dayIssues.map((issue, i) => (
+                                <li
+                                    key={`${issue.type}-${issue.field || i}`}
+                                    className={`flex items-center gap-2 text-sm ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}
+                                >
+                                    <span className="material-symbols-outlined text-[16px]">{issue.severity === 'error' ? 'error' : 'warning'}</span>
+                                    {issue.message}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
                     {/* Structured Fields: Meals */}
                     {onDayFieldChange && (
                         <div className="space-y-3">
@@ -321,6 +367,16 @@ export const TimelineDayRow: React.FC<TimelineDayRowProps> = ({
                             <span>景點列表</span>
                             {onCalculateRoute && day.items.length >= 2 && (
                                 <div className="flex items-center gap-2">
+                                    {onOptimizeDay && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); onOptimizeDay(day.dayNumber); }}
+                                            title="依距離重新排列未固定時間的景點"
+                                            className="text-xs flex items-center gap-1.5 bg-white text-slate-700 border border-slate-200 px-4 py-2 rounded-full hover:bg-slate-50 transition-all font-bold shadow-sm"
+                                        >
+                                            <span className="material-symbols-outlined text-[16px]">swap_vert</span>
+                                            最佳化順序
+                                        </button>
+                                    )}
                                     {!day.routeInfo ? (
                                         <button 
                                             onClick={(e) => { e.stopPropagation(); onCalculateRoute(day.dayNumber); }}
@@ -348,6 +404,48 @@ export const TimelineDayRow: React.FC<TimelineDayRowProps> = ({
                             )}
                         </h4>
                         
+                        {/* Proposed order from the optimizer, shown as a diff against the current order */}
+                        {orderProposal && (
+                            <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded-xl text-sm">
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="font-bold text-slate-800">建議順序</span>
+                                    <span className="text-xs text-slate-500">
+                                        {formatTravel(orderProposal.before)} → <span className="font-bold text-blue-700">{formatTravel(orderProposal.after)}</span>
+                                    </span>
+                                </div>
+                                <ol className="space-y-1 mb-3">
+                                    {orderProposal.order.map((timelineId, idx) => {
+                                        const item = day.items.find(i => i.timelineId === timelineId);
+                                        if (!item) return null;
+                                        const previousIdx = day.items.indexOf(item);
+                                        return (
+                                            <li key={timelineId} className={`flex items-center gap-2 ${previousIdx !== idx ? 'text-blue-700 font-bold' : 'text-slate-600'}`}>
+                                                <span className="w-5 text-right">{idx + 1}.</span>
+                                                <span>{item.title}</span>
+                                                {previousIdx !== idx && (
+                                                    <span className="text-xs font-normal text-slate-400">（原第 {previousIdx + 1} 站）</span>
+                                                )}
+                                            </li>
+                                        );
+                                    })}
+                                </ol>
+                                <div className="flex justify-end gap-2">
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onRejectOrder?.(); }}
+                                        className="px-3 py-1.5 text-slate-600 hover:bg-white rounded-lg font-medium"
+                                    >
+                                        保留原順序
+                                    </button>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onAcceptOrder?.(); }}
+                                        className="px-3 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700"
+                                    >
+                                        套用建議
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
                         {/* Attractions Drop Zone */}
                         <div className="relative mt-2">
                             <div 
@@ -377,13 +475,30 @@ export const TimelineDayRow: React.FC<TimelineDayRowProps> = ({
                                                     isFirst={idx === 0}
                                                     isLast={idx === day.items.length - 1}
                                                     onHover={onItemHover}
+                                                    onTogglePin={onTogglePin}
                                                 />
+                                                {itemIssues
+                                                    .filter(issue => issue.timelineIds!.length === 1 && issue.timelineIds![0] === item.timelineId)
+                                                    .map(issue => (
+                                                        <div key={issue.type} className="flex ml-8 my-1 items-center gap-2 text-xs text-red-600 font-medium">
+                                                            <span className="material-symbols-outlined text-[14px]">event_busy</span>
+                                                            <span>{issue.message}</span>
+                                                        </div>
+                                                    ))}
                                                 {day.routeInfo?.legs[idx] && idx < day.items.length - 1 && (
                                                     <div className="flex ml-8 my-1 items-center gap-2 text-xs text-slate-500 font-medium">
                                                         <span className="material-symbols-outlined text-[14px]">directions_car</span>
                                                         <span>{day.routeInfo.legs[idx].distanceText} • {day.routeInfo.legs[idx].durationText}</span>
                                                     </div>
                                                 )}
+                                                {idx < day.items.length - 1 && itemIssues
+                                                    .filter(issue => issue.timelineIds!.length === 2 && issue.timelineIds![1] === day.items[idx + 1].timelineId)
+                                                    .map(issue => (
+                                                        <div key={issue.type} className="flex ml-8 my-1 items-center gap-2 text-xs text-red-600 font-medium">
+                                                            <span className="material-symbols-outlined text-[14px]">error</span>
+                                                            <span>{issue.message}</span>
+                                                        </div>
+                                                    ))}
                                             </React.Fragment>
                                         ))
                                     )}
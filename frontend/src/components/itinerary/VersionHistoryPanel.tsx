@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import axios from '../../config/axios';
+import { useToast } from '../Toast';
+import { TimelineDay } from '../../types/itinerary';
+
+interface ItineraryVersionSummary {
+  id: string;
+  source: 'autosave' | 'save' | 'restore';
+  dayCount: number;
+  itemCount: number;
+  createdAt: string;
+}
+
+interface ItineraryVersion extends ItineraryVersionSummary {
+  timelineData: TimelineDay[];
+}
+
+interface VersionHistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  itineraryId: string;
+  // Version of the itinerary the planner last loaded or saved, sent as If-Match
+  expectedVersion: number | null;
+  onRestored: (itinerary: any) => void;
+}
+
+const SOURCE_LABELS: Record<ItineraryVersionSummary['source'], string> = {
+  autosave: '自動儲存',
+  save: '手動儲存',
+  restore: '還原',
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleString('zh-TW', {
+  month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit',
+});
+
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ isOpen, onClose, itineraryId, expectedVersion, onRestored }) => {
+  const { showSuccess, showError } = useToast();
+  const [versions, setVersions] = useState<ItineraryVersionSummary[]>([]);
+  const [selected, setSelected] = useState<ItineraryVersion | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchVersions = async () => {
+      try {
+        setLoading(true);
+        setSelected(null);
+        const response = await axios.get(`/api/itinerary/${itineraryId}/versions`);
+        setVersions(response.data);
+      } catch (err) {
+        console.error('Failed to fetch itinerary versions:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchVersions();
+  }, [isOpen, itineraryId]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleSelect = async (versionId: string) => {
+    try {
+      const response = await axios.get(`/api/itinerary/${itineraryId}/versions/${versionId}`);
+      setSelected(response.data);
+    } catch (err) {
+      showError('載入版本失敗');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!window.confirm(`確定要將行程還原到 ${formatTime(selected.createdAt)} 的版本嗎？目前的內容仍會保留在版本紀錄中。`)) return;
+    try {
+      setRestoring(true);
+      const headers = expectedVersion !== null ? { 'If-Match': `"${expectedVersion}"` } : undefined;
+      const response = await axios.post(`/api/itinerary/${itineraryId}/versions/${selected.id}/restore`, undefined, { headers });
+      onRestored(response.data);
+      showSuccess('已還原版本');
+      onClose();
+    } catch (err: any) {
+      if (err.response?.status === 409) {
+        // Either someone saved since this planner loaded the itinerary, or it has been confirmed
+        showError(err.response.data?.current ? '行程已被其他人更新，請重新載入後再還原' : err.response.data?.error);
+        return;
+      }
+      showError('還原版本失敗');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[1000] p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl h-[80vh] flex flex-col">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-bold text-slate-800">版本紀錄</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 leading-none flex items-center">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden text-sm">
+          <div className="w-72 border-r border-slate-200 overflow-y-auto">
+            {loading ? (
+              <p className="p-4 text-slate-400">載入中...</p>
+            ) : versions.length === 0 ? (
+              <p className="p-4 text-slate-400">尚無版本紀錄</p>
+            ) : (
+              <ul className="divide-y divide-slate-100">
+                {versions.map(version => (
+                  <li key={version.id}>
+                    <button
+                      onClick={() => handleSelect(version.id)}
+                      className={`w-full text-left px-4 py-3 hover:bg-slate-50 ${selected?.id === version.id ? 'bg-slate-100' : ''}`}
+                    >
+                      <p className="font-medium text-slate-700">{formatTime(version.createdAt)}</p>
+                      <p className="text-xs text-slate-400 mt-0.5">
+                        {SOURCE_LABELS[version.source]} • {version.dayCount} 天 • {version.itemCount} 個景點
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex-1 flex flex-col overflow-hidden">
+            {selected ? (
+              <>
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                  {selected.timelineData.map(day => (
+                    <div key={day.dayNumber}>
+                      <p className="font-bold text-slate-700 mb-1">
+                        Day {day.dayNumber}{day.date ? `（${day.date} ${day.dayOfWeek || ''}）` : ''}
+                      </p>
+                      {day.items.length > 0 ? (
+                        <ol className="list-decimal ml-5 text-slate-600 space-y-0.5">
+                          {day.items.map(item => (
+                            <li key={item.timelineId || item.id}>
+                              {item.startTime && <span className="text-slate-400 mr-2">{item.startTime}</span>}
+                              {item.title}
+                            </li>
+                          ))}
+                        </ol>
+                      ) : (
+                        <p className="text-slate-400 italic ml-5">自由活動</p>
+                      )}
+                      {(day.hotelCustom || day.hotelTitle) && (
+                        <p className="text-xs text-slate-400 ml-5 mt-1">住宿：{day.hotelCustom || day.hotelTitle}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <div className="px-6 py-4 border-t border-slate-200 flex justify-end">
+                  <button
+                    onClick={handleRestore}
+                    disabled={restoring}
+                    className="px-4 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-700 disabled:opacity-50"
+                  >
+                    還原此版本
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="p-6 text-slate-400">選擇左側的版本以預覽內容</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
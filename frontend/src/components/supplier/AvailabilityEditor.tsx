@@ -0,0 +1,235 @@
+import React, { useMemo, useState } from 'react';
+
+export interface BlackoutRange {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  reason?: string | null;
+}
+
+// Shape of GET/PUT /api/supplier/tours/:id/availability (without productId)
+export interface ProductAvailability {
+  operatingDays: number[]; // 0 (Sunday) to 6 (Saturday)
+  openingTime: string | null; // HH:mm
+  closingTime: string | null;
+  blackoutDates: BlackoutRange[];
+}
+
+export const DEFAULT_AVAILABILITY: ProductAvailability = {
+  operatingDays: [0, 1, 2, 3, 4, 5, 6],
+  openingTime: null,
+  closingTime: null,
+  blackoutDates: [],
+};
+
+interface AvailabilityEditorProps {
+  value: ProductAvailability;
+  onChange: (value: ProductAvailability) => void;
+  error?: string;
+}
+
+const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六'];
+
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const AvailabilityEditor: React.FC<AvailabilityEditorProps> = ({ value, onChange, error }) => {
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [newRange, setNewRange] = useState<BlackoutRange>({ startDate: '', endDate: '', reason: '' });
+
+  const toggleDay = (day: number) => {
+    const operatingDays = value.operatingDays.includes(day)
+      ? value.operatingDays.filter(d => d !== day)
+      : [...value.operatingDays, day].sort();
+    onChange({ ...value, operatingDays });
+  };
+
+  const handleAddRange = () => {
+    if (!newRange.startDate) return;
+    const endDate = newRange.endDate && newRange.endDate >= newRange.startDate ? newRange.endDate : newRange.startDate;
+    const blackoutDates = [...value.blackoutDates, { ...newRange, endDate, reason: newRange.reason || null }]
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+    onChange({ ...value, blackoutDates });
+    setNewRange({ startDate: '', endDate: '', reason: '' });
+  };
+
+  const handleRemoveRange = (index: number) => {
+    onChange({ ...value, blackoutDates: value.blackoutDates.filter((_, i) => i !== index) });
+  };
+
+  // Leading nulls pad the first week so dates line up under their weekday
+  const calendarDays = useMemo(() => {
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+    const cells: (Date | null)[] = Array(month.getDay()).fill(null);
+    for (let d = 1; d <= daysInMonth; d++) {
+      cells.push(new Date(month.getFullYear(), month.getMonth(), d));
+    }
+    return cells;
+  }, [month]);
+
+  const closedReason = (date: Date): string | null => {
+    const dateString = toDateString(date);
+    const blackout = value.blackoutDates.find(range => range.startDate <= dateString && dateString <= range.endDate);
+    if (blackout) return blackout.reason || '暫停營業';
+    if (!value.operatingDays.includes(date.getDay())) return `星期${WEEKDAY_LABELS[date.getDay()]}公休`;
+    return null;
+  };
+
+  const hasHours = Boolean(value.openingTime || value.closingTime);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium text-slate-600">營業日</span>
+        <div className="flex gap-2">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`w-10 h-10 rounded-full text-sm font-bold transition-colors ${value.operatingDays.includes(day)
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-100 text-slate-400 line-through'
+                }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-600">
+          <input
+            type="checkbox"
+            checked={hasHours}
+            onChange={(e) => onChange({
+              ...value,
+              openingTime: e.target.checked ? '09:00' : null,
+              closingTime: e.target.checked ? '17:00' : null,
+            })}
+            className="w-4 h-4"
+          />
+          限定營業時間
+        </label>
+        {hasHours && (
+          <div className="flex items-center gap-2">
+            <input
+              type="time"
+              value={value.openingTime || ''}
+              onChange={(e) => onChange({ ...value, openingTime: e.target.value || null })}
+              className="p-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-slate-500">至</span>
+            <input
+              type="time"
+              value={value.closingTime || ''}
+              onChange={(e) => onChange({ ...value, closingTime: e.target.value || null })}
+              className="p-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-medium text-slate-600">暫停營業日期</span>
+        {value.blackoutDates.length > 0 && (
+          <ul className="flex flex-col gap-1">
+            {value.blackoutDates.map((range, index) => (
+              <li key={`${range.startDate}-${index}`} className="flex items-center gap-2 text-sm bg-red-50 text-red-700 rounded-lg px-3 py-2">
+                <span className="material-symbols-outlined text-base">event_busy</span>
+                <span className="font-medium">
+                  {range.startDate === range.endDate ? range.startDate : `${range.startDate} – ${range.endDate}`}
+                </span>
+                {range.reason && <span className="text-red-500">{range.reason}</span>}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveRange(index)}
+                  className="ml-auto text-red-400 hover:text-red-600"
+                  title="移除"
+                >
+                  <span className="material-symbols-outlined text-base">close</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={newRange.startDate}
+            onChange={(e) => setNewRange(prev => ({ ...prev, startDate: e.target.value }))}
+            className="p-2 border border-slate-300 rounded-lg text-sm"
+          />
+          <span className="text-slate-500">至</span>
+          <input
+            type="date"
+            value={newRange.endDate}
+            min={newRange.startDate || undefined}
+            onChange={(e) => setNewRange(prev => ({ ...prev, endDate: e.target.value }))}
+            className="p-2 border border-slate-300 rounded-lg text-sm"
+          />
+          <input
+            type="text"
+            value={newRange.reason || ''}
+            onChange={(e) => setNewRange(prev => ({ ...prev, reason: e.target.value }))}
+            placeholder="原因（選填）"
+            className="flex-1 min-w-[120px] p-2 border border-slate-300 rounded-lg text-sm"
+          />
+          <button
+            type="button"
+            onClick={handleAddRange}
+            disabled={!newRange.startDate}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+          >
+            新增
+          </button>
+        </div>
+      </div>
+
+      <div className="border border-slate-200 rounded-lg p-4 max-w-sm">
+        <div className="flex items-center justify-between mb-2">
+          <button
+            type="button"
+            onClick={() => setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() - 1, 1))}
+            className="text-slate-500 hover:text-slate-700"
+          >
+            <span className="material-symbols-outlined">chevron_left</span>
+          </button>
+          <span className="font-bold text-slate-700">{month.getFullYear()} 年 {month.getMonth() + 1} 月</span>
+          <button
+            type="button"
+            onClick={() => setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + 1, 1))}
+            className="text-slate-500 hover:text-slate-700"
+          >
+            <span className="material-symbols-outlined">chevron_right</span>
+          </button>
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-center text-xs">
+          {WEEKDAY_LABELS.map(label => (
+            <span key={label} className="text-slate-400 font-medium py-1">{label}</span>
+          ))}
+          {calendarDays.map((date, index) => {
+            if (!date) return <span key={`pad-${index}`} />;
+            const reason = closedReason(date);
+            return (
+              <span
+                key={date.getDate()}
+                title={reason || '營業'}
+                className={`py-1 rounded ${reason ? 'bg-red-100 text-red-600 line-through' : 'text-slate-700'}`}
+              >
+                {date.getDate()}
+              </span>
+            );
+          })}
+        </div>
+      </div>
+
+      {error && <span className="text-red-500 text-sm">{error}</span>}
+    </div>
+  );
+};
+
+export default AvailabilityEditor;
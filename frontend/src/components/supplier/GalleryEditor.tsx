@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core';
+import { SortableContext, sortableKeyboardCoordinates, rectSortingStrategy, useSortable, arrayMove } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import axios from '../../config/axios';
+
+// Returned by /api/supplier/tours/:id/images
+export interface ProductImage {
+  id: string;
+  imageUrl: string;
+  variants: { thumbnail: string; card: string; hero: string };
+  caption: string | null;
+  sortOrder: number;
+}
+
+interface GalleryEditorProps {
+  productId: string;
+}
+
+// Mirrors MAX_PRODUCT_IMAGES and the upload size limit on the server
+const MAX_IMAGES = 15;
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+interface SortableImageProps {
+  image: ProductImage;
+  onCaptionSave: (image: ProductImage, caption: string) => void;
+  onDelete: (image: ProductImage) => void;
+}
+
+const SortableImage: React.FC<SortableImageProps> = ({ image, onCaptionSave, onDelete }) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: image.id });
+  const [caption, setCaption] = useState(image.caption || '');
+
+  useEffect(() => {
+    setCaption(image.caption || '');
+  }, [image.caption]);
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div ref={setNodeRef} style={style} className="flex flex-col gap-1 bg-white border border-slate-200 rounded-lg overflow-hidden">
+      <div className="relative h-28 bg-slate-100 cursor-grab active:cursor-grabbing" {...attributes} {...listeners}>
+        <img src={image.variants.card} alt={image.caption || ''} className="w-full h-full object-cover pointer-events-none" />
+        <button
+          type="button"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() => onDelete(image)}
+          className="absolute top-1 right-1 w-7 h-7 rounded-full bg-black/50 hover:bg-red-600 text-white flex items-center justify-center"
+          title="刪除"
+        >
+          <span className="material-symbols-outlined text-base">close</span>
+        </button>
+      </div>
+      <input
+        type="text"
+        value={caption}
+        maxLength={255}
+        onChange={(e) => setCaption(e.target.value)}
+        onBlur={() => {
+          if (caption !== (image.caption || '')) onCaptionSave(image, caption);
+        }}
+        placeholder="圖片說明"
+        className="mx-2 mb-2 p-1 border border-slate-200 rounded text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+      />
+    </div>
+  );
+};
+
+const GalleryEditor: React.FC<GalleryEditorProps> = ({ productId }) => {
+  const [images, setImages] = useState<ProductImage[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  useEffect(() => {
+    const fetchImages = async () => {
+      try {
+        const response = await axios.get(`/api/supplier/tours/${productId}/images`);
+        setImages(response.data);
+      } catch (err) {
+        console.error('Failed to fetch gallery images:', err);
+        setError('無法載入相簿');
+      }
+    };
+    fetchImages();
+  }, [productId]);
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    if (images.length + files.length > MAX_IMAGES) {
+      setError(`相簿最多 ${MAX_IMAGES} 張，目前還可上傳 ${MAX_IMAGES - images.length} 張`);
+      return;
+    }
+    const oversized = files.find(file => file.size > MAX_FILE_SIZE);
+    if (oversized) {
+      setError(`${oversized.name} 超過 5MB`);
+      return;
+    }
+
+    const formData = new FormData();
+    files.forEach(file => formData.append('images', file));
+
+    setUploading(true);
+    setError(null);
+    try {
+      const response = await axios.post(`/api/supplier/tours/${productId}/images`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      setImages(response.data);
+    } catch (err: any) {
+      setError(err.response?.data?.error || '上傳失敗，請稍後再試');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const previous = images;
+    const reordered = arrayMove(
+      images,
+      images.findIndex(image => image.id === active.id),
+      images.findIndex(image => image.id === over.id)
+    );
+    setImages(reordered);
+
+    try {
+      await axios.put(`/api/supplier/tours/${productId}/images/order`, { imageIds: reordered.map(image => image.id) });
+    } catch (err) {
+      console.error('Failed to reorder gallery:', err);
+      setImages(previous);
+      setError('排序儲存失敗，請稍後再試');
+    }
+  };
+
+  const handleCaptionSave = async (image: ProductImage, caption: string) => {
+    try {
+      const response = await axios.patch(`/api/supplier/tours/${productId}/images/${image.id}`, { caption: caption || null });
+      setImages(prev => prev.map(img => (img.id === image.id ? response.data : img)));
+    } catch (err) {
+      console.error('Failed to save caption:', err);
+      setError('說明儲存失敗，請稍後再試');
+    }
+  };
+
+  const handleDelete = async (image: ProductImage) => {
+    if (!window.confirm('確定要刪除這張圖片嗎？')) return;
+
+    try {
+      await axios.delete(`/api/supplier/tours/${productId}/images/${image.id}`);
+      setImages(prev => prev.filter(img => img.id !== image.id));
+    } catch (err) {
+      console.error('Failed to delete image:', err);
+      setError('刪除失敗，請稍後再試');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {images.length > 0 && (
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+          <SortableContext items={images.map(image => image.id)} strategy={rectSortingStrategy}>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+              {images.map(image => (
+                <SortableImage key={image.id} image={image} onCaptionSave={handleCaptionSave} onDelete={handleDelete} />
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
+      )}
+
+      <div className="flex items-center gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          multiple
+          onChange={handleFilesSelected}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading || images.length >= MAX_IMAGES}
+          className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+        >
+          <span className="material-symbols-outlined text-base">add_photo_alternate</span>
+          {uploading ? '上傳中...' : '上傳圖片'}
+        </button>
+        <span className="text-sm text-slate-500">
+          {images.length} / {MAX_IMAGES} 張，拖曳圖片可調整順序
+        </span>
+      </div>
+
+      {error && <span className="text-red-500 text-sm">{error}</span>}
+    </div>
+  );
+};
+
+export default GalleryEditor;
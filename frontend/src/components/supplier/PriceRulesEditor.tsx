@@ -0,0 +1,182 @@
+import React from 'react';
+
+export type PaxType = 'adult' | 'child';
+
+// Shape of a rule in GET/PUT /api/supplier/tours/:id/pricing; null conditions apply to everything
+export interface PriceRule {
+  id?: string;
+  label: string | null;
+  startDate: string | null; // YYYY-MM-DD, inclusive
+  endDate: string | null;
+  daysOfWeek: number[] | null; // 0 (Sunday) to 6 (Saturday)
+  paxType: PaxType | null;
+  minGroupSize: number | null;
+  maxGroupSize: number | null;
+  price: number;
+}
+
+interface PriceRulesEditorProps {
+  rules: PriceRule[];
+  onChange: (rules: PriceRule[]) => void;
+  basePrice: string;
+  error?: string;
+}
+
+const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六'];
+
+const EMPTY_RULE: PriceRule = {
+  label: '',
+  startDate: null,
+  endDate: null,
+  daysOfWeek: null,
+  paxType: null,
+  minGroupSize: null,
+  maxGroupSize: null,
+  price: 0,
+};
+
+const parseOptionalInt = (value: string): number | null => (value === '' ? null : parseInt(value, 10));
+
+const PriceRulesEditor: React.FC<PriceRulesEditorProps> = ({ rules, onChange, basePrice, error }) => {
+  const updateRule = (index: number, changes: Partial<PriceRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const toggleWeekday = (index: number, day: number) => {
+    const current = rules[index].daysOfWeek || [];
+    const daysOfWeek = current.includes(day) ? current.filter(d => d !== day) : [...current, day].sort();
+    updateRule(index, { daysOfWeek: daysOfWeek.length > 0 ? daysOfWeek : null });
+  };
+
+  const inputClass = 'p-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <p className="text-sm text-slate-500">
+        未符合任何規則時使用淨價 NT${Number(basePrice || 0).toLocaleString('zh-TW')}。同時符合多條規則時，條件最多者優先；條件數相同則以排序較前者為準。
+      </p>
+
+      {rules.map((rule, index) => (
+        <div key={rule.id || index} className="flex flex-col gap-3 p-4 border border-slate-200 rounded-lg bg-slate-50">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={rule.label || ''}
+              onChange={(e) => updateRule(index, { label: e.target.value })}
+              placeholder="規則名稱，例如：旺季"
+              className={`${inputClass} flex-1 min-w-[160px]`}
+            />
+            <span className="text-sm text-slate-600">NT$</span>
+            <input
+              type="number"
+              value={rule.price}
+              min="0"
+              step="1"
+              onChange={(e) => updateRule(index, { price: e.target.value === '' ? 0 : Number(e.target.value) })}
+              className={`${inputClass} w-28`}
+            />
+            <button type="button" onClick={() => moveRule(index, -1)} disabled={index === 0} className="text-slate-400 hover:text-slate-700 disabled:opacity-30" title="上移">
+              <span className="material-symbols-outlined">arrow_upward</span>
+            </button>
+            <button type="button" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} className="text-slate-400 hover:text-slate-700 disabled:opacity-30" title="下移">
+              <span className="material-symbols-outlined">arrow_downward</span>
+            </button>
+            <button type="button" onClick={() => onChange(rules.filter((_, i) => i !== index))} className="text-red-400 hover:text-red-600" title="刪除">
+              <span className="material-symbols-outlined">delete</span>
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+            <span className="w-16">日期</span>
+            <input
+              type="date"
+              value={rule.startDate || ''}
+              onChange={(e) => updateRule(index, { startDate: e.target.value || null })}
+              className={inputClass}
+            />
+            <span>至</span>
+            <input
+              type="date"
+              value={rule.endDate || ''}
+              min={rule.startDate || undefined}
+              onChange={(e) => updateRule(index, { endDate: e.target.value || null })}
+              className={inputClass}
+            />
+            <span className="text-slate-400">留空表示不限</span>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+            <span className="w-16">星期</span>
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWeekday(index, day)}
+                className={`w-8 h-8 rounded-full text-xs font-bold transition-colors ${rule.daysOfWeek?.includes(day)
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white border border-slate-300 text-slate-500'
+                  }`}
+              >
+                {label}
+              </button>
+            ))}
+            {!rule.daysOfWeek && <span className="text-slate-400">不限</span>}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+            <span className="w-16">旅客</span>
+            <select
+              value={rule.paxType || ''}
+              onChange={(e) => updateRule(index, { paxType: (e.target.value || null) as PaxType | null })}
+              className={inputClass}
+            >
+              <option value="">不限</option>
+              <option value="adult">成人</option>
+              <option value="child">兒童</option>
+            </select>
+            <span className="ml-4">團體人數</span>
+            <input
+              type="number"
+              value={rule.minGroupSize ?? ''}
+              min="1"
+              placeholder="最少"
+              onChange={(e) => updateRule(index, { minGroupSize: parseOptionalInt(e.target.value) })}
+              className={`${inputClass} w-20`}
+            />
+            <span>至</span>
+            <input
+              type="number"
+              value={rule.maxGroupSize ?? ''}
+              min={rule.minGroupSize ?? 1}
+              placeholder="最多"
+              onChange={(e) => updateRule(index, { maxGroupSize: parseOptionalInt(e.target.value) })}
+              className={`${inputClass} w-20`}
+            />
+            <span>人</span>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...rules, { ...EMPTY_RULE, price: Number(basePrice) || 0 }])}
+        className="self-start flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200"
+      >
+        <span className="material-symbols-outlined text-base">add</span>
+        新增價格規則
+      </button>
+
+      {error && <span className="text-red-500 text-sm">{error}</span>}
+    </div>
+  );
+};
+
+export default PriceRulesEditor;
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import axios from '../../config/axios';
+
+interface ImportRowResult {
+  row: number;
+  title: string | null;
+  errors: { field: string; message: string }[];
+  productId?: string;
+}
+
+// Returned by POST /api/supplier/tours/import
+interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  created: number;
+  rows: ImportRowResult[];
+}
+
+interface ProductImportWizardProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'select' | 'review' | 'done';
+
+// Mirrors MAX_IMPORT_SHEET_SIZE and MAX_IMPORT_ARCHIVE_SIZE on the server
+const MAX_SHEET_SIZE = 5 * 1024 * 1024;
+const MAX_ARCHIVE_SIZE = 100 * 1024 * 1024;
+
+const TEMPLATE_ROWS = [
+  ['產品標題', '目的地', '類別', '產品描述', '淨價', '購物行程', '門票', '門票價格', '停留時間', '地址', '緯度', '經度', '封面圖'],
+  ['一蘭拉麵 天神西通店', '福岡', '餐飲', '24 小時營業的豚骨拉麵', '980', '否', '否', '', '1', '福岡市中央區大名 2-1-57', '33.5903', '130.3946', 'ichiran.jpg'],
+];
+
+const downloadTemplate = () => {
+  const csv = TEMPLATE_ROWS.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\r\n');
+  // The BOM lets Excel open the file as UTF-8
+  const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = '產品匯入範本.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ProductImportWizard: React.FC<ProductImportWizardProps> = ({ onClose, onImported }) => {
+  const [step, setStep] = useState<Step>('select');
+  const [sheet, setSheet] = useState<File | null>(null);
+  const [archive, setArchive] = useState<File | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (dryRun: boolean) => {
+    if (!sheet) return;
+
+    const formData = new FormData();
+    formData.append('file', sheet);
+    if (archive) formData.append('images', archive);
+    formData.append('dryRun', String(dryRun));
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await axios.post('/api/supplier/tours/import', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      setReport(response.data);
+      if (dryRun) {
+        setStep('review');
+      } else {
+        setStep('done');
+        onImported();
+      }
+    } catch (err: any) {
+      // Rows that became invalid since the dry run come back with a report
+      if (err.response?.data?.report) {
+        setReport(err.response.data.report);
+        setStep('review');
+      }
+      setError(err.response?.data?.error || '匯入失敗，請稍後再試');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleFileChange = (setter: (file: File | null) => void, maxSize: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    if (file && file.size > maxSize) {
+      setError(`${file.name} 超過 ${maxSize / 1024 / 1024}MB`);
+      e.target.value = '';
+      return;
+    }
+    setter(file);
+    setError(null);
+  };
+
+  const invalidRows = report?.rows.filter(row => row.errors.length > 0) || [];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-xl overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">批次匯入產品</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              {step === 'select' && '步驟 1 / 2：選擇檔案'}
+              {step === 'review' && '步驟 2 / 2：確認檢查結果'}
+              {step === 'done' && '匯入完成'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="關閉">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 flex flex-col gap-5">
+          {step === 'select' && (
+            <>
+              <div className="text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-lg p-4 flex flex-col gap-2">
+                <p>每一列為一個產品，欄位與新增產品頁相同。匯入的產品一律儲存為草稿，確認後再送審。</p>
+                <p>「封面圖」填寫圖片 ZIP 內的檔名，或您既有產品的封面圖網址。</p>
+                <button type="button" onClick={downloadTemplate} className="self-start text-blue-600 hover:underline font-medium">
+                  下載 CSV 範本
+                </button>
+              </div>
+
+              <label className="flex flex-col gap-2">
+                <span className="font-bold text-slate-700">產品資料 (CSV 或 XLSX) <span className="text-red-500">*</span></span>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={handleFileChange(setSheet, MAX_SHEET_SIZE)}
+                  className="text-sm text-slate-600"
+                />
+              </label>
+
+              <label className="flex flex-col gap-2">
+                <span className="font-bold text-slate-700">封面圖 ZIP (選填)</span>
+                <input
+                  type="file"
+                  accept=".zip"
+                  onChange={handleFileChange(setArchive, MAX_ARCHIVE_SIZE)}
+                  className="text-sm text-slate-600"
+                />
+                <span className="text-xs text-slate-500">JPEG、PNG 或 WebP，每張不超過 5MB，ZIP 不超過 100MB</span>
+              </label>
+            </>
+          )}
+
+          {step === 'review' && report && (
+            <>
+              <div className="flex gap-3">
+                <div className="flex-1 rounded-lg bg-slate-50 border border-slate-200 p-4">
+                  <div className="text-sm text-slate-500">總列數</div>
+                  <div className="text-2xl font-bold text-slate-800">{report.total}</div>
+                </div>
+                <div className="flex-1 rounded-lg bg-green-50 border border-green-200 p-4">
+                  <div className="text-sm text-green-700">可匯入</div>
+                  <div className="text-2xl font-bold text-green-700">{report.valid}</div>
+                </div>
+                <div className="flex-1 rounded-lg bg-red-50 border border-red-200 p-4">
+                  <div className="text-sm text-red-700">有錯誤</div>
+                  <div className="text-2xl font-bold text-red-700">{report.invalid}</div>
+                </div>
+              </div>
+
+              {invalidRows.length > 0 ? (
+                <>
+                  <p className="text-sm text-slate-600">請修正以下列後重新上傳；只要有任何一列錯誤，就不會匯入任何產品。</p>
+                  <table className="w-full text-sm border-collapse">
+                    <thead>
+                      <tr className="bg-slate-50 text-left text-slate-600">
+                        <th className="p-2 border-b border-slate-200 w-16">列</th>
+                        <th className="p-2 border-b border-slate-200">產品</th>
+                        <th className="p-2 border-b border-slate-200">錯誤</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {invalidRows.map(row => (
+                        <tr key={row.row} className="align-top">
+                          <td className="p-2 border-b border-slate-100 text-slate-500">{row.row}</td>
+                          <td className="p-2 border-b border-slate-100 text-slate-800">{row.title || '（未填標題）'}</td>
+                          <td className="p-2 border-b border-slate-100">
+                            <ul className="flex flex-col gap-1 text-red-600">
+                              {row.errors.map((rowError, index) => (
+                                <li key={index}>
+                                  <span className="font-mono text-xs bg-red-50 rounded px-1 mr-1">{rowError.field}</span>
+                                  {rowError.message}
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              ) : (
+                <p className="text-sm text-slate-600">所有資料檢查通過，確認後將建立 {report.valid} 個草稿產品。</p>
+              )}
+            </>
+          )}
+
+          {step === 'done' && report && (
+            <div className="text-center py-8">
+              <span className="material-symbols-outlined text-5xl text-green-600">task_alt</span>
+              <p className="text-lg font-bold text-slate-800 mt-2">已建立 {report.created} 個草稿產品</p>
+              <p className="text-sm text-slate-500 mt-1">請在產品列表中檢查內容後送出審核。</p>
+            </div>
+          )}
+
+          {error && <div className="p-3 bg-red-50 text-red-700 rounded-lg border border-red-200 text-sm">{error}</div>}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-slate-200">
+          {step === 'select' && (
+            <button
+              type="button"
+              onClick={() => submit(true)}
+              disabled={!sheet || submitting}
+              className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {submitting ? '檢查中...' : '檢查資料'}
+            </button>
+          )}
+          {step === 'review' && (
+            <>
+              <button
+                type="button"
+                onClick={() => { setStep('select'); setReport(null); setError(null); }}
+                className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg font-medium transition-colors"
+              >
+                重新選擇檔案
+              </button>
+              <button
+                type="button"
+                onClick={() => submit(false)}
+                disabled={submitting || !report || report.invalid > 0}
+                className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                {submitting ? '匯入中...' : `匯入 ${report?.valid ?? 0} 個產品`}
+              </button>
+            </>
+          )}
+          {step === 'done' && (
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg font-medium transition-colors"
+            >
+              完成
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductImportWizard;
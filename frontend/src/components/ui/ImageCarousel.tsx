@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { ImageOff } from 'lucide-react';
+
+export interface CarouselImage {
+  url: string;
+  caption?: string | null;
+}
+
+interface ImageCarouselProps {
+  images: CarouselImage[];
+  alt: string;
+  className?: string; // Sets the carousel height, e.g. "h-[400px]"
+  children?: React.ReactNode; // Overlays such as badges
+}
+
+const isUsableUrl = (url: string | null | undefined): url is string =>
+  Boolean(url) && url !== 'null' && url !== 'undefined';
+
+const ImageCarousel: React.FC<ImageCarouselProps> = ({ images, alt, className = 'h-[400px]', children }) => {
+  const slides = images.filter(image => isUsableUrl(image.url));
+  const [index, setIndex] = useState(0);
+  const [failed, setFailed] = useState<Set<string>>(new Set());
+
+  // A new product or a shorter gallery must not leave the index past the end
+  useEffect(() => {
+    setIndex(0);
+  }, [slides.length, slides[0]?.url]);
+
+  const current = slides[index];
+  const showPlaceholder = !current || failed.has(current.url);
+  const go = (offset: number) => setIndex(prev => (prev + offset + slides.length) % slides.length);
+
+  return (
+    <div className={`w-full relative bg-slate-100 overflow-hidden ${className}`}>
+      {showPlaceholder ? (
+        <div className="w-full h-full flex flex-col items-center justify-center text-slate-400">
+          <ImageOff size={48} className="opacity-50" />
+          <span className="text-xs font-bold mt-2 tracking-wider">暫無預覽圖</span>
+        </div>
+      ) : (
+        <img
+          key={current.url}
+          src={current.url}
+          alt={current.caption || alt}
+          className="w-full h-full object-cover"
+          onError={() => setFailed(prev => new Set(prev).add(current.url))}
+        />
+      )}
+
+      {current?.caption && !showPlaceholder && (
+        <div className="absolute bottom-0 inset-x-0 bg-gradient-to-t from-black/60 to-transparent text-white text-sm px-4 pt-6 pb-8">
+          {current.caption}
+        </div>
+      )}
+
+      {slides.length > 1 && (
+        <>
+          <button
+            type="button"
+            onClick={() => go(-1)}
+            className="absolute left-3 top-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-black/40 hover:bg-black/60 text-white flex items-center justify-center"
+            title="上一張"
+          >
+            <span className="material-symbols-outlined">chevron_left</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => go(1)}
+            className="absolute right-3 top-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-black/40 hover:bg-black/60 text-white flex items-center justify-center"
+            title="下一張"
+          >
+            <span className="material-symbols-outlined">chevron_right</span>
+          </button>
+          <div className="absolute bottom-3 inset-x-0 flex justify-center gap-1.5">
+            {slides.map((slide, i) => (
+              <button
+                key={slide.url}
+                type="button"
+                onClick={() => setIndex(i)}
+                className={`w-2 h-2 rounded-full transition-colors ${i === index ? 'bg-white' : 'bg-white/50'}`}
+                aria-label={`第 ${i + 1} 張`}
+              />
+            ))}
+          </div>
+          <span className="absolute top-3 left-3 text-xs font-medium bg-black/40 text-white rounded-full px-2 py-0.5">
+            {index + 1} / {slides.length}
+          </span>
+        </>
+      )}
+
+      {children}
+    </div>
+  );
+};
+
+export default ImageCarousel;
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from 'react';
+
+interface LoadMoreProps {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+  // Shown as "已顯示 x / total"
+  loadedCount?: number;
+  totalCount?: number;
+  // Load the next page when the button scrolls into view
+  infinite?: boolean;
+  className?: string;
+}
+
+// Footer of a paginated list: a "load more" button that doubles as an infinite-scroll trigger
+const LoadMore: React.FC<LoadMoreProps> = ({
+  hasMore,
+  loading,
+  onLoadMore,
+  loadedCount,
+  totalCount,
+  infinite = false,
+  className = '',
+}) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!infinite || !hasMore || loading || !ref.current) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) onLoadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [infinite, hasMore, loading, onLoadMore]);
+
+  if (!hasMore && loadedCount === undefined) return null;
+
+  return (
+    <div ref={ref} className={`flex flex-col items-center gap-2 py-4 ${className}`}>
+      {loadedCount !== undefined && totalCount !== undefined && (
+        <span className="text-xs text-slate-400">已顯示 {loadedCount} / {totalCount}</span>
+      )}
+      {hasMore && (
+        <button
+          onClick={onLoadMore}
+          disabled={loading}
+          className="px-4 py-2 bg-white hover:bg-slate-100 text-slate-700 border border-slate-300 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+        >
+          {loading ? '載入中...' : '載入更多'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LoadMore;
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import axios from '../config/axios';
+import { Page, PageInfo } from '../types/pagination';
+
+type Params = Record<string, string | number | undefined>;
+
+interface PaginatedList<T> {
+  items: T[];
+  pageInfo: PageInfo | null;
+  loading: boolean;
+  loadingMore: boolean;
+  error: string | null;
+  // Append the next page, if any
+  loadMore: () => Promise<void>;
+  // Start again from the first page, e.g. after deleting an item
+  reload: () => Promise<void>;
+}
+
+/**
+ * Load a paginated list endpoint page by page.
+ * The first page is fetched again whenever the endpoint or params (filters, sort) change;
+ * responses to superseded requests are dropped.
+ * @param endpoint - List URL, or null to skip loading
+ * @param params - Query parameters; empty values are left out
+ * @param errorMessage - Shown when a page fails to load
+ */
+export const usePaginatedList = <T>(
+  endpoint: string | null,
+  params: Params = {},
+  errorMessage = '載入失敗'
+): PaginatedList<T> => {
+  const [items, setItems] = useState<T[]>([]);
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null);
+  const [loading, setLoading] = useState(endpoint !== null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
+
+  const paramsKey = JSON.stringify(
+    Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined && value !== ''))
+  );
+
+  const fetchPage = useCallback(async (cursor?: string) => {
+    if (!endpoint) return;
+    const id = ++requestId.current;
+    const append = cursor !== undefined;
+    append ? setLoadingMore(true) : setLoading(true);
+    setError(null);
+
+    try {
+      const response = await axios.get<Page<T>>(endpoint, { params: { ...JSON.parse(paramsKey), cursor } });
+      if (id !== requestId.current) return;
+      setItems(prev => (append ? [...prev, ...response.data.items] : response.data.items));
+      setPageInfo(response.data.pageInfo);
+    } catch (err: any) {
+      if (id !== requestId.current) return;
+      console.error(`Error fetching ${endpoint}:`, err);
+      setError(err.response?.data?.error || errorMessage);
+    } finally {
+      if (id === requestId.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [endpoint, paramsKey, errorMessage]);
+
+  useEffect(() => {
+    fetchPage();
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || !pageInfo?.nextCursor) return;
+    await fetchPage(pageInfo.nextCursor);
+  }, [fetchPage, loading, loadingMore, pageInfo]);
+
+  const reload = useCallback(() => fetchPage(), [fetchPage]);
+
+  return { items, pageInfo, loading, loadingMore, error, loadMore, reload };
+};
@@ -2,7 +2,10 @@ import React, { useState, useEffect } from 'react';
 import axios from '../../config/axios';
 import { useNavigate, useParams } from 'react-router-dom';
 import TopBar from '../../components/TopBar';
+import ProductRevisionPanel from '../../components/admin/ProductRevisionPanel';
+import ProductDuplicatePanel from '../../components/admin/ProductDuplicatePanel';
 import { ImageOff } from 'lucide-react';
+import { CoverImage } from '../../types/itinerary';
 
 type ProductStatus = '草稿' | '待審核' | '已發佈' | '需要修改';
 
@@ -13,6 +16,7 @@ interface ProductDetail {
   category: string;
   description: string;
   coverImageUrl: string;
+  coverImage: CoverImage | null;
   netPrice: number;
   status: ProductStatus;
   rejectionReason?: string;
@@ -22,6 +26,10 @@ interface ProductDetail {
   hasTicket: boolean;
   ticketPrice?: number;
   duration: number;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  duplicateOfId?: string;
 }
 
 const AdminTourDetailPage: React.FC = () => {
@@ -168,7 +176,7 @@ const AdminTourDetailPage: React.FC = () => {
         <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
           <div className="w-full h-[400px] bg-slate-100 overflow-hidden relative">
             <img
-              src={product.coverImageUrl === 'null' || product.coverImageUrl === 'undefined' ? undefined : product.coverImageUrl}
+              src={product.coverImageUrl === 'null' || product.coverImageUrl === 'undefined' ? undefined : product.coverImage?.hero || product.coverImageUrl}
               alt={product.title}
               className="w-full h-full object-cover"
               style={{ display: (!product.coverImageUrl || product.coverImageUrl === 'null' || product.coverImageUrl === 'undefined') ? 'none' : 'block' }}
@@ -288,13 +296,19 @@ const AdminTourDetailPage: React.FC = () => {
             )}
           </div>
 
-          <div className="p-8">
+          <div className="p-8 border-b border-slate-100">
             <h3 className="text-xl font-bold text-slate-800 mb-4">產品描述</h3>
             <div
               className="prose prose-slate max-w-none text-slate-600"
               dangerouslySetInnerHTML={{ __html: product.description }}
             />
           </div>
+
+          <ProductDuplicatePanel product={product} onChange={fetchProduct} />
+
+          <div className="p-8">
+            <ProductRevisionPanel key={product.status} productId={product.id} />
+          </div>
         </div>
 
         {showRevisionModal && (
@@ -2,9 +2,12 @@ import React, { useState, useEffect } from 'react';
 import axios from '../../config/axios';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '../../components/Toast';
+import ProductExportMenu from '../../components/ProductExportMenu';
 import { useAuth } from '../../contexts/AuthContext';
 import TopBar from '../../components/TopBar';
 import CustomSelect from '../../components/ui/CustomSelect';
+import LoadMore from '../../components/ui/LoadMore';
+import { usePaginatedList } from '../../hooks/usePaginatedList';
 
 type ProductStatus = '草稿' | '待審核' | '已發佈' | '需要修改';
 
@@ -21,11 +24,8 @@ interface Product {
 const AdminToursPage: React.FC = () => {
   const navigate = useNavigate();
   const { showSuccess, showError } = useToast();
-  const [products, setProducts] = useState<Product[]>([]);
   const [pendingCount, setPendingCount] = useState<number>(0);
   const [showPendingOnly, setShowPendingOnly] = useState(false);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isBatchProcessing, setIsBatchProcessing] = useState(false);
 
@@ -35,27 +35,26 @@ const AdminToursPage: React.FC = () => {
   const [filterStatus, setFilterStatus] = useState('');
   const [sortConfig, setSortConfig] = useState<{ key: keyof Product; direction: 'asc' | 'desc' } | null>(null);
 
+  // Shared by the list and the export, so both cover the same products
+  const listFilters = {
+    supplier: filterSupplier,
+    destination: filterDestination,
+    category: filterCategory,
+    status: filterStatus || (showPendingOnly ? '待審核' : ''),
+  };
+
+  const { items: products, pageInfo, loading, loadingMore, error, loadMore, reload: fetchProducts } =
+    usePaginatedList<Product>('/api/admin/tours', {
+      ...listFilters,
+      sort: sortConfig?.key,
+      order: sortConfig?.direction,
+    }, '無法載入產品列表');
+
   useEffect(() => {
     setSelectedIds(new Set());
-    fetchProducts();
     fetchPendingCount();
   }, [showPendingOnly]);
 
-  const fetchProducts = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const endpoint = showPendingOnly ? '/api/admin/tours/pending' : '/api/admin/tours';
-      const response = await axios.get(endpoint);
-      setProducts(response.data);
-    } catch (err: any) {
-      setError('無法載入產品列表');
-      console.error('Error fetching products:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const fetchPendingCount = async () => {
     try {
       const response = await axios.get('/api/admin/tours/pending/count');
@@ -105,7 +104,7 @@ const AdminToursPage: React.FC = () => {
 
   const handleSelectAll = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.checked) {
-      setSelectedIds(new Set(filteredProducts.map(p => p.id)));
+      setSelectedIds(new Set(products.map(p => p.id)));
     } else {
       setSelectedIds(new Set());
     }
@@ -155,39 +154,6 @@ const AdminToursPage: React.FC = () => {
     setSortConfig({ key, direction });
   };
 
-  const filteredProducts = React.useMemo(() => {
-    let result = products.filter(p => p.status !== '草稿');
-
-    // Filtering
-    if (filterSupplier) {
-      result = result.filter(p => p.supplierName.toLowerCase().includes(filterSupplier.toLowerCase()));
-    }
-    if (filterDestination) {
-      result = result.filter(p => p.destination.toLowerCase().includes(filterDestination.toLowerCase()));
-    }
-    if (filterCategory) {
-      result = result.filter(p => p.category === filterCategory);
-    }
-    if (filterStatus) {
-      result = result.filter(p => p.status === filterStatus);
-    }
-
-    // Sorting
-    if (sortConfig) {
-      result.sort((a, b) => {
-        if (a[sortConfig.key] < b[sortConfig.key]) {
-          return sortConfig.direction === 'asc' ? -1 : 1;
-        }
-        if (a[sortConfig.key] > b[sortConfig.key]) {
-          return sortConfig.direction === 'asc' ? 1 : -1;
-        }
-        return 0;
-      });
-    }
-
-    return result;
-  }, [products, filterSupplier, filterDestination, filterCategory, filterStatus, sortConfig]);
-
   const categoryMap: Record<string, string> = {
     'landmark': '地標',
     'accommodation': '住宿',
@@ -195,13 +161,7 @@ const AdminToursPage: React.FC = () => {
     'transportation': '交通'
   };
 
-  const uniqueCategories = Array.from(new Set(products.map(p => p.category)))
-    .filter(Boolean)
-    .filter(c => c !== 'activity');
-
-  const uniqueStatuses = Array.from(new Set(products.map(p => p.status)))
-    .filter(Boolean)
-    .filter(s => s !== '草稿');
+  const statuses: ProductStatus[] = ['待審核', '已發佈', '需要修改'];
 
   const { user } = useAuth();
 
@@ -257,6 +217,10 @@ const AdminToursPage: React.FC = () => {
             >
               待審核 {pendingCount > 0 && <span className="bg-red-500 text-white px-2 py-0.5 rounded-full text-xs font-bold">{pendingCount}</span>}
             </button>
+            <ProductExportMenu
+              endpoint="/api/admin/tours/export"
+              filters={listFilters}
+            />
           </div>
         </div>
 
@@ -289,8 +253,8 @@ const AdminToursPage: React.FC = () => {
             onChange={(e) => setFilterCategory(e.target.value)}
           >
             <option value="">全部類別</option>
-            {uniqueCategories.map(c => (
-              <option key={c} value={c}>{categoryMap[c] || c}</option>
+            {Object.entries(categoryMap).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
             ))}
           </CustomSelect>
 
@@ -301,7 +265,7 @@ const AdminToursPage: React.FC = () => {
             onChange={(e) => setFilterStatus(e.target.value)}
           >
             <option value="">全部狀態</option>
-            {uniqueStatuses.map(s => (
+            {statuses.map(s => (
               <option key={s} value={s}>{s}</option>
             ))}
           </CustomSelect>
@@ -333,7 +297,7 @@ const AdminToursPage: React.FC = () => {
                     <input
                       type="checkbox"
                       className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
-                      checked={filteredProducts.length > 0 && selectedIds.size === filteredProducts.length}
+                      checked={products.length > 0 && selectedIds.size === products.length}
                       onChange={handleSelectAll}
                     />
                   </th>
@@ -371,7 +335,7 @@ const AdminToursPage: React.FC = () => {
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-100">
-                {filteredProducts.map((product) => (
+                {products.map((product) => (
                   <tr
                     key={product.id}
                     className={`hover:bg-slate-50 transition-colors cursor-pointer ${selectedIds.has(product.id) ? 'bg-blue-50 hover:bg-blue-100' : ''}`}
@@ -410,13 +374,23 @@ const AdminToursPage: React.FC = () => {
                 ))}
               </tbody>
             </table>
-            {filteredProducts.length === 0 && (
+            {products.length === 0 && (
               <p className="p-8 text-center text-slate-500">
-                {products.length === 0 ? '尚無產品' : '沒有符合篩選條件的產品'}
+                {filterSupplier || filterDestination || filterCategory || filterStatus ? '沒有符合篩選條件的產品' : '尚無產品'}
               </p>
             )}
           </div>
         )}
+
+        {!loading && !error && products.length > 0 && pageInfo && (
+          <LoadMore
+            hasMore={pageInfo.hasMore}
+            loading={loadingMore}
+            onLoadMore={loadMore}
+            loadedCount={products.length}
+            totalCount={pageInfo.totalCount}
+          />
+        )}
       </main>
     </div>
   );
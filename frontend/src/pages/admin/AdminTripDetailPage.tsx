@@ -3,6 +3,7 @@ import axios from '../../config/axios';
 import { useNavigate, useParams } from 'react-router-dom';
 import { ArrowRight, Utensils, BedDouble, Info, ChevronDown, ChevronUp } from 'lucide-react';
 import TopBar from '../../components/TopBar';
+import TripSnapshotDiffPanel from '../../components/admin/TripSnapshotDiffPanel';
 
 type TripStatus = '草稿' | '審核中' | '已通過' | '已退回';
 
@@ -114,6 +115,10 @@ const AdminTripDetailPage: React.FC = () => {
             </div>
           )}
 
+          <div className="mb-8">
+            <TripSnapshotDiffPanel key={trip.status} tripId={trip.id} />
+          </div>
+
           <div className="space-y-6">
             <h2 className="text-xl font-bold text-slate-700 border-b pb-2 mb-4">行程詳情</h2>
             {trip.days?.map((day: any) => (
@@ -1,11 +1,13 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import axios from '../../config/axios';
 import TopBar from '../../components/TopBar';
 import DestinationMenu, { DESTINATION_GROUPS } from '../../components/DestinationMenu';
 import CustomSelect from '../../components/ui/CustomSelect';
 import { Search, MapPin, ImageOff, Calendar, Compass } from 'lucide-react';
 import { useSearchParams } from 'react-router-dom';
+import { CoverImage } from '../../types/itinerary';
+import LoadMore from '../../components/ui/LoadMore';
+import { usePaginatedList } from '../../hooks/usePaginatedList';
 
 interface Product {
   id: string;
@@ -13,6 +15,7 @@ interface Product {
   destination: string;
   category: string;
   coverImageUrl: string;
+  coverImage: CoverImage | null;
   netPrice: number;
   supplierName: string;
 }
@@ -29,10 +32,6 @@ interface SupplierTrip {
 
 const AgencyDashboardPage: React.FC = () => {
   const navigate = useNavigate();
-  const [products, setProducts] = useState<Product[]>([]);
-  const [trips, setTrips] = useState<SupplierTrip[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [loadingTrips, setLoadingTrips] = useState(false);
   const [searchParams, setSearchParams] = useSearchParams();
   const urlDestination = searchParams.get('destination');
   const [searchTerm, setSearchTerm] = useState(urlDestination || '');
@@ -56,41 +55,28 @@ const AgencyDashboardPage: React.FC = () => {
     }
   };
 
-  useEffect(() => {
-    fetchProducts();
-  }, []);
-
-  // Fetch trips when search changes
-  useEffect(() => {
-    fetchTrips();
-  }, [searchTerm, daysFilter]);
-
-  const fetchProducts = async () => {
-    try {
-      const response = await axios.get('/api/agency/tours');
-      setProducts(response.data);
-    } catch (error) {
-      console.error('Failed to fetch products:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchTrips = async () => {
-    try {
-      setLoadingTrips(true);
-      const params: Record<string, string> = {};
-      if (searchTerm) params.search = searchTerm;
-      if (daysFilter) params.daysCount = String(daysFilter);
-
-      const response = await axios.get('/api/agency/trips', { params });
-      setTrips(response.data);
-    } catch (error) {
-      console.error('Failed to fetch trips:', error);
-    } finally {
-      setLoadingTrips(false);
-    }
-  };
+  // Products are filtered by destination group on the client, so pages keep loading while scrolling
+  const {
+    items: products,
+    pageInfo: productPageInfo,
+    loading,
+    loadingMore: loadingMoreProducts,
+    loadMore: loadMoreProducts,
+  } = usePaginatedList<Product>('/api/agency/tours');
+
+  // Trips are searched on the server
+  const {
+    items: trips,
+    pageInfo: tripPageInfo,
+    loading: loadingTrips,
+    loadingMore: loadingMoreTrips,
+    loadMore: loadMoreTrips,
+  } = usePaginatedList<SupplierTrip>('/api/agency/trips', {
+    search: searchTerm,
+    daysCount: daysFilter ?? undefined,
+  });
+  const tripCount = tripPageInfo?.totalCount ?? trips.length;
+  const hasMoreProducts = productPageInfo?.hasMore ?? false;
 
   const popularDestinations = Array.from(new Set(products.map(p => p.destination))).filter(Boolean).slice(0, 8);
   const categoryLabels: Record<string, string> = {
@@ -134,14 +120,14 @@ const AgencyDashboardPage: React.FC = () => {
             </button>
             {searchTerm && (
               <button
-                disabled={displayProducts.length === 0}
+                disabled={displayProducts.length === 0 && !hasMoreProducts}
                 onClick={() => navigate(`/agency/itinerary-planner?destination=${encodeURIComponent(searchTerm)}`)}
                 className={`px-4 py-2 rounded-lg font-medium transition-all flex items-center gap-2 shadow-sm animate-in fade-in slide-in-from-right-4 ${
-                  displayProducts.length === 0 
+                  displayProducts.length === 0 && !hasMoreProducts
                   ? 'bg-slate-100 text-slate-300 cursor-not-allowed border border-slate-200' 
                   : 'bg-slate-800 hover:bg-slate-700 text-white hover:shadow-md'
                 }`}
-                title={displayProducts.length === 0 ? "此目的地目前尚無相關產品，無法開始規劃" : "開始規劃行程"}
+                title={displayProducts.length === 0 && !hasMoreProducts ? "此目的地目前尚無相關產品，無法開始規劃" : "開始規劃行程"}
               >
                 <span className="material-symbols-outlined text-lg">assignment</span> 行程規劃
               </button>
@@ -227,11 +213,11 @@ const AgencyDashboardPage: React.FC = () => {
             <div className="flex items-center justify-between mb-4">
               <div className="flex items-center gap-2">
                 <h3 className="text-lg font-bold text-slate-800">精選推薦行程</h3>
-                {searchTerm && <span className="text-sm text-slate-500">– {searchTerm} ({trips.length})</span>}
+                {searchTerm && <span className="text-sm text-slate-500">– {searchTerm} ({tripCount})</span>}
               </div>
               
               <div className="text-sm text-slate-400 font-medium">
-                找到 {trips.length} 個行程
+                找到 {tripCount} 個行程
               </div>
             </div>
 
@@ -290,6 +276,14 @@ const AgencyDashboardPage: React.FC = () => {
                 <p className="text-slate-500 text-sm mt-1">請嘗試調整搜尋字詞或天數篩選</p>
               </div>
             )}
+
+            {!loadingTrips && (
+              <LoadMore
+                hasMore={tripPageInfo?.hasMore ?? false}
+                loading={loadingMoreTrips}
+                onLoadMore={loadMoreTrips}
+              />
+            )}
           </div>
         )}
 
@@ -302,7 +296,7 @@ const AgencyDashboardPage: React.FC = () => {
 
         {loading ? (
           <div className="text-center py-12 text-slate-500">載入中...</div>
-        ) : displayProducts.length === 0 ? (
+        ) : displayProducts.length === 0 && !hasMoreProducts ? (
           <div className="flex flex-col items-center justify-center py-16 text-slate-500">
             <MapPin className="w-12 h-12 mb-4 text-slate-300" />
             <h3 className="text-lg font-medium text-slate-700 mb-2">此目的地目前尚無相關產品</h3>
@@ -318,7 +312,7 @@ const AgencyDashboardPage: React.FC = () => {
               >
                 <div className="relative h-48 overflow-hidden">
                   <img
-                    src={product.coverImageUrl === 'null' || product.coverImageUrl === 'undefined' ? undefined : product.coverImageUrl}
+                    src={product.coverImageUrl === 'null' || product.coverImageUrl === 'undefined' ? undefined : product.coverImage?.card || product.coverImageUrl}
                     alt={product.title}
                     className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                     style={{ display: (!product.coverImageUrl || product.coverImageUrl === 'null' || product.coverImageUrl === 'undefined') ? 'none' : 'block' }}
@@ -356,6 +350,15 @@ const AgencyDashboardPage: React.FC = () => {
             ))}
           </div>
         )}
+
+        {!loading && (
+          <LoadMore
+            hasMore={hasMoreProducts}
+            loading={loadingMoreProducts}
+            onLoadMore={loadMoreProducts}
+            infinite
+          />
+        )}
       </main>
     </div>
   );
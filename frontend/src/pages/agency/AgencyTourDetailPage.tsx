@@ -2,7 +2,8 @@ import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import axios from '../../config/axios';
 import TopBar from '../../components/TopBar';
-import { ImageOff } from 'lucide-react';
+import ImageCarousel from '../../components/ui/ImageCarousel';
+import { CoverImage } from '../../types/itinerary';
 
 interface ProductDetail {
   id: string;
@@ -11,25 +12,85 @@ interface ProductDetail {
   category: string;
   description: string;
   coverImageUrl: string;
+  coverImage: CoverImage | null;
   netPrice: number;
   supplierName: string;
   hasShopping: boolean;
   hasTicket: boolean;
   ticketPrice?: number;
   duration: number;
+  images: { id: string; imageUrl: string; variants: Omit<CoverImage, 'original'>; caption: string | null }[];
 }
 
+interface ResolvedPrice {
+  price: number;
+  ruleId: string | null;
+  label: string | null;
+}
+
+// One row of GET /api/agency/tours/:id/prices
+interface PriceCalendarDay {
+  date: string;
+  prices: { adult: ResolvedPrice; child: ResolvedPrice };
+}
+
+// Server caps the range at 62 days
+const MAX_PRICE_DAYS = 62;
+
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (dateString: string, days: number): string => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return toDateString(new Date(year, month - 1, day + days));
+};
+
 const AgencyTourDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [product, setProduct] = useState<ProductDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [priceStartDate, setPriceStartDate] = useState(() => toDateString(new Date()));
+  const [priceEndDate, setPriceEndDate] = useState(() => addDays(toDateString(new Date()), 6));
+  const [groupSize, setGroupSize] = useState(1);
+  const [priceCalendar, setPriceCalendar] = useState<PriceCalendarDay[]>([]);
+  const [priceError, setPriceError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchProductDetail();
   }, [id]);
 
+  useEffect(() => {
+    if (!priceStartDate || !priceEndDate || priceEndDate < priceStartDate) return;
+
+    let cancelled = false;
+    const fetchPrices = async () => {
+      try {
+        setPriceError(null);
+        const response = await axios.get(`/api/agency/tours/${id}/prices`, {
+          params: { startDate: priceStartDate, endDate: priceEndDate, groupSize },
+        });
+        if (!cancelled) setPriceCalendar(response.data);
+      } catch (err) {
+        console.error('Failed to fetch prices:', err);
+        if (!cancelled) setPriceError('無法載入所選日期的價格');
+      }
+    };
+    fetchPrices();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, priceStartDate, priceEndDate, groupSize]);
+
+  const handlePriceStartDateChange = (value: string) => {
+    setPriceStartDate(value);
+    if (!value) return;
+    if (priceEndDate < value) setPriceEndDate(value);
+    else if (priceEndDate > addDays(value, MAX_PRICE_DAYS - 1)) setPriceEndDate(addDays(value, MAX_PRICE_DAYS - 1));
+  };
+
   const fetchProductDetail = async () => {
     try {
       setLoading(true);
@@ -76,22 +137,14 @@ const AgencyTourDetailPage: React.FC = () => {
 
         {!loading && !error && product && (
           <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
-            <div className="w-full h-[400px] relative bg-slate-100 overflow-hidden">
-              <img
-                src={product.coverImageUrl === 'null' || product.coverImageUrl === 'undefined' ? undefined : product.coverImageUrl}
-                alt={product.title}
-                className="w-full h-full object-cover"
-                style={{ display: (!product.coverImageUrl || product.coverImageUrl === 'null' || product.coverImageUrl === 'undefined') ? 'none' : 'block' }}
-                onError={(e) => {
-                  e.currentTarget.style.display = 'none';
-                  const next = e.currentTarget.nextElementSibling;
-                  if (next) next.classList.remove('hidden');
-                }}
-              />
-              <div className={`w-full h-full flex flex-col items-center justify-center bg-slate-100 text-slate-400 absolute inset-0 ${(!product.coverImageUrl || product.coverImageUrl === 'null' || product.coverImageUrl === 'undefined') ? '' : 'hidden'}`}>
-                <ImageOff size={64} className="opacity-50" />
-              </div>
-            </div>
+            <ImageCarousel
+              images={[
+                { url: product.coverImage?.hero || product.coverImageUrl },
+                ...(product.images || []).map(image => ({ url: image.variants.hero, caption: image.caption })),
+              ]}
+              alt={product.title}
+              className="h-[400px]"
+            />
             <div className="p-8">
               <h2 className="text-3xl font-bold text-slate-800 mb-8">{product.title}</h2>
 
@@ -132,6 +185,66 @@ const AgencyTourDetailPage: React.FC = () => {
                 </div>
               </div>
 
+              <div className="mt-8">
+                <h3 className="text-xl font-bold text-slate-800 mb-4 pb-2 border-b border-slate-100">依日期查詢價格</h3>
+                <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-slate-600">
+                  <input
+                    type="date"
+                    value={priceStartDate}
+                    onChange={(e) => handlePriceStartDateChange(e.target.value)}
+                    className="p-2 border border-slate-300 rounded-lg"
+                  />
+                  <span>至</span>
+                  <input
+                    type="date"
+                    value={priceEndDate}
+                    min={priceStartDate}
+                    max={priceStartDate ? addDays(priceStartDate, MAX_PRICE_DAYS - 1) : undefined}
+                    onChange={(e) => setPriceEndDate(e.target.value)}
+                    className="p-2 border border-slate-300 rounded-lg"
+                  />
+                  <span className="ml-4">團體人數</span>
+                  <input
+                    type="number"
+                    value={groupSize}
+                    min="1"
+                    onChange={(e) => setGroupSize(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                    className="w-20 p-2 border border-slate-300 rounded-lg"
+                  />
+                </div>
+                {priceError && <p className="text-red-500 text-sm">{priceError}</p>}
+                {!priceError && priceCalendar.length > 0 && (
+                  <div className="max-h-[360px] overflow-y-auto border border-slate-200 rounded-lg">
+                    <table className="w-full text-sm">
+                      <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                        <tr>
+                          <th className="text-left font-medium px-4 py-2">日期</th>
+                          <th className="text-right font-medium px-4 py-2">成人</th>
+                          <th className="text-right font-medium px-4 py-2">兒童</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {priceCalendar.map(day => (
+                          <tr key={day.date} className="border-t border-slate-100">
+                            <td className="px-4 py-2 text-slate-700">{day.date}</td>
+                            {(['adult', 'child'] as const).map(paxType => (
+                              <td key={paxType} className="px-4 py-2 text-right">
+                                <span className={`font-semibold ${day.prices[paxType].ruleId ? 'text-blue-600' : 'text-slate-800'}`}>
+                                  {formatPrice(day.prices[paxType].price)}
+                                </span>
+                                {day.prices[paxType].label && (
+                                  <span className="ml-2 text-xs text-slate-400">{day.prices[paxType].label}</span>
+                                )}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
               <div className="mt-8">
                 <h3 className="text-xl font-bold text-slate-800 mb-4 pb-2 border-b border-slate-100">產品描述</h3>
                 <div
@@ -4,6 +4,10 @@ import axios from '../../config/axios';
 import TopBar from '../../components/TopBar';
 import CustomSelect from '../../components/ui/CustomSelect';
 import { useToast } from '../../components/Toast';
+import LoadMore from '../../components/ui/LoadMore';
+import { usePaginatedList } from '../../hooks/usePaginatedList';
+import { ItineraryStatus } from '../../types/itinerary';
+import { ITINERARY_STATUSES, STATUS_BADGE_CLASSES, STATUS_LABELS, STATUS_TRANSITIONS } from '../../utils/itineraryStatus';
 import { 
   MapPin, 
   Clock, 
@@ -14,7 +18,8 @@ import {
   Search,
   Filter,
   Plane,
-  ArrowLeft
+  ArrowLeft,
+  ArrowRight
 } from 'lucide-react';
 
 interface Itinerary {
@@ -24,34 +29,76 @@ interface Itinerary {
   daysCount: number;
   startDate: string | null;
   endDate: string | null;
-  status: string;
+  status: ItineraryStatus;
   createdAt: string;
   updatedAt: string;
 }
 
+const SORT_OPTIONS = {
+  newest: { label: '最新優先', params: { sort: 'createdAt', order: 'desc' } },
+  oldest: { label: '最舊優先', params: { sort: 'createdAt', order: 'asc' } },
+  updated: { label: '最近更新', params: { sort: 'updatedAt', order: 'desc' } },
+  name: { label: '名稱', params: { sort: 'name', order: 'asc' } },
+};
+
 const AgencyTripsPage: React.FC = () => {
   const navigate = useNavigate();
   const { showSuccess, showError } = useToast();
-  const [itineraries, setItineraries] = useState<Itinerary[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [sortOption, setSortOption] = useState<keyof typeof SORT_OPTIONS>('newest');
   const [activeDropdown, setActiveDropdown] = useState<string | null>(null);
+  const [stageFilter, setStageFilter] = useState<ItineraryStatus | 'all'>('all');
+  const [statusCounts, setStatusCounts] = useState<Record<ItineraryStatus, number> | null>(null);
+
+  const {
+    items: itineraries,
+    pageInfo,
+    loading,
+    loadingMore,
+    error,
+    loadMore,
+    reload: fetchItineraries,
+  } = usePaginatedList<Itinerary>(
+    '/api/itinerary',
+    { ...SORT_OPTIONS[sortOption].params, status: stageFilter === 'all' ? undefined : stageFilter },
+    '無法取得行程列表'
+  );
+
+  const fetchStatusCounts = async () => {
+    try {
+      const response = await axios.get('/api/itinerary/status-summary');
+      setStatusCounts(response.data);
+    } catch (error) {
+      console.error('Failed to fetch itinerary status counts:', error);
+    }
+  };
 
   useEffect(() => {
-    fetchItineraries();
+    fetchStatusCounts();
   }, []);
 
-  const fetchItineraries = async () => {
+  useEffect(() => {
+    if (error) showError(error);
+  }, [error]);
+
+  const handleStatusChange = async (id: string, status: ItineraryStatus, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setActiveDropdown(null);
+
     try {
-      setLoading(true);
-      const response = await axios.get('/api/itinerary');
-      setItineraries(response.data);
-    } catch (error) {
-      console.error('Failed to fetch itineraries:', error);
-      showError('無法取得行程列表');
-    } finally {
-      setLoading(false);
+      await axios.post(`/api/itinerary/${id}/status`, { status });
+      showSuccess(`行程已變更為「${STATUS_LABELS[status]}」`);
+    } catch (error: any) {
+      console.error('Failed to change itinerary status:', error);
+      const data = error.response?.data;
+      // Confirmation refusals list the feasibility errors still to fix
+      const reasons = [...(data?.details ?? []), ...(data?.issues ?? []).map((issue: any) => `第 ${issue.dayNumber} 天：${issue.message}`)];
+      showError(reasons.length > 0 ? reasons.join('；') : data?.error || '變更狀態失敗');
+      return;
     }
+
+    fetchItineraries();
+    fetchStatusCounts();
   };
 
   const handleDelete = async (id: string, e: React.MouseEvent) => {
@@ -62,6 +109,7 @@ const AgencyTripsPage: React.FC = () => {
       await axios.delete(`/api/itinerary/${id}`);
       showSuccess('行程已刪除');
       fetchItineraries();
+      fetchStatusCounts();
     } catch (error) {
       console.error('Failed to delete itinerary:', error);
       showError('刪除失敗');
@@ -74,6 +122,14 @@ const AgencyTripsPage: React.FC = () => {
     (it.destination && it.destination.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
+  // All stages at once are grouped by stage, in workflow order
+  const groups = stageFilter === 'all'
+    ? ITINERARY_STATUSES
+      .map(status => ({ status, items: filteredItineraries.filter(it => it.status === status) }))
+      .filter(group => group.items.length > 0)
+    : [{ status: null, items: filteredItineraries }];
+  const lastItinerary = groups[groups.length - 1]?.items.slice(-1)[0];
+
 
   return (
     <div className="min-h-screen bg-[#F8FAFC]">
@@ -130,13 +186,41 @@ const AgencyTripsPage: React.FC = () => {
               containerClassName="!flex-row !items-center !gap-2 !border-none !shadow-none !p-0"
               className="!bg-transparent !border-none !focus:ring-0 !text-sm !font-bold !text-slate-700 !pl-0 !pr-6 !py-0 !min-w-[80px]"
               onPointerDown={(e) => e.stopPropagation()}
+              value={sortOption}
+              onChange={(e) => setSortOption(e.target.value as keyof typeof SORT_OPTIONS)}
             >
-              <option>最新優先</option>
-              <option>最舊優先</option>
+              {Object.entries(SORT_OPTIONS).map(([value, { label }]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
             </CustomSelect>
           </div>
         </div>
 
+        {/* Stage Tabs */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {(['all', ...ITINERARY_STATUSES] as const).map(stage => {
+            const count = statusCounts
+              ? stage === 'all'
+                ? Object.values(statusCounts).reduce((sum, n) => sum + n, 0)
+                : statusCounts[stage]
+              : null;
+            return (
+              <button
+                key={stage}
+                onClick={() => setStageFilter(stage)}
+                className={`px-4 py-2 rounded-xl text-sm font-bold transition-colors ${
+                  stageFilter === stage
+                    ? 'bg-slate-900 text-white shadow-sm'
+                    : 'bg-white text-slate-500 border border-slate-200 hover:text-slate-800'
+                }`}
+              >
+                {stage === 'all' ? '全部' : STATUS_LABELS[stage]}
+                {count !== null && <span className="ml-1.5 text-xs opacity-70">{count}</span>}
+              </button>
+            );
+          })}
+        </div>
+
         {/* Itinerary List */}
         {loading ? (
           <div className="space-y-4">
@@ -155,13 +239,20 @@ const AgencyTripsPage: React.FC = () => {
               <div className="col-span-1 text-right">操作</div>
             </div>
 
-            <div className="divide-y divide-slate-100">
-              {filteredItineraries.map((itinerary, index) => (
+            {groups.map(group => (
+            <div key={group.status ?? 'all'} className="divide-y divide-slate-100">
+              {group.status && (
+                <div className="px-8 py-3 bg-slate-50/30 border-t border-slate-100 text-xs font-bold text-slate-500 flex items-center gap-2">
+                  {STATUS_LABELS[group.status]}
+                  <span className="text-slate-400 font-medium">{group.items.length}</span>
+                </div>
+              )}
+              {group.items.map(itinerary => (
                 <div 
                   key={itinerary.id}
                   onClick={() => navigate(`/agency/itinerary-planner?itineraryId=${itinerary.id}`)}
                   className={`group grid grid-cols-1 md:grid-cols-12 gap-4 px-8 py-6 hover:bg-slate-50 transition-colors cursor-pointer items-center ${
-                    index === filteredItineraries.length - 1 ? 'rounded-b-[24px]' : ''
+                    itinerary === lastItinerary ? 'rounded-b-[24px]' : ''
                   }`}
                 >
                   {/* Name */}
@@ -202,12 +293,8 @@ const AgencyTripsPage: React.FC = () => {
 
                   {/* Status */}
                   <div className="col-span-1 text-center hidden md:block">
-                    <span className={`px-2.5 py-1 rounded-full text-[10px] font-black uppercase tracking-wider ring-1 ring-inset ${
-                      itinerary.status === 'draft' 
-                        ? 'bg-slate-50 text-slate-500 ring-slate-200' 
-                        : 'bg-green-50 text-green-600 ring-green-600/20'
-                    }`}>
-                      {itinerary.status === 'draft' ? '草稿' : '已發佈'}
+                    <span className={`px-2.5 py-1 rounded-full text-[10px] font-black uppercase tracking-wider ring-1 ring-inset ${STATUS_BADGE_CLASSES[itinerary.status]}`}>
+                      {STATUS_LABELS[itinerary.status]}
                     </span>
                   </div>
 
@@ -244,6 +331,16 @@ const AgencyTripsPage: React.FC = () => {
                               <ExternalLink size={16} className="text-slate-400" />
                               編輯行程
                             </button>
+                            {STATUS_TRANSITIONS[itinerary.status].map(status => (
+                              <button
+                                key={status}
+                                onClick={(e) => handleStatusChange(itinerary.id, status, e)}
+                                className="w-full px-4 py-2 text-left text-sm font-bold text-slate-700 hover:bg-slate-50 flex items-center gap-3 transition-colors"
+                              >
+                                <ArrowRight size={16} className="text-slate-400" />
+                                變更為{STATUS_LABELS[status]}
+                              </button>
+                            ))}
                             <button 
                               onClick={(e) => handleDelete(itinerary.id, e)}
                               className="w-full px-4 py-2 text-left text-sm font-bold text-red-600 hover:bg-red-50 flex items-center gap-3 transition-colors"
@@ -259,7 +356,12 @@ const AgencyTripsPage: React.FC = () => {
                 </div>
               ))}
             </div>
+            ))}
           </div>
+        ) : (searchTerm && itineraries.length > 0) || pageInfo?.hasMore ? (
+          <p className="text-center text-slate-500 text-sm py-12">沒有符合搜尋條件的行程</p>
+        ) : stageFilter !== 'all' ? (
+          <p className="text-center text-slate-500 text-sm py-12">沒有「{STATUS_LABELS[stageFilter]}」階段的行程</p>
         ) : (
           <div className="max-w-md mx-auto text-center py-20 px-6">
             <div className="w-20 h-20 bg-white rounded-3xl shadow-sm border border-slate-100 flex items-center justify-center mx-auto mb-8">
@@ -277,6 +379,15 @@ const AgencyTripsPage: React.FC = () => {
             </button>
           </div>
         )}
+
+        {!loading && (
+          <LoadMore
+            hasMore={pageInfo?.hasMore ?? false}
+            loading={loadingMore}
+            onLoadMore={loadMore}
+            infinite
+          />
+        )}
       </main>
     </div>
   );
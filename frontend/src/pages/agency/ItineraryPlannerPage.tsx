@@ -19,11 +19,35 @@ import { TimelineContainer, TimelineContainerRef } from '../../components/itiner
 import { TimelineActivityItemPreview } from '../../components/itinerary/TimelineActivityItem';
 import SaveItineraryModal from '../../components/itinerary/SaveItineraryModal';
 import ResourceDetailModal from '../../components/itinerary/ResourceDetailModal';
+import QuotePanel from '../../components/itinerary/QuotePanel';
+import CalendarExportModal from '../../components/itinerary/CalendarExportModal';
+import ShareLinksModal from '../../components/itinerary/ShareLinksModal';
+import ConflictDialog from '../../components/ConflictDialog';
+import VersionHistoryPanel from '../../components/itinerary/VersionHistoryPanel';
 import MapView from '../../components/itinerary/MapView';
 import axios from '../../config/axios';
 import './ItineraryPlanner.css';
 import TopBar from '../../components/TopBar';
-import { Product, TimelineDay } from '../../types/itinerary';
+import { DayOrderProposal, FeasibilityIssue, ItineraryStatus, Product, RouteInfo, TimelineDay } from '../../types/itinerary';
+import { mergeByKey, mergeValue } from '../../utils/merge';
+import { toPlannerProduct } from '../../utils/tourProduct';
+import { isItineraryLocked, STATUS_LABELS } from '../../utils/itineraryStatus';
+import { MAX_PAGE_SIZE } from '../../utils/pagination';
+
+const AUTOSAVE_INTERVAL_MS = 60 * 1000;
+const FEASIBILITY_CHECK_DELAY_MS = 800;
+
+const toPlannerTimeline = (timelineData: any[]): TimelineDay[] => timelineData.map((day: any) => ({
+  ...day,
+  items: day.items.map((item: any) => ({
+    ...item,
+    // Ensure necessary fields exist
+    productType: item.productType || 'landmark',
+    timelineId: item.timelineId || `${item.id}-${Date.now()}-${Math.random()}`
+  })),
+  // Ensure routeInfo is preserved if it exists
+  routeInfo: day.routeInfo || undefined
+}));
 
 const ItineraryPlannerPage: React.FC = () => {
   const { showSuccess, showError } = useToast();
@@ -47,6 +71,10 @@ const ItineraryPlannerPage: React.FC = () => {
   ]);
   const [availableProducts, setAvailableProducts] = useState<Product[]>([]);
   const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+  const [isQuoteOpen, setIsQuoteOpen] = useState(false);
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [hoveredProduct, setHoveredProduct] = useState<Product | null>(null);
   const [saveStatus, setSaveStatus] = useState<string>('');
   const [previewProduct, setPreviewProduct] = useState<Product | null>(null);
@@ -69,6 +97,24 @@ const ItineraryPlannerPage: React.FC = () => {
   const [focusedDay, setFocusedDay] = useState<number | null>(null);
   const [hoveredTimelineId, setHoveredTimelineId] = useState<string | null>(null);
   const timelineRef = React.useRef<TimelineContainerRef>(null);
+  // Last saved server copy, used for If-Match and for merging on conflict
+  const versionRef = React.useRef<number | null>(null);
+  const baseRef = React.useRef<{ name: string; timeline: TimelineDay[] } | null>(null);
+  const [conflict, setConflict] = useState<{ current: any; name: string } | null>(null);
+  // Confirmed itineraries are read-only here; the stage changes from the trips page
+  const [itineraryStatus, setItineraryStatus] = useState<ItineraryStatus | null>(null);
+  const isLocked = isItineraryLocked(itineraryStatus);
+  // Autosave compares against the last timeline the server has seen (null until loaded)
+  const latestTimelineRef = React.useRef<TimelineDay[]>([]);
+  const lastSyncedTimelineRef = React.useRef<string | null>(null);
+  // Plans not yet saved as an itinerary autosave as the agency's draft (null until the old draft is checked)
+  const latestDraftRef = React.useRef<object>({});
+  const lastSyncedDraftRef = React.useRef<string | null>(null);
+  // Products inside the map viewport (null until the map first settles); stale responses are dropped
+  const [viewportProducts, setViewportProducts] = useState<Product[] | null>(null);
+  const viewportRequestRef = React.useRef(0);
+  const [feasibilityIssues, setFeasibilityIssues] = useState<FeasibilityIssue[]>([]);
+  const [orderProposal, setOrderProposal] = useState<DayOrderProposal | null>(null);
 
   const [activeProduct, setActiveProduct] = useState<Product | null>(null);
   const [dragSourceType, setDragSourceType] = useState<'resource' | 'timeline' | null>(null);
@@ -104,7 +150,7 @@ const ItineraryPlannerPage: React.FC = () => {
 
     return items.map((item) => {
       const duration = item.duration || 60;
-      const startTime = currentTime;
+      const startTime = item.timePinned && item.startTime ? item.startTime : currentTime;
       currentTime = addMinutes(startTime, duration);
       return { ...item, startTime, duration };
     });
@@ -115,6 +161,19 @@ const ItineraryPlannerPage: React.FC = () => {
     setTimeline(prev => prev.map(d => d.dayNumber === dayNumber ? { ...d, [field]: value } : d));
   };
 
+  const handleViewportChange = useCallback(async (bbox: string) => {
+    const requestId = ++viewportRequestRef.current;
+    try {
+      // Products nearest the viewport centre first, capped at one page of markers
+      const response = await axios.get('/api/agency/tours', { params: { bbox, limit: MAX_PAGE_SIZE } });
+      if (requestId === viewportRequestRef.current) {
+        setViewportProducts(response.data.items.map(toPlannerProduct));
+      }
+    } catch (err) {
+      console.error('Failed to fetch products in map viewport:', err);
+    }
+  }, []);
+
   const handleShowDayRoute = useCallback((dayNumber: number) => {
     setFocusedDay(prev => prev === dayNumber ? null : dayNumber);
   }, []);
@@ -145,6 +204,35 @@ const ItineraryPlannerPage: React.FC = () => {
       return;
     }
 
+    const applyRouteInfo = (routeInfo: RouteInfo) => {
+      setTimeline(prev => prev.map(d => d.dayNumber === dayNumber ? { ...d, routeInfo } : d));
+    };
+
+    // Straight-line estimate from the server, used offline or when Google Directions fails
+    const estimateOnServer = async () => {
+      try {
+        const stops = routeItems.map(item =>
+          item.location && item.location.lat && item.location.lng
+            ? { lat: item.location.lat, lng: item.location.lng }
+            : { productId: item.id }
+        );
+        const response = await axios.post('/api/itinerary/route-estimate', { stops, mode: 'driving' });
+        const { skippedStops, ...routeInfo } = response.data;
+        applyRouteInfo(routeInfo);
+        showSuccess(skippedStops.length > 0
+          ? `第 ${dayNumber} 天路線已估算（${skippedStops.length} 個僅有地址的景點未納入）`
+          : `第 ${dayNumber} 天路線已估算（直線距離推算）`);
+      } catch (error) {
+        console.error('Route estimate error:', error);
+        showError('路線計算失敗，請稍後再試。');
+      }
+    };
+
+    if (!window.google?.maps?.DirectionsService) {
+      await estimateOnServer();
+      return;
+    }
+
     try {
       const directionsService = new window.google.maps.DirectionsService();
       
@@ -187,25 +275,17 @@ const ItineraryPlannerPage: React.FC = () => {
         const totalDistance = legs.reduce((acc, leg) => acc + leg.distanceValue, 0);
         const totalDuration = legs.reduce((acc, leg) => acc + leg.durationValue, 0);
 
-        setTimeline(prev => prev.map(d => {
-          if (d.dayNumber === dayNumber) {
-            return {
-              ...d,
-              routeInfo: {
-                polyline: route.overview_polyline,
-                legs,
-                totalDistance: `${(totalDistance / 1000).toFixed(1)} km`,
-                totalDuration: `${Math.round(totalDuration / 60)} 分鐘`,
-              }
-            };
-          }
-          return d;
-        }));
+        applyRouteInfo({
+          polyline: route.overview_polyline,
+          legs,
+          totalDistance: `${(totalDistance / 1000).toFixed(1)} km`,
+          totalDuration: `${Math.round(totalDuration / 60)} 分鐘`,
+        });
         showSuccess(`第 ${dayNumber} 天路線計算完成`);
       }
     } catch (error) {
       console.error('Directions API error:', error);
-      showError('路線計算失敗，請稍後再試。');
+      await estimateOnServer();
     }
   }, [timeline, showError, showSuccess]);
 
@@ -335,6 +415,28 @@ const ItineraryPlannerPage: React.FC = () => {
     loadTrip();
   }, [tripId]);
 
+  const applyItinerary = (it: any) => {
+    const timelineData = toPlannerTimeline(it.timelineData);
+    versionRef.current = it.version ?? null;
+    baseRef.current = { name: it.name, timeline: timelineData };
+    lastSyncedTimelineRef.current = JSON.stringify(timelineData);
+
+    setItineraryName(it.name);
+    setItineraryStatus(it.status ?? null);
+    setRestrictedSupplierName(it.restrictedSupplierName || null);
+
+    if (it.startDate) setStartDate(new Date(it.startDate));
+    if (it.endDate) setEndDate(new Date(it.endDate));
+    if (it.destination) {
+      setSelectedDestination(it.destination);
+    } else if (it.location) {
+      // If destination not set but location exists, try to extract it from location.address or similar
+      // For now, assume it might be in it.destination
+    }
+
+    setTimeline(timelineData);
+  };
+
   // Itinerary (Own Draft) preloading logic
   useEffect(() => {
     if (!itineraryId) return;
@@ -343,33 +445,7 @@ const ItineraryPlannerPage: React.FC = () => {
       try {
         setLoadingItinerary(true);
         const res = await axios.get(`/api/itinerary/${itineraryId}`);
-        const it = res.data;
-
-        setItineraryName(it.name);
-        setRestrictedSupplierName(it.restrictedSupplierName || null);
-        
-        if (it.startDate) setStartDate(new Date(it.startDate));
-        if (it.endDate) setEndDate(new Date(it.endDate));
-        if (it.destination) {
-          setSelectedDestination(it.destination);
-        } else if (it.location) {
-          // If destination not set but location exists, try to extract it from location.address or similar
-          // For now, assume it might be in it.destination
-        }
-
-        const timelineData: TimelineDay[] = it.timelineData.map((day: any) => ({
-          ...day,
-          items: day.items.map((item: any) => ({
-            ...item,
-            // Ensure necessary fields exist
-            productType: item.productType || 'landmark',
-            timelineId: item.timelineId || `${item.id}-${Date.now()}-${Math.random()}`
-          })),
-          // Ensure routeInfo is preserved if it exists
-          routeInfo: day.routeInfo || undefined
-        }));
-
-        setTimeline(timelineData);
+        applyItinerary(res.data);
 
         setTimeout(() => {
           timelineRef.current?.scrollToDay(1);
@@ -383,6 +459,111 @@ const ItineraryPlannerPage: React.FC = () => {
     loadItinerary();
   }, [itineraryId]);
 
+  // Reopening the planner without an itinerary, trip or destination picks up the unsaved plan
+  useEffect(() => {
+    if (itineraryId) return;
+    if (tripId || initialDestination) {
+      lastSyncedDraftRef.current = '';
+      return;
+    }
+
+    const loadDraft = async () => {
+      try {
+        setLoadingItinerary(true);
+        const res = await axios.get('/api/itinerary/draft');
+        const draft = res.data;
+
+        setTimeline(toPlannerTimeline(draft.timelineData));
+        if (draft.startDate) setStartDate(new Date(draft.startDate));
+        if (draft.endDate) setEndDate(new Date(draft.endDate));
+        if (draft.destination) setSelectedDestination(draft.destination);
+        if (draft.restrictedSupplierName) setRestrictedSupplierName(draft.restrictedSupplierName);
+        showSuccess('已還原上次未儲存的行程');
+      } catch (err: any) {
+        if (err.response?.status !== 404) console.error('Failed to load itinerary draft:', err);
+      } finally {
+        lastSyncedDraftRef.current = '';
+        setLoadingItinerary(false);
+      }
+    };
+    loadDraft();
+  }, [itineraryId]);
+
+  latestTimelineRef.current = timeline;
+  latestDraftRef.current = {
+    timeline,
+    destination: selectedDestination || initialDestination || null,
+    startDate: startDate?.toISOString() ?? null,
+    endDate: endDate?.toISOString() ?? null,
+    restrictedSupplierName,
+  };
+
+  // Re-check the working copy for scheduling problems and closed dates shortly after each edit
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        // Local calendar date, so closed-day checks match the dates shown in the planner
+        const startDateString = startDate
+          ? `${startDate.getFullYear()}-${String(startDate.getMonth() + 1).padStart(2, '0')}-${String(startDate.getDate()).padStart(2, '0')}`
+          : undefined;
+        const response = await axios.post('/api/itinerary/validate', { timeline, startDate: startDateString });
+        if (!cancelled) setFeasibilityIssues(response.data.issues);
+      } catch (err) {
+        console.error('Feasibility check failed:', err);
+      }
+    }, FEASIBILITY_CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [timeline, startDate]);
+
+  // Autosave the working copy: as a draft version of a saved itinerary, or as the agency's unsaved plan
+  useEffect(() => {
+    if (isLocked) return;
+
+    const autosaveVersion = async () => {
+      const snapshot = JSON.stringify(latestTimelineRef.current);
+      if (lastSyncedTimelineRef.current === null || snapshot === lastSyncedTimelineRef.current) return false;
+      await axios.post(`/api/itinerary/${itineraryId}/versions`, { timeline: latestTimelineRef.current });
+      lastSyncedTimelineRef.current = snapshot;
+      return true;
+    };
+
+    const autosaveDraft = async () => {
+      const snapshot = JSON.stringify(latestDraftRef.current);
+      if (lastSyncedDraftRef.current === null || snapshot === lastSyncedDraftRef.current) return false;
+      // Nothing worth keeping yet; leaves an earlier draft alone until the new plan has content
+      if (!latestTimelineRef.current.some(day => day.items.length > 0)) return false;
+      await axios.put('/api/itinerary/draft', latestDraftRef.current);
+      lastSyncedDraftRef.current = snapshot;
+      return true;
+    };
+
+    const autosave = async () => {
+      try {
+        const saved = itineraryId ? await autosaveVersion() : await autosaveDraft();
+        if (!saved) return;
+        setSaveStatus(`已自動儲存 ${new Date().toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit' })}`);
+      } catch (err) {
+        console.error('Autosave failed:', err);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') autosave();
+    };
+
+    const interval = setInterval(autosave, AUTOSAVE_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [itineraryId, isLocked]);
+
   // Fetch unique destinations from published products
   useEffect(() => {
     const fetchDestinations = async () => {
@@ -671,7 +852,47 @@ const ItineraryPlannerPage: React.FC = () => {
     });
   }, []);
 
-  const handleSaveItinerary = async (name: string) => {
+  const handleTogglePin = useCallback((dayNumber: number, uniqueId: string) => {
+    setTimeline(prev => prev.map(day => {
+      if (day.dayNumber !== dayNumber) return day;
+      const items = day.items.map(item =>
+        item.timelineId === uniqueId ? { ...item, timePinned: !item.timePinned } : item
+      );
+      return { ...day, items: recalculateTimes(items) };
+    }));
+  }, []);
+
+  const handleOptimizeDay = useCallback(async (dayNumber: number) => {
+    try {
+      const response = await axios.post('/api/itinerary/optimize-day', { timeline, dayNumber });
+      if (!response.data.changed) {
+        showSuccess(`第 ${dayNumber} 天的順序已是最短路線`);
+        return;
+      }
+      setOrderProposal(response.data);
+    } catch (err) {
+      console.error('Failed to optimize day order:', err);
+      showError('最佳化行程順序失敗');
+    }
+  }, [timeline, showSuccess, showError]);
+
+  const handleAcceptOrder = useCallback(() => {
+    if (!orderProposal) return;
+    setTimeline(prev => prev.map(day => {
+      if (day.dayNumber !== orderProposal.dayNumber) return day;
+      const byId = new Map(day.items.map(item => [item.timelineId, item]));
+      // Items added since the proposal was made stay at the end
+      const reordered = [
+        ...orderProposal.order.map(id => byId.get(id)).filter((item): item is Product => !!item),
+        ...day.items.filter(item => !orderProposal.order.includes(item.timelineId!)),
+      ];
+      return { ...day, items: recalculateTimes(reordered), routeInfo: undefined };
+    }));
+    setOrderProposal(null);
+    showSuccess(`已套用第 ${orderProposal.dayNumber} 天的新順序`);
+  }, [orderProposal, showSuccess]);
+
+  const handleSaveItinerary = async (name: string, expectedVersion: number | null = versionRef.current) => {
     try {
       setSaveStatus('儲存中...');
       const payload = {
@@ -686,13 +907,17 @@ const ItineraryPlannerPage: React.FC = () => {
 
       let response;
       if (itineraryId) {
-        response = await axios.put(`/api/itinerary/${itineraryId}`, payload);
+        const headers = expectedVersion !== null ? { 'If-Match': `"${expectedVersion}"` } : undefined;
+        response = await axios.put(`/api/itinerary/${itineraryId}`, payload, { headers });
       } else {
         response = await axios.post('/api/itinerary', payload);
       }
       
       const savedItinerary = response.data;
       setItineraryName(savedItinerary.name);
+      versionRef.current = savedItinerary.version ?? null;
+      baseRef.current = { name: savedItinerary.name, timeline: toPlannerTimeline(savedItinerary.timelineData) };
+      lastSyncedTimelineRef.current = JSON.stringify(timeline);
       
       // If it was a new save, navigate to the edit URL to prevent double creation on next save
       if (!itineraryId && savedItinerary.id) {
@@ -701,13 +926,68 @@ const ItineraryPlannerPage: React.FC = () => {
 
       setSaveStatus('儲存成功！');
       setTimeout(() => setSaveStatus(''), 3000);
-    } catch (error) {
+    } catch (error: any) {
+      if (error.response?.status === 409 && error.response.data?.current) {
+        setSaveStatus('');
+        setConflict({ current: error.response.data.current, name });
+        return;
+      }
       console.error('Failed to save itinerary:', error);
+      const details = error.response?.data?.details;
+      if (error.response?.status === 400 && Array.isArray(details) && details.length > 0) {
+        showError(`行程資料格式錯誤：${details[0].field} ${details[0].message}`);
+      }
       setSaveStatus('儲存失敗');
       setTimeout(() => setSaveStatus(''), 3000);
     }
   };
 
+  const handleConflictReload = () => {
+    if (!conflict) return;
+    applyItinerary(conflict.current);
+    setConflict(null);
+    showSuccess('已載入最新版本');
+  };
+
+  const handleConflictOverwrite = () => {
+    if (!conflict) return;
+    setConflict(null);
+    handleSaveItinerary(conflict.name, conflict.current.version);
+  };
+
+  const handleConflictMerge = () => {
+    if (!conflict) return;
+    const { current, name } = conflict;
+    const remoteTimeline = toPlannerTimeline(current.timelineData);
+    const base = baseRef.current || { name: current.name, timeline: remoteTimeline };
+
+    const merged = mergeByKey(base.timeline, timeline, remoteTimeline, day => day.dayNumber)
+      .sort((a, b) => a.dayNumber - b.dayNumber);
+
+    setTimeline(merged);
+    setItineraryName(mergeValue(base.name, name, current.name));
+    versionRef.current = current.version;
+    baseRef.current = { name: current.name, timeline: remoteTimeline };
+    setConflict(null);
+    showSuccess('已合併變更，請檢查後再儲存');
+  };
+
+  const handleExportPdf = async () => {
+    if (!itineraryId) return;
+    try {
+      const response = await axios.get(`/api/itinerary/${itineraryId}/export.pdf`, { responseType: 'blob' });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${itineraryName || '行程'}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export PDF:', error);
+      showError('匯出 PDF 失敗');
+    }
+  };
+
   const handleDateRangeChange = (start: Date | null, end: Date | null) => {
     setStartDate(start);
     setEndDate(end);
@@ -789,7 +1069,7 @@ const ItineraryPlannerPage: React.FC = () => {
 
   return (
     <DndContext
-      sensors={startDate && endDate ? sensors : []}
+      sensors={startDate && endDate && !isLocked ? sensors : []}
       collisionDetection={closestCorners}
       onDragStart={handleDragStart}
       onDragOver={handleDragOver}
@@ -803,18 +1083,64 @@ const ItineraryPlannerPage: React.FC = () => {
               <span className="text-green-600 text-sm font-medium">{saveStatus}</span>
               <button
                 onClick={handleClearItinerary}
-                disabled={!startDate || !endDate}
-                className={`px-4 py-2 rounded-lg font-medium transition-colors text-sm ${!startDate || !endDate
+                disabled={!startDate || !endDate || isLocked}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors text-sm ${!startDate || !endDate || isLocked
                   ? 'text-slate-300 cursor-not-allowed'
                   : 'text-slate-500 hover:text-red-600'
                   }`}
               >
                 清除行程
               </button>
+              {itineraryId && (
+                <button
+                  onClick={() => setIsQuoteOpen(true)}
+                  className="px-4 py-2 rounded-lg font-medium transition-colors text-sm text-slate-600 hover:text-slate-900 flex items-center gap-1"
+                >
+                  <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>request_quote</span>
+                  報價
+                </button>
+              )}
+              {itineraryId && (
+                <button
+                  onClick={handleExportPdf}
+                  className="px-4 py-2 rounded-lg font-medium transition-colors text-sm text-slate-600 hover:text-slate-900 flex items-center gap-1"
+                  title="以已儲存的行程匯出"
+                >
+                  <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>picture_as_pdf</span>
+                  匯出 PDF
+                </button>
+              )}
+              {itineraryId && (
+                <button
+                  onClick={() => setIsCalendarOpen(true)}
+                  className="px-4 py-2 rounded-lg font-medium transition-colors text-sm text-slate-600 hover:text-slate-900 flex items-center gap-1"
+                >
+                  <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>calendar_month</span>
+                  行事曆
+                </button>
+              )}
+              {itineraryId && (
+                <button
+                  onClick={() => setIsHistoryOpen(true)}
+                  className="px-4 py-2 rounded-lg font-medium transition-colors text-sm text-slate-600 hover:text-slate-900 flex items-center gap-1"
+                >
+                  <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>history</span>
+                  版本紀錄
+                </button>
+              )}
+              {itineraryId && (
+                <button
+                  onClick={() => setIsShareOpen(true)}
+                  className="px-4 py-2 rounded-lg font-medium transition-colors text-sm text-slate-600 hover:text-slate-900 flex items-center gap-1"
+                >
+                  <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>share</span>
+                  分享
+                </button>
+              )}
               <button
                 onClick={() => setIsSaveModalOpen(true)}
-                disabled={!startDate || !endDate}
-                className={`px-6 py-2 rounded-lg font-medium transition-colors shadow-sm ${!startDate || !endDate
+                disabled={!startDate || !endDate || isLocked}
+                className={`px-6 py-2 rounded-lg font-medium transition-colors shadow-sm ${!startDate || !endDate || isLocked
                   ? 'bg-slate-300 text-slate-400 cursor-not-allowed'
                   : 'bg-slate-800 hover:bg-slate-700 text-white hover:shadow-md'
                   }`}
@@ -825,6 +1151,13 @@ const ItineraryPlannerPage: React.FC = () => {
           }
         />
 
+        {isLocked && itineraryStatus && (
+          <div className="bg-blue-50 border-b border-blue-100 px-6 py-2 text-sm text-blue-700 flex items-center gap-2">
+            <span className="material-symbols-outlined" style={{ fontSize: '18px' }}>lock</span>
+            此行程目前為「{STATUS_LABELS[itineraryStatus]}」，行程內容與日期已鎖定。如需修改，請先在行程庫將狀態改回「已報價」。
+          </div>
+        )}
+
         <div className={`flex-1 flex overflow-hidden relative ${isResizing ? 'select-none cursor-col-resize' : ''}`}>
           {/* Left Expand Button */}
           {!isMobileMenuOpen.library && (
@@ -898,6 +1231,12 @@ const ItineraryPlannerPage: React.FC = () => {
               onShowDayRoute={handleShowDayRoute}
               focusedDay={focusedDay}
               onItemHover={setHoveredTimelineId}
+              feasibilityIssues={feasibilityIssues}
+              onTogglePin={handleTogglePin}
+              onOptimizeDay={handleOptimizeDay}
+              orderProposal={orderProposal}
+              onAcceptOrder={handleAcceptOrder}
+              onRejectOrder={() => setOrderProposal(null)}
             />
           </div>
 
@@ -925,11 +1264,14 @@ const ItineraryPlannerPage: React.FC = () => {
               </button>
             </div>
             <MapView
-              products={availableProducts}
+              products={viewportProducts
+                ? viewportProducts.filter(p => !restrictedSupplierName || p.supplierName === restrictedSupplierName)
+                : availableProducts}
               highlightedProductId={hoveredProduct?.id}
               timelineData={timeline}
               focusedDayNumber={focusedDay}
               highlightedTimelineId={hoveredTimelineId}
+              onViewportChange={handleViewportChange}
             />
           </div>
 
@@ -952,6 +1294,50 @@ const ItineraryPlannerPage: React.FC = () => {
           defaultName={itineraryName || tripTemplateName || ''}
         />
 
+        {itineraryId && (
+          <QuotePanel
+            isOpen={isQuoteOpen}
+            onClose={() => setIsQuoteOpen(false)}
+            itineraryId={itineraryId}
+          />
+        )}
+
+        {itineraryId && (
+          <CalendarExportModal
+            isOpen={isCalendarOpen}
+            onClose={() => setIsCalendarOpen(false)}
+            itineraryId={itineraryId}
+            itineraryName={itineraryName}
+          />
+        )}
+
+        <ConflictDialog
+          isOpen={!!conflict}
+          itemLabel="行程"
+          onReload={handleConflictReload}
+          onOverwrite={handleConflictOverwrite}
+          onMerge={handleConflictMerge}
+          onClose={() => setConflict(null)}
+        />
+
+        {itineraryId && (
+          <VersionHistoryPanel
+            isOpen={isHistoryOpen}
+            onClose={() => setIsHistoryOpen(false)}
+            itineraryId={itineraryId}
+            expectedVersion={versionRef.current}
+            onRestored={applyItinerary}
+          />
+        )}
+
+        {itineraryId && (
+          <ShareLinksModal
+            isOpen={isShareOpen}
+            onClose={() => setIsShareOpen(false)}
+            itineraryId={itineraryId}
+          />
+        )}
+
         {previewProduct && (
           <ResourceDetailModal
             product={previewProduct}
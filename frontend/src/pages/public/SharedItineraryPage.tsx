@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Utensils, BedDouble, Info, Clock, MapPin } from 'lucide-react';
+import axios from '../../config/axios';
+import MapView from '../../components/itinerary/MapView';
+import { Product, TimelineDay, RouteInfo } from '../../types/itinerary';
+
+interface SharedItem {
+  id: string;
+  title: string;
+  category?: string;
+  description?: string;
+  coverImageUrl?: string;
+  address?: string;
+  location?: { lat: number; lng: number };
+  startTime?: string;
+  duration?: number;
+}
+
+interface SharedDay {
+  dayNumber: number;
+  date?: string;
+  dayOfWeek?: string;
+  items: SharedItem[];
+  breakfast: string | null;
+  lunch: string | null;
+  dinner: string | null;
+  hotel: string | null;
+  notes: string | null;
+  routeInfo?: RouteInfo;
+}
+
+interface SharedItinerary {
+  name: string;
+  agencyName?: string;
+  destination?: string;
+  startDate?: string;
+  endDate?: string;
+  daysCount: number;
+  days: SharedDay[];
+  expiresAt: string;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('zh-TW');
+
+const SharedItineraryPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [itinerary, setItinerary] = useState<SharedItinerary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [focusedDay, setFocusedDay] = useState<number | null>(null);
+
+  useEffect(() => {
+    const fetchItinerary = async () => {
+      try {
+        setLoading(true);
+        const response = await axios.get(`/api/public/itineraries/${token}`);
+        setItinerary(response.data);
+      } catch (err: any) {
+        setError(err.response?.status === 410 ? '此分享連結已過期，請向旅行社索取新的連結' : '找不到此行程，連結可能已失效');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchItinerary();
+  }, [token]);
+
+  // MapView works on planner timeline days, so adapt the public shape to it
+  const mapTimeline: TimelineDay[] = useMemo(() => (itinerary?.days || []).map(day => ({
+    dayNumber: day.dayNumber,
+    routeInfo: day.routeInfo,
+    items: day.items.map(item => ({
+      id: item.id,
+      timelineId: item.id,
+      title: item.title,
+      destination: itinerary?.destination || '',
+      category: item.category || 'landmark',
+      coverImageUrl: item.coverImageUrl || '',
+      netPrice: 0,
+      supplierName: '',
+      productType: 'landmark',
+      location: item.location,
+    } as Product)),
+  })), [itinerary]);
+
+  if (loading) return <div className="p-10 text-center text-slate-500">載入中...</div>;
+  if (!itinerary) return <div className="p-10 text-center text-red-500">{error || '找不到此行程'}</div>;
+
+  return (
+    <div className="min-h-screen bg-slate-50 pb-20">
+      <header className="bg-slate-800 text-white">
+        <div className="max-w-6xl mx-auto px-6 py-8">
+          {itinerary.agencyName && <p className="text-sm text-slate-300 mb-2">{itinerary.agencyName}</p>}
+          <h1 className="text-3xl font-bold mb-2">{itinerary.name}</h1>
+          <p className="text-slate-300">
+            {[
+              itinerary.destination,
+              itinerary.startDate && itinerary.endDate
+                ? `${formatDate(itinerary.startDate)} – ${formatDate(itinerary.endDate)}`
+                : null,
+              `${itinerary.daysCount} 天`,
+            ].filter(Boolean).join(' | ')}
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6 grid grid-cols-1 lg:grid-cols-5 gap-6">
+        <div className="lg:col-span-3 space-y-6">
+          {itinerary.days.map(day => (
+            <section
+              key={day.dayNumber}
+              onMouseEnter={() => setFocusedDay(day.dayNumber)}
+              className={`bg-white rounded-xl p-5 shadow-sm border transition-colors ${focusedDay === day.dayNumber ? 'border-slate-400' : 'border-slate-200'}`}
+            >
+              <div className="flex items-center gap-4 mb-4">
+                <div className="shrink-0 w-14 h-14 bg-slate-800 text-white rounded-xl flex flex-col items-center justify-center font-bold">
+                  <span className="text-[10px] opacity-80 uppercase tracking-wider">Day</span>
+                  <span className="text-xl leading-none">{day.dayNumber}</span>
+                </div>
+                <div>
+                  {day.date && <p className="font-bold text-slate-800">{day.date} {day.dayOfWeek}</p>}
+                  {day.routeInfo?.totalDistance && (
+                    <p className="text-sm text-slate-500">車程 {day.routeInfo.totalDistance} • {day.routeInfo.totalDuration}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                {day.items.length > 0 ? day.items.map(item => (
+                  <div key={item.id} className="flex gap-4">
+                    {item.coverImageUrl && (
+                      <img src={item.coverImageUrl} alt={item.title} className="w-28 h-20 object-cover rounded-lg shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-semibold text-slate-800">{item.title}</p>
+                      <div className="flex flex-wrap gap-x-4 text-xs text-slate-500 mt-1">
+                        {item.startTime && (
+                          <span className="flex items-center gap-1"><Clock size={12} />{item.startTime}{item.duration ? `・${item.duration} 分鐘` : ''}</span>
+                        )}
+                        {item.address && <span className="flex items-center gap-1"><MapPin size={12} />{item.address}</span>}
+                      </div>
+                      {item.description && (
+                        <p className="text-sm text-slate-600 mt-2 line-clamp-3 whitespace-pre-line">{item.description}</p>
+                      )}
+                    </div>
+                  </div>
+                )) : (
+                  <p className="text-slate-400 italic">自由活動</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-5 p-4 bg-slate-50 rounded-lg border border-slate-200 text-sm">
+                <div>
+                  <div className="flex items-center gap-2 font-bold text-slate-700 mb-2">
+                    <Utensils size={16} className="text-slate-400" />
+                    餐食安排
+                  </div>
+                  <div className="space-y-1.5 text-slate-600 ml-6">
+                    <div><span className="text-slate-400 w-10 inline-block">早餐</span>{day.breakfast || '自理'}</div>
+                    <div><span className="text-slate-400 w-10 inline-block">午餐</span>{day.lunch || '自理'}</div>
+                    <div><span className="text-slate-400 w-10 inline-block">晚餐</span>{day.dinner || '自理'}</div>
+                  </div>
+                </div>
+                <div>
+                  <div className="flex items-center gap-2 font-bold text-slate-700 mb-2">
+                    <BedDouble size={16} className="text-slate-400" />
+                    住宿安排
+                  </div>
+                  <div className="text-slate-600 ml-6">{day.hotel || '自理'}</div>
+                </div>
+              </div>
+
+              {day.notes && (
+                <div className="mt-4 p-4 bg-blue-50/60 rounded-lg border border-blue-100 text-sm">
+                  <div className="flex items-center gap-2 font-bold text-blue-900 mb-2">
+                    <Info size={16} className="text-blue-500" />
+                    詳細行程
+                  </div>
+                  <div className="text-slate-700 whitespace-pre-wrap ml-6 leading-relaxed">{day.notes}</div>
+                </div>
+              )}
+            </section>
+          ))}
+        </div>
+
+        <aside className="lg:col-span-2">
+          <div className="sticky top-6 h-[480px] bg-white rounded-xl overflow-hidden shadow-sm border border-slate-200">
+            <MapView products={[]} timelineData={mapTimeline} focusedDayNumber={focusedDay} />
+          </div>
+          <p className="text-xs text-slate-400 mt-3">此連結有效至 {formatDate(itinerary.expiresAt)}</p>
+        </aside>
+      </main>
+    </div>
+  );
+};
+
+export default SharedItineraryPage;
@@ -6,6 +6,9 @@ import axios from '../../config/axios';
 import TopBar from '../../components/TopBar';
 import DraftStatusFooter from '../../components/supplier/DraftStatusFooter';
 import LocationFields from '../../components/supplier/LocationFields';
+import AvailabilityEditor, { DEFAULT_AVAILABILITY, ProductAvailability } from '../../components/supplier/AvailabilityEditor';
+import PriceRulesEditor, { PriceRule } from '../../components/supplier/PriceRulesEditor';
+import GalleryEditor from '../../components/supplier/GalleryEditor';
 import CustomSelect from '../../components/ui/CustomSelect';
 
 type ProductStatus = '草稿' | '待審核' | '已發佈' | '需要修改';
@@ -65,6 +68,10 @@ const EditProductPage: React.FC = () => {
   const [existingImageUrl, setExistingImageUrl] = useState<string | null>(null);
   const [currentStatus, setCurrentStatus] = useState<ProductStatus>('草稿');
   const [rejectionReason, setRejectionReason] = useState<string | null>(null);
+  const [availability, setAvailability] = useState<ProductAvailability>(DEFAULT_AVAILABILITY);
+  const [availabilityError, setAvailabilityError] = useState<string | null>(null);
+  const [priceRules, setPriceRules] = useState<PriceRule[]>([]);
+  const [priceRulesError, setPriceRulesError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchProductDetails();
@@ -73,7 +80,11 @@ const EditProductPage: React.FC = () => {
   const fetchProductDetails = async () => {
     try {
       setLoading(true);
-      const response = await axios.get(`/api/supplier/tours/${id}`);
+      const [response, availabilityResponse, pricingResponse] = await Promise.all([
+        axios.get(`/api/supplier/tours/${id}`),
+        axios.get(`/api/supplier/tours/${id}/availability`),
+        axios.get(`/api/supplier/tours/${id}/pricing`),
+      ]);
       const product = response.data;
 
       // Map backend category to frontend display value
@@ -101,9 +112,12 @@ const EditProductPage: React.FC = () => {
       });
 
       setExistingImageUrl(product.coverImageUrl);
-      setImagePreview(product.coverImageUrl);
+      setImagePreview(product.coverImage?.card || product.coverImageUrl);
       setCurrentStatus(product.status);
       setRejectionReason(product.rejectionReason);
+      const { operatingDays, openingTime, closingTime, blackoutDates } = availabilityResponse.data;
+      setAvailability({ operatingDays, openingTime, closingTime, blackoutDates });
+      setPriceRules(pricingResponse.data.rules);
     } catch (err: any) {
       setErrors({ submit: err.response?.data?.message || '載入產品失敗' });
     } finally {
@@ -208,8 +222,27 @@ const EditProductPage: React.FC = () => {
       return;
     }
 
+    if (!availability.openingTime !== !availability.closingTime
+      || (availability.openingTime && availability.closingTime && availability.openingTime >= availability.closingTime)) {
+      setAvailabilityError('結束營業時間必須晚於開始營業時間');
+      isSubmitForReviewRef.current = false;
+      return;
+    }
+
+    const invalidRule = priceRules.findIndex(rule =>
+      (rule.startDate && rule.endDate && rule.endDate < rule.startDate)
+      || (rule.minGroupSize !== null && rule.maxGroupSize !== null && rule.maxGroupSize < rule.minGroupSize)
+      || rule.price < 0);
+    if (invalidRule >= 0) {
+      setPriceRulesError(`第 ${invalidRule + 1} 條價格規則的日期、人數或價格範圍不正確`);
+      isSubmitForReviewRef.current = false;
+      return;
+    }
+
     setIsSubmitting(true);
     setErrors({});
+    setAvailabilityError(null);
+    setPriceRulesError(null);
 
     try {
       const submitData = new FormData();
@@ -244,6 +277,8 @@ const EditProductPage: React.FC = () => {
           'Content-Type': 'multipart/form-data',
         },
       });
+      await axios.put(`/api/supplier/tours/${id}/availability`, availability);
+      await axios.put(`/api/supplier/tours/${id}/pricing`, { rules: priceRules });
 
       if (isSubmitForReviewRef.current) {
         await axios.put(`/api/supplier/tours/${id}/status`, { status: '待審核' });
@@ -488,6 +523,32 @@ const EditProductPage: React.FC = () => {
               </div>
             </div>
 
+            <div className="flex flex-col gap-2">
+              <label className="font-bold text-slate-700">
+                季節與分級價格
+              </label>
+              <div className="p-4 border border-slate-300 rounded-lg bg-white">
+                <PriceRulesEditor
+                  rules={priceRules}
+                  onChange={setPriceRules}
+                  basePrice={formData.淨價}
+                  error={priceRulesError || undefined}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <label className="font-bold text-slate-700">
+                營業日與暫停營業日期
+              </label>
+              <div className="p-4 border border-slate-300 rounded-lg bg-white">
+                <AvailabilityEditor value={availability} onChange={setAvailability} error={availabilityError || undefined} />
+              </div>
+              <small className="text-slate-500 text-sm">
+                旅行社排入行程時，若日期落在公休日、暫停營業日期或營業時間外會收到警告
+              </small>
+            </div>
+
             <div className="flex flex-col gap-2">
               <label htmlFor="封面圖" className="font-bold text-slate-700">
                 封面圖 {!existingImageUrl && <span className="text-red-500">*</span>}
@@ -513,6 +574,16 @@ const EditProductPage: React.FC = () => {
               </small>
             </div>
 
+            <div className="flex flex-col gap-2">
+              <label className="font-bold text-slate-700">
+                相簿
+              </label>
+              {id && <GalleryEditor productId={id} />}
+              <small className="text-slate-500 text-sm">
+                圖片上傳、排序與說明會立即儲存。接受 JPEG、PNG、WebP 格式，每張不超過 5MB
+              </small>
+            </div>
+
             <div className="flex flex-col gap-2">
               <label htmlFor="產品描述" className="font-bold text-slate-700">
                 產品描述 <span className="text-red-500">*</span>
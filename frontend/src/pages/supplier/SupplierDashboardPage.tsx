@@ -4,6 +4,10 @@ import axios from '../../config/axios';
 import TopBar from '../../components/TopBar';
 import SupplierTripList from './SupplierTripList';
 import FilterBar from '../../components/supplier/FilterBar';
+import ProductImportWizard from '../../components/supplier/ProductImportWizard';
+import ProductExportMenu from '../../components/ProductExportMenu';
+import LoadMore from '../../components/ui/LoadMore';
+import { usePaginatedList } from '../../hooks/usePaginatedList';
 
 type ProductStatus = '草稿' | '待審核' | '已發佈' | '需要修改';
 
@@ -26,37 +30,40 @@ const SupplierDashboardPage: React.FC = () => {
     setActiveTab(initialTab);
   }, [initialTab]);
 
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [showImportWizard, setShowImportWizard] = useState(false);
 
   const [filterDestination, setFilterDestination] = useState('');
   const [filterCategory, setFilterCategory] = useState('');
   const [filterStatus, setFilterStatus] = useState('');
   const [sortConfig, setSortConfig] = useState<{ key: keyof Product; direction: 'asc' | 'desc' } | null>(null);
 
+  // Filtering and sorting happen on the server, newest first unless a column header is clicked
+  const { items: products, pageInfo, loading, loadingMore, error: loadError, loadMore, reload: fetchProducts } =
+    usePaginatedList<Product>('/api/supplier/tours', {
+      destination: filterDestination,
+      category: filterCategory,
+      status: filterStatus,
+      sort: sortConfig?.key,
+      order: sortConfig?.direction,
+    }, '載入產品失敗');
+  const error = actionError || loadError;
+  const hasFilters = Boolean(filterDestination || filterCategory || filterStatus);
+
+  // Destinations seen so far, so the filter keeps its options while a filter narrows the list
+  const [knownDestinations, setKnownDestinations] = useState<string[]>([]);
   useEffect(() => {
-    fetchProducts();
-  }, []);
+    setKnownDestinations(prev => {
+      const merged = new Set([...prev, ...products.map(p => p.destination)]);
+      return merged.size === prev.length ? prev : Array.from(merged);
+    });
+  }, [products]);
 
   const handleTabChange = (tab: 'products' | 'trips') => {
     setSearchParams({ tab });
     setActiveTab(tab);
   };
 
-  const fetchProducts = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const response = await axios.get('/api/supplier/tours');
-      setProducts(response.data);
-    } catch (err: any) {
-      setError(err.response?.data?.message || '載入產品失敗');
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleDeleteProduct = async (productId: string, productTitle: string) => {
     const confirmMessage = `⚠️ 警告：刪除產品\n\n您即將刪除產品：\n標題：${productTitle}\n\n此操作將永久刪除該產品及相關數據，且無法撤銷。\n\n確定要繼續嗎？`;
 
@@ -66,10 +73,11 @@ const SupplierDashboardPage: React.FC = () => {
 
     try {
       await axios.delete(`/api/supplier/tours/${productId}`);
+      setActionError(null);
       // Refresh the product list
       await fetchProducts();
     } catch (err: any) {
-      setError('刪除產品失敗，請稍後再試');
+      setActionError('刪除產品失敗，請稍後再試');
       console.error('Error deleting product:', err);
     }
   };
@@ -99,39 +107,9 @@ const SupplierDashboardPage: React.FC = () => {
     setSortConfig({ key, direction });
   };
 
-  const filteredProducts = React.useMemo(() => {
-    let result = [...products];
-
-    // Filtering
-    if (filterDestination) {
-      result = result.filter(p => p.destination === filterDestination);
-    }
-    if (filterCategory) {
-      result = result.filter(p => p.category === filterCategory);
-    }
-    if (filterStatus) {
-      result = result.filter(p => p.status === filterStatus);
-    }
-
-    // Sorting
-    if (sortConfig) {
-      result.sort((a, b) => {
-        if (a[sortConfig.key] < b[sortConfig.key]) {
-          return sortConfig.direction === 'asc' ? -1 : 1;
-        }
-        if (a[sortConfig.key] > b[sortConfig.key]) {
-          return sortConfig.direction === 'asc' ? 1 : -1;
-        }
-        return 0;
-      });
-    }
-
-    return result;
-  }, [products, filterDestination, filterCategory, filterStatus, sortConfig]);
-
   const uniqueDestinations = React.useMemo(() => {
-    return Array.from(new Set(products.map(p => p.destination))).filter(d => Boolean(d) && d !== '待定').sort();
-  }, [products]);
+    return knownDestinations.filter(d => Boolean(d) && d !== '待定').sort();
+  }, [knownDestinations]);
 
   const categoryMap: Record<string, string> = {
     'landmark': '地標',
@@ -140,14 +118,9 @@ const SupplierDashboardPage: React.FC = () => {
     'transportation': '交通'
   };
 
-  const categories = React.useMemo(() => {
-    const uniqueCats = Array.from(new Set(products.map(p => p.category)))
-      .filter(Boolean)
-      .filter(c => c !== 'activity');
-    return uniqueCats.map(c => ({ value: c, label: categoryMap[c] || c }));
-  }, [products]);
+  const categories = Object.entries(categoryMap).map(([value, label]) => ({ value, label }));
 
-  const uniqueStatuses = Array.from(new Set(products.map(p => p.status))).filter(Boolean);
+  const statuses: ProductStatus[] = ['草稿', '待審核', '已發佈', '需要修改'];
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -186,19 +159,31 @@ const SupplierDashboardPage: React.FC = () => {
           <>
             <div className="flex justify-between items-center mb-6">
           <h2 className="text-2xl font-bold text-slate-800">我的產品</h2>
-          <button
-            onClick={() => navigate('/supplier/tours/new')}
-            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg font-medium transition-colors shadow-sm hover:shadow-md"
-          >
-            + 新增產品
-          </button>
+          <div className="flex gap-3">
+            <ProductExportMenu
+              endpoint="/api/supplier/tours/export"
+              filters={{ destination: filterDestination, category: filterCategory, status: filterStatus }}
+            />
+            <button
+              onClick={() => setShowImportWizard(true)}
+              className="px-4 py-2 bg-white hover:bg-slate-100 text-slate-700 border border-slate-300 rounded-lg font-medium transition-colors shadow-sm"
+            >
+              批次匯入
+            </button>
+            <button
+              onClick={() => navigate('/supplier/tours/new')}
+              className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg font-medium transition-colors shadow-sm hover:shadow-md"
+            >
+              + 新增產品
+            </button>
+          </div>
         </div>
 
         {/* Filter Bar */}
         <FilterBar
           destinations={uniqueDestinations}
           categories={categories}
-          statuses={uniqueStatuses}
+          statuses={statuses}
           filters={{
             destination: filterDestination,
             category: filterCategory,
@@ -222,7 +207,7 @@ const SupplierDashboardPage: React.FC = () => {
           <div className="p-4 bg-red-50 text-red-700 rounded-lg mb-4 border border-red-200">{error}</div>
         )}
 
-        {!loading && !error && products.length === 0 && (
+        {!loading && !error && products.length === 0 && !hasFilters && (
           <div className="text-center p-12 bg-white rounded-xl shadow-sm border border-slate-200">
             <p className="text-slate-500 mb-4 text-lg">尚無產品</p>
             <button
@@ -234,7 +219,7 @@ const SupplierDashboardPage: React.FC = () => {
           </div>
         )}
 
-        {!loading && !error && products.length > 0 && (
+        {!loading && !error && (products.length > 0 || hasFilters) && (
           <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
             <table className="w-full border-collapse">
               <thead>
@@ -273,7 +258,7 @@ const SupplierDashboardPage: React.FC = () => {
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-100">
-                {filteredProducts.map((product) => (
+                {products.map((product) => (
                   <tr key={product.id} className="hover:bg-slate-50 transition-colors">
                     <td className="px-6 py-4 text-slate-700 font-medium">{product.title}</td>
                     <td className="px-6 py-4 text-slate-600">{product.destination}</td>
@@ -306,16 +291,30 @@ const SupplierDashboardPage: React.FC = () => {
                 ))}
               </tbody>
             </table>
-            {filteredProducts.length === 0 && products.length > 0 && (
+            {products.length === 0 && (
               <p className="p-8 text-center text-slate-500">沒有符合篩選條件的產品</p>
             )}
           </div>
         )}
+
+        {!loading && !error && products.length > 0 && pageInfo && (
+          <LoadMore
+            hasMore={pageInfo.hasMore}
+            loading={loadingMore}
+            onLoadMore={loadMore}
+            loadedCount={products.length}
+            totalCount={pageInfo.totalCount}
+          />
+        )}
           </>
         ) : (
           <SupplierTripList />
         )}
       </main>
+
+      {showImportWizard && (
+        <ProductImportWizard onClose={() => setShowImportWizard(false)} onImported={fetchProducts} />
+      )}
     </div>
   );
 };
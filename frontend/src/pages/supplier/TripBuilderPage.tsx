@@ -8,6 +8,9 @@ import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, us
 import { SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import CustomSelect from '../../components/ui/CustomSelect';
+import ConflictDialog from '../../components/ConflictDialog';
+import { mergeByKey, mergeValue } from '../../utils/merge';
+import { fetchAllPages } from '../../utils/pagination';
 
 interface Product {
   id: string;
@@ -40,6 +43,17 @@ interface TripDay {
   items: TripDayItem[];
 }
 
+const withLocalIds = (days: any[]): TripDay[] => days.map((d: any) => ({
+  ...d,
+  items: d.items ? d.items.map((i: any) => ({ ...i, localId: Math.random().toString(36).substr(2, 9) })) : []
+}));
+
+// localId is client-only, so it must not count as a change when merging
+const withoutLocalIds = (days: TripDay[]): TripDay[] => days.map(d => ({
+  ...d,
+  items: d.items.map(({ localId, ...item }) => item)
+}));
+
 function SortableItem({ id, dayIndex, itemIndex, product, handleRemoveItem, reorderItems, totalItems }: any) {
   const {
     attributes,
@@ -108,6 +122,11 @@ export default function TripBuilderPage() {
   const [tripStatus, setTripStatus] = useState<string>('草稿');
   const [rejectionReason, setRejectionReason] = useState<string | null>(null);
 
+  // Last saved server copy, used for If-Match and for merging on conflict
+  const versionRef = useRef<number | null>(null);
+  const baseRef = useRef<any>(null);
+  const [conflictTrip, setConflictTrip] = useState<any>(null);
+
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
@@ -122,36 +141,37 @@ export default function TripBuilderPage() {
 
   const fetchProducts = async () => {
     try {
-      const res = await axios.get('/api/supplier/tours');
-      setProducts(res.data);
+      setProducts(await fetchAllPages('/api/supplier/tours'));
     } catch (err) {
       console.error(err);
     }
   };
 
+  const applyTrip = (trip: any) => {
+    versionRef.current = trip.version ?? null;
+    baseRef.current = trip;
+    setName(trip.name);
+    setDestination(trip.destination || '');
+    setCategory(trip.category || '團體旅遊');
+    setDaysCount(trip.daysCount);
+    setDaysCountInput(String(trip.daysCount));
+    setTripStatus(trip.status);
+    setRejectionReason(trip.rejectionReason || null);
+    setDays(trip.days.length ? withLocalIds(trip.days) : [{
+      dayIndex: 1,
+      breakfastId: null, breakfastCustom: null,
+      lunchId: null, lunchCustom: null,
+      dinnerId: null, dinnerCustom: null,
+      hotelId: null, hotelCustom: null,
+      notes: '', items: []
+    }]);
+  };
+
   const fetchTrip = async () => {
     try {
       setLoading(true);
       const res = await axios.get(`/api/supplier/trips/${id}`);
-      const trip = res.data;
-      setName(trip.name);
-      setDestination(trip.destination || '');
-      setCategory(trip.category || '團體旅遊');
-      setDaysCount(trip.daysCount);
-      setDaysCountInput(String(trip.daysCount));
-      setTripStatus(trip.status);
-      setRejectionReason(trip.rejectionReason || null);
-      setDays(trip.days.length ? trip.days.map((d: any) => ({
-        ...d,
-        items: d.items ? d.items.map((i: any) => ({ ...i, localId: Math.random().toString(36).substr(2, 9) })) : []
-      })) : [{
-        dayIndex: 1,
-        breakfastId: null, breakfastCustom: null,
-        lunchId: null, lunchCustom: null,
-        dinnerId: null, dinnerCustom: null,
-        hotelId: null, hotelCustom: null,
-        notes: '', items: []
-      }]);
+      applyTrip(res.data);
     } catch (err: any) {
       setError('載入行程失敗');
     } finally {
@@ -313,7 +333,7 @@ export default function TripBuilderPage() {
 
   const isSubmitForReviewRef = useRef(false);
 
-  const saveTrip = async () => {
+  const saveTrip = async (expectedVersion: number | null = versionRef.current) => {
     try {
       if (!name) {
         alert('請填寫行程名稱');
@@ -339,7 +359,8 @@ export default function TripBuilderPage() {
       };
 
       if (isEditing) {
-        await axios.put(`/api/supplier/trips/${id}`, payload);
+        const headers = expectedVersion !== null ? { 'If-Match': `"${expectedVersion}"` } : undefined;
+        await axios.put(`/api/supplier/trips/${id}`, payload, { headers });
       } else {
         await axios.post('/api/supplier/trips', payload);
       }
@@ -351,6 +372,10 @@ export default function TripBuilderPage() {
 
       navigate('/supplier/dashboard?tab=trips');
     } catch (err: any) {
+      if (err.response?.status === 409 && err.response.data?.current) {
+        setConflictTrip(err.response.data.current);
+        return;
+      }
       setError(err.response?.data?.error || '儲存行程失敗');
     } finally {
       setSaving(false);
@@ -362,7 +387,9 @@ export default function TripBuilderPage() {
     if (!isEditing) return;
     try {
       setSaving(true);
-      await axios.put(`/api/supplier/trips/${id}/status`, { status: newStatus });
+      const res = await axios.put(`/api/supplier/trips/${id}/status`, { status: newStatus });
+      // Status changes bump the version too; keep the next save from conflicting with itself
+      versionRef.current = res.data.version ?? versionRef.current;
       setTripStatus(newStatus);
       if (newStatus === '草稿') setRejectionReason(null);
       alert(newStatus === '審核中' ? '已提交審核' : (newStatus === '草稿' ? '行程已撤回至草稿' : '已更新狀態'));
@@ -398,6 +425,41 @@ export default function TripBuilderPage() {
     }
   };
 
+  const handleConflictReload = () => {
+    applyTrip(conflictTrip);
+    setConflictTrip(null);
+  };
+
+  const handleConflictOverwrite = () => {
+    const current = conflictTrip;
+    setConflictTrip(null);
+    saveTrip(current.version);
+  };
+
+  const handleConflictMerge = () => {
+    const current = conflictTrip;
+    const base = baseRef.current || current;
+
+    const mergedDays = mergeByKey(
+      withoutLocalIds(base.days || []),
+      withoutLocalIds(days),
+      withoutLocalIds(current.days || []),
+      d => d.dayIndex
+    ).sort((a, b) => a.dayIndex - b.dayIndex);
+
+    setName(mergeValue(base.name, name, current.name));
+    setDestination(mergeValue(base.destination || '', destination, current.destination || ''));
+    setCategory(mergeValue(base.category || '團體旅遊', category, current.category || '團體旅遊'));
+    setDays(withLocalIds(mergedDays));
+    setDaysCount(mergedDays.length);
+    setDaysCountInput(String(mergedDays.length));
+    setTripStatus(current.status);
+    versionRef.current = current.version;
+    baseRef.current = current;
+    setConflictTrip(null);
+    alert('已合併變更，請檢查後再儲存');
+  };
+
   const handleSaveAndSubmitForReview = () => {
     const allProductIdsInTrip: string[] = [];
     days.forEach(d => {
@@ -694,7 +756,7 @@ export default function TripBuilderPage() {
       <DraftStatusFooter
         status={tripStatus}
         rejectionReason={rejectionReason}
-        onSaveDraft={saveTrip}
+        onSaveDraft={() => saveTrip()}
         onSubmitForReview={submitForReview}
         onSaveAndSubmitForReview={handleSaveAndSubmitForReview}
         onWithdraw={() => handleStatusUpdate('草稿')}
@@ -702,6 +764,15 @@ export default function TripBuilderPage() {
         itemType="行程"
       />
 
+      <ConflictDialog
+        isOpen={!!conflictTrip}
+        itemLabel="行程"
+        onReload={handleConflictReload}
+        onOverwrite={handleConflictOverwrite}
+        onMerge={handleConflictMerge}
+        onClose={() => setConflictTrip(null)}
+      />
+
       {/* New Product Inline Modal */}
       {showNewProductModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -1,9 +1,18 @@
+// WebP variants of a cover image; older uploads repeat the original URL in every field
+export interface CoverImage {
+    original: string;
+    thumbnail: string; // 160x120
+    card: string; // 640x480
+    hero: string; // up to 1920x1080
+}
+
 export interface Product {
     id: string;
     title: string;
     destination: string;
     category: string;
     coverImageUrl: string;
+    coverImage?: CoverImage | null;
     netPrice: number;
     supplierName: string;
     productType: 'landmark' | 'accommodation' | 'food' | 'transportation';
@@ -14,6 +23,7 @@ export interface Product {
     };
     timelineId?: string;
     startTime?: string; // Format: "HH:mm"
+    timePinned?: boolean; // startTime fixed by the agent; kept by time recalculation and stop-order optimization
     duration?: number; // Duration in minutes
     description?: string;
     hasShopping?: boolean;
@@ -64,3 +74,25 @@ export interface TimelineDay {
     routeInfo?: RouteInfo;
 }
 
+
+// Returned by /api/itinerary/validate and /api/itinerary/:id/validate
+export interface FeasibilityIssue {
+    dayNumber: number;
+    type: 'overlap' | 'transfer' | 'day_too_long' | 'missing_hotel' | 'missing_meal' | 'closed';
+    severity: 'error' | 'warning';
+    message: string;
+    timelineIds?: string[]; // One item for closed items, the two items for overlap/transfer
+    field?: 'breakfast' | 'lunch' | 'dinner' | 'hotel';
+}
+
+// Returned by /api/itinerary/optimize-day
+export interface DayOrderProposal {
+    dayNumber: number;
+    order: string[]; // timelineIds in the proposed order
+    changed: boolean;
+    before: { distanceValue: number; durationValue: number };
+    after: { distanceValue: number; durationValue: number };
+}
+
+// Stage of an itinerary; changed only through POST /api/itinerary/:id/status
+export type ItineraryStatus = 'draft' | 'quoted' | 'confirmed' | 'travelling' | 'completed';
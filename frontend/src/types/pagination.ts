@@ -0,0 +1,16 @@
+export type SortOrder = 'asc' | 'desc';
+
+export interface PageInfo {
+    totalCount: number; // Rows matching the filters, across all pages
+    limit: number;
+    sort: string;
+    order: SortOrder;
+    hasMore: boolean;
+    nextCursor: string | null; // Sent back as ?cursor= for the next page
+}
+
+// Response envelope of the paginated list endpoints
+export interface Page<T> {
+    items: T[];
+    pageInfo: PageInfo;
+}
@@ -0,0 +1,33 @@
+import { ItineraryStatus } from '../types/itinerary';
+
+// Workflow order, as the stage tabs show it
+export const ITINERARY_STATUSES: ItineraryStatus[] = ['draft', 'quoted', 'confirmed', 'travelling', 'completed'];
+
+export const STATUS_LABELS: Record<ItineraryStatus, string> = {
+  draft: '草稿',
+  quoted: '已報價',
+  confirmed: '已確認',
+  travelling: '旅行中',
+  completed: '已完成',
+};
+
+export const STATUS_BADGE_CLASSES: Record<ItineraryStatus, string> = {
+  draft: 'bg-slate-50 text-slate-500 ring-slate-200',
+  quoted: 'bg-amber-50 text-amber-600 ring-amber-600/20',
+  confirmed: 'bg-blue-50 text-blue-600 ring-blue-600/20',
+  travelling: 'bg-green-50 text-green-600 ring-green-600/20',
+  completed: 'bg-slate-100 text-slate-600 ring-slate-300',
+};
+
+// Stages each stage can move to; mirrors the backend's ITINERARY_STATUS_TRANSITIONS
+export const STATUS_TRANSITIONS: Record<ItineraryStatus, ItineraryStatus[]> = {
+  draft: ['quoted'],
+  quoted: ['draft', 'confirmed'],
+  confirmed: ['quoted', 'travelling'],
+  travelling: ['completed'],
+  completed: [],
+};
+
+// From confirmation on, the timeline and dates can no longer be edited
+export const isItineraryLocked = (status: ItineraryStatus | null | undefined): boolean =>
+  status === 'confirmed' || status === 'travelling' || status === 'completed';
@@ -0,0 +1,55 @@
+/**
+ * Three-way merge helpers for resolving save conflicts.
+ * `base` is the copy the user started editing from, `local` is their working
+ * copy and `remote` is what someone else saved in the meantime.
+ */
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Keep the remote value unless the user changed it locally
+ */
+export const mergeValue = <T>(base: T, local: T, remote: T): T =>
+  isEqual(local, base) ? remote : local;
+
+/**
+ * Merge a keyed list entry by entry.
+ * Entries only one side touched take that side's version; entries both sides
+ * changed keep the local version. Additions from either side are kept and a
+ * deletion wins only if the other side left the entry untouched.
+ */
+export const mergeByKey = <T>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  keyOf: (item: T) => string | number
+): T[] => {
+  const baseMap = new Map(base.map(item => [keyOf(item), item]));
+  const localMap = new Map(local.map(item => [keyOf(item), item]));
+  const remoteMap = new Map(remote.map(item => [keyOf(item), item]));
+  const merged: T[] = [];
+
+  for (const localItem of local) {
+    const key = keyOf(localItem);
+    const baseItem = baseMap.get(key);
+    const remoteItem = remoteMap.get(key);
+
+    if (remoteItem === undefined) {
+      // Deleted remotely: drop it unless we edited it
+      if (baseItem === undefined || !isEqual(localItem, baseItem)) merged.push(localItem);
+    } else {
+      merged.push(baseItem === undefined ? localItem : mergeValue(baseItem, localItem, remoteItem));
+    }
+  }
+
+  for (const remoteItem of remote) {
+    const key = keyOf(remoteItem);
+    if (localMap.has(key)) continue;
+
+    const baseItem = baseMap.get(key);
+    // Added remotely, or deleted locally but edited remotely
+    if (baseItem === undefined || !isEqual(remoteItem, baseItem)) merged.push(remoteItem);
+  }
+
+  return merged;
+};
@@ -0,0 +1,23 @@
+import axios from '../config/axios';
+import { Page } from '../types/pagination';
+
+// Largest page the list endpoints return
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Fetch every page of a paginated list endpoint.
+ * For pickers that need the whole working set (e.g. the planner's product library);
+ * lists shown to the user should page with usePaginatedList instead.
+ */
+export const fetchAllPages = async <T>(endpoint: string, params: Record<string, string | number> = {}): Promise<T[]> => {
+  const items: T[] = [];
+  let cursor: string | null | undefined;
+
+  do {
+    const response = await axios.get<Page<T>>(endpoint, { params: { ...params, limit: MAX_PAGE_SIZE, cursor } });
+    items.push(...response.data.items);
+    cursor = response.data.pageInfo.nextCursor;
+  } while (cursor);
+
+  return items;
+};
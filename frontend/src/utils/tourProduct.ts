@@ -0,0 +1,17 @@
+import { Product } from '../types/itinerary';
+
+const categoryToType: Record<string, Product['productType']> = {
+  'landmark': 'landmark',
+  'accommodation': 'accommodation',
+  'food': 'food',
+  'transportation': 'transportation'
+};
+
+/**
+ * Map a published tour from /api/agency/tours to the planner's product shape
+ */
+export const toPlannerProduct = (p: any): Product => ({
+  ...p,
+  productType: categoryToType[p.category] || 'landmark',
+  location: p.latitude && p.longitude ? { lat: p.latitude, lng: p.longitude } : undefined,
+});